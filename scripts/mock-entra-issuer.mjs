@@ -0,0 +1,180 @@
+// A stand-in for Microsoft Entra ID when testing sign-in against a local
+// Supabase stack (`supabase start`). It serves the v2.0 endpoints the azure
+// provider calls and issues signed ID tokens for whatever user, tenant and
+// groups are entered on its sign-in page.
+//
+//   npm run mock:entra
+//
+// Then, in supabase/config.toml of the local stack:
+//
+//   [auth.external.azure]
+//   enabled = true
+//   client_id = "mock-client"
+//   secret = "mock-secret"
+//   url = "http://host.docker.internal:8089/<tenant-id>"
+//
+// and add the tenant id to public.entra_tenant to exercise the tenant check,
+// or map one of the groups in public.entra_group_role to check the roles.
+//
+// Environment: MOCK_ENTRA_PORT (default 8089) and MOCK_ENTRA_HOST, a name both
+// the browser and the auth server container resolve to this machine (default
+// host.docker.internal, which Docker Desktop maps on the host as well).
+
+import { createServer } from 'node:http';
+import { createHash, createSign, generateKeyPairSync, randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_ENTRA_PORT || 8089);
+const HOST = process.env.MOCK_ENTRA_HOST || 'host.docker.internal';
+const DEFAULT_TENANT = '00000000-0000-4000-8000-000000000001';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = randomUUID();
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' };
+
+// Authorization codes waiting to be exchanged at the token endpoint
+const codes = new Map();
+
+const base64url = value => Buffer.from(value).toString('base64url');
+
+const signJwt = claims => {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = createSign('RSA-SHA256').update(`${header}.${payload}`).sign(privateKey, 'base64url');
+  return `${header}.${payload}.${signature}`;
+};
+
+const issuerFor = tenant => `http://${HOST}:${PORT}/${tenant}/v2.0`;
+
+const send = (res, status, body, type = 'application/json') => {
+  res.writeHead(status, { 'Content-Type': type, 'Cache-Control': 'no-store' });
+  res.end(type === 'application/json' ? JSON.stringify(body) : body);
+};
+
+const readForm = req => new Promise((resolve, reject) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(new URLSearchParams(body)));
+  req.on('error', reject);
+});
+
+const escapeHtml = value => String(value).replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]));
+
+// The page the browser lands on instead of Microsoft's sign-in
+const signInPage = (query, tenant) => `<!doctype html>
+<html><head><title>Mock Entra ID</title></head>
+<body style="font-family: sans-serif; max-width: 420px; margin: 40px auto">
+  <h2>Mock Entra ID sign-in</h2>
+  <form method="post">
+    ${[...query].map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`).join('')}
+    <p><label>Email<br><input name="email" value="engineer@example.com" size="40"></label></p>
+    <p><label>Name<br><input name="name" value="Plant Engineer" size="40"></label></p>
+    <p><label>Tenant id (tid)<br><input name="tid" value="${escapeHtml(tenant)}" size="40"></label></p>
+    <p><label>Group ids, comma separated<br><input name="groups" value="" size="40"></label></p>
+    <button type="submit">Sign in</button>
+  </form>
+</body></html>`;
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const [, tenant = DEFAULT_TENANT, ...rest] = url.pathname.split('/');
+  const route = `/${rest.join('/')}`;
+
+  try {
+    if (route === '/v2.0/.well-known/openid-configuration') {
+      const root = `http://${HOST}:${PORT}/${tenant}`;
+      return send(res, 200, {
+        issuer: issuerFor(tenant),
+        authorization_endpoint: `${root}/oauth2/v2.0/authorize`,
+        token_endpoint: `${root}/oauth2/v2.0/token`,
+        userinfo_endpoint: `${root}/oidc/userinfo`,
+        jwks_uri: `${root}/discovery/v2.0/keys`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['pairwise'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        scopes_supported: ['openid', 'profile', 'email', 'offline_access'],
+      });
+    }
+
+    if (route === '/discovery/v2.0/keys') {
+      return send(res, 200, { keys: [jwk] });
+    }
+
+    if (route === '/oauth2/v2.0/authorize' && req.method === 'GET') {
+      return send(res, 200, signInPage(url.searchParams, tenant), 'text/html');
+    }
+
+    if (route === '/oauth2/v2.0/authorize' && req.method === 'POST') {
+      const form = await readForm(req);
+      const code = randomUUID();
+      codes.set(code, {
+        tenant,
+        nonce: form.get('nonce'),
+        clientId: form.get('client_id'),
+        user: {
+          email: form.get('email'),
+          name: form.get('name'),
+          tid: form.get('tid'),
+          groups: (form.get('groups') || '').split(',').map(group => group.trim()).filter(Boolean),
+        },
+      });
+
+      const target = new URL(form.get('redirect_uri'));
+      target.searchParams.set('code', code);
+      if (form.get('state')) target.searchParams.set('state', form.get('state'));
+      res.writeHead(302, { Location: target.toString() });
+      return res.end();
+    }
+
+    if (route === '/oauth2/v2.0/token' && req.method === 'POST') {
+      const form = await readForm(req);
+      const grant = codes.get(form.get('code'));
+      if (!grant) return send(res, 400, { error: 'invalid_grant' });
+      codes.delete(form.get('code'));
+
+      const now = Math.floor(Date.now() / 1000);
+      const { user } = grant;
+      // Entra's object id is stable per user, so repeat sign-ins map to the same account
+      const oid = createHash('sha256').update(`${user.tid}:${user.email}`).digest('hex')
+        .replace(/^(.{8})(.{4})(.{4})(.{4})(.{12}).*/, '$1-$2-$3-$4-$5');
+      const claims = {
+        iss: issuerFor(user.tid),
+        aud: grant.clientId || form.get('client_id'),
+        sub: base64url(oid),
+        oid,
+        tid: user.tid,
+        email: user.email,
+        preferred_username: user.email,
+        name: user.name,
+        groups: user.groups,
+        iat: now,
+        nbf: now,
+        exp: now + 3600,
+        ...(grant.nonce ? { nonce: grant.nonce } : {}),
+      };
+
+      return send(res, 200, {
+        token_type: 'Bearer',
+        expires_in: 3600,
+        scope: 'openid profile email offline_access',
+        access_token: signJwt({ ...claims, aud: 'https://graph.microsoft.com' }),
+        id_token: signJwt(claims),
+      });
+    }
+
+    if (route === '/oidc/userinfo') {
+      const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+      const [, payload = ''] = token.split('.');
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString() || '{}');
+      return send(res, 200, { sub: claims.sub, email: claims.email, name: claims.name });
+    }
+
+    send(res, 404, { error: 'not_found' });
+  } catch (err) {
+    console.error(err);
+    send(res, 500, { error: 'server_error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Entra ID issuer on http://localhost:${PORT}/${DEFAULT_TENANT}/v2.0`);
+});
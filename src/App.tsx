@@ -1,11 +1,19 @@
-import { createBrowserRouter, RouterProvider, Navigate } from 'react-router-dom';
-import { createClient } from '@supabase/supabase-js';
-import { SessionContextProvider, useSession } from '@supabase/auth-helpers-react';
+import { createBrowserRouter, RouterProvider, Navigate, useLocation } from 'react-router-dom';
+import { useSessionContext } from '@supabase/auth-helpers-react';
+import { Loader2 } from 'lucide-react';
+import { AuthProvider } from './components/AuthProvider';
 import { ThemeProvider } from './components/ThemeProvider';
+import { PreferencesProvider } from './components/PreferencesProvider';
 import { Layout } from './components/layout/Layout';
 import { Dashboard } from './pages/Dashboard';
 import { Settings } from './pages/Settings';
+import { Sustainability } from './pages/Sustainability';
+import { AuditLog } from './pages/AuditLog';
+import { Notifications } from './pages/Notifications';
+import { Alarms } from './pages/Alarms';
+import { PlantExplorer } from './pages/PlantExplorer';
 import { Login } from './pages/Login';
+import { SetPassword } from './pages/SetPassword';
 import { DataEntry } from './pages/data-entry/DataEntry';
 import { CompanyList } from './pages/data-entry/CompanyList';
 import { CountryList } from './pages/data-entry/CountryList';
@@ -14,19 +22,39 @@ import { DistrictList } from './pages/data-entry/DistrictList';
 import { LineTypeList } from './pages/data-entry/LineTypeList';
 import { LineList } from './pages/data-entry/LineList';
 import { MachineList } from './pages/data-entry/MachineList';
+import { MachineSequence } from './pages/data-entry/MachineSequence';
 import { KpiList } from './pages/data-entry/KpiList';
-
-const supabase = createClient(
-  import.meta.env.VITE_SUPABASE_URL,
-  import.meta.env.VITE_SUPABASE_ANON_KEY
-);
+import { EnergyConsumptionList } from './pages/data-entry/EnergyConsumptionList';
+import { UtilityRateList } from './pages/data-entry/UtilityRateList';
+import { HierarchyImport } from './pages/data-entry/HierarchyImport';
+import { SET_PASSWORD_PATH, loginPath, useAuth, usePermissions } from './lib/auth';
+import { Permission } from './lib/permissions';
+import { usePreferences } from './lib/preferences';
 
 // Protected route wrapper component
-const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
-  const session = useSession();
-  
+const ProtectedRoute = ({ children, permission }: { children: React.ReactNode; permission?: Permission }) => {
+  const { session, isLoading } = useSessionContext();
+  const { accessLoading } = useAuth();
+  const { can } = usePermissions();
+  const { preferencesLoading } = usePreferences();
+  const location = useLocation();
+
+  // Wait for the stored session, the user's role and their preferences to be
+  // restored before deciding to redirect or rendering pages that depend on them
+  if (isLoading || accessLoading || preferencesLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
   if (!session) {
-    return <Navigate to="/login" replace />;
+    return <Navigate to={loginPath(location.pathname + location.search)} replace />;
+  }
+
+  if (permission && !can(permission)) {
+    return <Navigate to="/" replace />;
   }
   
   return <>{children}</>;
@@ -42,7 +70,19 @@ const router = createBrowserRouter([
     ),
     children: [
       { path: '/', element: <Dashboard /> },
+      { path: '/plant-explorer', element: <PlantExplorer /> },
       { path: '/settings', element: <Settings /> },
+      { path: '/sustainability', element: <Sustainability /> },
+      { path: '/notifications', element: <Notifications /> },
+      { path: '/alarms', element: <Alarms /> },
+      {
+        path: '/audit-log',
+        element: (
+          <ProtectedRoute permission="audit:view">
+            <AuditLog />
+          </ProtectedRoute>
+        ),
+      },
       { path: '/data-entry', element: <DataEntry /> },
       { path: '/data-entry/companies', element: <CompanyList /> },
       { path: '/data-entry/countries', element: <CountryList /> },
@@ -51,22 +91,39 @@ const router = createBrowserRouter([
       { path: '/data-entry/line-types', element: <LineTypeList /> },
       { path: '/data-entry/lines', element: <LineList /> },
       { path: '/data-entry/machines', element: <MachineList /> },
+      { path: '/data-entry/machine-sequence', element: <MachineSequence /> },
       { path: '/data-entry/kpis', element: <KpiList /> },
+      { path: '/data-entry/energy-consumption', element: <EnergyConsumptionList /> },
+      { path: '/data-entry/utility-rates', element: <UtilityRateList /> },
+      {
+        path: '/data-entry/import',
+        element: (
+          <ProtectedRoute permission="data:write">
+            <HierarchyImport />
+          </ProtectedRoute>
+        ),
+      },
     ],
   },
   {
     path: '/login',
     element: <Login />,
   },
+  {
+    path: SET_PASSWORD_PATH,
+    element: <SetPassword />,
+  },
 ]);
 
 function App() {
   return (
-    <SessionContextProvider supabaseClient={supabase}>
-      <ThemeProvider>
-        <RouterProvider router={router} />
-      </ThemeProvider>
-    </SessionContextProvider>
+    <AuthProvider>
+      <PreferencesProvider>
+        <ThemeProvider>
+          <RouterProvider router={router} />
+        </ThemeProvider>
+      </PreferencesProvider>
+    </AuthProvider>
   );
 }
 
@@ -0,0 +1,76 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SessionContextProvider, useSessionContext } from '@supabase/auth-helpers-react';
+import { supabase } from '../lib/supabase';
+import { AuthContext } from '../lib/auth';
+import { AccessProfile, DEFAULT_ACCESS, fetchAccessProfile } from '../lib/permissions';
+
+const AuthStateProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { session } = useSessionContext();
+  const userId = session?.user.id ?? null;
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const [loaded, setLoaded] = useState<{ userId: string; access: AccessProfile } | null>(null);
+  const signingOut = useRef(false);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_IN') {
+        setSessionExpired(false);
+      } else if (event === 'SIGNED_OUT') {
+        setSessionExpired(!signingOut.current);
+        signingOut.current = false;
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Role and company scope follow the signed-in user. A failed lookup leaves
+  // the user read-only with no companies rather than blocking the app.
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    fetchAccessProfile(supabase, userId)
+      .catch((err) => {
+        console.error('Error loading user access:', err);
+        return DEFAULT_ACCESS;
+      })
+      .then((access) => {
+        if (!cancelled) setLoaded({ userId, access });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const current = loaded && loaded.userId === userId ? loaded.access : null;
+
+  const signOut = async () => {
+    signingOut.current = true;
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      signingOut.current = false;
+      throw error;
+    }
+  };
+
+  return (
+    <AuthContext.Provider
+      value={{
+        sessionExpired,
+        access: current || DEFAULT_ACCESS,
+        accessLoading: !!userId && !current,
+        signOut,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <SessionContextProvider supabaseClient={supabase}>
+    <AuthStateProvider>{children}</AuthStateProvider>
+  </SessionContextProvider>
+);
@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { Button, Menu, MenuItem } from '@mui/material';
+import { EXPORT_FORMATS, ExportFormat, ExportTable, exportTable } from '../lib/exportTable';
+
+interface ExportMenuProps {
+  // Builds the table to export; called on demand so it can read every
+  // matching row rather than just the page on screen
+  load: () => Promise<ExportTable> | ExportTable;
+  onError: (message: string) => void;
+  disabled?: boolean;
+}
+
+export function ExportMenu({ load, onError, disabled }: ExportMenuProps) {
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setAnchor(null);
+
+    try {
+      setExporting(true);
+      await exportTable(await load(), format);
+    } catch (err) {
+      console.error('Error exporting table:', err);
+      onError('Failed to export. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        onClick={(e) => setAnchor(e.currentTarget)}
+        disabled={disabled || exporting}
+      >
+        Export
+      </Button>
+      <Menu anchorEl={anchor} open={!!anchor} onClose={() => setAnchor(null)}>
+        {EXPORT_FORMATS.map(format => (
+          <MenuItem key={format.value} onClick={() => handleExport(format.value)}>
+            {format.label}
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+}
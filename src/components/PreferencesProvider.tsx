@@ -0,0 +1,69 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useSessionContext } from '@supabase/auth-helpers-react';
+import { supabase } from '../lib/supabase';
+import {
+  Preferences, PreferencesContext, cachePreferences, fetchPreferences,
+  loadCachedPreferences, savePreferences
+} from '../lib/preferences';
+
+export const PreferencesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { session } = useSessionContext();
+  const userId = session?.user.id ?? null;
+  const [preferences, setPreferences] = useState<Preferences>(() => loadCachedPreferences(userId));
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  // Read by updatePreferences so quick successive changes build on each other
+  const current = useRef(preferences);
+
+  const apply = useCallback((next: Preferences, cacheFor: string | null) => {
+    current.current = next;
+    setPreferences(next);
+    if (cacheFor) cachePreferences(cacheFor, next);
+  }, []);
+
+  // Switching user, including signing out, starts from that user's cache or
+  // the defaults. Their saved preferences then replace the cached ones; a
+  // user who has never saved any gets the defaults saved for them.
+  useEffect(() => {
+    apply(loadCachedPreferences(userId), null);
+    if (!userId) return;
+    let cancelled = false;
+
+    fetchPreferences(supabase, userId)
+      .then(async (saved) => {
+        if (cancelled) return;
+        if (saved) {
+          apply(saved, userId);
+        } else {
+          await savePreferences(supabase, userId, current.current);
+        }
+      })
+      .catch((err) => {
+        console.error('Error loading preferences:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedFor(userId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, apply]);
+
+  const updatePreferences = async (changes: Partial<Preferences>) => {
+    const next = { ...current.current, ...changes };
+    apply(next, userId);
+    if (userId) await savePreferences(supabase, userId, next);
+  };
+
+  return (
+    <PreferencesContext.Provider
+      value={{
+        preferences,
+        preferencesLoading: !!userId && loadedFor !== userId,
+        updatePreferences,
+      }}
+    >
+      {children}
+    </PreferencesContext.Provider>
+  );
+};
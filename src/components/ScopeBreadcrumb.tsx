@@ -0,0 +1,29 @@
+import { Fragment } from 'react';
+import { ChevronRight } from 'lucide-react';
+import { ScopeStep } from '../lib/plantTree';
+
+interface ScopeBreadcrumbProps {
+  path: ScopeStep[];
+  onSelect: (step: ScopeStep) => void;
+}
+
+// Country › City › District › Line › Machine, each step selectable
+export function ScopeBreadcrumb({ path, onSelect }: ScopeBreadcrumbProps) {
+  return (
+    <nav className="flex flex-wrap items-center gap-1 text-sm">
+      {path.map((step, index) => (
+        <Fragment key={`${step.level}:${step.id}`}>
+          {index > 0 && <ChevronRight className="w-4 h-4 text-secondary" />}
+          <button
+            onClick={() => onSelect(step)}
+            className={`hover:underline ${
+              index === path.length - 1 ? 'font-semibold text-primary' : 'text-secondary'
+            }`}
+          >
+            {step.name}
+          </button>
+        </Fragment>
+      ))}
+    </nav>
+  );
+}
@@ -1,22 +1,21 @@
-import React, { useEffect, useState } from 'react';
-import { Theme, ThemeContext } from '../lib/theme';
+import React, { useEffect } from 'react';
+import { ThemeContext } from '../lib/theme';
+import { usePreferences } from '../lib/preferences';
 
+// The theme is one of the user's preferences, so it follows them between machines
 export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [theme, setTheme] = useState<Theme>(() => {
-    const stored = localStorage.getItem('theme');
-    if (stored === 'dark' || stored === 'light') return stored;
-    return window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light';
-  });
+  const { preferences: { theme }, updatePreferences } = usePreferences();
 
   useEffect(() => {
     const root = window.document.documentElement;
     root.classList.remove('light', 'dark');
     root.classList.add(theme);
-    localStorage.setItem('theme', theme);
   }, [theme]);
 
   const toggleTheme = () => {
-    setTheme(prev => prev === 'light' ? 'dark' : 'light');
+    updatePreferences({ theme: theme === 'light' ? 'dark' : 'light' }).catch((err) => {
+      console.error('Error saving theme:', err);
+    });
   };
 
   return (
@@ -0,0 +1,274 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSupabaseClient } from '@supabase/auth-helpers-react';
+import { Database } from '../../types/database';
+import { AlertCircle, Check, CheckCircle, Loader2, MessageSquare, UserPlus, X } from 'lucide-react';
+import {
+  Button, Dialog, DialogActions, DialogContent, DialogTitle, FormControl, InputLabel,
+  MenuItem, Select, TextField
+} from '@mui/material';
+import {
+  Alarm, AlarmActivity, fetchAlarm, fetchAlarmActivity, fetchAlarmAssignees, updateAlarm
+} from '../../lib/alarms';
+import { alertScopeName } from '../../lib/alerts';
+import { utilityLabel } from '../../lib/energy';
+import { useTableChanges } from '../../lib/realtime';
+import { UtilityType } from '../../types';
+import { AlarmStatusBadge } from './AlarmStatusBadge';
+
+// "Acknowledged by ana@example.com", or who the system acted for
+const describeActivity = (activity: AlarmActivity) => {
+  const by = activity.user_email ? ` by ${activity.user_email}` : '';
+  switch (activity.action) {
+    case 'raised':
+      return 'Alarm raised';
+    case 'acknowledged':
+      return `Acknowledged${by}`;
+    case 'assigned':
+      return `Assigned to ${activity.target_email}${by}`;
+    case 'commented':
+      return `Comment${by}`;
+    case 'escalated':
+      return `Escalated to ${activity.target_email}`;
+    case 'cleared':
+      return 'Consumption left the alarm level';
+    case 'resolved':
+      return `Resolved${by}`;
+    default:
+      return activity.action;
+  }
+};
+
+interface AlarmDialogProps {
+  alarmId: string | null;
+  onClose: () => void;
+}
+
+// One alarm with its log, and the steps that move it from raised to
+// acknowledged to resolved
+export function AlarmDialog({ alarmId, onClose }: AlarmDialogProps) {
+  const supabase = useSupabaseClient<Database>();
+  const [alarm, setAlarm] = useState<Alarm | null>(null);
+  const [activity, setActivity] = useState<AlarmActivity[]>([]);
+  const [assignees, setAssignees] = useState<{ id: string; email: string }[]>([]);
+  const [assignee, setAssignee] = useState('');
+  const [comment, setComment] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadAlarm = useCallback(async () => {
+    if (!alarmId) return;
+    try {
+      const [found, log] = await Promise.all([
+        fetchAlarm(supabase, alarmId),
+        fetchAlarmActivity(supabase, alarmId),
+      ]);
+      if (!found) {
+        setError('This alarm no longer exists or belongs to a factory you cannot access');
+      }
+      setAlarm(found);
+      setActivity(log);
+    } catch (err) {
+      console.error('Error fetching alarm:', err);
+      setError('Failed to load the alarm. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase, alarmId]);
+
+  useEffect(() => {
+    setAlarm(null);
+    setActivity([]);
+    setAssignees([]);
+    setAssignee('');
+    setComment('');
+    setError(null);
+    setSuccess(null);
+    setLoading(true);
+    loadAlarm();
+  }, [loadAlarm]);
+
+  useEffect(() => {
+    if (!alarmId) return;
+    fetchAlarmAssignees(supabase, alarmId)
+      .then(setAssignees)
+      .catch(err => console.error('Error fetching alarm assignees:', err));
+  }, [supabase, alarmId]);
+
+  useTableChanges(['alarm', 'alarm_activity'], loadAlarm);
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const runAction = async (
+    action: 'acknowledge' | 'assign' | 'comment' | 'resolve',
+    message: string,
+    options: { comment?: string; assignee?: string } = {}
+  ) => {
+    if (!alarmId) return;
+    try {
+      setSaving(true);
+      setError(null);
+      await updateAlarm(supabase, alarmId, action, options);
+      setComment('');
+      setAssignee('');
+      showSuccess(message);
+      loadAlarm();
+    } catch (err) {
+      console.error(`Error updating alarm (${action}):`, err);
+      setError(err instanceof Error ? err.message : 'Failed to update the alarm. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const open = alarm !== null && alarm.status !== 'resolved';
+
+  return (
+    <Dialog open={!!alarmId} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        {alarm
+          ? `${alertScopeName(alarm, 'Factory')}: ${utilityLabel(alarm.utility_type as UtilityType)} alarm`
+          : 'Alarm'}
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+            <AlertCircle className="w-5 h-5" />
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="mb-4 p-4 bg-green-50 text-green-700 rounded-md flex items-center gap-2">
+            <CheckCircle className="w-5 h-5" />
+            {success}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+          </div>
+        ) : alarm && (
+          <div className="space-y-6">
+            <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <dt className="text-gray-500">Status</dt>
+                <dd className="mt-1"><AlarmStatusBadge status={alarm.status} /></dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Raised</dt>
+                <dd className="mt-1">{new Date(alarm.raised_at).toLocaleString()}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Assigned to</dt>
+                <dd className="mt-1">{alarm.assigned_to_email || 'Nobody'}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Consumption</dt>
+                <dd className="mt-1">
+                  {alarm.cleared_at
+                    ? `Back below alarm since ${new Date(alarm.cleared_at).toLocaleString()}`
+                    : 'Still at alarm level'}
+                </dd>
+              </div>
+            </dl>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Alarm Log</h3>
+              <ol className="border-l-2 border-gray-200 ml-2 space-y-4">
+                {activity.map(entry => (
+                  <li key={entry.id} className="ml-4">
+                    <div className="text-sm font-medium text-gray-900">{describeActivity(entry)}</div>
+                    <div className="text-xs text-gray-500">{new Date(entry.created_at).toLocaleString()}</div>
+                    {entry.comment && (
+                      <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">{entry.comment}</p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            {open && (
+              <div className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <FormControl size="small" sx={{ minWidth: 260 }}>
+                    <InputLabel>Assign to</InputLabel>
+                    <Select
+                      value={assignee}
+                      label="Assign to"
+                      onChange={(e) => setAssignee(e.target.value)}
+                    >
+                      {assignees.map(option => (
+                        <MenuItem key={option.id} value={option.id}>{option.email}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  <Button
+                    startIcon={<UserPlus className="w-4 h-4" />}
+                    disabled={saving || !assignee}
+                    onClick={() => runAction('assign', 'Alarm assigned', { assignee, comment })}
+                  >
+                    Assign
+                  </Button>
+                </div>
+                <TextField
+                  label={alarm.status === 'acknowledged' ? 'Comment or resolution' : 'Comment'}
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  multiline
+                  minRows={2}
+                  fullWidth
+                  helperText={alarm.status === 'acknowledged'
+                    ? 'Resolving needs a note of what was done'
+                    : 'Added to the alarm log with the next step, or on its own'}
+                />
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} startIcon={<X />}>
+          Close
+        </Button>
+        {open && (
+          <>
+            <Button
+              startIcon={<MessageSquare className="w-4 h-4" />}
+              disabled={saving || !comment.trim()}
+              onClick={() => runAction('comment', 'Comment added', { comment })}
+            >
+              Add Comment
+            </Button>
+            {alarm.status === 'raised' ? (
+              <Button
+                variant="contained"
+                color="primary"
+                startIcon={<Check />}
+                disabled={saving}
+                onClick={() => runAction('acknowledge', 'Alarm acknowledged', { comment })}
+              >
+                Acknowledge
+              </Button>
+            ) : (
+              <Button
+                variant="contained"
+                color="success"
+                startIcon={<CheckCircle />}
+                disabled={saving || !comment.trim()}
+                onClick={() => runAction('resolve', 'Alarm resolved', { comment })}
+              >
+                Resolve
+              </Button>
+            )}
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
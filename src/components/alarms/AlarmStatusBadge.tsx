@@ -0,0 +1,13 @@
+import { AlarmStatus, alarmStatusLabel } from '../../lib/alarms';
+
+const STATUS_STYLES = {
+  raised: 'bg-red-100 text-red-800',
+  acknowledged: 'bg-yellow-100 text-yellow-800',
+  resolved: 'bg-green-100 text-green-800',
+};
+
+export const AlarmStatusBadge = ({ status }: { status: AlarmStatus }) => (
+  <span className={`px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${STATUS_STYLES[status]}`}>
+    {alarmStatusLabel(status)}
+  </span>
+);
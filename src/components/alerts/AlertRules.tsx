@@ -0,0 +1,578 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSupabaseClient, useUser } from '@supabase/auth-helpers-react';
+import { Database } from '../../types/database';
+import { AlertCircle, CheckCircle, Edit2, Loader2, Plus, Trash2, X } from 'lucide-react';
+import {
+  Button, Dialog, DialogActions, DialogContent, DialogTitle, FormControl, FormControlLabel,
+  FormHelperText, InputLabel, MenuItem, Paper, Select, Switch, Table, TableBody, TableCell,
+  TableHead, TableRow, TextField
+} from '@mui/material';
+import { UTILITY_TYPES, utilityLabel, utilityUnit } from '../../lib/energy';
+import { UtilityType } from '../../types';
+import { unchangedSince, staleRecordMessage } from '../../lib/concurrency';
+import {
+  AlertRule, AlertRuleErrors, AlertRuleForm, THRESHOLD_TYPES, ThresholdType, alertScopeName, emptyAlertRuleForm,
+  fetchAlertRules, formFromRule, reevaluateAlertRules, validateAlertRule, valuesFromForm
+} from '../../lib/alerts';
+
+const thresholdUnit = (thresholdType: string, utilityType: string) =>
+  thresholdType === 'baseline' ? '%' : ` ${utilityUnit(utilityType as UtilityType)}/h`;
+
+const scopeNoun = (rule: Pick<AlertRule, 'company_id' | 'line_id' | 'machine_id'>) => {
+  if (rule.machine_id) return 'This machine';
+  if (rule.line_id) return 'This line';
+  return rule.company_id ? 'This factory' : 'The default rule';
+};
+
+// Energy alert rules for factories, lines and machines, edited by admins in
+// the Notifications tab of Settings. Every change re-evaluates them so the
+// Dashboard reflects it at once.
+export function AlertRules() {
+  const supabase = useSupabaseClient<Database>();
+  const user = useUser();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [companies, setCompanies] = useState<{ id: string; name: string }[]>([]);
+  const [lines, setLines] = useState<{ id: string; name: string; company_id: string }[]>([]);
+  const [machines, setMachines] = useState<{ id: string; name: string; line_id: string }[]>([]);
+  const [users, setUsers] = useState<{ id: string; email: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [openDialog, setOpenDialog] = useState(false);
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
+  const [deletingRule, setDeletingRule] = useState<AlertRule | null>(null);
+  const [formData, setFormData] = useState<AlertRuleForm>(emptyAlertRuleForm);
+  const [validationErrors, setValidationErrors] = useState<AlertRuleErrors>({});
+  const [saving, setSaving] = useState(false);
+
+  const loadRules = useCallback(async () => {
+    try {
+      setRules(await fetchAlertRules(supabase));
+    } catch (err) {
+      console.error('Error fetching alert rules:', err);
+      setError('Failed to load alert rules. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  useEffect(() => {
+    const fetchCompanies = async () => {
+      const { data, error } = await supabase
+        .from('company')
+        .select('id, name')
+        .is('archived_at', null)
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching companies:', error);
+        return;
+      }
+      setCompanies(data || []);
+    };
+
+    const fetchLines = async () => {
+      const { data, error } = await supabase
+        .from('line')
+        .select('id, name, company_id')
+        .is('archived_at', null)
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching lines:', error);
+        return;
+      }
+      setLines(data || []);
+    };
+
+    const fetchMachines = async () => {
+      const { data, error } = await supabase
+        .from('machine')
+        .select('id, name, line_id')
+        .is('archived_at', null)
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching machines:', error);
+        return;
+      }
+      setMachines(data || []);
+    };
+
+    fetchCompanies();
+    fetchLines();
+    fetchMachines();
+  }, [supabase]);
+
+  // Escalation contacts; admins can read every profile
+  useEffect(() => {
+    const fetchUsers = async () => {
+      const { data, error } = await supabase
+        .from('user_profile')
+        .select('id, email')
+        .order('email');
+
+      if (error) {
+        console.error('Error fetching users:', error);
+        return;
+      }
+      setUsers(data || []);
+    };
+
+    fetchUsers();
+  }, [supabase]);
+
+  const userEmail = (userId: string) => users.find(option => option.id === userId)?.email || 'Unknown user';
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const handleFieldChange = <K extends keyof AlertRuleForm>(field: K, value: AlertRuleForm[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setValidationErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  // A narrower scope only makes sense inside the wider one
+  const handleScopeChange = (field: 'company_id' | 'line_id' | 'machine_id', value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: value,
+      ...(field === 'company_id' && { line_id: '', machine_id: '' }),
+      ...(field === 'line_id' && { machine_id: '' }),
+    }));
+    setValidationErrors(prev => ({ ...prev, company_id: undefined }));
+  };
+
+  const scopeLines = lines.filter(line => line.company_id === formData.company_id);
+  const scopeMachines = machines.filter(machine => machine.line_id === formData.line_id);
+
+  const handleAdd = () => {
+    setEditingRule(null);
+    setFormData(emptyAlertRuleForm());
+    setValidationErrors({});
+    setOpenDialog(true);
+  };
+
+  const handleEdit = (rule: AlertRule) => {
+    setEditingRule(rule);
+    setFormData(formFromRule(rule));
+    setValidationErrors({});
+    setOpenDialog(true);
+  };
+
+  const handleCloseDialog = () => {
+    setOpenDialog(false);
+    setEditingRule(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!user) {
+      setError('You must be logged in to perform this action');
+      return;
+    }
+
+    const errors = validateAlertRule(formData);
+    setValidationErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const values = valuesFromForm(formData);
+
+      const { data: saved, error: saveError } = editingRule
+        ? await unchangedSince(
+            supabase
+              .from('alert_rule')
+              .update({ ...values, updated_by: user.id })
+              .eq('id', editingRule.id),
+            editingRule.updated_at
+          ).select('id')
+        : await supabase
+            .from('alert_rule')
+            .insert([{ ...values, created_by: user.id }])
+            .select('id');
+
+      if (saveError) {
+        if (saveError.code === '23505') {
+          setValidationErrors({
+            company_id: `${scopeNoun(values)} already has a ${utilityLabel(values.utility_type as UtilityType).toLowerCase()} rule`,
+          });
+          return;
+        }
+        throw saveError;
+      }
+      if (saved.length === 0) {
+        setError(staleRecordMessage('alert rule'));
+        handleCloseDialog();
+        loadRules();
+        return;
+      }
+
+      await reevaluateAlertRules(supabase);
+      showSuccess(`Alert rule ${editingRule ? 'updated' : 'added'} successfully`);
+      handleCloseDialog();
+      loadRules();
+    } catch (err) {
+      console.error('Error saving alert rule:', err);
+      setError('Failed to save alert rule. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingRule) return;
+
+    try {
+      const { error: deleteError } = await supabase.from('alert_rule').delete().eq('id', deletingRule.id);
+      if (deleteError) throw deleteError;
+
+      await reevaluateAlertRules(supabase);
+      showSuccess('Alert rule deleted successfully');
+      loadRules();
+    } catch (err) {
+      console.error('Error deleting alert rule:', err);
+      setError('Failed to delete alert rule. Please try again.');
+    } finally {
+      setDeletingRule(null);
+    }
+  };
+
+  const unit = thresholdUnit(formData.threshold_type, formData.utility_type);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Alert Rules</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Factories show a warning or alarm on the Dashboard when their consumption, or that of one of their
+            lines or machines, crosses these thresholds. A factory's own rule replaces the rule for all factories;
+            line and machine rules only check readings metered at that line or machine.
+          </p>
+        </div>
+        <Button variant="contained" color="primary" startIcon={<Plus />} onClick={handleAdd}>
+          Add Rule
+        </Button>
+      </div>
+
+      {error && (
+        <div className="mt-4 p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+          <AlertCircle className="w-5 h-5" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mt-4 p-4 bg-green-50 text-green-700 rounded-md flex items-center gap-2">
+          <CheckCircle className="w-5 h-5" />
+          {success}
+        </div>
+      )}
+
+      <Paper className="mt-4 overflow-x-auto">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Scope</TableCell>
+              <TableCell>Utility</TableCell>
+              <TableCell>Warning</TableCell>
+              <TableCell>Critical</TableCell>
+              <TableCell>Hysteresis</TableCell>
+              <TableCell>Window</TableCell>
+              <TableCell>Minimum Duration</TableCell>
+              <TableCell>Escalation</TableCell>
+              <TableCell>Enabled</TableCell>
+              <TableCell>Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rules.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={10} align="center">
+                  No alert rules yet. Add one to start checking consumption.
+                </TableCell>
+              </TableRow>
+            ) : (
+              rules.map(rule => {
+                const ruleUnit = thresholdUnit(rule.threshold_type, rule.utility_type);
+                return (
+                  <TableRow key={rule.id} sx={{ opacity: rule.enabled ? undefined : 0.6 }}>
+                    <TableCell>{alertScopeName(rule)}</TableCell>
+                    <TableCell>{utilityLabel(rule.utility_type as UtilityType)}</TableCell>
+                    <TableCell>{Number(rule.warning_threshold)}{ruleUnit}</TableCell>
+                    <TableCell>{Number(rule.critical_threshold)}{ruleUnit}</TableCell>
+                    <TableCell>{Number(rule.hysteresis)}{ruleUnit}</TableCell>
+                    <TableCell>{rule.window_minutes} min</TableCell>
+                    <TableCell>{rule.min_duration_minutes} min</TableCell>
+                    <TableCell>
+                      {rule.escalate_to
+                        ? `${userEmail(rule.escalate_to)} after ${rule.escalate_after_minutes} min`
+                        : '–'}
+                    </TableCell>
+                    <TableCell>{rule.enabled ? 'Yes' : 'No'}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Button size="small" startIcon={<Edit2 className="w-4 h-4" />} onClick={() => handleEdit(rule)}>
+                          Edit
+                        </Button>
+                        <Button
+                          size="small"
+                          color="error"
+                          startIcon={<Trash2 className="w-4 h-4" />}
+                          onClick={() => setDeletingRule(rule)}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </Paper>
+
+      <Dialog open={openDialog} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingRule ? 'Edit Alert Rule' : 'Add New Alert Rule'}</DialogTitle>
+        <DialogContent>
+          <div className="space-y-4 pt-4">
+            <FormControl fullWidth error={!!validationErrors.company_id}>
+              <InputLabel shrink>Factory</InputLabel>
+              <Select
+                value={formData.company_id}
+                label="Factory"
+                notched
+                displayEmpty
+                onChange={(e) => handleScopeChange('company_id', e.target.value)}
+              >
+                <MenuItem value="">All factories</MenuItem>
+                {companies.map(company => (
+                  <MenuItem key={company.id} value={company.id}>{company.name}</MenuItem>
+                ))}
+              </Select>
+              {validationErrors.company_id && <FormHelperText>{validationErrors.company_id}</FormHelperText>}
+            </FormControl>
+            {formData.company_id && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormControl fullWidth>
+                  <InputLabel shrink>Line</InputLabel>
+                  <Select
+                    value={formData.line_id}
+                    label="Line"
+                    notched
+                    displayEmpty
+                    onChange={(e) => handleScopeChange('line_id', e.target.value)}
+                  >
+                    <MenuItem value="">Whole factory</MenuItem>
+                    {scopeLines.map(line => (
+                      <MenuItem key={line.id} value={line.id}>{line.name}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <FormControl fullWidth disabled={!formData.line_id}>
+                  <InputLabel shrink>Machine</InputLabel>
+                  <Select
+                    value={formData.machine_id}
+                    label="Machine"
+                    notched
+                    displayEmpty
+                    onChange={(e) => handleScopeChange('machine_id', e.target.value)}
+                  >
+                    <MenuItem value="">Whole line</MenuItem>
+                    {scopeMachines.map(machine => (
+                      <MenuItem key={machine.id} value={machine.id}>{machine.name}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <FormControl fullWidth error={!!validationErrors.utility_type}>
+                <InputLabel>Utility</InputLabel>
+                <Select
+                  value={formData.utility_type}
+                  label="Utility"
+                  onChange={(e) => handleFieldChange('utility_type', e.target.value as UtilityType)}
+                >
+                  {UTILITY_TYPES.map(utility => (
+                    <MenuItem key={utility.value} value={utility.value}>{utility.label}</MenuItem>
+                  ))}
+                </Select>
+                {validationErrors.utility_type && <FormHelperText>{validationErrors.utility_type}</FormHelperText>}
+              </FormControl>
+              <FormControl fullWidth>
+                <InputLabel>Thresholds</InputLabel>
+                <Select
+                  value={formData.threshold_type}
+                  label="Thresholds"
+                  onChange={(e) => handleFieldChange('threshold_type', e.target.value as ThresholdType)}
+                >
+                  {THRESHOLD_TYPES.map(type => (
+                    <MenuItem key={type.value} value={type.value}>{type.label}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <TextField
+                type="number"
+                label={`Warning (${unit.trim()})`}
+                value={formData.warning_threshold}
+                onChange={(e) => handleFieldChange('warning_threshold', e.target.value)}
+                inputProps={{ min: 0, step: 'any' }}
+                error={!!validationErrors.warning_threshold}
+                helperText={validationErrors.warning_threshold}
+              />
+              <TextField
+                type="number"
+                label={`Critical (${unit.trim()})`}
+                value={formData.critical_threshold}
+                onChange={(e) => handleFieldChange('critical_threshold', e.target.value)}
+                inputProps={{ min: 0, step: 'any' }}
+                error={!!validationErrors.critical_threshold}
+                helperText={validationErrors.critical_threshold}
+              />
+            </div>
+            <p className="text-sm text-gray-500 -mt-2">
+              {formData.threshold_type === 'baseline'
+                ? 'Consumption over the window as a percentage of its usual hourly consumption.'
+                : 'Consumption over the window as an hourly rate.'}
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <TextField
+                type="number"
+                label="Window (minutes)"
+                value={formData.window_minutes}
+                onChange={(e) => handleFieldChange('window_minutes', e.target.value)}
+                inputProps={{ min: 5, max: 1440 }}
+                error={!!validationErrors.window_minutes}
+                helperText={validationErrors.window_minutes || 'Consumption is measured over this period'}
+              />
+              {formData.threshold_type === 'baseline' && (
+                <TextField
+                  type="number"
+                  label="Baseline (days)"
+                  value={formData.baseline_days}
+                  onChange={(e) => handleFieldChange('baseline_days', e.target.value)}
+                  inputProps={{ min: 1, max: 365 }}
+                  error={!!validationErrors.baseline_days}
+                  helperText={validationErrors.baseline_days || 'History the usual consumption is averaged over'}
+                />
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <TextField
+                type="number"
+                label={`Hysteresis (${unit.trim()})`}
+                value={formData.hysteresis}
+                onChange={(e) => handleFieldChange('hysteresis', e.target.value)}
+                inputProps={{ min: 0, step: 'any' }}
+                error={!!validationErrors.hysteresis}
+                helperText={validationErrors.hysteresis || 'How far below a threshold it must drop to clear'}
+              />
+              <TextField
+                type="number"
+                label="Minimum Duration (minutes)"
+                value={formData.min_duration_minutes}
+                onChange={(e) => handleFieldChange('min_duration_minutes', e.target.value)}
+                inputProps={{ min: 0, max: 1440 }}
+                error={!!validationErrors.min_duration_minutes}
+                helperText={validationErrors.min_duration_minutes || 'How long a new level must hold to take effect'}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormControl fullWidth>
+                <InputLabel shrink>Escalate To</InputLabel>
+                <Select
+                  value={formData.escalate_to}
+                  label="Escalate To"
+                  notched
+                  displayEmpty
+                  onChange={(e) => handleFieldChange('escalate_to', e.target.value)}
+                >
+                  <MenuItem value="">Nobody</MenuItem>
+                  {users.map(option => (
+                    <MenuItem key={option.id} value={option.id}>{option.email}</MenuItem>
+                  ))}
+                </Select>
+                <FormHelperText>Notified when an alarm is not acknowledged in time</FormHelperText>
+              </FormControl>
+              {formData.escalate_to && (
+                <TextField
+                  type="number"
+                  label="Escalate After (minutes)"
+                  value={formData.escalate_after_minutes}
+                  onChange={(e) => handleFieldChange('escalate_after_minutes', e.target.value)}
+                  inputProps={{ min: 1, max: 1440 }}
+                  error={!!validationErrors.escalate_after_minutes}
+                  helperText={validationErrors.escalate_after_minutes || 'Counted from when the alarm was raised'}
+                />
+              )}
+            </div>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={formData.enabled}
+                  onChange={(e) => handleFieldChange('enabled', e.target.checked)}
+                />
+              }
+              label="Enabled"
+            />
+          </div>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog} startIcon={<X />}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            variant="contained"
+            color="primary"
+            disabled={saving}
+            startIcon={<Plus />}
+          >
+            {editingRule ? 'Update' : 'Add'} Rule
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!deletingRule} onClose={() => setDeletingRule(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Delete Alert Rule</DialogTitle>
+        <DialogContent>
+          <p className="text-gray-700">
+            {!deletingRule?.company_id
+              ? 'Factories without a rule of their own will no longer be checked.'
+              : deletingRule.line_id
+                ? `${alertScopeName(deletingRule)} will no longer be checked on its own.`
+                : `${deletingRule.company?.name} will fall back to the rule for all factories, if there is one.`}
+          </p>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeletingRule(null)} startIcon={<X />}>
+            Cancel
+          </Button>
+          <Button onClick={handleDelete} variant="contained" color="error" startIcon={<Trash2 />}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </div>
+  );
+}
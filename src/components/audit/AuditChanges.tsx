@@ -0,0 +1,45 @@
+import { AuditEntry, fieldChanges, fieldLabel } from '../../lib/audit';
+
+const ACTION_STYLES = {
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+};
+
+const ACTION_LABELS = {
+  insert: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+};
+
+export const AuditActionBadge = ({ action }: { action: AuditEntry['action'] }) => (
+  <span className={`px-2 py-1 rounded-full text-xs font-medium ${ACTION_STYLES[action]}`}>
+    {ACTION_LABELS[action]}
+  </span>
+);
+
+// Before/after values of every field an audit entry touched
+export const AuditChanges = ({ entry }: { entry: AuditEntry }) => {
+  const changes = fieldChanges(entry);
+
+  if (changes.length === 0) {
+    return <span className="text-sm text-gray-500">No field changes recorded</span>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {changes.map(change => (
+        <li key={change.field}>
+          <span className="font-medium">{fieldLabel(change.field)}:</span>{' '}
+          {entry.action !== 'insert' && (
+            <span className="text-red-600 line-through">{change.from ?? '—'}</span>
+          )}
+          {entry.action === 'update' && ' → '}
+          {entry.action !== 'delete' && (
+            <span className="text-green-700">{change.to ?? '—'}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,88 @@
+import { useState, useEffect } from 'react';
+import { useSupabaseClient } from '@supabase/auth-helpers-react';
+import { Database } from '../../types/database';
+import { History, X, Loader2, AlertCircle } from 'lucide-react';
+import { Drawer, IconButton } from '@mui/material';
+import { AuditEntry, fetchRecordHistory } from '../../lib/audit';
+import { AuditActionBadge, AuditChanges } from './AuditChanges';
+
+interface RecordHistoryDrawerProps {
+  table: string;
+  recordId: string | null;
+  title: string;
+  onClose: () => void;
+}
+
+export function RecordHistoryDrawer({ table, recordId, title, onClose }: RecordHistoryDrawerProps) {
+  const supabase = useSupabaseClient<Database>();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!recordId) return;
+
+    const loadHistory = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setEntries(await fetchRecordHistory(supabase, table, recordId));
+      } catch (err) {
+        console.error('Error fetching record history:', err);
+        setError('Failed to load change history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [supabase, table, recordId]);
+
+  return (
+    <Drawer anchor="right" open={!!recordId} onClose={onClose}>
+      <div className="w-[28rem] p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <History className="w-5 h-5 text-blue-500" />
+            {title}
+          </h2>
+          <IconButton onClick={onClose} aria-label="Close history">
+            <X className="w-5 h-5" />
+          </IconButton>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+            <AlertCircle className="w-5 h-5" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          </div>
+        ) : entries.length === 0 && !error ? (
+          <p className="text-gray-500">No changes recorded</p>
+        ) : (
+          <ol className="space-y-4">
+            {entries.map(entry => (
+              <li key={entry.id} className="border-l-2 border-gray-200 pl-4">
+                <div className="flex items-center gap-2 mb-1">
+                  <AuditActionBadge action={entry.action} />
+                  <span className="text-sm text-gray-500">
+                    {new Date(entry.changed_at).toLocaleString()}
+                  </span>
+                </div>
+                <div className="text-sm text-gray-600 mb-2">
+                  by {entry.changed_by_email || 'system'}
+                </div>
+                <AuditChanges entry={entry} />
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </Drawer>
+  );
+}
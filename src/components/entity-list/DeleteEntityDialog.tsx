@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react';
+import { useSupabaseClient } from '@supabase/auth-helpers-react';
+import { Database } from '../../types/database';
+import { Trash2, X, AlertCircle, AlertTriangle, Loader2 } from 'lucide-react';
+import {
+  Button, Dialog, DialogTitle, DialogContent, DialogActions,
+  FormControl, InputLabel, Select, MenuItem,
+  RadioGroup, Radio, FormControlLabel
+} from '@mui/material';
+import { EntityDefinition, EntityRow } from './types';
+import { toNoun, valueAt } from './fields';
+import { DeleteStrategy, ImpactItem, deleteEntity, fetchImpact } from '../../lib/dependencies';
+
+interface DeleteEntityDialogProps {
+  definition: EntityDefinition;
+  row: EntityRow | null;
+  onClose: () => void;
+  onDeleted: (message: string) => void;
+}
+
+// Confirms a permanent delete. Rows that are still referenced show what
+// depends on them and must either be kept, have their dependants moved to
+// another row, or be deleted together with everything beneath them.
+export function DeleteEntityDialog({ definition, row, onClose, onDeleted }: DeleteEntityDialogProps) {
+  const supabase = useSupabaseClient<Database>();
+  const [impact, setImpact] = useState<ImpactItem[]>([]);
+  const [candidates, setCandidates] = useState<{ id: string; label: string }[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [strategy, setStrategy] = useState<DeleteStrategy>('block');
+  const [reassignTo, setReassignTo] = useState('');
+
+  const singular = toNoun(definition.singular);
+
+  useEffect(() => {
+    if (!row) return;
+
+    const loadImpact = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setStrategy('block');
+        setReassignTo('');
+
+        const [items, { data, error: candidatesError }] = await Promise.all([
+          fetchImpact(supabase, definition.table, row.id),
+          supabase
+            .from(definition.table)
+            .select('*')
+            .neq('id', row.id)
+            .is('archived_at', null)
+            .order(definition.searchField),
+        ]);
+
+        if (candidatesError) throw candidatesError;
+
+        setImpact(items);
+        setCandidates(((data || []) as unknown as EntityRow[]).map(candidate => ({
+          id: candidate.id,
+          label: valueAt(candidate, definition.searchField),
+        })));
+      } catch (err) {
+        console.error(`Error checking ${singular} dependants:`, err);
+        setError(`Failed to check what depends on this ${singular}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadImpact();
+  }, [supabase, definition, row, singular]);
+
+  const inUse = impact.length > 0;
+  const canDelete = !loading && !error && (
+    !inUse || strategy === 'cascade' || (strategy === 'reassign' && !!reassignTo)
+  );
+
+  const handleDelete = async () => {
+    if (!row) return;
+
+    try {
+      setDeleting(true);
+      setError(null);
+      await deleteEntity(supabase, definition.table, row.id, inUse ? strategy : 'block', reassignTo);
+      onDeleted(`${definition.singular} deleted successfully`);
+    } catch (err) {
+      console.error(`Error deleting ${singular}:`, err);
+      const message = err && typeof err === 'object' && 'message' in err ? String(err.message) : null;
+      setError(message ? `Failed to delete ${singular}: ${message}` : `Failed to delete ${singular}. Please try again.`);
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={!!row}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+    >
+      <DialogTitle>Delete {definition.singular}</DialogTitle>
+      <DialogContent>
+        <div className="space-y-4 pt-4">
+          {error && (
+            <div className="p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+              <AlertCircle className="w-5 h-5" />
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center h-24">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+            </div>
+          ) : !inUse ? (
+            <p>
+              Permanently delete <strong>{row && valueAt(row, definition.searchField)}</strong>?
+              This cannot be undone. Archive it instead to hide it while keeping its history.
+            </p>
+          ) : (
+            <>
+              <div className="p-4 bg-yellow-50 text-yellow-800 rounded-md">
+                <div className="flex items-center gap-2 font-medium mb-2">
+                  <AlertTriangle className="w-5 h-5" />
+                  <span>{row && valueAt(row, definition.searchField)} is still in use</span>
+                </div>
+                <ul className="list-disc pl-8 space-y-1 text-sm">
+                  {impact.map(item => (
+                    <li key={item.table}>
+                      {item.label}: {item.count.toLocaleString()}
+                      {!item.direct && ' (indirectly)'}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <RadioGroup
+                value={strategy}
+                onChange={(e) => setStrategy(e.target.value as DeleteStrategy)}
+              >
+                <FormControlLabel
+                  value="block"
+                  control={<Radio />}
+                  label={`Keep this ${singular} while it is in use`}
+                />
+                <FormControlLabel
+                  value="reassign"
+                  control={<Radio />}
+                  label={`Move its direct dependants to another ${singular}, then delete it`}
+                />
+                <FormControlLabel
+                  value="cascade"
+                  control={<Radio />}
+                  label="Delete it together with everything listed above"
+                />
+              </RadioGroup>
+
+              {strategy === 'reassign' && (
+                <FormControl fullWidth>
+                  <InputLabel>Move to</InputLabel>
+                  <Select
+                    value={reassignTo}
+                    label="Move to"
+                    onChange={(e) => setReassignTo(e.target.value)}
+                  >
+                    {candidates.map(candidate => (
+                      <MenuItem key={candidate.id} value={candidate.id}>
+                        {candidate.label}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              )}
+            </>
+          )}
+        </div>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} startIcon={<X />}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleDelete}
+          variant="contained"
+          color="error"
+          disabled={!canDelete || deleting}
+          startIcon={<Trash2 />}
+        >
+          Delete {definition.singular}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,374 @@
+import { useState, useEffect } from 'react';
+import { useSupabaseClient, useUser } from '@supabase/auth-helpers-react';
+import { Database } from '../../types/database';
+import { Plus, X, AlertCircle, AlertTriangle, GitMerge, RotateCcw } from 'lucide-react';
+import {
+  Button, Dialog, DialogTitle, DialogContent, DialogActions,
+  TextField, FormControl, InputLabel, Select, MenuItem, FormHelperText
+} from '@mui/material';
+import { EntityDefinition, EntityRow, FieldDefinition, FieldErrors, FormValues } from './types';
+import {
+  emptyValues, hasErrors, normalizeInput, toNoun, toPayload,
+  validateField, validateFields, valuesFromRow
+} from './fields';
+import { TableChange, useTableChanges } from '../../lib/realtime';
+import { unchangedSince } from '../../lib/concurrency';
+import { FieldConflict, MergeChoice, findConflicts, mergeValues } from './merge';
+import { MergeConflictPanel } from './MergeConflictPanel';
+
+interface EntityFormDialogProps {
+  definition: EntityDefinition;
+  open: boolean;
+  editing: EntityRow | null;
+  // Values preset when adding a record, e.g. the parent picked in the plant tree
+  defaults?: FormValues;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+export function EntityFormDialog({ definition, open, editing, defaults, onClose, onSaved }: EntityFormDialogProps) {
+  const supabase = useSupabaseClient<Database>();
+  const user = useUser();
+  const [formData, setFormData] = useState<FormValues>(() => emptyValues(definition));
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [options, setOptions] = useState<Record<string, { value: string; label: string }[]>>({});
+  const [helperTexts, setHelperTexts] = useState<Record<string, string | undefined>>({});
+  // Set when someone else changes or deletes the record while it is open
+  const [conflict, setConflict] = useState<TableChange['type'] | null>(null);
+  // The version of the row an update must still match; replaced by the latest
+  // row once a stale edit has been merged
+  const [version, setVersion] = useState<EntityRow | null>(null);
+  const [merge, setMerge] = useState<{ current: EntityRow; conflicts: FieldConflict[] } | null>(null);
+
+  useEffect(() => {
+    setConflict(null);
+    setVersion(editing);
+    setMerge(null);
+  }, [editing, open]);
+
+  useTableChanges(open && editing ? [definition.table] : [], change => {
+    if (!editing || change.id !== editing.id) return;
+    if (change.type === 'DELETE' || change.actorId !== user?.id) {
+      setConflict(change.type);
+    }
+  });
+
+  // Load the choices for every select field
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchOptions = async () => {
+      const selects = definition.fields.filter(field => field.type === 'select' && field.options);
+      const results = await Promise.all(selects.map(async (field) => {
+        const source = field.options!;
+        const { data, error } = await supabase
+          .from(source.table)
+          .select(source.select)
+          .is('archived_at', null)
+          .order(source.orderBy || 'name');
+
+        if (error) {
+          console.error(`Error fetching ${field.label.toLowerCase()} options:`, error);
+          return [field.name, []] as const;
+        }
+
+        const rows = (data || []) as unknown as EntityRow[];
+        return [field.name, rows.map(row => ({ value: row.id, label: source.label(row) }))] as const;
+      }));
+
+      setOptions(Object.fromEntries(results));
+    };
+
+    fetchOptions();
+  }, [supabase, definition, open]);
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const values = editing ? valuesFromRow(definition, editing) : { ...emptyValues(definition), ...defaults };
+    setFormData(values);
+    setFieldErrors({});
+    setHelperTexts({});
+    setError(null);
+
+    // Dynamic fields react to preset values as if they had been picked
+    if (!editing && defaults) {
+      Object.keys(defaults).forEach(name => refreshDynamicFields(values, name));
+    }
+    // refreshDynamicFields only reads definition and editing, which are listed
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [definition, editing, defaults, open]);
+
+  const refreshDynamicFields = async (values: FormValues, changed: string) => {
+    const dependents = definition.fields.filter(field => field.dynamic?.dependsOn === changed);
+
+    await Promise.all(dependents.map(async (field) => {
+      try {
+        const state = await field.dynamic!.load(supabase, values, editing);
+        setHelperTexts(prev => ({ ...prev, [field.name]: state.helperText }));
+        if (!editing && state.value !== undefined) {
+          setFormData(prev => ({ ...prev, [field.name]: state.value! }));
+        }
+      } catch (err) {
+        console.error(`Error loading ${field.label.toLowerCase()}:`, err);
+      }
+    }));
+  };
+
+  // Dynamic fields of a record being edited depend on values that are already set
+  useEffect(() => {
+    if (!open || !editing) return;
+    const values = valuesFromRow(definition, editing);
+    definition.fields.forEach(field => {
+      if (field.dynamic) refreshDynamicFields(values, field.dynamic.dependsOn);
+    });
+    // refreshDynamicFields only reads definition and editing, which are listed
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [definition, editing, open]);
+
+  const handleChange = (field: FieldDefinition, rawValue: string) => {
+    const value = normalizeInput(field, rawValue);
+    const next = { ...formData, [field.name]: value };
+    setFormData(next);
+    setFieldErrors(prev => ({ ...prev, [field.name]: field.pattern ? validateField(field, value) : undefined }));
+    refreshDynamicFields(next, field.name);
+  };
+
+  const checkUniqueRules = async (): Promise<FieldErrors> => {
+    const errors: FieldErrors = {};
+
+    for (const rule of definition.unique || []) {
+      let query = supabase.from(definition.table).select('id');
+      rule.fields.forEach(name => {
+        query = query.eq(name, (formData[name] || '').trim());
+      });
+
+      if (editing?.id) {
+        query = query.neq('id', editing.id);
+      }
+
+      const { data: existing } = await query.limit(1).maybeSingle();
+      if (existing) {
+        errors[rule.field] = rule.message;
+      }
+    }
+
+    return errors;
+  };
+
+  const handleSubmit = async () => {
+    try {
+      if (!user) {
+        setError('You must be logged in to perform this action');
+        return;
+      }
+
+      setSaving(true);
+      setError(null);
+
+      let errors = validateFields(definition, formData);
+      if (!hasErrors(errors)) {
+        errors = await checkUniqueRules();
+      }
+      if (!hasErrors(errors) && definition.validate) {
+        errors = await definition.validate(formData, { supabase, editing });
+      }
+
+      setFieldErrors(errors);
+      if (hasErrors(errors)) {
+        return;
+      }
+
+      const payload = toPayload(definition, formData);
+      const { data: saved, error: saveError } = editing
+        ? await unchangedSince(
+          supabase
+            .from(definition.table)
+            .update({ ...payload, updated_by: user.id })
+            .eq('id', editing.id),
+          (version || editing).updated_at
+        ).select('id')
+        : await supabase
+          .from(definition.table)
+          .insert([{ ...payload, created_by: user.id }]);
+
+      if (saveError) {
+        const rule = definition.unique?.find(r =>
+          r.constraint && saveError.code === '23505' && saveError.message.includes(r.constraint)
+        );
+        if (rule) {
+          setFieldErrors({ [rule.field]: rule.message });
+          return;
+        }
+        throw saveError;
+      }
+
+      // Nothing matched the version we loaded, so someone else saved first
+      if (editing && saved?.length === 0) {
+        await loadMerge(editing);
+        return;
+      }
+
+      onSaved(`${definition.singular} ${editing ? 'updated' : 'added'} successfully`);
+    } catch (err) {
+      console.error(`Error saving ${toNoun(definition.singular)}:`, err);
+      setError(`Failed to save ${toNoun(definition.singular)}. Please try again.`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const loadMerge = async (row: EntityRow) => {
+    const { data, error: currentError } = await supabase
+      .from(definition.table)
+      .select('*')
+      .eq('id', row.id)
+      .maybeSingle();
+
+    if (currentError) throw currentError;
+    if (!data) {
+      setConflict('DELETE');
+      return;
+    }
+
+    const current = data as unknown as EntityRow;
+    setMerge({
+      current,
+      conflicts: findConflicts(
+        definition,
+        valuesFromRow(definition, version || row),
+        formData,
+        valuesFromRow(definition, current)
+      ),
+    });
+  };
+
+  const handleChoose = (name: string, choice: MergeChoice) => {
+    setMerge(prev => prev && {
+      ...prev,
+      conflicts: prev.conflicts.map(c => (c.name === name ? { ...c, choice } : c)),
+    });
+  };
+
+  // Back to the form, now based on the latest row, for a final check and save
+  const handleResolve = (keepMine: boolean) => {
+    if (!merge) return;
+    const theirs = valuesFromRow(definition, merge.current);
+    setFormData(keepMine ? mergeValues(theirs, merge.conflicts) : theirs);
+    setFieldErrors({});
+    setVersion(merge.current);
+    setMerge(null);
+    setConflict(null);
+  };
+
+  const describeValue = (name: string, value: string) =>
+    options[name]?.find(option => option.value === value)?.label ?? value;
+
+  const renderField = (field: FieldDefinition) => {
+    const fieldError = fieldErrors[field.name];
+    const helperText = fieldError || helperTexts[field.name] || field.helperText;
+
+    if (field.type === 'select') {
+      return (
+        <FormControl key={field.name} fullWidth error={!!fieldError}>
+          <InputLabel>{field.label}</InputLabel>
+          <Select
+            value={formData[field.name] || ''}
+            label={field.label}
+            onChange={(e) => handleChange(field, e.target.value)}
+          >
+            {(options[field.name] || []).map((option) => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </Select>
+          {helperText && <FormHelperText>{helperText}</FormHelperText>}
+        </FormControl>
+      );
+    }
+
+    return (
+      <TextField
+        key={field.name}
+        fullWidth
+        type={field.type}
+        label={field.label}
+        value={formData[field.name] || ''}
+        onChange={(e) => handleChange(field, e.target.value)}
+        placeholder={field.placeholder}
+        inputProps={field.type === 'number' ? { min: field.min, max: field.max } : undefined}
+        helperText={helperText}
+        error={!!fieldError}
+      />
+    );
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+    >
+      <DialogTitle>
+        {editing ? `Edit ${definition.singular}` : `Add New ${definition.singular}`}
+      </DialogTitle>
+      <DialogContent>
+        <div className="space-y-4 pt-4">
+          {error && (
+            <div className="p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+              <AlertCircle className="w-5 h-5" />
+              {error}
+            </div>
+          )}
+          {conflict && !merge && (
+            <div className="p-4 bg-amber-50 text-amber-800 rounded-md flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 shrink-0" />
+              {conflict === 'DELETE'
+                ? `Someone else deleted this ${toNoun(definition.singular)} while you were editing it, so it can no longer be saved.`
+                : `Someone else changed this ${toNoun(definition.singular)} while you were editing it. You can compare and merge their changes when you save.`}
+            </div>
+          )}
+          {merge ? (
+            <MergeConflictPanel
+              noun={toNoun(definition.singular)}
+              conflicts={merge.conflicts}
+              describe={describeValue}
+              onChoose={handleChoose}
+            />
+          ) : (
+            definition.fields.map(renderField)
+          )}
+        </div>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} startIcon={<X />}>
+          Cancel
+        </Button>
+        {merge ? (
+          <>
+            <Button onClick={() => handleResolve(false)} startIcon={<RotateCcw />}>
+              Discard my changes
+            </Button>
+            <Button onClick={() => handleResolve(true)} variant="contained" color="primary" startIcon={<GitMerge />}>
+              Use merged values
+            </Button>
+          </>
+        ) : (
+          <Button
+            onClick={handleSubmit}
+            variant="contained"
+            color="primary"
+            disabled={saving || conflict === 'DELETE'}
+            startIcon={<Plus />}
+          >
+            {editing ? 'Update' : 'Add'} {definition.singular}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
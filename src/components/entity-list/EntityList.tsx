@@ -0,0 +1,316 @@
+import { useState } from 'react';
+import { useSupabaseClient, useUser } from '@supabase/auth-helpers-react';
+import { Database } from '../../types/database';
+import {
+  Plus, Loader2, AlertCircle, CheckCircle,
+  Edit2, ArrowUpDown, Search, Archive,
+  ArchiveRestore, Trash2, History
+} from 'lucide-react';
+import {
+  Table, TableBody, TableCell, TableHead,
+  TableRow, Paper, Button, TextField,
+  TablePagination, TableSortLabel, InputAdornment,
+  FormControlLabel, Switch
+} from '@mui/material';
+import { ColumnDefinition, EntityDefinition, EntityRow } from './types';
+import { toNoun, valueAt } from './fields';
+import { useEntityList } from './useEntityList';
+import { EntityFormDialog } from './EntityFormDialog';
+import { DeleteEntityDialog } from './DeleteEntityDialog';
+import { RecordHistoryDrawer } from '../audit/RecordHistoryDrawer';
+import { ExportMenu } from '../ExportMenu';
+import { usePermissions } from '../../lib/auth';
+import { ROWS_PER_PAGE_OPTIONS } from '../../lib/preferences';
+
+const AUDIT_COLUMNS: ColumnDefinition[] = [
+  { key: 'created_at', label: 'Created At', path: 'created_at', sortField: 'created_at', format: 'date' },
+  { key: 'updated_at', label: 'Last Updated', path: 'updated_at', sortField: 'updated_at', format: 'date' },
+];
+
+const formatCell = (row: EntityRow, column: ColumnDefinition) => {
+  const value = valueAt(row, column.path);
+  if (!value) return '-';
+  return column.format === 'date' ? new Date(value).toLocaleDateString() : value;
+};
+
+interface EntityListProps {
+  definition: EntityDefinition;
+}
+
+// Searchable, sortable, paginated grid with an add/edit dialog for one
+// master-data table, driven entirely by its EntityDefinition.
+export function EntityList({ definition }: EntityListProps) {
+  const supabase = useSupabaseClient<Database>();
+  const user = useUser();
+  const {
+    rows, loading, error, setError, success, setSuccess,
+    searchTerm, handleSearchChange, showArchived, handleShowArchivedChange,
+    page, rowsPerPage, totalCount, handleChangePage, handleChangeRowsPerPage,
+    orderBy, order, handleSort, refresh, fetchAll, highlightedIds,
+  } = useEntityList(definition);
+  const { can } = usePermissions();
+  const canWrite = can('data:write');
+  const [openDialog, setOpenDialog] = useState(false);
+  const [editing, setEditing] = useState<EntityRow | null>(null);
+  const [deleting, setDeleting] = useState<EntityRow | null>(null);
+  const [historyRow, setHistoryRow] = useState<EntityRow | null>(null);
+
+  const Icon = definition.icon;
+  const columns = [...definition.columns, ...AUDIT_COLUMNS];
+  const plural = toNoun(definition.plural);
+
+  const handleAdd = () => {
+    setEditing(null);
+    setOpenDialog(true);
+    setError(null);
+  };
+
+  const handleEdit = (row: EntityRow) => {
+    setEditing(row);
+    setOpenDialog(true);
+    setError(null);
+  };
+
+  // Archiving hides a row from grids and pickers without touching anything
+  // that references it; restoring brings it back unchanged
+  const handleArchive = async (row: EntityRow, archive: boolean) => {
+    try {
+      if (!user) {
+        setError('You must be logged in to perform this action');
+        return;
+      }
+
+      const { error: archiveError } = await supabase
+        .from(definition.table)
+        .update({
+          archived_at: archive ? new Date().toISOString() : null,
+          archived_by: archive ? user.id : null,
+          updated_by: user.id,
+        })
+        .eq('id', row.id);
+
+      if (archiveError) throw archiveError;
+
+      setError(null);
+      setSuccess(`${definition.singular} ${archive ? 'archived' : 'restored'} successfully`);
+      refresh();
+    } catch (err) {
+      console.error(`Error ${archive ? 'archiving' : 'restoring'} ${toNoun(definition.singular)}:`, err);
+      setError(`Failed to ${archive ? 'archive' : 'restore'} ${toNoun(definition.singular)}. Please try again.`);
+    }
+  };
+
+  const handleExport = async () => ({
+    title: definition.plural,
+    columns: columns.map(column => column.label),
+    rows: (await fetchAll()).map(row => columns.map(column => formatCell(row, column))),
+  });
+
+  const handleDeleted = (message: string) => {
+    setDeleting(null);
+    setSuccess(message);
+    refresh();
+  };
+
+  const handleCloseDialog = () => {
+    setOpenDialog(false);
+    setEditing(null);
+  };
+
+  const handleSaved = (message: string) => {
+    setSuccess(message);
+    handleCloseDialog();
+    refresh();
+  };
+
+  if (loading && page === 0 && !searchTerm) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Icon className="w-6 h-6 text-blue-500" />
+          {definition.plural}
+        </h1>
+        <div className="flex items-center gap-4">
+          <TextField
+            placeholder={definition.searchPlaceholder || `Search ${plural}...`}
+            value={searchTerm}
+            onChange={handleSearchChange}
+            size="small"
+            sx={{ width: '300px' }}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <Search className="w-5 h-5 text-gray-500" />
+                </InputAdornment>
+              ),
+            }}
+          />
+          <FormControlLabel
+            control={<Switch checked={showArchived} onChange={handleShowArchivedChange} />}
+            label="Show archived"
+          />
+          <ExportMenu load={handleExport} onError={setError} disabled={totalCount === 0} />
+          {canWrite && (
+            <Button
+              variant="contained"
+              color="primary"
+              startIcon={<Plus />}
+              onClick={handleAdd}
+            >
+              Add {definition.singular}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+          <AlertCircle className="w-5 h-5" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-4 bg-green-50 text-green-700 rounded-md flex items-center gap-2">
+          <CheckCircle className="w-5 h-5" />
+          {success}
+        </div>
+      )}
+
+      <Paper className="overflow-hidden">
+        <Table>
+          <TableHead>
+            <TableRow>
+              {columns.map((column) => (
+                <TableCell key={column.key}>
+                  {column.sortField ? (
+                    <TableSortLabel
+                      active={orderBy === column.sortField}
+                      direction={orderBy === column.sortField ? order : 'asc'}
+                      onClick={() => handleSort(column.sortField!)}
+                      IconComponent={ArrowUpDown}
+                    >
+                      {column.label}
+                    </TableSortLabel>
+                  ) : (
+                    column.label
+                  )}
+                </TableCell>
+              ))}
+              <TableCell>Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={columns.length + 1} align="center">
+                  {searchTerm ? `No ${plural} found matching your search` : `No ${plural} available`}
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map((row) => (
+                <TableRow
+                  key={row.id}
+                  sx={{
+                    opacity: row.archived_at ? 0.6 : undefined,
+                    // Changed by someone else a moment ago
+                    backgroundColor: highlightedIds.has(row.id) ? 'rgba(59, 130, 246, 0.12)' : undefined,
+                    transition: 'background-color 0.6s',
+                  }}
+                >
+                  {columns.map((column) => (
+                    <TableCell key={column.key}>{formatCell(row, column)}</TableCell>
+                  ))}
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      {canWrite && !row.archived_at && (
+                        <Button
+                          size="small"
+                          startIcon={<Edit2 className="w-4 h-4" />}
+                          onClick={() => handleEdit(row)}
+                        >
+                          Edit
+                        </Button>
+                      )}
+                      <Button
+                        size="small"
+                        startIcon={<History className="w-4 h-4" />}
+                        onClick={() => setHistoryRow(row)}
+                      >
+                        History
+                      </Button>
+                      {canWrite && (
+                        <>
+                          <Button
+                            size="small"
+                            startIcon={row.archived_at
+                              ? <ArchiveRestore className="w-4 h-4" />
+                              : <Archive className="w-4 h-4" />}
+                            onClick={() => handleArchive(row, !row.archived_at)}
+                          >
+                            {row.archived_at ? 'Restore' : 'Archive'}
+                          </Button>
+                          <Button
+                            size="small"
+                            color="error"
+                            startIcon={<Trash2 className="w-4 h-4" />}
+                            onClick={() => setDeleting(row)}
+                          >
+                            Delete
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        <TablePagination
+          rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
+          component="div"
+          count={totalCount}
+          rowsPerPage={rowsPerPage}
+          page={page}
+          onPageChange={handleChangePage}
+          onRowsPerPageChange={handleChangeRowsPerPage}
+        />
+      </Paper>
+
+      {canWrite && (
+        <EntityFormDialog
+          definition={definition}
+          open={openDialog}
+          editing={editing}
+          onClose={handleCloseDialog}
+          onSaved={handleSaved}
+        />
+      )}
+
+      {canWrite && (
+        <DeleteEntityDialog
+          definition={definition}
+          row={deleting}
+          onClose={() => setDeleting(null)}
+          onDeleted={handleDeleted}
+        />
+      )}
+
+      <RecordHistoryDrawer
+        table={definition.table}
+        recordId={historyRow?.id || null}
+        title={historyRow ? `${valueAt(historyRow, definition.searchField)} history` : 'History'}
+        onClose={() => setHistoryRow(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { GitMerge } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableRow, Radio } from '@mui/material';
+import { FieldConflict, MergeChoice } from './merge';
+
+interface MergeConflictPanelProps {
+  noun: string;
+  conflicts: FieldConflict[];
+  // Display text for a field value, e.g. the label of a selected option
+  describe: (name: string, value: string) => string;
+  onChoose: (name: string, choice: MergeChoice) => void;
+}
+
+// Side-by-side view of a stale edit: the values being saved against the row
+// as someone else left it, with a pick per field
+export function MergeConflictPanel({ noun, conflicts, describe, onChoose }: MergeConflictPanelProps) {
+  const renderChoice = (conflict: FieldConflict, choice: MergeChoice) => {
+    const value = choice === 'mine' ? conflict.mine : conflict.theirs;
+    return (
+      <TableCell>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <Radio
+            size="small"
+            checked={conflict.choice === choice}
+            onChange={() => onChoose(conflict.name, choice)}
+          />
+          <span className={conflict.choice === choice ? 'font-medium' : 'text-gray-500'}>
+            {value ? describe(conflict.name, value) : '-'}
+          </span>
+        </label>
+      </TableCell>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="p-4 bg-amber-50 text-amber-800 rounded-md flex items-center gap-2">
+        <GitMerge className="w-5 h-5 shrink-0" />
+        Someone else saved this {noun} after you opened it. Pick the value to keep for each field that differs.
+      </div>
+      {conflicts.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          Their changes don't affect any field in this form, so your values can be saved as they are.
+        </p>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Field</TableCell>
+              <TableCell>Your changes</TableCell>
+              <TableCell>Current values</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {conflicts.map(conflict => (
+              <TableRow key={conflict.name} sx={conflict.bothChanged ? { backgroundColor: '#fffbeb' } : undefined}>
+                <TableCell>
+                  {conflict.label}
+                  {conflict.bothChanged && <div className="text-xs text-amber-700">Changed by both</div>}
+                </TableCell>
+                {renderChoice(conflict, 'mine')}
+                {renderChoice(conflict, 'theirs')}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { get } from 'lodash';
+import { EntityDefinition, EntityRow, FieldDefinition, FieldErrors, FormValues } from './types';
+
+export const NAME_LETTERS = {
+  regex: /^[A-Z\s]*$/,
+  message: 'Only English letters (A-Z) and spaces are allowed',
+};
+
+export const NAME_CODE = {
+  regex: /^[A-Z0-9\s-]*$/,
+  message: 'Only English letters (A-Z), numbers (0-9), spaces, and hyphens are allowed',
+};
+
+export const valueAt = (row: unknown, path: string): string => {
+  const value = get(row, path);
+  return value === null || value === undefined ? '' : String(value);
+};
+
+// Lower-cases a label for use mid-sentence, leaving acronyms such as "KPIs" intact
+export const toNoun = (label: string) =>
+  label.split(' ').map(word => (/^[A-Z]{2,}s?$/.test(word) ? word : word.toLowerCase())).join(' ');
+
+export const emptyValues = (definition: EntityDefinition): FormValues =>
+  Object.fromEntries(definition.fields.map(field => [field.name, field.defaultValue ?? '']));
+
+export const valuesFromRow = (definition: EntityDefinition, row: EntityRow): FormValues =>
+  Object.fromEntries(definition.fields.map(field => [field.name, valueAt(row, field.name)]));
+
+// Normalises what the user typed the same way on every keystroke and on submit
+export const normalizeInput = (field: FieldDefinition, value: string) =>
+  field.uppercase ? value.toUpperCase() : value;
+
+export const validateField = (field: FieldDefinition, value: string): string | undefined => {
+  const trimmed = value.trim();
+
+  if (!trimmed) {
+    return field.required
+      ? field.requiredMessage || `${field.label} is required`
+      : undefined;
+  }
+
+  if (field.pattern && !field.pattern.regex.test(trimmed)) {
+    return field.pattern.message;
+  }
+
+  if (field.type === 'number') {
+    const number = Number(trimmed);
+    if (Number.isNaN(number)) {
+      return `${field.label} must be a number`;
+    }
+    if ((field.min !== undefined && number < field.min) || (field.max !== undefined && number > field.max)) {
+      return field.rangeMessage || `${field.label} must be between ${field.min} and ${field.max}`;
+    }
+  }
+
+  return undefined;
+};
+
+export const validateFields = (definition: EntityDefinition, values: FormValues): FieldErrors => {
+  const errors: FieldErrors = {};
+  definition.fields.forEach(field => {
+    const error = validateField(field, values[field.name] || '');
+    if (error) errors[field.name] = error;
+  });
+  return errors;
+};
+
+export const hasErrors = (errors: FieldErrors) =>
+  Object.values(errors).some(Boolean);
+
+// Column values to write, with text trimmed and numbers parsed
+export const toPayload = (definition: EntityDefinition, values: FormValues) =>
+  Object.fromEntries(definition.fields.map(field => {
+    const value = (values[field.name] || '').trim();
+    if (field.type === 'number') return [field.name, value === '' ? null : Number(value)];
+    return [field.name, value === '' && field.type === 'select' ? null : value];
+  }));
@@ -0,0 +1,46 @@
+import { EntityDefinition, FormValues } from './types';
+
+export type MergeChoice = 'mine' | 'theirs';
+
+// One field where the values being saved differ from the row as it is now
+export interface FieldConflict {
+  name: string;
+  label: string;
+  mine: string;
+  theirs: string;
+  // Both sides changed the field since the dialog was opened
+  bothChanged: boolean;
+  choice: MergeChoice;
+}
+
+// Compares the form against the latest row. base holds the values the dialog
+// was opened with, so a field only one side touched defaults to that side.
+export const findConflicts = (
+  definition: EntityDefinition,
+  base: FormValues,
+  mine: FormValues,
+  theirs: FormValues
+): FieldConflict[] =>
+  definition.fields
+    .filter(field => (mine[field.name] || '') !== (theirs[field.name] || ''))
+    .map(field => {
+      const mineChanged = (mine[field.name] || '') !== (base[field.name] || '');
+      const theirsChanged = (theirs[field.name] || '') !== (base[field.name] || '');
+      return {
+        name: field.name,
+        label: field.label,
+        mine: mine[field.name] || '',
+        theirs: theirs[field.name] || '',
+        bothChanged: mineChanged && theirsChanged,
+        choice: mineChanged ? 'mine' : 'theirs',
+      };
+    });
+
+// The latest row with the chosen side of each conflicting field applied
+export const mergeValues = (theirs: FormValues, conflicts: FieldConflict[]): FormValues => ({
+  ...theirs,
+  ...Object.fromEntries(conflicts.map(conflict => [
+    conflict.name,
+    conflict.choice === 'mine' ? conflict.mine : conflict.theirs,
+  ])),
+});
@@ -0,0 +1,103 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { LucideIcon } from 'lucide-react';
+import { Database } from '../../types/database';
+
+export type TableName = keyof Database['public']['Tables'];
+
+export type Order = 'asc' | 'desc';
+
+// A row as returned by the list query: the table's own columns plus any
+// embedded relations requested in EntityDefinition.select
+export interface EntityRow {
+  id: string;
+  created_at: string;
+  created_by: string;
+  updated_at: string | null;
+  updated_by: string | null;
+  archived_at: string | null;
+  [key: string]: unknown;
+}
+
+export type FormValues = Record<string, string>;
+export type FieldErrors = Record<string, string | undefined>;
+
+export interface ColumnDefinition {
+  key: string;
+  label: string;
+  // Dotted path into the row, e.g. 'line.district.city.name'
+  path: string;
+  // Column to order by when the header is clicked; omit for unsortable columns
+  sortField?: string;
+  format?: 'text' | 'date';
+}
+
+export interface OptionSource {
+  table: TableName;
+  select: string;
+  orderBy?: string;
+  label: (option: EntityRow) => string;
+}
+
+export interface DynamicFieldState {
+  value?: string;
+  helperText?: string;
+}
+
+export interface FieldDefinition {
+  name: string;
+  label: string;
+  type: 'text' | 'number' | 'select';
+  required?: boolean;
+  requiredMessage?: string;
+  // Text is upper-cased as the user types
+  uppercase?: boolean;
+  pattern?: { regex: RegExp; message: string };
+  min?: number;
+  max?: number;
+  rangeMessage?: string;
+  helperText?: string;
+  placeholder?: string;
+  defaultValue?: string;
+  options?: OptionSource;
+  // Recomputes a suggested value and/or helper text when another field changes.
+  // The suggested value is only applied when adding a record.
+  dynamic?: {
+    dependsOn: string;
+    load: (supabase: SupabaseClient<Database>, values: FormValues, editing: EntityRow | null) => Promise<DynamicFieldState>;
+  };
+}
+
+export interface UniqueRule {
+  fields: string[];
+  message: string;
+  // Field the error is shown against
+  field: string;
+  // Database unique constraint that enforces the same rule, so a race on insert
+  // is reported against the field rather than as a generic failure
+  constraint?: string;
+}
+
+export interface ValidationContext {
+  supabase: SupabaseClient<Database>;
+  editing: EntityRow | null;
+}
+
+export interface EntityDefinition {
+  table: TableName;
+  singular: string;
+  plural: string;
+  icon: LucideIcon;
+  // PostgREST select for the grid, including embedded relations
+  select: string;
+  searchField: string;
+  // Column holding the owning company's id, e.g. 'line.company_id'. Rows are
+  // limited to the user's companies when set; reference data leaves it unset.
+  companyScope?: string;
+  searchPlaceholder?: string;
+  defaultSort: { field: string; order: Order };
+  columns: ColumnDefinition[];
+  fields: FieldDefinition[];
+  unique?: UniqueRule[];
+  // Extra validation run after the per-field rules pass
+  validate?: (values: FormValues, context: ValidationContext) => Promise<FieldErrors> | FieldErrors;
+}
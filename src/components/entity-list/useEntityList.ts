@@ -0,0 +1,54 @@
+import React, { useState, useCallback } from 'react';
+import { useSupabaseClient } from '@supabase/auth-helpers-react';
+import { Database } from '../../types/database';
+import { EntityDefinition, EntityRow, Order } from './types';
+import { toNoun } from './fields';
+import { useLiveGrid } from './useLiveGrid';
+import { usePermissions } from '../../lib/auth';
+
+// The live grid for one master-data table, plus the archive filter and the
+// user's company scope from its EntityDefinition.
+export function useEntityList(definition: EntityDefinition) {
+  const supabase = useSupabaseClient<Database>();
+  const { companyIds } = usePermissions();
+  const [showArchived, setShowArchived] = useState(false);
+
+  // The grid's search, archive filter, company scope and sort, without paging
+  const buildQuery = useCallback((term: string, orderBy: string, order: Order, count?: 'exact') => {
+    let query = supabase
+      .from(definition.table)
+      .select(definition.select, { count });
+
+    if (term) {
+      query = query.ilike(definition.searchField, `%${term}%`);
+    }
+
+    if (!showArchived) {
+      query = query.is('archived_at', null);
+    }
+
+    if (definition.companyScope && companyIds) {
+      query = query.in(definition.companyScope, companyIds);
+    }
+
+    return query.order(orderBy, { ascending: order === 'asc' });
+  }, [supabase, definition, companyIds, showArchived]);
+
+  const grid = useLiveGrid<EntityRow>({
+    table: definition.table,
+    noun: toNoun(definition.plural),
+    defaultSort: definition.defaultSort,
+    query: buildQuery,
+  });
+
+  const handleShowArchivedChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setShowArchived(event.target.checked);
+    grid.setPage(0);
+  };
+
+  return {
+    ...grid,
+    showArchived,
+    handleShowArchivedChange,
+  };
+}
@@ -0,0 +1,151 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useUser } from '@supabase/auth-helpers-react';
+import { debounce } from 'lodash';
+import { Order, TableName } from './types';
+import { fetchAllRows } from '../../lib/exportTable';
+import { useHighlightedIds, useTableChanges } from '../../lib/realtime';
+import { useRowsPerPage } from '../../lib/preferences';
+
+// A query that can be cut into pages, e.g. a PostgREST select with its filters and sort
+export interface RangeQuery {
+  range: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; count: number | null; error: unknown }>;
+}
+
+export interface LiveGridOptions {
+  table: TableName;
+  // Lower-case plural for messages, e.g. 'energy readings'
+  noun: string;
+  defaultSort: { field: string; order: Order };
+  // The grid's search, filters and sort, without paging. Pass a memoised
+  // function: a new one refetches, so filters belong in its dependencies.
+  query: (term: string, orderBy: string, order: Order, count?: 'exact') => RangeQuery;
+}
+
+// Search, sorting and pagination state for a paged grid. Searching is
+// debounced; every other change refetches immediately through the same path.
+// Changes other users make to the table refetch the page in the background
+// and highlight the rows they touched. Shared by EntityList and the grids
+// whose forms don't fit an EntityDefinition, such as readings and rates.
+export function useLiveGrid<Row extends { id: string }>({ table, noun, defaultSort, query }: LiveGridOptions) {
+  const user = useUser();
+  const [rows, setRows] = useState<Row[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Search state
+  const [searchTerm, setSearchTerm] = useState('');
+
+  // Pagination state
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useRowsPerPage();
+  const [totalCount, setTotalCount] = useState(0);
+
+  // Sorting state
+  const [orderBy, setOrderBy] = useState(defaultSort.field);
+  const [order, setOrder] = useState<Order>(defaultSort.order);
+
+  const fetchFailed = `Failed to search ${noun}`;
+
+  // A silent fetch keeps the current rows on screen instead of showing the loader
+  const fetchRows = useCallback(async (term: string, silent = false) => {
+    try {
+      if (!silent) setLoading(true);
+
+      const { data, count, error } = await query(term, orderBy, order, 'exact')
+        .range(page * rowsPerPage, (page + 1) * rowsPerPage - 1);
+
+      if (error) throw error;
+
+      setRows((data || []) as Row[]);
+      setTotalCount(count || 0);
+      // Clear an earlier failed fetch, but not an error from a save
+      setError(prev => (prev === fetchFailed ? null : prev));
+    } catch (err) {
+      console.error(`Error searching ${noun}:`, err);
+      setError(fetchFailed);
+    } finally {
+      setLoading(false);
+    }
+  }, [query, noun, fetchFailed, orderBy, order, page, rowsPerPage]);
+
+  const debouncedFetch = useMemo(() => debounce(fetchRows, 300), [fetchRows]);
+
+  useEffect(() => {
+    debouncedFetch(searchTerm);
+    return () => {
+      debouncedFetch.cancel();
+    };
+  }, [debouncedFetch, searchTerm]);
+
+  const refresh = useCallback(() => fetchRows(searchTerm), [fetchRows, searchTerm]);
+
+  const { ids: highlightedIds, highlight } = useHighlightedIds();
+
+  // Bursts of changes, e.g. a bulk import, end in a single refetch
+  const liveFetch = useMemo(() => debounce((term: string) => fetchRows(term, true), 500), [fetchRows]);
+
+  useEffect(() => () => {
+    liveFetch.cancel();
+  }, [liveFetch]);
+
+  useTableChanges([table], change => {
+    // Our own saves already refresh the grid
+    if (change.actorId && change.actorId === user?.id) return;
+
+    liveFetch(searchTerm);
+    if (change.type !== 'DELETE') {
+      highlight([change.id]);
+    }
+  });
+
+  // Every row matching the current search and filters, in grid order
+  const fetchAll = useCallback(async () => {
+    const data = await fetchAllRows((from, to) => query(searchTerm, orderBy, order).range(from, to));
+    return data as Row[];
+  }, [query, searchTerm, orderBy, order]);
+
+  const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setSearchTerm(event.target.value);
+    setPage(0); // Reset to first page when search changes
+  };
+
+  const handleSort = (field: string) => {
+    const isAsc = orderBy === field && order === 'asc';
+    setOrder(isAsc ? 'desc' : 'asc');
+    setOrderBy(field);
+    setPage(0); // Reset to first page when sorting changes
+  };
+
+  const handleChangePage = (_event: unknown, newPage: number) => {
+    setPage(newPage);
+  };
+
+  const handleChangeRowsPerPage = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setRowsPerPage(parseInt(event.target.value, 10));
+    setPage(0);
+  };
+
+  return {
+    rows,
+    loading,
+    error,
+    setError,
+    success,
+    setSuccess,
+    searchTerm,
+    handleSearchChange,
+    page,
+    setPage,
+    rowsPerPage,
+    totalCount,
+    handleChangePage,
+    handleChangeRowsPerPage,
+    orderBy,
+    order,
+    handleSort,
+    refresh,
+    fetchAll,
+    highlightedIds,
+  };
+}
@@ -1,18 +1,20 @@
 import React, { useState } from 'react';
-import { Bell, User, Sun, Moon, LogOut } from 'lucide-react';
+import { User, Sun, Moon, LogOut } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../lib/auth';
 import { useTheme } from '../../lib/theme';
 import { useUser } from '@supabase/auth-helpers-react';
+import { NotificationCenter } from '../notifications/NotificationCenter';
 
 export const Navbar = () => {
   const navigate = useNavigate();
   const { theme, toggleTheme } = useTheme();
   const user = useUser();
+  const { signOut } = useAuth();
   const [showUserMenu, setShowUserMenu] = useState(false);
 
   const handleSignOut = async () => {
-    await supabase.auth.signOut();
+    await signOut();
     navigate('/login');
   };
 
@@ -35,12 +37,7 @@ export const Navbar = () => {
               <Moon className="w-5 h-5 text-theme-accent" />
             )}
           </button>
-          <button 
-            className="p-2 hover:bg-secondary hover:bg-opacity-50 rounded-full"
-            aria-label="Notifications"
-          >
-            <Bell className="w-5 h-5 text-secondary" />
-          </button>
+          <NotificationCenter />
           <div className="relative">
             <button 
               onClick={() => setShowUserMenu(!showUserMenu)}
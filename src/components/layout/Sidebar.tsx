@@ -12,14 +12,26 @@ import {
   Factory,
   Cog,
   Box,
-  Gauge
+  Gauge,
+  Zap,
+  Receipt,
+  Leaf,
+  History,
+  FileSpreadsheet,
+  FolderTree,
+  ListOrdered,
+  Siren
 } from 'lucide-react';
+import { usePermissions } from '../../lib/auth';
+import { Permission } from '../../lib/permissions';
 
 interface MenuItem {
   title: string;
   path: string;
   icon: React.ReactNode;
   submenu?: MenuItem[];
+  // Hidden from users without this permission
+  permission?: Permission;
 }
 
 const menuItems: MenuItem[] = [
@@ -28,6 +40,11 @@ const menuItems: MenuItem[] = [
     path: '/',
     icon: <LayoutDashboard className="w-5 h-5" />,
   },
+  {
+    title: 'Plant Explorer',
+    path: '/plant-explorer',
+    icon: <FolderTree className="w-5 h-5" />,
+  },
   {
     title: 'Data Entry',
     path: '/data-entry',
@@ -68,13 +85,50 @@ const menuItems: MenuItem[] = [
         path: '/data-entry/machines',
         icon: <Box className="w-4 h-4" />,
       },
+      {
+        title: 'Machine Sequence',
+        path: '/data-entry/machine-sequence',
+        icon: <ListOrdered className="w-4 h-4" />,
+      },
       {
         title: 'KPIs',
         path: '/data-entry/kpis',
         icon: <Gauge className="w-4 h-4" />,
       },
+      {
+        title: 'Energy Consumption',
+        path: '/data-entry/energy-consumption',
+        icon: <Zap className="w-4 h-4" />,
+      },
+      {
+        title: 'Utility Rates',
+        path: '/data-entry/utility-rates',
+        icon: <Receipt className="w-4 h-4" />,
+      },
+      {
+        title: 'Bulk Import',
+        path: '/data-entry/import',
+        icon: <FileSpreadsheet className="w-4 h-4" />,
+        permission: 'data:write',
+      },
     ],
   },
+  {
+    title: 'Alarms',
+    path: '/alarms',
+    icon: <Siren className="w-5 h-5" />,
+  },
+  {
+    title: 'Sustainability',
+    path: '/sustainability',
+    icon: <Leaf className="w-5 h-5" />,
+  },
+  {
+    title: 'Audit Log',
+    path: '/audit-log',
+    icon: <History className="w-5 h-5" />,
+    permission: 'audit:view',
+  },
   {
     title: 'Settings',
     path: '/settings',
@@ -83,6 +137,9 @@ const menuItems: MenuItem[] = [
 ];
 
 export const Sidebar = () => {
+  const { can } = usePermissions();
+  const visible = (items: MenuItem[]) =>
+    items.filter(item => !item.permission || can(item.permission));
   const [expandedMenus, setExpandedMenus] = useState<Record<string, boolean>>({
     'Data Entry': true,
   });
@@ -132,7 +189,7 @@ export const Sidebar = () => {
         </div>
         {hasSubmenu && isExpanded && (
           <div className="border-l border-secondary border-opacity-20 ml-6">
-            {item.submenu.map(subItem => renderMenuItem(subItem, depth + 1))}
+            {visible(item.submenu || []).map(subItem => renderMenuItem(subItem, depth + 1))}
           </div>
         )}
       </div>
@@ -145,7 +202,7 @@ export const Sidebar = () => {
         <h1 className="text-2xl font-bold text-primary">Energy Monitor</h1>
       </div>
       <nav className="mt-8">
-        {menuItems.map(item => renderMenuItem(item))}
+        {visible(menuItems).map(item => renderMenuItem(item))}
       </nav>
     </div>
   );
@@ -0,0 +1,226 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useSupabaseClient } from '@supabase/auth-helpers-react';
+import { Database } from '../../types/database';
+import { Bell, CheckCheck, Loader2 } from 'lucide-react';
+import { Alert, Snackbar } from '@mui/material';
+import {
+  EMPTY_FILTERS, Notification, acknowledgeNotification, fetchNotifications, fetchUnreadCount,
+  markAllNotificationsRead, markNotificationsRead, needsAcknowledgement
+} from '../../lib/notifications';
+import { useTableChanges } from '../../lib/realtime';
+import { usePreferences } from '../../lib/preferences';
+import { NotificationIcon } from './NotificationIcon';
+
+// How many notifications the dropdown lists
+const RECENT_COUNT = 8;
+
+const TOAST_SEVERITY = { alarm: 'error', warning: 'warning', success: 'success', info: 'info' } as const;
+
+// The bell in the header: an unread badge, a dropdown of recent
+// notifications and, with real-time alerts on, a toast for each new one
+export function NotificationCenter() {
+  const navigate = useNavigate();
+  const supabase = useSupabaseClient<Database>();
+  const { preferences: { realtimeAlerts } } = usePreferences();
+  const [open, setOpen] = useState(false);
+  const [recent, setRecent] = useState<Notification[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [toast, setToast] = useState<Notification | null>(null);
+  const container = useRef<HTMLDivElement>(null);
+
+  const loadUnread = useCallback(async () => {
+    try {
+      setUnread(await fetchUnreadCount(supabase));
+    } catch (err) {
+      console.error('Error fetching unread notifications:', err);
+    }
+  }, [supabase]);
+
+  const loadRecent = useCallback(async () => {
+    try {
+      const { rows } = await fetchNotifications(supabase, EMPTY_FILTERS, 0, RECENT_COUNT);
+      setRecent(rows);
+    } catch (err) {
+      console.error('Error fetching notifications:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase]);
+
+  useEffect(() => {
+    loadUnread();
+  }, [loadUnread]);
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    loadRecent();
+  }, [open, loadRecent]);
+
+  // Close the dropdown on a click anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (event: MouseEvent) => {
+      if (container.current && !container.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  useTableChanges(['notification'], change => {
+    loadUnread();
+    if (open) loadRecent();
+    if (change.type === 'INSERT' && realtimeAlerts && change.record) {
+      setToast(change.record as unknown as Notification);
+    }
+  });
+
+  const refresh = () => {
+    loadUnread();
+    loadRecent();
+  };
+
+  const handleOpen = async (notification: Notification) => {
+    setOpen(false);
+    setToast(null);
+    try {
+      if (!notification.read_at) {
+        await markNotificationsRead(supabase, [notification.id]);
+        loadUnread();
+      }
+    } catch (err) {
+      console.error('Error marking notification read:', err);
+    }
+    navigate(notification.link || '/notifications');
+  };
+
+  const handleAcknowledge = async (notification: Notification) => {
+    try {
+      await acknowledgeNotification(supabase, notification);
+      refresh();
+    } catch (err) {
+      console.error('Error acknowledging notification:', err);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllNotificationsRead(supabase);
+      refresh();
+    } catch (err) {
+      console.error('Error marking notifications read:', err);
+    }
+  };
+
+  return (
+    <div className="relative" ref={container}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 hover:bg-secondary hover:bg-opacity-50 rounded-full"
+        aria-label={unread > 0 ? `Notifications, ${unread} unread` : 'Notifications'}
+      >
+        <Bell className="w-5 h-5 text-secondary" />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-500 text-white text-[0.65rem] font-semibold flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-card rounded-lg shadow-lg border border-border z-50">
+          <div className="px-4 py-3 flex items-center justify-between border-b border-border">
+            <span className="font-semibold text-primary">Notifications</span>
+            {unread > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="text-sm text-blue-600 hover:text-blue-700 flex items-center gap-1"
+              >
+                <CheckCheck className="w-4 h-4" />
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+              </div>
+            ) : recent.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-secondary">You have no notifications</p>
+            ) : (
+              recent.map(notification => (
+                <div
+                  key={notification.id}
+                  className={`px-4 py-3 flex gap-3 border-b border-border last:border-b-0 ${
+                    notification.read_at ? '' : 'bg-blue-50 bg-opacity-60'
+                  }`}
+                >
+                  <NotificationIcon level={notification.level} className="w-5 h-5 mt-0.5 shrink-0" />
+                  <div className="min-w-0 flex-1">
+                    <button onClick={() => handleOpen(notification)} className="text-left w-full">
+                      <div className={`text-sm text-primary ${notification.read_at ? '' : 'font-semibold'}`}>
+                        {notification.title}
+                      </div>
+                      {notification.body && (
+                        <div className="text-sm text-secondary">{notification.body}</div>
+                      )}
+                      <div className="text-xs text-secondary mt-1">
+                        {new Date(notification.created_at).toLocaleString()}
+                      </div>
+                    </button>
+                    {needsAcknowledgement(notification) && (
+                      <button
+                        onClick={() => handleAcknowledge(notification)}
+                        className="mt-1 text-xs font-medium text-blue-600 hover:text-blue-700"
+                      >
+                        Acknowledge
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          <button
+            onClick={() => {
+              setOpen(false);
+              navigate('/notifications');
+            }}
+            className="w-full px-4 py-2 text-sm text-center text-blue-600 hover:bg-secondary hover:bg-opacity-50 border-t border-border rounded-b-lg"
+          >
+            View all notifications
+          </button>
+        </div>
+      )}
+
+      {toast && (
+        <Snackbar
+          open
+          autoHideDuration={6000}
+          onClose={() => setToast(null)}
+          anchorOrigin={{ vertical: 'top', horizontal: 'right' }}
+        >
+          <Alert
+            severity={TOAST_SEVERITY[toast.level] || 'info'}
+            onClose={(event) => {
+              event.stopPropagation();
+              setToast(null);
+            }}
+            onClick={() => handleOpen(toast)}
+            sx={{ cursor: 'pointer' }}
+          >
+            <strong>{toast.title}</strong>
+            {toast.body && <div>{toast.body}</div>}
+          </Alert>
+        </Snackbar>
+      )}
+    </div>
+  );
+}
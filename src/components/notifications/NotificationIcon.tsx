@@ -0,0 +1,15 @@
+import { AlertTriangle, CheckCircle, Info, XCircle } from 'lucide-react';
+import { NotificationLevel } from '../../lib/notifications';
+
+export function NotificationIcon({ level, className = 'w-5 h-5' }: { level: NotificationLevel; className?: string }) {
+  switch (level) {
+    case 'alarm':
+      return <XCircle className={`${className} text-danger`} />;
+    case 'warning':
+      return <AlertTriangle className={`${className} text-warning`} />;
+    case 'success':
+      return <CheckCircle className={`${className} text-success`} />;
+    default:
+      return <Info className={`${className} text-blue-500`} />;
+  }
+}
@@ -0,0 +1,140 @@
+import { useState, useEffect } from 'react';
+import { AlertCircle, Save, Send, X } from 'lucide-react';
+import {
+  Button, Checkbox, Dialog, DialogTitle, DialogContent, DialogActions, FormControl,
+  FormHelperText, InputLabel, ListItemText, MenuItem, Select, TextField
+} from '@mui/material';
+import { ManagedUser, UserAccess } from '../../lib/userAdmin';
+import { Role } from '../../lib/permissions';
+
+interface UserAccessDialogProps {
+  open: boolean;
+  // The user whose access is edited, or null to invite a new one
+  editing: ManagedUser | null;
+  // Whether the signed-in admin is editing themselves
+  isSelf: boolean;
+  companies: { id: string; name: string }[];
+  onClose: () => void;
+  onSubmit: (email: string, access: UserAccess) => Promise<void>;
+}
+
+export function UserAccessDialog({ open, editing, isSelf, companies, onClose, onSubmit }: UserAccessDialogProps) {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>('user');
+  const [companyIds, setCompanyIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setEmail(editing?.email || '');
+    setRole(editing?.role || 'user');
+    setCompanyIds(editing?.companyIds || []);
+    setError(null);
+  }, [open, editing]);
+
+  const handleSubmit = async () => {
+    if (!editing && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      setError('Enter a valid email address');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await onSubmit(email.trim(), { role, companyIds: role === 'admin' ? [] : companyIds });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The request failed. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const companyName = (id: string) => companies.find(company => company.id === id)?.name || 'Unknown company';
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{editing ? `Edit ${editing.email}` : 'Invite User'}</DialogTitle>
+      <DialogContent>
+        <div className="space-y-4 pt-4">
+          {error && (
+            <div className="p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+              <AlertCircle className="w-5 h-5" />
+              {error}
+            </div>
+          )}
+
+          {!editing && (
+            <TextField
+              fullWidth
+              label="Email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              helperText="They will receive an email with a link to set their password"
+              required
+              autoFocus
+            />
+          )}
+
+          <FormControl fullWidth>
+            <InputLabel>Role</InputLabel>
+            <Select
+              value={role}
+              label="Role"
+              onChange={(e) => setRole(e.target.value as Role)}
+              disabled={isSelf}
+            >
+              <MenuItem value="user">User</MenuItem>
+              <MenuItem value="admin">Administrator</MenuItem>
+            </Select>
+            <FormHelperText>
+              {isSelf
+                ? 'You cannot change your own role'
+                : 'Administrators can change data, settings and users, and see every company'}
+            </FormHelperText>
+          </FormControl>
+
+          {role === 'user' && (
+            <FormControl fullWidth>
+              <InputLabel>Companies</InputLabel>
+              <Select
+                multiple
+                value={companyIds}
+                label="Companies"
+                onChange={(e) => setCompanyIds(e.target.value as string[])}
+                renderValue={(selected) => (selected as string[]).map(companyName).join(', ')}
+              >
+                {companies.map(company => (
+                  <MenuItem key={company.id} value={company.id}>
+                    <Checkbox checked={companyIds.includes(company.id)} />
+                    <ListItemText primary={company.name} />
+                  </MenuItem>
+                ))}
+              </Select>
+              <FormHelperText>
+                {companyIds.length === 0
+                  ? 'No companies selected: the user can see every company'
+                  : 'The user only sees data for these companies'}
+              </FormHelperText>
+            </FormControl>
+          )}
+        </div>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} startIcon={<X />}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          variant="contained"
+          color="primary"
+          disabled={saving}
+          startIcon={editing ? <Save /> : <Send />}
+        >
+          {editing ? 'Save' : 'Send Invitation'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
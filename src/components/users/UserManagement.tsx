@@ -0,0 +1,319 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSupabaseClient, useUser } from '@supabase/auth-helpers-react';
+import { Database } from '../../types/database';
+import {
+  AlertCircle, CheckCircle, Edit2, KeyRound, Loader2, Search,
+  UserCheck, UserPlus, UserX, X
+} from 'lucide-react';
+import {
+  Button, Chip, Dialog, DialogActions, DialogContent, DialogTitle, InputAdornment,
+  Paper, Table, TableBody, TableCell, TableHead, TableRow, TextField
+} from '@mui/material';
+import {
+  ManagedUser, UserAccess, fetchManagedUsers, hasPassword, inviteUser,
+  sendPasswordReset, setUserDeactivated, updateUserAccess
+} from '../../lib/userAdmin';
+import { UserAccessDialog } from './UserAccessDialog';
+
+const PROVIDER_LABELS: Record<string, string> = {
+  email: 'Password',
+  azure: 'Entra ID',
+  ldap: 'LDAP',
+};
+
+const formatTime = (value: string | null) => value ? new Date(value).toLocaleString() : 'Never';
+
+// Invite users, change their role and company scope, deactivate accounts and
+// send password resets. Everything goes through the admin-users edge function.
+export function UserManagement() {
+  const supabase = useSupabaseClient<Database>();
+  const currentUser = useUser();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [companies, setCompanies] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ManagedUser | null>(null);
+  const [deactivating, setDeactivating] = useState<ManagedUser | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setError(null);
+      setUsers(await fetchManagedUsers(supabase));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  useEffect(() => {
+    const fetchCompanies = async () => {
+      const { data, error } = await supabase
+        .from('company')
+        .select('id, name')
+        .is('archived_at', null)
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching companies:', error);
+        return;
+      }
+      setCompanies(data || []);
+    };
+
+    fetchCompanies();
+  }, [supabase]);
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  // Runs an action against one user and reloads the list afterwards
+  const runAction = async (user: ManagedUser, action: () => Promise<void>, message: string) => {
+    try {
+      setBusyId(user.id);
+      setError(null);
+      await action();
+      showSuccess(message);
+      await loadUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The request failed. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleInvite = () => {
+    setEditing(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (user: ManagedUser) => {
+    setEditing(user);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (email: string, access: UserAccess) => {
+    if (editing) {
+      await updateUserAccess(supabase, editing.id, access);
+      showSuccess(`Access updated for ${editing.email}`);
+    } else {
+      await inviteUser(supabase, email, access);
+      showSuccess(`Invitation sent to ${email}`);
+    }
+    setDialogOpen(false);
+    await loadUsers();
+  };
+
+  const handleDeactivate = async () => {
+    if (!deactivating) return;
+    const user = deactivating;
+    setDeactivating(null);
+    await runAction(user, () => setUserDeactivated(supabase, user.id, true), `${user.email} has been deactivated`);
+  };
+
+  const companyNames = (user: ManagedUser) => {
+    if (user.role === 'admin' || user.companyIds.length === 0) return 'All companies';
+    return user.companyIds
+      .map(id => companies.find(company => company.id === id)?.name || 'Unknown company')
+      .join(', ');
+  };
+
+  const term = searchTerm.trim().toLowerCase();
+  const shownUsers = term
+    ? users.filter(user => user.email.toLowerCase().includes(term) || user.name?.toLowerCase().includes(term))
+    : users;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6 gap-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">User Management</h3>
+          <p className="text-gray-600 mt-1">
+            Invite users, assign their role and the companies they can see, and manage their accounts.
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <TextField
+            size="small"
+            placeholder="Search users..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <Search className="w-5 h-5 text-gray-500" />
+                </InputAdornment>
+              ),
+            }}
+          />
+          <Button variant="contained" color="primary" startIcon={<UserPlus />} onClick={handleInvite}>
+            Invite User
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+          <AlertCircle className="w-5 h-5" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-4 bg-green-50 text-green-700 rounded-md flex items-center gap-2">
+          <CheckCircle className="w-5 h-5" />
+          {success}
+        </div>
+      )}
+
+      <Paper className="overflow-x-auto">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>User</TableCell>
+              <TableCell>Role</TableCell>
+              <TableCell>Companies</TableCell>
+              <TableCell>Sign-in</TableCell>
+              <TableCell>Last sign-in</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {shownUsers.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} align="center">
+                  {term ? 'No users found matching your search' : 'No users available'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              shownUsers.map(user => {
+                const isSelf = user.id === currentUser?.id;
+                const busy = busyId === user.id;
+
+                return (
+                  <TableRow key={user.id} sx={{ opacity: user.deactivated ? 0.6 : undefined }}>
+                    <TableCell>
+                      <div className="font-medium text-gray-900">{user.email}</div>
+                      {user.name && <div className="text-sm text-gray-500">{user.name}</div>}
+                    </TableCell>
+                    <TableCell>{user.role === 'admin' ? 'Administrator' : 'User'}</TableCell>
+                    <TableCell>{companyNames(user)}</TableCell>
+                    <TableCell>
+                      {user.providers.map(provider => PROVIDER_LABELS[provider] || provider).join(', ')}
+                    </TableCell>
+                    <TableCell>{formatTime(user.lastSignInAt)}</TableCell>
+                    <TableCell>
+                      {user.deactivated ? (
+                        <Chip size="small" label="Deactivated" color="error" variant="outlined" />
+                      ) : !user.confirmed ? (
+                        <Chip size="small" label="Invited" color="warning" variant="outlined" />
+                      ) : (
+                        <Chip size="small" label="Active" color="success" variant="outlined" />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          size="small"
+                          startIcon={<Edit2 className="w-4 h-4" />}
+                          onClick={() => handleEdit(user)}
+                          disabled={busy}
+                        >
+                          Edit
+                        </Button>
+                        {hasPassword(user) && !user.deactivated && (
+                          <Button
+                            size="small"
+                            startIcon={<KeyRound className="w-4 h-4" />}
+                            onClick={() => runAction(
+                              user,
+                              () => sendPasswordReset(supabase, user.id),
+                              `Password reset email sent to ${user.email}`
+                            )}
+                            disabled={busy}
+                          >
+                            Reset password
+                          </Button>
+                        )}
+                        {!isSelf && (user.deactivated ? (
+                          <Button
+                            size="small"
+                            startIcon={<UserCheck className="w-4 h-4" />}
+                            onClick={() => runAction(
+                              user,
+                              () => setUserDeactivated(supabase, user.id, false),
+                              `${user.email} has been reactivated`
+                            )}
+                            disabled={busy}
+                          >
+                            Reactivate
+                          </Button>
+                        ) : (
+                          <Button
+                            size="small"
+                            color="error"
+                            startIcon={<UserX className="w-4 h-4" />}
+                            onClick={() => setDeactivating(user)}
+                            disabled={busy}
+                          >
+                            Deactivate
+                          </Button>
+                        ))}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </Paper>
+
+      <UserAccessDialog
+        open={dialogOpen}
+        editing={editing}
+        isSelf={!!editing && editing.id === currentUser?.id}
+        companies={companies}
+        onClose={() => setDialogOpen(false)}
+        onSubmit={handleSubmit}
+      />
+
+      <Dialog open={!!deactivating} onClose={() => setDeactivating(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Deactivate User</DialogTitle>
+        <DialogContent>
+          <p className="text-gray-700">
+            {deactivating?.email} will no longer be able to sign in until the account is
+            reactivated. Their change history is kept.
+          </p>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeactivating(null)} startIcon={<X />}>
+            Cancel
+          </Button>
+          <Button onClick={handleDeactivate} variant="contained" color="error" startIcon={<UserX />}>
+            Deactivate
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database, Tables } from '../types/database';
+import { ALERT_SCOPE_SELECT, AlertScopeNames } from './alerts';
+
+export type AlarmStatus = 'raised' | 'acknowledged' | 'resolved';
+export type AlarmActivityAction =
+  'raised' | 'acknowledged' | 'assigned' | 'commented' | 'escalated' | 'cleared' | 'resolved';
+
+export type Alarm = Omit<Tables<'alarm'>, 'status'> & AlertScopeNames & {
+  status: AlarmStatus;
+};
+
+export type AlarmActivity = Omit<Tables<'alarm_activity'>, 'action'> & {
+  action: AlarmActivityAction;
+};
+
+export const ALARM_STATUSES: { value: AlarmStatus; label: string }[] = [
+  { value: 'raised', label: 'Raised' },
+  { value: 'acknowledged', label: 'Acknowledged' },
+  { value: 'resolved', label: 'Resolved' },
+];
+
+export const alarmStatusLabel = (status: AlarmStatus) =>
+  ALARM_STATUSES.find(option => option.value === status)?.label || status;
+
+export interface AlarmFilters {
+  factoryId: string;
+  // 'open' is raised or acknowledged
+  status: AlarmStatus | 'open' | 'all';
+}
+
+// Alarms newest first, with the names of their factory, line and machine
+export async function fetchAlarms(
+  supabase: SupabaseClient<Database>,
+  filters: AlarmFilters,
+  page: number,
+  rowsPerPage: number
+): Promise<{ rows: Alarm[]; count: number }> {
+  let query = supabase
+    .from('alarm')
+    .select(`*, ${ALERT_SCOPE_SELECT}`, { count: 'exact' })
+    .order('raised_at', { ascending: false })
+    .range(page * rowsPerPage, (page + 1) * rowsPerPage - 1);
+
+  if (filters.factoryId) {
+    query = query.eq('company_id', filters.factoryId);
+  }
+  if (filters.status === 'open') {
+    query = query.neq('status', 'resolved');
+  } else if (filters.status !== 'all') {
+    query = query.eq('status', filters.status);
+  }
+
+  const { data, error, count } = await query;
+  if (error) throw error;
+  return { rows: (data || []) as Alarm[], count: count || 0 };
+}
+
+export async function fetchAlarm(supabase: SupabaseClient<Database>, alarmId: string): Promise<Alarm | null> {
+  const { data, error } = await supabase
+    .from('alarm')
+    .select(`*, ${ALERT_SCOPE_SELECT}`)
+    .eq('id', alarmId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as Alarm | null;
+}
+
+// The alarm log, oldest first
+export async function fetchAlarmActivity(
+  supabase: SupabaseClient<Database>,
+  alarmId: string
+): Promise<AlarmActivity[]> {
+  const { data, error } = await supabase
+    .from('alarm_activity')
+    .select('*')
+    .eq('alarm_id', alarmId)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as AlarmActivity[];
+}
+
+// Active users who can see the alarm's factory
+export async function fetchAlarmAssignees(
+  supabase: SupabaseClient<Database>,
+  alarmId: string
+): Promise<{ id: string; email: string }[]> {
+  const { data, error } = await supabase.rpc('alarm_assignees', { p_alarm_id: alarmId });
+  if (error) throw error;
+  return data || [];
+}
+
+// Steps through the alarm lifecycle and records it in the alarm log. Steps
+// the alarm's state doesn't allow fail with a message for the user.
+export async function updateAlarm(
+  supabase: SupabaseClient<Database>,
+  alarmId: string,
+  action: 'acknowledge' | 'assign' | 'comment' | 'resolve',
+  { comment, assignee }: { comment?: string; assignee?: string } = {}
+): Promise<void> {
+  const { error } = await supabase.rpc('update_alarm', {
+    p_alarm_id: alarmId,
+    p_action: action,
+    p_comment: comment || null,
+    p_assignee: assignee || null,
+  });
+
+  if (error?.code === '22023') throw new Error(error.message);
+  if (error) throw error;
+}
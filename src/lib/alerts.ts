@@ -0,0 +1,183 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/database';
+import { FactoryStatusLevel, UtilityType } from '../types';
+
+export type ThresholdType = 'baseline' | 'absolute';
+
+// The names of what a rule, alarm or reading is scoped to
+export interface AlertScopeNames {
+  company: { name: string } | null;
+  line?: { name: string } | null;
+  machine?: { name: string } | null;
+}
+
+export const ALERT_SCOPE_SELECT = 'company:company_id(name), line:line_id(name), machine:machine_id(name)';
+
+// "Factory / Line / Machine", as far down as the scope goes
+export const alertScopeName = (scope: AlertScopeNames, fallback = 'All factories') =>
+  [scope.company?.name, scope.line?.name, scope.machine?.name].filter(Boolean).join(' / ') || fallback;
+
+export type AlertRule = Database['public']['Tables']['alert_rule']['Row'] & AlertScopeNames;
+
+export const THRESHOLD_TYPES: { value: ThresholdType; label: string }[] = [
+  { value: 'baseline', label: '% of baseline' },
+  { value: 'absolute', label: 'Units per hour' },
+];
+
+const STATUS_RANK: Record<FactoryStatusLevel, number> = { running: 0, warning: 1, alarm: 2 };
+
+export const worstStatus = (a: FactoryStatusLevel, b: FactoryStatusLevel): FactoryStatusLevel =>
+  STATUS_RANK[b] > STATUS_RANK[a] ? b : a;
+
+export async function fetchAlertRules(supabase: SupabaseClient<Database>): Promise<AlertRule[]> {
+  const { data, error } = await supabase
+    .from('alert_rule')
+    .select(`*, ${ALERT_SCOPE_SELECT}`)
+    .order('utility_type')
+    .order('company_id', { nullsFirst: true })
+    .order('line_id', { nullsFirst: true })
+    .order('machine_id', { nullsFirst: true });
+
+  if (error) throw error;
+  return (data || []) as AlertRule[];
+}
+
+// The current energy alert level per factory, the worst across utilities and
+// the factory's lines and machines. Factories without an alert state are not
+// in the map.
+export async function fetchAlertLevels(
+  supabase: SupabaseClient<Database>,
+  companyIds: string[] | null = null
+): Promise<Map<string, FactoryStatusLevel>> {
+  let query = supabase.from('alert_state').select('company_id, level');
+  if (companyIds) {
+    query = query.in('company_id', companyIds);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const levels = new Map<string, FactoryStatusLevel>();
+  (data || []).forEach((state) => {
+    const level = state.level as FactoryStatusLevel;
+    levels.set(state.company_id, worstStatus(levels.get(state.company_id) || 'running', level));
+  });
+  return levels;
+}
+
+// Brings every factory's, line's and machine's alert level in line with the
+// rules after they change, instead of waiting for the next reading
+export async function reevaluateAlertRules(supabase: SupabaseClient<Database>): Promise<void> {
+  const { error } = await supabase.rpc('reevaluate_alert_rules');
+  if (error) throw error;
+}
+
+export interface AlertRuleForm {
+  // '' for all factories, the whole factory or the whole line
+  company_id: string;
+  line_id: string;
+  machine_id: string;
+  utility_type: UtilityType | '';
+  threshold_type: ThresholdType;
+  warning_threshold: string;
+  critical_threshold: string;
+  hysteresis: string;
+  window_minutes: string;
+  baseline_days: string;
+  min_duration_minutes: string;
+  // Who hears about an alarm nobody acknowledges in time; '' for nobody
+  escalate_to: string;
+  escalate_after_minutes: string;
+  enabled: boolean;
+}
+
+export type AlertRuleErrors = Partial<Record<keyof AlertRuleForm, string>>;
+
+const isWhole = (value: string, min: number, max: number) =>
+  /^\d+$/.test(value) && Number(value) >= min && Number(value) <= max;
+
+export function validateAlertRule(form: AlertRuleForm): AlertRuleErrors {
+  const errors: AlertRuleErrors = {};
+  const warning = Number(form.warning_threshold);
+  const critical = Number(form.critical_threshold);
+
+  if (!form.utility_type) {
+    errors.utility_type = 'Please select a utility type';
+  }
+  if (!form.warning_threshold || Number.isNaN(warning) || warning <= 0) {
+    errors.warning_threshold = 'Enter a threshold greater than zero';
+  }
+  if (!form.critical_threshold || Number.isNaN(critical) || critical <= 0) {
+    errors.critical_threshold = 'Enter a threshold greater than zero';
+  } else if (!errors.warning_threshold && critical < warning) {
+    errors.critical_threshold = 'Must be at least the warning threshold';
+  }
+  if (form.hysteresis && (Number.isNaN(Number(form.hysteresis)) || Number(form.hysteresis) < 0)) {
+    errors.hysteresis = 'Cannot be negative';
+  }
+  if (!isWhole(form.window_minutes, 5, 1440)) {
+    errors.window_minutes = 'Between 5 and 1440 minutes';
+  }
+  if (form.threshold_type === 'baseline' && !isWhole(form.baseline_days, 1, 365)) {
+    errors.baseline_days = 'Between 1 and 365 days';
+  }
+  if (!isWhole(form.min_duration_minutes || '0', 0, 1440)) {
+    errors.min_duration_minutes = 'Between 0 and 1440 minutes';
+  }
+  if (form.escalate_to && !isWhole(form.escalate_after_minutes, 1, 1440)) {
+    errors.escalate_after_minutes = 'Between 1 and 1440 minutes';
+  }
+
+  return errors;
+}
+
+export const emptyAlertRuleForm = (): AlertRuleForm => ({
+  company_id: '',
+  line_id: '',
+  machine_id: '',
+  utility_type: 'electricity',
+  threshold_type: 'baseline',
+  warning_threshold: '120',
+  critical_threshold: '150',
+  hysteresis: '5',
+  window_minutes: '60',
+  baseline_days: '28',
+  min_duration_minutes: '15',
+  escalate_to: '',
+  escalate_after_minutes: '30',
+  enabled: true,
+});
+
+export const formFromRule = (rule: AlertRule): AlertRuleForm => ({
+  company_id: rule.company_id || '',
+  line_id: rule.line_id || '',
+  machine_id: rule.machine_id || '',
+  utility_type: rule.utility_type as UtilityType,
+  threshold_type: rule.threshold_type as ThresholdType,
+  warning_threshold: String(rule.warning_threshold),
+  critical_threshold: String(rule.critical_threshold),
+  hysteresis: String(rule.hysteresis),
+  window_minutes: String(rule.window_minutes),
+  baseline_days: String(rule.baseline_days),
+  min_duration_minutes: String(rule.min_duration_minutes),
+  escalate_to: rule.escalate_to || '',
+  escalate_after_minutes: String(rule.escalate_after_minutes ?? 30),
+  enabled: rule.enabled,
+});
+
+export const valuesFromForm = (form: AlertRuleForm) => ({
+  company_id: form.company_id || null,
+  line_id: (form.company_id && form.line_id) || null,
+  machine_id: (form.company_id && form.line_id && form.machine_id) || null,
+  utility_type: form.utility_type,
+  threshold_type: form.threshold_type,
+  warning_threshold: Number(form.warning_threshold),
+  critical_threshold: Number(form.critical_threshold),
+  hysteresis: Number(form.hysteresis || 0),
+  window_minutes: Number(form.window_minutes),
+  baseline_days: Number(form.baseline_days),
+  min_duration_minutes: Number(form.min_duration_minutes || 0),
+  escalate_to: form.escalate_to || null,
+  escalate_after_minutes: form.escalate_to ? Number(form.escalate_after_minutes) : null,
+  enabled: form.enabled,
+});
@@ -0,0 +1,112 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database, Json, Tables } from '../types/database';
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+// changed_by_email is copied in by record_audit(); null for system writes
+export type AuditEntry = Omit<Tables<'audit_log'>, 'action'> & {
+  action: AuditAction;
+};
+
+export interface FieldChange {
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+export interface AuditFilters {
+  table?: string;
+  userId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Tables written to the audit log by record_audit(), with display labels
+export const AUDITED_TABLES = [
+  { value: 'company', label: 'Companies' },
+  { value: 'country', label: 'Countries' },
+  { value: 'city', label: 'Cities' },
+  { value: 'district', label: 'Districts' },
+  { value: 'line_type', label: 'Line Types' },
+  { value: 'line', label: 'Lines' },
+  { value: 'machine', label: 'Machines' },
+  { value: 'kpi', label: 'KPIs' },
+];
+
+// Columns that describe the write itself rather than the record
+const BOOKKEEPING_FIELDS = ['id', 'created_at', 'created_by', 'updated_at', 'updated_by'];
+
+export const auditTableLabel = (table: string) =>
+  AUDITED_TABLES.find(option => option.value === table)?.label || table;
+
+// 'line_type_id' -> 'Line Type', 'archived_at' -> 'Archived At'
+export const fieldLabel = (field: string) =>
+  field
+    .replace(/_id$/, '')
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+const formatValue = (value: Json | undefined): string | null => {
+  if (value === null || value === undefined) return null;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const asObject = (value: Json | null): Record<string, Json | undefined> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+
+// Field-level changes of one entry: changed columns for an update, every
+// populated column for an insert or delete
+export const fieldChanges = (entry: AuditEntry): FieldChange[] => {
+  const before = asObject(entry.old_values);
+  const after = asObject(entry.new_values);
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(field => !BOOKKEEPING_FIELDS.includes(field))
+    .sort();
+
+  return fields
+    .map(field => ({ field, from: formatValue(before[field]), to: formatValue(after[field]) }))
+    .filter(change => change.from !== null || change.to !== null);
+};
+
+const toEntries = (rows: Tables<'audit_log'>[]): AuditEntry[] =>
+  rows.map(row => ({ ...row, action: row.action as AuditAction }));
+
+export async function fetchRecordHistory(
+  supabase: SupabaseClient<Database>,
+  table: string,
+  recordId: string
+): Promise<AuditEntry[]> {
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('*')
+    .eq('table_name', table)
+    .eq('record_id', recordId)
+    .order('changed_at', { ascending: false });
+
+  if (error) throw error;
+  return toEntries(data || []);
+}
+
+export async function fetchAuditLog(
+  supabase: SupabaseClient<Database>,
+  filters: AuditFilters,
+  page: number,
+  rowsPerPage: number
+): Promise<{ entries: AuditEntry[]; count: number }> {
+  let query = supabase
+    .from('audit_log')
+    .select('*', { count: 'exact' });
+
+  if (filters.table) query = query.eq('table_name', filters.table);
+  if (filters.userId) query = query.eq('changed_by', filters.userId);
+  if (filters.from) query = query.gte('changed_at', filters.from.toISOString());
+  if (filters.to) query = query.lt('changed_at', filters.to.toISOString());
+
+  const { data, count, error } = await query
+    .order('changed_at', { ascending: false })
+    .range(page * rowsPerPage, (page + 1) * rowsPerPage - 1);
+
+  if (error) throw error;
+  return { entries: toEntries(data || []), count: count || 0 };
+}
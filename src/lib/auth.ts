@@ -0,0 +1,50 @@
+import { createContext, useContext } from 'react';
+import { AccessProfile, DEFAULT_ACCESS, Permission, canAccessCompany, hasPermission } from './permissions';
+
+export const REDIRECT_PARAM = 'redirectTo';
+
+// Where invite and password reset emails send people to choose a password
+export const SET_PASSWORD_PATH = '/set-password';
+
+export interface AuthContextType {
+  // True when the session ended without the user signing out, e.g. the
+  // refresh token expired or was revoked
+  sessionExpired: boolean;
+  access: AccessProfile;
+  accessLoading: boolean;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextType>({
+  sessionExpired: false,
+  access: DEFAULT_ACCESS,
+  accessLoading: false,
+  signOut: async () => {},
+});
+
+export const useAuth = () => useContext(AuthContext);
+
+export const usePermissions = () => {
+  const { access } = useAuth();
+
+  return {
+    role: access.role,
+    isAdmin: access.role === 'admin',
+    companyIds: access.companyIds,
+    can: (permission: Permission) => hasPermission(access, permission),
+    canAccessCompany: (companyId: string) => canAccessCompany(access, companyId),
+  };
+};
+
+export const loginPath = (from: string) =>
+  from && from !== '/' ? `/login?${REDIRECT_PARAM}=${encodeURIComponent(from)}` : '/login';
+
+// Only same-origin app paths are followed after login, so the parameter can't
+// be used as an open redirect
+export const redirectTarget = (params: URLSearchParams) => {
+  const target = params.get(REDIRECT_PARAM);
+  if (!target || !target.startsWith('/') || target.startsWith('//') || target.startsWith('/login')) {
+    return '/';
+  }
+  return target;
+};
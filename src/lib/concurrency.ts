@@ -0,0 +1,13 @@
+interface VersionFilter<T> {
+  eq(column: 'updated_at', value: string): T;
+  is(column: 'updated_at', value: null): T;
+}
+
+// Limits an update to the version of the row the user started editing, so it
+// matches no rows when someone else saved in the meantime. Pair it with
+// .select('id') and treat an empty result as a stale edit.
+export const unchangedSince = <T extends VersionFilter<T>>(query: T, updatedAt: string | null): T =>
+  updatedAt ? query.eq('updated_at', updatedAt) : query.is('updated_at', null);
+
+export const staleRecordMessage = (noun: string) =>
+  `This ${noun} was changed by someone else after you opened it, so your changes were not saved. Open it again to edit the latest values.`;
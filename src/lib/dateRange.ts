@@ -0,0 +1,106 @@
+export interface Period {
+  from: Date;
+  to: Date;
+}
+
+export type DateRangeKey = '24h' | '7d' | '30d' | '90d' | '180d' | '365d' | 'custom';
+export type Bucket = 'hour' | 'day';
+
+export interface DateRangeSelection {
+  range: DateRangeKey;
+  // Custom ranges only, as yyyy-mm-dd
+  from?: string;
+  to?: string;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+export const DATE_RANGE_OPTIONS: { value: Exclude<DateRangeKey, 'custom'>; label: string; hours: number }[] = [
+  { value: '24h', label: 'Last 24 hours', hours: 24 },
+  { value: '7d', label: 'Last 7 days', hours: 24 * 7 },
+  { value: '30d', label: 'Last 30 days', hours: 24 * 30 },
+  { value: '90d', label: 'Last 3 months', hours: 24 * 90 },
+  { value: '180d', label: 'Last 6 months', hours: 24 * 180 },
+  { value: '365d', label: 'Last year', hours: 24 * 365 },
+];
+
+// Maps the Settings "Default Date Range" values onto chart ranges
+const PREFERENCE_RANGES: Record<string, DateRangeKey> = {
+  last7days: '7d',
+  last30days: '30d',
+  last3months: '90d',
+  last6months: '180d',
+  lastyear: '365d',
+};
+
+export const rangeFromPreference = (preference: string): DateRangeKey =>
+  PREFERENCE_RANGES[preference] || '7d';
+
+export const lastHours = (hours: number, now = new Date()): Period => ({
+  from: new Date(now.getTime() - hours * HOUR),
+  to: now,
+});
+
+// The period of equal length immediately preceding the given one
+export const previousPeriod = ({ from, to }: Period): Period => {
+  const length = to.getTime() - from.getTime();
+  return {
+    from: new Date(from.getTime() - length),
+    to: from,
+  };
+};
+
+const isDateString = (value: string | null): value is string =>
+  !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+// Reads ?range=7d or ?range=custom&from=yyyy-mm-dd&to=yyyy-mm-dd, falling back when invalid
+export const parseDateRangeParams = (
+  params: URLSearchParams,
+  fallback: DateRangeKey
+): DateRangeSelection => {
+  const range = params.get('range');
+
+  if (range === 'custom') {
+    const from = params.get('from');
+    const to = params.get('to');
+    if (isDateString(from) && isDateString(to) && from <= to) {
+      return { range, from, to };
+    }
+    return { range: fallback };
+  }
+
+  if (DATE_RANGE_OPTIONS.some(option => option.value === range)) {
+    return { range: range as DateRangeKey };
+  }
+
+  return { range: fallback };
+};
+
+export const toDateRangeParams = (selection: DateRangeSelection): Record<string, string> =>
+  selection.range === 'custom' && selection.from && selection.to
+    ? { range: 'custom', from: selection.from, to: selection.to }
+    : { range: selection.range };
+
+export const resolvePeriod = (selection: DateRangeSelection, now = new Date()): Period => {
+  if (selection.range === 'custom' && selection.from && selection.to) {
+    const from = new Date(`${selection.from}T00:00:00`);
+    const to = new Date(`${selection.to}T00:00:00`);
+    // The end date is inclusive, so the period runs to the following midnight
+    to.setDate(to.getDate() + 1);
+    return { from, to };
+  }
+
+  const option = DATE_RANGE_OPTIONS.find(o => o.value === selection.range) || DATE_RANGE_OPTIONS[0];
+  return lastHours(option.hours, now);
+};
+
+// Hourly points up to two days, daily points beyond that
+export const bucketFor = ({ from, to }: Period): Bucket =>
+  to.getTime() - from.getTime() <= 48 * HOUR ? 'hour' : 'day';
+
+export const describeSelection = (selection: DateRangeSelection): string => {
+  if (selection.range === 'custom' && selection.from && selection.to) {
+    return `${new Date(`${selection.from}T00:00:00`).toLocaleDateString()} – ${new Date(`${selection.to}T00:00:00`).toLocaleDateString()}`;
+  }
+  return DATE_RANGE_OPTIONS.find(o => o.value === selection.range)?.label || '';
+};
@@ -0,0 +1,63 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/database';
+
+type TableName = keyof Database['public']['Tables'];
+
+export type DeleteStrategy = 'block' | 'reassign' | 'cascade';
+
+const TABLE_LABELS: Partial<Record<TableName, string>> = {
+  city: 'Cities',
+  district: 'Districts',
+  line: 'Production lines',
+  machine: 'Machines',
+  machine_metric: 'Machine metric records',
+  energy_consumption: 'Energy readings',
+  sustainability_goal: 'Sustainability goals',
+};
+
+export interface ImpactItem {
+  table: TableName;
+  label: string;
+  count: number;
+  // Direct dependants are the ones moved by a reassign; indirect ones are
+  // only affected by a cascade
+  direct: boolean;
+}
+
+// Counts every row that a cascade delete of `id` would remove, grouped by
+// table. entity_impact() walks the same relations as delete_entity().
+export async function fetchImpact(
+  supabase: SupabaseClient<Database>,
+  table: TableName,
+  id: string
+): Promise<ImpactItem[]> {
+  const { data, error } = await supabase.rpc('entity_impact', { p_table: table, p_id: id });
+
+  if (error) throw error;
+
+  return (data || [])
+    .map((row) => ({
+      table: row.table_name as TableName,
+      label: TABLE_LABELS[row.table_name as TableName] || row.table_name,
+      count: Number(row.row_count),
+      direct: row.direct,
+    }))
+    .sort((a, b) => Number(b.direct) - Number(a.direct));
+}
+
+export async function deleteEntity(
+  supabase: SupabaseClient<Database>,
+  table: TableName,
+  id: string,
+  strategy: DeleteStrategy,
+  reassignTo?: string
+) {
+  const { error } = await supabase.rpc('delete_entity', {
+    p_table: table,
+    p_id: id,
+    p_strategy: strategy,
+    p_reassign_to: strategy === 'reassign' ? reassignTo : null,
+  });
+
+  if (error) throw error;
+}
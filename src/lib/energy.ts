@@ -0,0 +1,136 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/database';
+import { EnergyConsumption, UtilityType } from '../types';
+import { Bucket, Period } from './dateRange';
+
+export const UTILITY_TYPES: { value: UtilityType; label: string; unit: string }[] = [
+  { value: 'electricity', label: 'Electricity', unit: 'kWh' },
+  { value: 'water', label: 'Water', unit: 'm³' },
+  { value: 'gas', label: 'Gas', unit: 'm³' },
+];
+
+export const utilityUnit = (utilityType: UtilityType) =>
+  UTILITY_TYPES.find(u => u.value === utilityType)?.unit || '';
+
+export const utilityLabel = (utilityType: UtilityType) =>
+  UTILITY_TYPES.find(u => u.value === utilityType)?.label || utilityType;
+
+export interface EnergyPoint {
+  time: string;
+  value: number;
+}
+
+const formatBucket = (timestamp: string, bucket: Bucket) => {
+  const date = new Date(timestamp);
+  return bucket === 'hour'
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+// The browser's time zone, so daily buckets start at local midnight like the chart labels
+export const clientTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Consumption totals per bucket, aggregated in the database by energy_consumption_buckets()
+export async function fetchEnergySeries(
+  supabase: SupabaseClient<Database>,
+  period: Period,
+  bucket: Bucket,
+  utilityType: UtilityType = 'electricity',
+  factoryIds: string[] | null = null
+): Promise<EnergyPoint[]> {
+  const { data, error } = await supabase.rpc('energy_consumption_buckets', {
+    p_from: period.from.toISOString(),
+    p_to: period.to.toISOString(),
+    p_bucket: bucket,
+    p_utility_type: utilityType,
+    p_factory_ids: factoryIds,
+    p_time_zone: clientTimeZone(),
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as { bucket: string; consumption: number }[]).map((row) => ({
+    time: formatBucket(row.bucket, bucket),
+    value: Math.round(Number(row.consumption) * 10) / 10,
+  }));
+}
+
+export interface ReadingValidationErrors {
+  factory?: string;
+  utility_type?: string;
+  consumption?: string;
+  timestamp?: string;
+}
+
+// Checks a reading against its neighbours from the same meter: the same
+// factory, line, machine and utility. New readings must be later than the
+// most recent one; edited readings only need to avoid landing on another
+// reading's timestamp.
+export async function validateReading(
+  supabase: SupabaseClient<Database>,
+  reading: Pick<EnergyConsumption, 'factory_id' | 'line_id' | 'machine_id' | 'utility_type' | 'consumption' | 'timestamp'>,
+  editingId?: string
+): Promise<ReadingValidationErrors> {
+  const errors: ReadingValidationErrors = {};
+
+  if (!reading.factory_id) {
+    errors.factory = 'Please select a factory';
+  }
+
+  if (!reading.utility_type) {
+    errors.utility_type = 'Please select a utility type';
+  }
+
+  if (Number.isNaN(reading.consumption)) {
+    errors.consumption = 'Consumption is required';
+  } else if (reading.consumption < 0) {
+    errors.consumption = 'Consumption cannot be negative';
+  }
+
+  const timestamp = new Date(reading.timestamp);
+  if (!reading.timestamp || Number.isNaN(timestamp.getTime())) {
+    errors.timestamp = 'Reading time is required';
+  } else if (timestamp.getTime() > Date.now()) {
+    errors.timestamp = 'Reading time cannot be in the future';
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return errors;
+  }
+
+  const iso = timestamp.toISOString();
+  const neighbours = (direction: 'before' | 'after') => {
+    let query = supabase
+      .from('energy_consumption')
+      .select('id, timestamp')
+      .eq('factory_id', reading.factory_id)
+      .eq('utility_type', reading.utility_type);
+
+    query = reading.line_id ? query.eq('line_id', reading.line_id) : query.is('line_id', null);
+    query = reading.machine_id ? query.eq('machine_id', reading.machine_id) : query.is('machine_id', null);
+
+    if (editingId) {
+      query = query.neq('id', editingId);
+    }
+
+    return (direction === 'before' ? query.lte('timestamp', iso) : query.gte('timestamp', iso))
+      .order('timestamp', { ascending: direction === 'after' })
+      .limit(1)
+      .maybeSingle();
+  };
+
+  const [{ data: before, error: beforeError }, { data: after, error: afterError }] = await Promise.all([
+    neighbours('before'),
+    neighbours('after'),
+  ]);
+
+  if (beforeError || afterError) throw beforeError || afterError;
+
+  if (before && new Date(before.timestamp).getTime() === timestamp.getTime()) {
+    errors.timestamp = 'A reading already exists at this time';
+  } else if (!editingId && after) {
+    errors.timestamp = `Reading is out of order: a later reading exists at ${new Date(after.timestamp).toLocaleString()}`;
+  }
+
+  return errors;
+}
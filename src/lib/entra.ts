@@ -0,0 +1,46 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/database';
+import { loginPath } from './auth';
+
+const DOMAIN_HINT = import.meta.env.VITE_ENTRA_DOMAIN_HINT;
+
+// Starts the Entra ID sign-in through the Supabase azure provider. Entra sends
+// the user back to the login page, which picks up the session from the URL
+// and continues to redirectTo.
+export async function signInWithEntra(supabase: SupabaseClient<Database>, redirectTo: string) {
+  const { error } = await supabase.auth.signInWithOAuth({
+    provider: 'azure',
+    options: {
+      // email is not in Entra ID tokens unless requested
+      scopes: 'openid profile email offline_access',
+      redirectTo: `${window.location.origin}${loginPath(redirectTo)}`,
+      queryParams: {
+        prompt: 'select_account',
+        ...(DOMAIN_HINT ? { domain_hint: DOMAIN_HINT } : {}),
+      },
+    },
+  });
+
+  if (error) throw error;
+}
+
+// A failed OAuth sign-in comes back with error and error_description in the
+// query string or the fragment
+export function oauthErrorFromUrl(location: Location): string | null {
+  const params = new URLSearchParams(location.search);
+  const fragment = new URLSearchParams(location.hash.replace(/^#/, ''));
+  const error = params.get('error') || fragment.get('error');
+  if (!error) return null;
+
+  const description = params.get('error_description') || fragment.get('error_description') || '';
+
+  // Raised by the entra_sign_in() trigger, which the auth server reports as a
+  // generic database error
+  if (/database error/i.test(description)) {
+    return 'Your Microsoft account could not be signed in. Your organization may not have access to this app; contact an administrator.';
+  }
+  if (error === 'access_denied') {
+    return 'Microsoft sign-in was cancelled or denied.';
+  }
+  return description || 'Microsoft sign-in failed. Please try again.';
+}
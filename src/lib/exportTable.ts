@@ -0,0 +1,109 @@
+import Papa from 'papaparse';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export type ExportValue = string | number | null;
+
+// A table as shown on screen: header labels plus display-ready cell values
+export interface ExportTable {
+  title: string;
+  columns: string[];
+  rows: ExportValue[][];
+}
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'pdf', label: 'PDF' },
+];
+
+// PostgREST caps every response (1000 rows by default), so exports read
+// the full result in pages of this size
+const EXPORT_PAGE_SIZE = 1000;
+
+// Reads every row of a query, one range at a time. The callback builds a
+// fresh query for each range so filters and sort stay identical across pages.
+export async function fetchAllRows<T>(
+  fetchRange: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const { data, error } = await fetchRange(from, from + EXPORT_PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...(data || []));
+    if (!data || data.length < EXPORT_PAGE_SIZE) return rows;
+  }
+}
+
+// "Machines" -> "machines-2026-10-19"
+const fileBaseName = (title: string) =>
+  `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}-${new Date().toLocaleDateString('en-CA')}`;
+
+const download = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const exportCsv = (table: ExportTable, fileName: string) => {
+  const csv = Papa.unparse(
+    { fields: table.columns, data: table.rows.map(row => row.map(value => value ?? '')) },
+    // Stops spreadsheet apps from evaluating cells such as "=HYPERLINK(...)"
+    { escapeFormulae: true }
+  );
+  // The byte order mark makes Excel read the file as UTF-8
+  download(new Blob(['\ufeff', csv], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+};
+
+const exportXlsx = async (table: ExportTable, fileName: string) => {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  await writeXlsxFile(
+    [
+      table.columns.map(label => ({ value: label, fontWeight: 'bold' as const })),
+      ...table.rows,
+    ],
+    {
+      // Excel limits sheet names to 31 characters and forbids some punctuation
+      sheet: table.title.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31),
+      stickyRowsCount: 1,
+    }
+  ).toFile(`${fileName}.xlsx`);
+};
+
+const exportPdf = async (table: ExportTable, fileName: string) => {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  const doc = new jsPDF({ orientation: table.columns.length > 5 ? 'landscape' : 'portrait' });
+
+  doc.setFontSize(14);
+  doc.text(table.title, 14, 16);
+  doc.setFontSize(9);
+  doc.text(`Exported ${new Date().toLocaleString()}`, 14, 22);
+
+  autoTable(doc, {
+    head: [table.columns],
+    body: table.rows.map(row => row.map(value => value ?? '')),
+    startY: 27,
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [59, 130, 246] },
+  });
+
+  doc.save(`${fileName}.pdf`);
+};
+
+// Builds the file in the browser and downloads it
+export async function exportTable(table: ExportTable, format: ExportFormat): Promise<void> {
+  const fileName = fileBaseName(table.title);
+
+  if (format === 'csv') {
+    exportCsv(table, fileName);
+  } else if (format === 'xlsx') {
+    await exportXlsx(table, fileName);
+  } else {
+    await exportPdf(table, fileName);
+  }
+}
@@ -0,0 +1,109 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/database';
+import { FactoryStatus, FactoryStatusLevel } from '../types';
+import { Period } from './dateRange';
+import { fetchAlertLevels, worstStatus } from './alerts';
+import { TreeScope } from './plantTree';
+
+export interface FactoryTotals {
+  energy: number;
+  oee: number;
+  efficiency: number;
+  uptime: number;
+}
+
+// A factory drops to warning/alarm when its average OEE or uptime falls below these levels
+const STATUS_THRESHOLDS = {
+  warning: { oee: 85, uptime: 97 },
+  alarm: { oee: 70, uptime: 90 },
+};
+
+const round = (value: number, digits = 1) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const average = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export const deriveStatus = (oee: number, uptime: number): FactoryStatusLevel => {
+  if (oee < STATUS_THRESHOLDS.alarm.oee || uptime < STATUS_THRESHOLDS.alarm.uptime) {
+    return 'alarm';
+  }
+  if (oee < STATUS_THRESHOLDS.warning.oee || uptime < STATUS_THRESHOLDS.warning.uptime) {
+    return 'warning';
+  }
+  return 'running';
+};
+
+// One status row per company (factory): machine metrics rolled up through
+// line -> company and the factory's electricity consumption, aggregated in
+// the database by factory_status(). The status is the worse of the metrics'
+// status and the factory's current energy alert level; a factory with
+// neither metrics nor a raised alert has no data.
+// companyIds limits the result to those factories, null meaning all of them;
+// a plant tree scope limits the metrics to the machines inside it.
+export async function fetchFactoryStatus(
+  supabase: SupabaseClient<Database>,
+  period: Period,
+  companyIds: string[] | null = null,
+  scope: TreeScope | null = null
+): Promise<FactoryStatus[]> {
+  const [{ data, error }, alertLevels] = await Promise.all([
+    supabase.rpc('factory_status', {
+      p_from: period.from.toISOString(),
+      p_to: period.to.toISOString(),
+      p_company_ids: companyIds,
+      p_scope_level: scope?.level ?? null,
+      p_scope_id: scope?.id ?? null,
+    }),
+    fetchAlertLevels(supabase, companyIds),
+  ]);
+
+  if (error) throw error;
+
+  return (data || []).map((row) => {
+    const hasMetrics = row.metric_count > 0;
+    const oee = hasMetrics ? round(Number(row.oee)) : null;
+    const uptime = hasMetrics ? round(Number(row.uptime)) : null;
+    const alertLevel = alertLevels.get(row.company_id) || 'running';
+
+    let status: FactoryStatus['status'];
+    if (oee !== null && uptime !== null) {
+      status = worstStatus(deriveStatus(oee, uptime), alertLevel);
+    } else {
+      status = alertLevel === 'running' ? 'no_data' : alertLevel;
+    }
+
+    return {
+      id: row.company_id,
+      name: row.name,
+      status,
+      oee_score: oee,
+      energy_usage: round(Number(row.energy)),
+      efficiency: hasMetrics ? round(Number(row.efficiency)) : null,
+      uptime,
+    };
+  });
+}
+
+const reported = (values: (number | null)[]) => values.filter((value): value is number => value !== null);
+
+// Metric averages leave out factories without data rather than counting them as zero
+export const summarizeFactories = (factories: FactoryStatus[]): FactoryTotals => ({
+  energy: factories.reduce((sum, factory) => sum + factory.energy_usage, 0),
+  oee: average(reported(factories.map(factory => factory.oee_score))),
+  efficiency: average(reported(factories.map(factory => factory.efficiency))),
+  uptime: average(reported(factories.map(factory => factory.uptime))),
+});
+
+// Percentage change from the previous value, or null when there is nothing to compare against
+export const percentChange = (current: number, previous: number): number | null => {
+  if (!previous) return null;
+  return ((current - previous) / previous) * 100;
+};
+
+export const formatChange = (change: number | null): string => {
+  if (change === null) return '—';
+  return `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`;
+};
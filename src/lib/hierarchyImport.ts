@@ -0,0 +1,160 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import Papa from 'papaparse';
+import { readSheet } from 'read-excel-file/browser';
+import { Database } from '../types/database';
+import { FieldDefinition } from '../components/entity-list/types';
+import { normalizeInput, validateField } from '../components/entity-list/fields';
+
+export type HierarchyField =
+  | 'country'
+  | 'city'
+  | 'district'
+  | 'company'
+  | 'line_type'
+  | 'line'
+  | 'machine'
+  | 'order';
+
+export interface ImportColumn {
+  key: HierarchyField;
+  label: string;
+  // Validation rule shared with the entity's add/edit dialog
+  field: FieldDefinition;
+  // Columns that must also be filled on any row that fills this one
+  requires: HierarchyField[];
+}
+
+// Spreadsheet column index for each mapped field
+export type ColumnMapping = Partial<Record<HierarchyField, number>>;
+
+export interface ImportRow {
+  // Spreadsheet row number as the user sees it, counting the header row
+  row: number;
+  values: Partial<Record<HierarchyField, string>>;
+  errors: string[];
+}
+
+export interface SheetRow {
+  // Row number in the file as the user sees it, 1 for the first line
+  row: number;
+  cells: string[];
+}
+
+export interface ImportResult {
+  // Records created (or, for a dry run, that would be created) per table
+  created: Record<string, number>;
+  errors: { row: number; message: string }[];
+  committed: boolean;
+}
+
+export const ACCEPTED_FILE_TYPES = '.csv,.xlsx';
+
+// Keeps a single import within what one RPC call comfortably handles
+export const MAX_IMPORT_ROWS = 5000;
+
+const cellText = (cell: unknown) => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return cell.toISOString();
+  return String(cell).trim();
+};
+
+const isBlankRow = (row: string[]) => row.every(cell => cell === '');
+
+// Reads the first sheet of an .xlsx file or a whole .csv file into rows of
+// trimmed cell text, header row included and blank rows dropped. Rows are
+// numbered before blanks are dropped so errors point at the right line.
+export async function readSpreadsheet(file: File): Promise<SheetRow[]> {
+  const name = file.name.toLowerCase();
+  let rows: unknown[][];
+
+  if (name.endsWith('.xlsx')) {
+    rows = await readSheet(file);
+  } else if (name.endsWith('.csv')) {
+    const { data, errors } = Papa.parse<string[]>(await file.text());
+    const fatal = errors.find(error => error.type === 'Quotes');
+    if (fatal) {
+      throw new Error(`Could not read row ${(fatal.row ?? 0) + 1}: ${fatal.message}`);
+    }
+    rows = data;
+  } else {
+    throw new Error('Only .csv and .xlsx files can be imported');
+  }
+
+  return rows
+    .map((row, index) => ({ row: index + 1, cells: row.map(cellText) }))
+    .filter(row => !isBlankRow(row.cells));
+}
+
+const headerKey = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Maps each column to the first header matching its key or one of its labels,
+// e.g. "Line Type", "line_type" or "Line Type Name"
+export const suggestMapping = (columns: ImportColumn[], headers: string[]): ColumnMapping => {
+  const keys = headers.map(headerKey);
+  const mapping: ColumnMapping = {};
+
+  columns.forEach(column => {
+    const candidates = [column.key, column.label, column.field.label].map(headerKey);
+    const index = keys.findIndex(key => candidates.includes(key));
+    if (index >= 0) mapping[column.key] = index;
+  });
+
+  return mapping;
+};
+
+// Turns the data rows of a sheet into import rows, normalised and checked
+// against the same rules as the add/edit dialogs
+export const buildImportRows = (
+  columns: ImportColumn[],
+  mapping: ColumnMapping,
+  sheet: SheetRow[]
+): ImportRow[] =>
+  sheet.slice(1).flatMap(({ row, cells }) => {
+    const values: ImportRow['values'] = {};
+
+    columns.forEach(column => {
+      const cellIndex = mapping[column.key];
+      const text = cellIndex === undefined ? '' : cells[cellIndex] || '';
+      if (text) values[column.key] = normalizeInput(column.field, text);
+    });
+
+    if (Object.keys(values).length === 0) return [];
+
+    const errors: string[] = [];
+    columns.forEach(column => {
+      const value = values[column.key];
+      if (!value) return;
+
+      const error = validateField(column.field, value);
+      if (error) errors.push(`${column.label}: ${error}`);
+
+      column.requires
+        .filter(key => !values[key])
+        .forEach(key => {
+          const required = columns.find(other => other.key === key);
+          errors.push(`${required?.label || key} is required for a ${column.label.toLowerCase()}`);
+        });
+    });
+
+    return [{ row, values, errors }];
+  });
+
+// Sends the rows to import_hierarchy(), which resolves parents by name and
+// writes everything in one transaction. A dry run reports what would happen.
+export async function runImport(
+  supabase: SupabaseClient<Database>,
+  rows: ImportRow[],
+  dryRun: boolean
+): Promise<ImportResult> {
+  const { data, error } = await supabase.rpc('import_hierarchy', {
+    p_rows: rows.map(row => ({
+      row: row.row,
+      ...row.values,
+      order: row.values.order ? Number(row.values.order) : undefined,
+    })),
+    p_dry_run: dryRun,
+  });
+
+  if (error) throw error;
+  return data as unknown as ImportResult;
+}
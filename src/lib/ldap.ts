@@ -0,0 +1,28 @@
+import { FunctionsHttpError, SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/database';
+
+// Checks the credentials against the directory through the ldap-login edge
+// function and installs the session it returns
+export async function signInWithLdap(
+  supabase: SupabaseClient<Database>,
+  username: string,
+  password: string
+): Promise<void> {
+  const { data, error } = await supabase.functions.invoke<{ access_token: string; refresh_token: string }>(
+    'ldap-login',
+    { body: { username, password } }
+  );
+
+  if (error) {
+    // The function answers failures with { error: message }
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      throw new Error(body?.error || 'LDAP sign-in failed. Please try again.');
+    }
+    throw new Error('LDAP sign-in is unavailable. Please try again later.');
+  }
+  if (!data) throw new Error('LDAP sign-in failed. Please try again.');
+
+  const { error: sessionError } = await supabase.auth.setSession(data);
+  if (sessionError) throw sessionError;
+}
@@ -0,0 +1,79 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/database';
+
+export interface SequenceLine {
+  id: string;
+  name: string;
+  company: string;
+  city: string;
+}
+
+export interface SequenceMachine {
+  id: string;
+  name: string;
+  order: number;
+}
+
+// Active lines for the picker, limited to companyIds unless it is null
+export async function fetchSequenceLines(
+  supabase: SupabaseClient<Database>,
+  companyIds: string[] | null
+): Promise<SequenceLine[]> {
+  let query = supabase
+    .from('line')
+    .select('id, name, company:company_id(name), district:district_id(city:city_id(name))')
+    .is('archived_at', null);
+
+  if (companyIds) {
+    query = query.in('company_id', companyIds);
+  }
+
+  const { data, error } = await query.order('name');
+  if (error) throw error;
+
+  return (data || []).map(line => {
+    const company = Array.isArray(line.company) ? line.company[0] : line.company;
+    const district = Array.isArray(line.district) ? line.district[0] : line.district;
+    const city = Array.isArray(district?.city) ? district?.city[0] : district?.city;
+    return { id: line.id, name: line.name, company: company?.name ?? '', city: city?.name ?? '' };
+  });
+}
+
+// Active machines on a line in their current order
+export async function fetchLineMachines(
+  supabase: SupabaseClient<Database>,
+  lineId: string
+): Promise<SequenceMachine[]> {
+  const { data, error } = await supabase
+    .from('machine')
+    .select('id, name, order')
+    .eq('line_id', lineId)
+    .is('archived_at', null)
+    .order('order');
+
+  if (error) throw error;
+  return data || [];
+}
+
+// The numbers a save keeps: the line's current order numbers, lowest first,
+// handed out along the new sequence
+export const sequenceOrders = (machines: SequenceMachine[]) =>
+  machines.map(machine => machine.order).sort((a, b) => a - b);
+
+// Renumbers the whole line in one transaction. With compact the numbers
+// restart at 1000 with no gaps, skipping those held by archived machines.
+export async function saveMachineSequence(
+  supabase: SupabaseClient<Database>,
+  lineId: string,
+  machineIds: string[],
+  compact = false
+): Promise<void> {
+  const { error } = await supabase.rpc('reorder_line_machines', {
+    p_line_id: lineId,
+    p_machine_ids: machineIds,
+    p_compact: compact,
+  });
+
+  if (error?.code === '22023') throw new Error(error.message);
+  if (error) throw error;
+}
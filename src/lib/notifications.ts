@@ -0,0 +1,135 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/database';
+
+export type NotificationKind = 'alert' | 'goal' | 'import';
+export type NotificationLevel = 'info' | 'success' | 'warning' | 'alarm';
+
+export type Notification = Omit<Database['public']['Tables']['notification']['Row'], 'kind' | 'level'> & {
+  kind: NotificationKind;
+  level: NotificationLevel;
+};
+
+export const NOTIFICATION_KINDS: { value: NotificationKind; label: string }[] = [
+  { value: 'alert', label: 'Energy alerts' },
+  { value: 'goal', label: 'Sustainability goals' },
+  { value: 'import', label: 'Data imports' },
+];
+
+export const NOTIFICATION_LEVELS: { value: NotificationLevel; label: string }[] = [
+  { value: 'alarm', label: 'Alarm' },
+  { value: 'warning', label: 'Warning' },
+  { value: 'success', label: 'Resolved' },
+  { value: 'info', label: 'Information' },
+];
+
+// Alarms and warnings can be acknowledged as well as read
+export const needsAcknowledgement = (notification: Notification) =>
+  (notification.level === 'alarm' || notification.level === 'warning') && !notification.acknowledged_at;
+
+export interface NotificationFilters {
+  kind: NotificationKind | 'all';
+  level: NotificationLevel | 'all';
+  unreadOnly: boolean;
+  // yyyy-mm-dd, inclusive
+  from: string;
+  to: string;
+}
+
+export const EMPTY_FILTERS: NotificationFilters = { kind: 'all', level: 'all', unreadOnly: false, from: '', to: '' };
+
+// The signed-in user's notifications, newest first. Row-level security
+// limits the rows to their own.
+export async function fetchNotifications(
+  supabase: SupabaseClient<Database>,
+  filters: NotificationFilters,
+  page: number,
+  rowsPerPage: number
+): Promise<{ rows: Notification[]; count: number }> {
+  let query = supabase
+    .from('notification')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(page * rowsPerPage, (page + 1) * rowsPerPage - 1);
+
+  if (filters.kind !== 'all') {
+    query = query.eq('kind', filters.kind);
+  }
+  if (filters.level !== 'all') {
+    query = query.eq('level', filters.level);
+  }
+  if (filters.unreadOnly) {
+    query = query.is('read_at', null);
+  }
+  if (filters.from) {
+    query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  }
+  if (filters.to) {
+    const to = new Date(`${filters.to}T00:00:00`);
+    to.setDate(to.getDate() + 1);
+    query = query.lt('created_at', to.toISOString());
+  }
+
+  const { data, error, count } = await query;
+  if (error) throw error;
+  return { rows: (data || []) as Notification[], count: count || 0 };
+}
+
+export async function fetchUnreadCount(supabase: SupabaseClient<Database>): Promise<number> {
+  const { count, error } = await supabase
+    .from('notification')
+    .select('id', { count: 'exact', head: true })
+    .is('read_at', null);
+
+  if (error) throw error;
+  return count || 0;
+}
+
+export async function markNotificationsRead(supabase: SupabaseClient<Database>, ids: string[]) {
+  const { error } = await supabase
+    .from('notification')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', ids)
+    .is('read_at', null);
+
+  if (error) throw error;
+}
+
+export async function markAllNotificationsRead(supabase: SupabaseClient<Database>) {
+  const { error } = await supabase
+    .from('notification')
+    .update({ read_at: new Date().toISOString() })
+    .is('read_at', null);
+
+  if (error) throw error;
+}
+
+// Acknowledging also marks the notification read
+export async function acknowledgeNotification(supabase: SupabaseClient<Database>, notification: Notification) {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('notification')
+    .update({ acknowledged_at: now, read_at: notification.read_at || now })
+    .eq('id', notification.id);
+
+  if (error) throw error;
+}
+
+// Bulk imports notify only the user who ran them
+export async function notifyImportResult(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  succeeded: boolean,
+  title: string,
+  body: string
+) {
+  const { error } = await supabase.from('notification').insert({
+    user_id: userId,
+    kind: 'import',
+    level: succeeded ? 'success' : 'warning',
+    title,
+    body,
+    link: '/data-entry/import',
+  });
+
+  if (error) throw error;
+}
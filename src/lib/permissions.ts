@@ -0,0 +1,59 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/database';
+import { User } from '../types';
+
+export type Role = User['role'];
+
+export type Permission =
+  // Create and edit master data, readings, rates and goals
+  | 'data:write'
+  // Change system-wide settings such as alert thresholds
+  | 'settings:manage'
+  | 'users:manage'
+  // Browse the system-wide change history
+  | 'audit:view';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: ['data:write', 'settings:manage', 'users:manage', 'audit:view'],
+  user: [],
+};
+
+export interface AccessProfile {
+  role: Role;
+  // Companies the user may see, or null when unrestricted
+  companyIds: string[] | null;
+}
+
+export const DEFAULT_ACCESS: AccessProfile = { role: 'user', companyIds: [] };
+
+export const hasPermission = (access: AccessProfile, permission: Permission) =>
+  ROLE_PERMISSIONS[access.role].includes(permission);
+
+export const canAccessCompany = (access: AccessProfile, companyId: string) =>
+  access.companyIds === null || access.companyIds.includes(companyId);
+
+// Mirrors can_access_company() in the database: admins and users without any
+// company assignment are unscoped.
+export async function fetchAccessProfile(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<AccessProfile> {
+  const [
+    { data: profile, error: profileError },
+    { data: companies, error: companiesError },
+  ] = await Promise.all([
+    supabase.from('user_profile').select('role').eq('id', userId).maybeSingle(),
+    supabase.from('user_company').select('company_id').eq('user_id', userId),
+  ]);
+
+  const error = profileError || companiesError;
+  if (error) throw error;
+
+  const role: Role = profile?.role === 'admin' ? 'admin' : 'user';
+  const companyIds = (companies || []).map(row => row.company_id);
+
+  return {
+    role,
+    companyIds: role === 'admin' || companyIds.length === 0 ? null : companyIds,
+  };
+}
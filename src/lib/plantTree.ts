@@ -0,0 +1,162 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/database';
+import { EntityRow } from '../components/entity-list/types';
+
+export type TreeLevel = 'country' | 'city' | 'district' | 'line' | 'machine';
+
+interface LevelConfig {
+  // Column pointing at the node's parent, null for the top level
+  parentColumn: string | null;
+  child: TreeLevel | null;
+  orderBy: string;
+}
+
+const LEVELS: Record<TreeLevel, LevelConfig> = {
+  country: { parentColumn: null, child: 'city', orderBy: 'name' },
+  city: { parentColumn: 'country_id', child: 'district', orderBy: 'name' },
+  district: { parentColumn: 'city_id', child: 'line', orderBy: 'name' },
+  line: { parentColumn: 'district_id', child: 'machine', orderBy: 'name' },
+  machine: { parentColumn: 'line_id', child: null, orderBy: 'order' },
+};
+
+export interface TreeNode {
+  level: TreeLevel;
+  id: string;
+  name: string;
+  // Active children, or null for machines, which have none
+  childCount: number | null;
+  row: EntityRow;
+}
+
+// A node on the path from the top of the tree, as shown in a breadcrumb
+export interface ScopeStep {
+  level: TreeLevel;
+  id: string;
+  name: string;
+}
+
+export interface TreeScope {
+  level: TreeLevel;
+  id: string;
+}
+
+export const childLevel = (level: TreeLevel) => LEVELS[level].child;
+
+export const parentColumn = (level: TreeLevel) => LEVELS[level].parentColumn;
+
+// Lines can move to another district and machines to another line
+export const MOVABLE_LEVELS: TreeLevel[] = ['line', 'machine'];
+
+// The children of a node, or the countries when parentId is null. Lines,
+// and line counts, are limited to companyIds unless it is null.
+export async function fetchTreeChildren(
+  supabase: SupabaseClient<Database>,
+  parent: { level: TreeLevel; id: string } | null,
+  companyIds: string[] | null
+): Promise<TreeNode[]> {
+  const level = parent ? childLevel(parent.level) : 'country';
+  if (!level) return [];
+
+  const { child, orderBy } = LEVELS[level];
+
+  let query = supabase
+    .from(level)
+    .select(child ? `*, ${child}(count)` : '*')
+    .is('archived_at', null);
+
+  if (parent) {
+    query = query.eq(parentColumn(level)!, parent.id);
+  }
+  if (child) {
+    query = query.is(`${child}.archived_at`, null);
+  }
+  if (companyIds && level === 'line') {
+    query = query.in('company_id', companyIds);
+  }
+  if (companyIds && child === 'line') {
+    query = query.in('line.company_id', companyIds);
+  }
+
+  const { data, error } = await query.order(orderBy);
+  if (error) throw error;
+
+  return ((data || []) as unknown as EntityRow[]).map(row => ({
+    level,
+    id: row.id,
+    name: String(row.name),
+    childCount: child ? (row[child] as { count: number }[] | undefined)?.[0]?.count ?? 0 : null,
+    row,
+  }));
+}
+
+// Re-parents a line or machine. A machine keeps its order, so moving it onto
+// a line that already uses that order fails on machine_line_order_unique.
+export async function moveTreeNode(
+  supabase: SupabaseClient<Database>,
+  node: TreeNode,
+  newParentId: string,
+  userId: string
+): Promise<void> {
+  const update = { [parentColumn(node.level)!]: newParentId, updated_by: userId };
+  const { error } = node.level === 'line'
+    ? await supabase.from('line').update(update).eq('id', node.id)
+    : await supabase.from('machine').update(update).eq('id', node.id);
+
+  if (error?.code === '23505') {
+    throw new Error(node.level === 'line'
+      ? `The target district already has a line named ${node.name} for the same company`
+      : `Order ${node.row.order} is already used on the target line`);
+  }
+  if (error) throw error;
+}
+
+export const parseScope = (value: string | null): TreeScope | null => {
+  const [level, id] = (value || '').split(':');
+  return level in LEVELS && id ? { level: level as TreeLevel, id } : null;
+};
+
+export const formatScope = (scope: TreeScope) => `${scope.level}:${scope.id}`;
+
+// Walks up from a node to its country, for the Dashboard's breadcrumb
+export async function fetchScopePath(
+  supabase: SupabaseClient<Database>,
+  scope: TreeScope
+): Promise<ScopeStep[]> {
+  const path: ScopeStep[] = [];
+  let current: TreeScope | null = scope;
+
+  while (current) {
+    const { data, error } = await supabase
+      .from(current.level)
+      .select('*')
+      .eq('id', current.id)
+      .single();
+
+    if (error) throw error;
+
+    const row = data as unknown as EntityRow;
+    path.unshift({ level: current.level, id: current.id, name: String(row.name) });
+
+    const column = parentColumn(current.level);
+    const parentLevel = (Object.keys(LEVELS) as TreeLevel[]).find(level => LEVELS[level].child === current!.level);
+    current = column && parentLevel ? { level: parentLevel, id: String(row[column]) } : null;
+  }
+
+  return path;
+}
+
+// The companies with a line inside a scope, used to narrow the Dashboard.
+// plant_scope_companies() walks the hierarchy in the database, so the result
+// stays small however large the scope.
+export async function resolveScope(
+  supabase: SupabaseClient<Database>,
+  scope: TreeScope
+): Promise<{ companyIds: string[] }> {
+  const { data, error } = await supabase.rpc('plant_scope_companies', {
+    p_level: scope.level,
+    p_id: scope.id,
+  });
+
+  if (error) throw error;
+  return { companyIds: data || [] };
+}
@@ -0,0 +1,138 @@
+import { createContext, useContext } from 'react';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/database';
+import { Theme } from './theme';
+
+export type EnergyUnit = 'kWh' | 'MWh';
+export type EmailDigest = 'off' | 'daily' | 'weekly';
+
+export interface Preferences {
+  theme: Theme;
+  // One of the Settings "Default Date Range" values, see rangeFromPreference()
+  defaultDateRange: string;
+  rowsPerPage: number;
+  energyUnit: EnergyUnit;
+  emailNotifications: boolean;
+  emailDigest: EmailDigest;
+  realtimeAlerts: boolean;
+}
+
+export const ROWS_PER_PAGE_OPTIONS = [15, 50, 100, 150, 200];
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  theme: window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light',
+  defaultDateRange: 'last7days',
+  rowsPerPage: 15,
+  energyUnit: 'kWh',
+  emailNotifications: true,
+  emailDigest: 'off',
+  realtimeAlerts: true,
+};
+
+export interface PreferencesContextType {
+  preferences: Preferences;
+  // True until the signed-in user's saved preferences have been loaded
+  preferencesLoading: boolean;
+  updatePreferences: (changes: Partial<Preferences>) => Promise<void>;
+}
+
+export const PreferencesContext = createContext<PreferencesContextType>({
+  preferences: DEFAULT_PREFERENCES,
+  preferencesLoading: false,
+  updatePreferences: async () => {},
+});
+
+export const usePreferences = () => useContext(PreferencesContext);
+
+const CACHE_PREFIX = 'preferences:';
+
+// Keys from before the cache was kept per user. They hold whoever used the
+// browser last, so they are dropped rather than read.
+const LEGACY_CACHE_KEYS = ['preferences', 'theme', 'defaultDateRange'];
+
+// The last preferences seen for this user in this browser, so the first paint
+// uses them before the saved ones arrive. Kept per user, so whoever signs in
+// next doesn't start with someone else's theme or page size.
+export const loadCachedPreferences = (userId: string | null): Preferences => {
+  LEGACY_CACHE_KEYS.forEach(key => localStorage.removeItem(key));
+  if (!userId) return DEFAULT_PREFERENCES;
+
+  try {
+    const cached = JSON.parse(localStorage.getItem(CACHE_PREFIX + userId) || 'null');
+    if (cached) return { ...DEFAULT_PREFERENCES, ...cached };
+  } catch {
+    // Ignore a damaged cache
+  }
+  return DEFAULT_PREFERENCES;
+};
+
+export const cachePreferences = (userId: string, preferences: Preferences) => {
+  localStorage.setItem(CACHE_PREFIX + userId, JSON.stringify(preferences));
+};
+
+type PreferenceRow = Database['public']['Tables']['user_preference']['Row'];
+
+const fromRow = (row: PreferenceRow): Preferences => ({
+  theme: row.theme as Theme,
+  defaultDateRange: row.default_date_range,
+  rowsPerPage: row.rows_per_page,
+  energyUnit: row.energy_unit as EnergyUnit,
+  emailNotifications: row.email_notifications,
+  emailDigest: row.email_digest as EmailDigest,
+  realtimeAlerts: row.realtime_alerts,
+});
+
+// The user's saved preferences, or null when they have never saved any
+export async function fetchPreferences(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<Preferences | null> {
+  const { data, error } = await supabase
+    .from('user_preference')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? fromRow(data) : null;
+}
+
+export async function savePreferences(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  preferences: Preferences
+): Promise<void> {
+  const { error } = await supabase
+    .from('user_preference')
+    .upsert({
+      user_id: userId,
+      theme: preferences.theme,
+      default_date_range: preferences.defaultDateRange,
+      rows_per_page: preferences.rowsPerPage,
+      energy_unit: preferences.energyUnit,
+      email_notifications: preferences.emailNotifications,
+      email_digest: preferences.emailDigest,
+      realtime_alerts: preferences.realtimeAlerts,
+    });
+
+  if (error) throw error;
+}
+
+// Energy is stored in kWh and shown in the user's chosen unit
+export const toEnergyUnit = (kWh: number, unit: EnergyUnit) => unit === 'MWh' ? kWh / 1000 : kWh;
+
+export const formatEnergy = (kWh: number, unit: EnergyUnit) =>
+  `${toEnergyUnit(kWh, unit).toLocaleString(undefined, { maximumFractionDigits: unit === 'MWh' ? 3 : 1 })} ${unit}`;
+
+// Grid page size, shared by every grid and saved when the user changes it
+export function useRowsPerPage(): [number, (rowsPerPage: number) => void] {
+  const { preferences, updatePreferences } = usePreferences();
+
+  const setRowsPerPage = (rowsPerPage: number) => {
+    updatePreferences({ rowsPerPage }).catch((err) => {
+      console.error('Error saving rows per page:', err);
+    });
+  };
+
+  return [preferences.rowsPerPage, setRowsPerPage];
+}
@@ -0,0 +1,84 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useSupabaseClient } from '@supabase/auth-helpers-react';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { Database } from '../types/database';
+
+export type RealtimeTable = keyof Database['public']['Tables'];
+
+export interface TableChange {
+  table: RealtimeTable;
+  type: 'INSERT' | 'UPDATE' | 'DELETE';
+  id: string;
+  // The row after the change, or null for a delete
+  record: Record<string, unknown> | null;
+  // Who made the change, as recorded on the row
+  actorId: string | null;
+}
+
+// How long a changed row stays highlighted, in milliseconds
+export const HIGHLIGHT_DURATION = 4000;
+
+const toChange = (
+  table: RealtimeTable,
+  payload: RealtimePostgresChangesPayload<Record<string, unknown>>
+): TableChange => {
+  const record = payload.eventType === 'DELETE' ? null : payload.new;
+  // A delete only carries the old row's primary key
+  const row: Record<string, unknown> = record || payload.old;
+
+  return {
+    table,
+    type: payload.eventType,
+    id: String(row.id),
+    record,
+    actorId: record ? String(record.updated_by ?? record.created_by ?? '') || null : null,
+  };
+};
+
+// Calls onChange for every insert, update and delete on the given tables
+// while the component is mounted. The tables must be in the supabase_realtime
+// publication; row-level security decides which changes reach each user.
+export function useTableChanges(tables: RealtimeTable[], onChange: (change: TableChange) => void) {
+  const supabase = useSupabaseClient<Database>();
+  const handler = useRef(onChange);
+  handler.current = onChange;
+
+  const tableKey = tables.join(',');
+
+  useEffect(() => {
+    if (!tableKey) return;
+
+    const channel = supabase.channel(`changes:${tableKey}:${Math.random().toString(36).slice(2)}`);
+    (tableKey.split(',') as RealtimeTable[]).forEach(table => {
+      channel.on<Record<string, unknown>>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table },
+        payload => handler.current(toChange(table, payload))
+      );
+    });
+    channel.subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, tableKey]);
+}
+
+// Ids to highlight after a live update; each fades after HIGHLIGHT_DURATION
+export function useHighlightedIds() {
+  const [ids, setIds] = useState<Set<string>>(new Set());
+  const timers = useRef<ReturnType<typeof setTimeout>[]>([]);
+
+  useEffect(() => () => timers.current.forEach(clearTimeout), []);
+
+  const highlight = useCallback((changed: string[]) => {
+    if (changed.length === 0) return;
+
+    setIds(prev => new Set([...prev, ...changed]));
+    timers.current.push(setTimeout(() => {
+      setIds(prev => new Set([...prev].filter(id => !changed.includes(id))));
+    }, HIGHLIGHT_DURATION));
+  }, []);
+
+  return { ids, highlight };
+}
@@ -1,4 +1,5 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/database';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -7,4 +8,20 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+export type TypedSupabaseClient = SupabaseClient<Database>;
+
+// Invite and password reset links arrive with type=invite or type=recovery in
+// the fragment. The client below strips the fragment once it has read the
+// session from it, so the type is kept from before it is created.
+export const authLinkType: string | null =
+  new URLSearchParams(window.location.hash.replace(/^#/, '')).get('type');
+
+// The only client in the app. AuthProvider hands it to SessionContextProvider,
+// so useSupabaseClient() in pages and sign-out here share one session and one
+// token refresh timer.
+export const supabase: TypedSupabaseClient = createClient<Database>(supabaseUrl, supabaseAnonKey, {
+  auth: {
+    persistSession: true,
+    autoRefreshToken: true,
+  },
+});
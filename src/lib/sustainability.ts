@@ -0,0 +1,142 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/database';
+import { SustainabilityGoal } from '../types';
+
+export type GoalStatus = 'achieved' | 'on_track' | 'off_track' | 'insufficient_data';
+
+export interface DailyConsumption {
+  day: number; // days since the epoch, UTC
+  value: number;
+}
+
+export interface GoalProgress {
+  baseline: number | null;
+  current: number | null;
+  projected: number | null;
+  progress: number | null;
+  status: GoalStatus;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Goal days run midnight to midnight UTC, here and in check_goal_progress(),
+// so the page and the off-track notification agree on which day a reading
+// belongs to whatever the viewer's time zone
+const GOAL_TIME_ZONE = 'UTC';
+
+// The trend is fitted over this many complete days of history. Today is
+// left out: its total is still growing and would drag both down.
+export const TREND_DAYS = 30;
+// "Current" consumption is the average daily use over this many complete days
+const CURRENT_DAYS = 7;
+// The baseline is the average daily use over this many days before the goal was set
+const BASELINE_DAYS = 30;
+
+const toDay = (date: Date) => Math.floor(date.getTime() / DAY);
+
+const startOfDay = (date: Date) => {
+  const start = new Date(date);
+  start.setUTCHours(0, 0, 0, 0);
+  return start;
+};
+
+const average = (values: number[]) =>
+  values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Least-squares line through the daily totals, or null with fewer than two days
+export const fitTrend = (points: DailyConsumption[]) => {
+  if (points.length < 2) return null;
+
+  const meanX = points.reduce((sum, p) => sum + p.day, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.value, 0) / points.length;
+  const covariance = points.reduce((sum, p) => sum + (p.day - meanX) * (p.value - meanY), 0);
+  const variance = points.reduce((sum, p) => sum + (p.day - meanX) ** 2, 0);
+  const slope = variance === 0 ? 0 : covariance / variance;
+
+  return {
+    slope,
+    at: (day: number) => Math.max(0, meanY + slope * (day - meanX)),
+  };
+};
+
+// Daily totals for one factory and utility, one entry per day that has
+// consumption, summed in the database by energy_consumption_buckets()
+export async function fetchDailyConsumption(
+  supabase: SupabaseClient<Database>,
+  goal: Pick<SustainabilityGoal, 'factory_id' | 'utility_type'>,
+  from: Date,
+  to: Date
+): Promise<DailyConsumption[]> {
+  const { data, error } = await supabase.rpc('energy_consumption_buckets', {
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+    p_bucket: 'day',
+    p_utility_type: goal.utility_type,
+    p_factory_ids: [goal.factory_id],
+    p_time_zone: GOAL_TIME_ZONE,
+  });
+
+  if (error) throw error;
+
+  // Days without readings come back as zero; leave them out so a gap in the
+  // data doesn't count as a day without consumption
+  return (data || [])
+    .filter((row) => Number(row.consumption) > 0)
+    .map((row) => ({ day: toDay(new Date(row.bucket)), value: Number(row.consumption) }));
+}
+
+// Projects the current trend to the target date. target_consumption is the
+// daily consumption the factory should be down to by target_date.
+export const evaluateGoal = (
+  goal: SustainabilityGoal,
+  history: DailyConsumption[],
+  baselineHistory: DailyConsumption[],
+  now = new Date()
+): GoalProgress => {
+  const today = toDay(now);
+  const complete = history.filter(p => p.day < today);
+  const trend = fitTrend(complete.filter(p => p.day >= today - TREND_DAYS));
+  const current = average(complete.filter(p => p.day >= today - CURRENT_DAYS).map(p => p.value));
+  const baseline = average(baselineHistory.map(p => p.value));
+  const target = Number(goal.target_consumption);
+  const targetDay = toDay(new Date(`${goal.target_date.slice(0, 10)}T00:00:00Z`));
+
+  const projected = trend ? trend.at(Math.max(today, targetDay)) : null;
+
+  let progress: number | null = null;
+  if (baseline !== null && current !== null) {
+    progress = baseline <= target
+      ? 100
+      : Math.min(100, Math.max(0, ((baseline - current) / (baseline - target)) * 100));
+  }
+
+  let status: GoalStatus;
+  if (current === null || projected === null) {
+    status = 'insufficient_data';
+  } else if (current <= target) {
+    status = 'achieved';
+  } else if (projected <= target && targetDay >= today) {
+    status = 'on_track';
+  } else {
+    status = 'off_track';
+  }
+
+  return { baseline, current, projected, progress, status };
+};
+
+export async function fetchGoalProgress(
+  supabase: SupabaseClient<Database>,
+  goal: SustainabilityGoal,
+  now = new Date()
+): Promise<GoalProgress> {
+  const created = new Date(goal.created_at);
+  const today = startOfDay(now);
+  const trendStart = new Date(today);
+  trendStart.setUTCDate(trendStart.getUTCDate() - TREND_DAYS);
+  const [history, baselineHistory] = await Promise.all([
+    fetchDailyConsumption(supabase, goal, trendStart, today),
+    fetchDailyConsumption(supabase, goal, new Date(created.getTime() - BASELINE_DAYS * DAY), created),
+  ]);
+
+  return evaluateGoal(goal, history, baselineHistory, now);
+}
@@ -0,0 +1,77 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/database';
+import { UtilityRate, UtilityType } from '../types';
+
+// Rates apply from effective_from (inclusive) up to effective_to (exclusive);
+// an open-ended rate has no effective_to.
+const periodEnd = (rate: Pick<UtilityRate, 'effective_to'>) =>
+  rate.effective_to ? new Date(rate.effective_to).getTime() : Infinity;
+
+export const ratesOverlap = (
+  a: Pick<UtilityRate, 'effective_from' | 'effective_to'>,
+  b: Pick<UtilityRate, 'effective_from' | 'effective_to'>
+) =>
+  new Date(a.effective_from).getTime() < periodEnd(b) &&
+  new Date(b.effective_from).getTime() < periodEnd(a);
+
+export const findOverlappingRate = (
+  rate: Pick<UtilityRate, 'id' | 'utility_type' | 'effective_from' | 'effective_to'>,
+  rates: UtilityRate[]
+) =>
+  rates.find(other =>
+    other.id !== rate.id &&
+    other.utility_type === rate.utility_type &&
+    ratesOverlap(rate, other)
+  );
+
+export const findRateAt = (rates: UtilityRate[], utilityType: UtilityType, timestamp: string) => {
+  const time = new Date(timestamp).getTime();
+  return rates.find(rate =>
+    rate.utility_type === utilityType &&
+    new Date(rate.effective_from).getTime() <= time &&
+    time < periodEnd(rate)
+  );
+};
+
+// Cost of a reading at the rate in force at its timestamp, or null when no rate applies
+export const computeCost = (
+  rates: UtilityRate[],
+  reading: { utility_type: UtilityType; consumption: number; timestamp: string }
+): number | null => {
+  const rate = findRateAt(rates, reading.utility_type, reading.timestamp);
+  if (!rate) return null;
+  return Math.round(reading.consumption * Number(rate.rate) * 100) / 100;
+};
+
+export async function fetchRates(supabase: SupabaseClient<Database>, utilityType?: UtilityType): Promise<UtilityRate[]> {
+  let query = supabase
+    .from('utility_rate')
+    .select('*')
+    .order('effective_from', { ascending: false });
+
+  if (utilityType) {
+    query = query.eq('utility_type', utilityType);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as UtilityRate[];
+}
+
+// Re-prices every reading of the utility between from and to (null = open-ended)
+// using recompute_energy_costs(). Returns the number of readings updated.
+export async function recomputeCosts(
+  supabase: SupabaseClient<Database>,
+  utilityType: UtilityType,
+  from: string,
+  to: string | null
+): Promise<number> {
+  const { data, error } = await supabase.rpc('recompute_energy_costs', {
+    p_utility_type: utilityType,
+    p_from: from,
+    p_to: to,
+  });
+
+  if (error) throw error;
+  return Number(data) || 0;
+}
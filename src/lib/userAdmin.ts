@@ -0,0 +1,80 @@
+import { FunctionsHttpError, SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/database';
+import { Role } from './permissions';
+import { SET_PASSWORD_PATH } from './auth';
+
+export interface ManagedUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: Role;
+  // Empty when the user can see every company
+  companyIds: string[];
+  // email, azure or ldap
+  providers: string[];
+  createdAt: string;
+  invitedAt: string | null;
+  lastSignInAt: string | null;
+  confirmed: boolean;
+  deactivated: boolean;
+}
+
+export interface UserAccess {
+  role: Role;
+  companyIds: string[];
+}
+
+// Calls the admin-users edge function, which holds the service role key the
+// auth admin API needs and checks that the caller is an admin
+async function invokeAdminUsers<T>(
+  supabase: SupabaseClient<Database>,
+  body: Record<string, unknown>
+): Promise<T> {
+  const { data, error } = await supabase.functions.invoke<T>('admin-users', { body });
+
+  if (error) {
+    // The function answers failures with { error: message }
+    if (error instanceof FunctionsHttpError) {
+      const response = await error.context.json().catch(() => null);
+      throw new Error(response?.error || 'The request failed. Please try again.');
+    }
+    throw new Error('User management is unavailable. Please try again later.');
+  }
+  if (!data) throw new Error('The request failed. Please try again.');
+
+  return data;
+}
+
+export async function fetchManagedUsers(supabase: SupabaseClient<Database>): Promise<ManagedUser[]> {
+  const { users } = await invokeAdminUsers<{ users: ManagedUser[] }>(supabase, { action: 'list' });
+  return users.sort((a, b) => a.email.localeCompare(b.email));
+}
+
+// Invited users follow the email to the set-password page and choose a password there
+export async function inviteUser(supabase: SupabaseClient<Database>, email: string, access: UserAccess) {
+  await invokeAdminUsers(supabase, {
+    action: 'invite',
+    email,
+    ...access,
+    redirectTo: `${window.location.origin}${SET_PASSWORD_PATH}`,
+  });
+}
+
+export async function updateUserAccess(supabase: SupabaseClient<Database>, userId: string, access: UserAccess) {
+  await invokeAdminUsers(supabase, { action: 'update', userId, ...access });
+}
+
+export async function setUserDeactivated(supabase: SupabaseClient<Database>, userId: string, deactivated: boolean) {
+  await invokeAdminUsers(supabase, { action: deactivated ? 'deactivate' : 'reactivate', userId });
+}
+
+export async function sendPasswordReset(supabase: SupabaseClient<Database>, userId: string) {
+  await invokeAdminUsers(supabase, {
+    action: 'resetPassword',
+    userId,
+    redirectTo: `${window.location.origin}${SET_PASSWORD_PATH}`,
+  });
+}
+
+// Directory and Entra ID users have their passwords managed elsewhere
+export const hasPassword = (user: ManagedUser) => user.providers.includes('email');
@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useSupabaseClient } from '@supabase/auth-helpers-react';
+import { Database } from '../types/database';
+import { Siren, Loader2, AlertCircle } from 'lucide-react';
+import {
+  Table, TableBody, TableCell, TableHead,
+  TableRow, Paper, TablePagination,
+  FormControl, InputLabel, Select, MenuItem
+} from '@mui/material';
+import { ALARM_STATUSES, Alarm, AlarmFilters, fetchAlarms } from '../lib/alarms';
+import { alertScopeName } from '../lib/alerts';
+import { utilityLabel } from '../lib/energy';
+import { useTableChanges } from '../lib/realtime';
+import { ROWS_PER_PAGE_OPTIONS, useRowsPerPage } from '../lib/preferences';
+import { UtilityType } from '../types';
+import { AlarmStatusBadge } from '../components/alarms/AlarmStatusBadge';
+import { AlarmDialog } from '../components/alarms/AlarmDialog';
+
+// The alarm log. ?factory=<id> narrows it to one factory and ?alarm=<id>
+// opens an alarm, which is where notifications and the Dashboard link to.
+export function Alarms() {
+  const supabase = useSupabaseClient<Database>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const factoryId = searchParams.get('factory') || '';
+  const alarmId = searchParams.get('alarm');
+  const [alarms, setAlarms] = useState<Alarm[]>([]);
+  const [companies, setCompanies] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // A factory's log shows its whole history; otherwise what still needs attention
+  const [status, setStatus] = useState<AlarmFilters['status']>(factoryId ? 'all' : 'open');
+
+  // Pagination state
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useRowsPerPage();
+  const [totalCount, setTotalCount] = useState(0);
+
+  useEffect(() => {
+    const fetchCompanies = async () => {
+      const { data, error } = await supabase
+        .from('company')
+        .select('id, name')
+        .is('archived_at', null)
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching companies:', error);
+        return;
+      }
+      setCompanies(data || []);
+    };
+
+    fetchCompanies();
+  }, [supabase]);
+
+  const fetchPage = useCallback(async () => {
+    try {
+      const { rows, count } = await fetchAlarms(supabase, { factoryId, status }, page, rowsPerPage);
+      setAlarms(rows);
+      setTotalCount(count);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching alarms:', err);
+      setError('Failed to fetch alarms');
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase, factoryId, status, page, rowsPerPage]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchPage();
+  }, [fetchPage]);
+
+  useTableChanges(['alarm'], fetchPage);
+
+  const updateParam = (key: string, value: string | null) => {
+    setSearchParams(prev => {
+      const params = new URLSearchParams(prev);
+      if (value) {
+        params.set(key, value);
+      } else {
+        params.delete(key);
+      }
+      return params;
+    });
+  };
+
+  const handleFactoryChange = (value: string) => {
+    updateParam('factory', value || null);
+    setPage(0);
+  };
+
+  const handleStatusChange = (value: AlarmFilters['status']) => {
+    setStatus(value);
+    setPage(0);
+  };
+
+  const handleChangePage = (_event: unknown, newPage: number) => {
+    setPage(newPage);
+  };
+
+  const handleChangeRowsPerPage = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setRowsPerPage(parseInt(event.target.value, 10));
+    setPage(0);
+  };
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Siren className="w-6 h-6 text-blue-500" />
+          Alarms
+        </h1>
+        <div className="flex items-center gap-4">
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>Factory</InputLabel>
+            <Select
+              value={companies.length > 0 ? factoryId : ''}
+              label="Factory"
+              onChange={(e) => handleFactoryChange(e.target.value)}
+            >
+              <MenuItem value="">All factories</MenuItem>
+              {companies.map(company => (
+                <MenuItem key={company.id} value={company.id}>{company.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel>Status</InputLabel>
+            <Select
+              value={status}
+              label="Status"
+              onChange={(e) => handleStatusChange(e.target.value as AlarmFilters['status'])}
+            >
+              <MenuItem value="open">Open</MenuItem>
+              {ALARM_STATUSES.map(option => (
+                <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+              ))}
+              <MenuItem value="all">All statuses</MenuItem>
+            </Select>
+          </FormControl>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+          <AlertCircle className="w-5 h-5" />
+          {error}
+        </div>
+      )}
+
+      <Paper className="overflow-hidden">
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Raised</TableCell>
+              <TableCell>Scope</TableCell>
+              <TableCell>Utility</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Assigned To</TableCell>
+              <TableCell>Acknowledged</TableCell>
+              <TableCell>Resolved</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={7} align="center">
+                  <Loader2 className="w-6 h-6 animate-spin text-blue-500 inline-block" />
+                </TableCell>
+              </TableRow>
+            ) : alarms.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} align="center">
+                  No alarms for the selected filters
+                </TableCell>
+              </TableRow>
+            ) : (
+              alarms.map((alarm) => (
+                <TableRow
+                  key={alarm.id}
+                  hover
+                  onClick={() => updateParam('alarm', alarm.id)}
+                  sx={{ cursor: 'pointer' }}
+                >
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(alarm.raised_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell>{alertScopeName(alarm, '')}</TableCell>
+                  <TableCell>{utilityLabel(alarm.utility_type as UtilityType)}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <AlarmStatusBadge status={alarm.status} />
+                      {alarm.escalated_at && (
+                        <span className="text-xs text-red-600 whitespace-nowrap">Escalated</span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>{alarm.assigned_to_email || '–'}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {alarm.acknowledged_at ? new Date(alarm.acknowledged_at).toLocaleString() : '–'}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {alarm.resolved_at ? new Date(alarm.resolved_at).toLocaleString() : '–'}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        <TablePagination
+          rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
+          component="div"
+          count={totalCount}
+          rowsPerPage={rowsPerPage}
+          page={page}
+          onPageChange={handleChangePage}
+          onRowsPerPageChange={handleChangeRowsPerPage}
+        />
+      </Paper>
+
+      <AlarmDialog alarmId={alarmId} onClose={() => updateParam('alarm', null)} />
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSupabaseClient } from '@supabase/auth-helpers-react';
+import { Database } from '../types/database';
+import { History, Loader2, AlertCircle } from 'lucide-react';
+import {
+  Table, TableBody, TableCell, TableHead,
+  TableRow, Paper, TextField, TablePagination,
+  FormControl, InputLabel, Select, MenuItem
+} from '@mui/material';
+import { AUDITED_TABLES, AuditEntry, auditTableLabel, fetchAuditLog } from '../lib/audit';
+import { AuditActionBadge, AuditChanges } from '../components/audit/AuditChanges';
+import { ROWS_PER_PAGE_OPTIONS, useRowsPerPage } from '../lib/preferences';
+
+interface UserOption {
+  id: string;
+  email: string;
+}
+
+// Filters pick whole days; the end date includes everything up to midnight after it
+const startOfDay = (value: string) => new Date(`${value}T00:00:00`);
+const endOfDay = (value: string) => {
+  const date = startOfDay(value);
+  date.setDate(date.getDate() + 1);
+  return date;
+};
+
+export function AuditLog() {
+  const supabase = useSupabaseClient<Database>();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [tableFilter, setTableFilter] = useState('');
+  const [userFilter, setUserFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  // Pagination state
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useRowsPerPage();
+  const [totalCount, setTotalCount] = useState(0);
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      const { data, error } = await supabase
+        .from('user_profile')
+        .select('id, email')
+        .order('email');
+
+      if (error) {
+        console.error('Error fetching users:', error);
+        return;
+      }
+      setUsers(data || []);
+    };
+
+    fetchUsers();
+  }, [supabase]);
+
+  const fetchPage = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const { entries, count } = await fetchAuditLog(
+        supabase,
+        {
+          table: tableFilter || undefined,
+          userId: userFilter || undefined,
+          from: fromDate ? startOfDay(fromDate) : undefined,
+          to: toDate ? endOfDay(toDate) : undefined,
+        },
+        page,
+        rowsPerPage
+      );
+
+      setEntries(entries);
+      setTotalCount(count);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching audit log:', err);
+      setError('Failed to fetch audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase, tableFilter, userFilter, fromDate, toDate, page, rowsPerPage]);
+
+  useEffect(() => {
+    fetchPage();
+  }, [fetchPage]);
+
+  const handleFilterChange = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const handleChangePage = (_event: unknown, newPage: number) => {
+    setPage(newPage);
+  };
+
+  const handleChangeRowsPerPage = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setRowsPerPage(parseInt(event.target.value, 10));
+    setPage(0);
+  };
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <History className="w-6 h-6 text-blue-500" />
+          Audit Log
+        </h1>
+        <div className="flex items-center gap-4">
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel>Entity</InputLabel>
+            <Select
+              value={tableFilter}
+              label="Entity"
+              onChange={(e) => handleFilterChange(setTableFilter)(e.target.value)}
+            >
+              <MenuItem value="">All entities</MenuItem>
+              {AUDITED_TABLES.map(option => (
+                <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>User</InputLabel>
+            <Select
+              value={userFilter}
+              label="User"
+              onChange={(e) => handleFilterChange(setUserFilter)(e.target.value)}
+            >
+              <MenuItem value="">All users</MenuItem>
+              {users.map(option => (
+                <MenuItem key={option.id} value={option.id}>{option.email}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            label="From"
+            type="date"
+            size="small"
+            value={fromDate}
+            onChange={(e) => handleFilterChange(setFromDate)(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            label="To"
+            type="date"
+            size="small"
+            value={toDate}
+            onChange={(e) => handleFilterChange(setToDate)(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            inputProps={{ min: fromDate || undefined }}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+          <AlertCircle className="w-5 h-5" />
+          {error}
+        </div>
+      )}
+
+      <Paper className="overflow-hidden">
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>When</TableCell>
+              <TableCell>Entity</TableCell>
+              <TableCell>Record</TableCell>
+              <TableCell>Action</TableCell>
+              <TableCell>User</TableCell>
+              <TableCell>Changes</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  <Loader2 className="w-6 h-6 animate-spin text-blue-500 inline-block" />
+                </TableCell>
+              </TableRow>
+            ) : entries.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  No changes recorded for the selected filters
+                </TableCell>
+              </TableRow>
+            ) : (
+              entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(entry.changed_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell>{auditTableLabel(entry.table_name)}</TableCell>
+                  <TableCell className="font-mono text-xs">{entry.record_id}</TableCell>
+                  <TableCell><AuditActionBadge action={entry.action} /></TableCell>
+                  <TableCell>{entry.changed_by_email || 'system'}</TableCell>
+                  <TableCell><AuditChanges entry={entry} /></TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        <TablePagination
+          rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
+          component="div"
+          count={totalCount}
+          rowsPerPage={rowsPerPage}
+          page={page}
+          onPageChange={handleChangePage}
+          onRowsPerPageChange={handleChangeRowsPerPage}
+        />
+      </Paper>
+    </div>
+  );
+}
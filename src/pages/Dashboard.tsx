@@ -1,9 +1,8 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useSupabaseClient } from '@supabase/auth-helpers-react';
+import { Database } from '../types/database';
 import {
-  LayoutDashboard,
-  ClipboardCheck,
   Leaf,
-  CalendarClock,
   Factory,
   Activity,
   AlertTriangle,
@@ -16,81 +15,276 @@ import {
   TrendingUp,
   Clock,
   BarChart3,
-  Percent
+  Percent,
+  Loader2,
+  AlertCircle,
+  FolderTree,
+  MinusCircle,
+  X
 } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { debounce, throttle } from 'lodash';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-
-interface FactoryStatus {
-  id: string;
-  name: string;
-  status: 'running' | 'warning' | 'alarm';
-  oee_score: number;
-  energy_usage: number;
-  efficiency: number;
-  uptime: number;
-}
+import { FactoryStatus } from '../types';
+import {
+  FactoryTotals,
+  fetchFactoryStatus,
+  formatChange,
+  percentChange,
+  summarizeFactories
+} from '../lib/factoryStatus';
+import {
+  DATE_RANGE_OPTIONS,
+  DateRangeSelection,
+  bucketFor,
+  describeSelection,
+  lastHours,
+  parseDateRangeParams,
+  previousPeriod,
+  rangeFromPreference,
+  resolvePeriod,
+  toDateRangeParams
+} from '../lib/dateRange';
+import { EnergyPoint, fetchEnergySeries } from '../lib/energy';
+import { usePermissions } from '../lib/auth';
+import { formatEnergy, toEnergyUnit, usePreferences } from '../lib/preferences';
+import { ExportMenu } from '../components/ExportMenu';
+import { ScopeBreadcrumb } from '../components/ScopeBreadcrumb';
+import { ScopeStep, fetchScopePath, formatScope, parseScope, resolveScope } from '../lib/plantTree';
+import { RealtimeTable, useHighlightedIds, useTableChanges } from '../lib/realtime';
 
 type SortField = 'name' | 'status' | 'oee_score' | 'energy_usage';
 type SortOrder = 'asc' | 'desc';
 
-// Mock data for energy consumption over time
-const energyData = [
-  { time: '00:00', value: 350 },
-  { time: '04:00', value: 420 },
-  { time: '08:00', value: 520 },
-  { time: '12:00', value: 480 },
-  { time: '16:00', value: 450 },
-  { time: '20:00', value: 380 },
-  { time: '23:59', value: 340 },
-];
-
-// Static factory data
-const mockFactories: FactoryStatus[] = [
-  {
-    id: '1',
-    name: 'Factory Alpha',
-    status: 'running',
-    oee_score: 92,
-    energy_usage: 450,
-    efficiency: 95,
-    uptime: 99.8
-  },
-  {
-    id: '2',
-    name: 'Factory Beta',
-    status: 'warning',
-    oee_score: 78,
-    energy_usage: 380,
-    efficiency: 82,
-    uptime: 95.5
-  },
-  {
-    id: '3',
-    name: 'Factory Gamma',
-    status: 'alarm',
-    oee_score: 65,
-    energy_usage: 520,
-    efficiency: 71,
-    uptime: 88.2
-  },
-  {
-    id: '4',
-    name: 'Factory Delta',
-    status: 'running',
-    oee_score: 88,
-    energy_usage: 410,
-    efficiency: 91,
-    uptime: 98.4
-  },
-];
+const STATUS_LABELS: Record<FactoryStatus['status'], string> = {
+  running: 'Running',
+  warning: 'Warning',
+  alarm: 'Alarm',
+  no_data: 'No data',
+};
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value}%`);
+
+// Length of the dashboard reporting window, in hours
+const DASHBOARD_HOURS = 24;
+
+// Hierarchy and alert level changes behind the factory status table refresh it straight away
+const LIVE_TABLES: RealtimeTable[] = ['company', 'line', 'machine', 'alert_state'];
+
+// Readings and metrics arrive continuously, so they refresh the figures on a fixed interval
+const READING_TABLES: RealtimeTable[] = ['machine_metric', 'energy_consumption'];
+const READING_REFRESH_MS = 60 * 1000;
+
+interface ResolvedScope {
+  param: string;
+  path: ScopeStep[];
+  companyIds: string[];
+}
 
 export const Dashboard = () => {
   const navigate = useNavigate();
+  const supabase = useSupabaseClient<Database>();
+  const { companyIds } = usePermissions();
+  const { preferences: { defaultDateRange, energyUnit } } = usePreferences();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [factories, setFactories] = useState<FactoryStatus[]>([]);
+  const [previousTotals, setPreviousTotals] = useState<FactoryTotals | null>(null);
+  const [energyData, setEnergyData] = useState<EnergyPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [chartLoading, setChartLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [sortField, setSortField] = useState<SortField>('name');
   const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [resolvedScope, setResolvedScope] = useState<ResolvedScope | null>(null);
+
+  // Bumped when data behind the dashboard changes elsewhere. Each load
+  // remembers the version it last ran for, so a newer one means a background
+  // refresh that keeps the current figures on screen instead of the loader.
+  const [liveVersion, setLiveVersion] = useState(0);
+  const loadedVersion = useRef({ dashboard: 0, chart: 0 });
+  const shownFactories = useRef<FactoryStatus[]>([]);
+  const { ids: changedFactoryIds, highlight } = useHighlightedIds();
+
+  const scheduleLiveRefresh = useMemo(() => debounce(() => setLiveVersion(version => version + 1), 1000), []);
+  const scheduleReadingRefresh = useMemo(
+    () => throttle(() => setLiveVersion(version => version + 1), READING_REFRESH_MS, { leading: false }),
+    []
+  );
+
+  useEffect(() => () => {
+    scheduleLiveRefresh.cancel();
+    scheduleReadingRefresh.cancel();
+  }, [scheduleLiveRefresh, scheduleReadingRefresh]);
+
+  useTableChanges(LIVE_TABLES, scheduleLiveRefresh);
+  useTableChanges(READING_TABLES, scheduleReadingRefresh);
+
+  // A plant tree node picked in the explorer, e.g. ?scope=district:<id>
+  const scopeParam = searchParams.get('scope');
+
+  useEffect(() => {
+    const scope = parseScope(scopeParam);
+    if (!scopeParam || !scope) return;
+
+    const fetchScope = async () => {
+      try {
+        const [path, filter] = await Promise.all([
+          fetchScopePath(supabase, scope),
+          resolveScope(supabase, scope),
+        ]);
+        setResolvedScope({ param: scopeParam, path, ...filter });
+      } catch (err) {
+        console.error('Error resolving dashboard scope:', err);
+        setError('Failed to apply the plant scope');
+        setResolvedScope({ param: scopeParam, path: [], companyIds: [] });
+      }
+    };
+
+    fetchScope();
+  }, [supabase, scopeParam]);
+
+  const scope = scopeParam && resolvedScope?.param === scopeParam ? resolvedScope : null;
+  const scopeReady = !scopeParam || !!scope;
+
+  // A single factory linked from a notification, e.g. ?factory=<id>
+  const factoryParam = searchParams.get('factory');
+
+  // The user's companies, narrowed to those with lines inside the scope
+  // and then to the linked factory
+  const factoryIds = useMemo(() => {
+    let ids = companyIds;
+    if (scope) {
+      ids = companyIds ? scope.companyIds.filter(id => companyIds.includes(id)) : scope.companyIds;
+    }
+    if (factoryParam) {
+      ids = ids ? ids.filter(id => id === factoryParam) : [factoryParam];
+    }
+    return ids;
+  }, [scope, companyIds, factoryParam]);
+  // Metrics are narrowed to the machines inside the scope in the database
+  const plantScope = useMemo(() => (scope ? parseScope(scope.param) : null), [scope]);
+
+  useEffect(() => {
+    if (!scopeReady) return;
+
+    const silent = liveVersion !== loadedVersion.current.dashboard;
+    loadedVersion.current.dashboard = liveVersion;
+
+    const fetchDashboard = async () => {
+      try {
+        if (!silent) setLoading(true);
+        setError(null);
+
+        const period = lastHours(DASHBOARD_HOURS);
+        const [current, previous] = await Promise.all([
+          fetchFactoryStatus(supabase, period, factoryIds, plantScope),
+          fetchFactoryStatus(supabase, previousPeriod(period), factoryIds, plantScope),
+        ]);
+
+        if (silent) {
+          highlight(current
+            .filter(factory => {
+              const before = shownFactories.current.find(shown => shown.id === factory.id);
+              return JSON.stringify(before) !== JSON.stringify(factory);
+            })
+            .map(factory => factory.id));
+        }
+        shownFactories.current = current;
+        setFactories(current);
+        setPreviousTotals(previous.length > 0 ? summarizeFactories(previous) : null);
+      } catch (err) {
+        console.error('Error fetching factory status:', err);
+        setError('Failed to load factory status');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDashboard();
+  }, [supabase, scopeReady, factoryIds, plantScope, liveVersion, highlight]);
+
+  // The chart range lives in the URL so a view can be shared; the Settings default applies otherwise
+  const selection = useMemo(
+    () => parseDateRangeParams(searchParams, rangeFromPreference(defaultDateRange)),
+    [searchParams, defaultDateRange]
+  );
+
+  useEffect(() => {
+    if (!scopeReady) return;
+
+    const silent = liveVersion !== loadedVersion.current.chart;
+    loadedVersion.current.chart = liveVersion;
+
+    const fetchChart = async () => {
+      try {
+        if (!silent) setChartLoading(true);
+
+        const period = resolvePeriod(selection);
+        setEnergyData(await fetchEnergySeries(supabase, period, bucketFor(period), 'electricity', factoryIds));
+      } catch (err) {
+        console.error('Error fetching energy consumption:', err);
+        setError('Failed to load energy consumption');
+      } finally {
+        setChartLoading(false);
+      }
+    };
+
+    fetchChart();
+  }, [supabase, selection, scopeReady, factoryIds, liveVersion]);
+
+  const updateScope = (step: ScopeStep | null) => {
+    setSearchParams(prev => {
+      const params = new URLSearchParams(prev);
+      if (step) {
+        params.set('scope', formatScope(step));
+      } else {
+        params.delete('scope');
+      }
+      return params;
+    });
+  };
+
+  const clearFactory = () => {
+    setSearchParams(prev => {
+      const params = new URLSearchParams(prev);
+      params.delete('factory');
+      return params;
+    });
+  };
+
+  const updateSelection = (next: DateRangeSelection) => {
+    setSearchParams(prev => {
+      const params = new URLSearchParams(prev);
+      params.delete('from');
+      params.delete('to');
+      Object.entries(toDateRangeParams(next)).forEach(([key, value]) => params.set(key, value));
+      return params;
+    });
+  };
+
+  const handleRangeChange = (range: DateRangeSelection['range']) => {
+    if (range === 'custom') {
+      // Start a custom range from the period currently on screen
+      const period = resolvePeriod(selection);
+      const to = new Date(period.to.getTime() - 1);
+      updateSelection({
+        range,
+        from: period.from.toLocaleDateString('en-CA'),
+        to: to.toLocaleDateString('en-CA'),
+      });
+      return;
+    }
+    updateSelection({ range });
+  };
+
+  const handleCustomDateChange = (field: 'from' | 'to', value: string) => {
+    const next = { ...selection, [field]: value };
+    if (next.from && next.to && next.from <= next.to) {
+      updateSelection(next);
+    }
+  };
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -101,10 +295,14 @@ export const Dashboard = () => {
     }
   };
 
-  const sortedFactories = [...mockFactories].sort((a, b) => {
+  const sortedFactories = [...factories].sort((a, b) => {
     const aValue = a[sortField];
     const bValue = b[sortField];
-    
+
+    // Factories without metrics sort last in either direction
+    if (aValue === null || bValue === null) {
+      return aValue === bValue ? 0 : aValue === null ? 1 : -1;
+    }
     if (sortOrder === 'asc') {
       return aValue > bValue ? 1 : -1;
     }
@@ -117,6 +315,19 @@ export const Dashboard = () => {
     return matchesSearch && matchesStatus;
   });
 
+  const handleExport = () => ({
+    title: 'Factory Status Overview',
+    columns: ['Factory', 'Status', 'OEE Score (%)', 'Efficiency (%)', 'Uptime (%)', `Energy Usage (${energyUnit})`],
+    rows: filteredFactories.map(factory => [
+      factory.name,
+      STATUS_LABELS[factory.status],
+      factory.oee_score,
+      factory.efficiency,
+      factory.uptime,
+      toEnergyUnit(factory.energy_usage, energyUnit),
+    ]),
+  });
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'running':
@@ -125,6 +336,8 @@ export const Dashboard = () => {
         return <AlertTriangle className="w-6 h-6 text-warning" />;
       case 'alarm':
         return <XCircle className="w-6 h-6 text-danger" />;
+      case 'no_data':
+        return <MinusCircle className="w-6 h-6 text-secondary" />;
       default:
         return null;
     }
@@ -138,62 +351,109 @@ export const Dashboard = () => {
         return 'text-warning';
       case 'alarm':
         return 'text-danger';
+      case 'no_data':
+        return 'text-secondary';
       default:
         return '';
     }
   };
 
-  const getTotalMetrics = () => {
-    return mockFactories.reduce((acc, curr) => ({
-      energy: acc.energy + curr.energy_usage,
-      oee: acc.oee + curr.oee_score,
-      efficiency: acc.efficiency + curr.efficiency,
-      uptime: acc.uptime + curr.uptime
-    }), { energy: 0, oee: 0, efficiency: 0, uptime: 0 });
-  };
+  const totals = summarizeFactories(factories);
 
-  const totals = getTotalMetrics();
-  const avgOEE = (totals.oee / mockFactories.length).toFixed(1);
-  const avgEfficiency = (totals.efficiency / mockFactories.length).toFixed(1);
-  const avgUptime = (totals.uptime / mockFactories.length).toFixed(1);
+  const chartData = energyData.map(point => ({ ...point, value: toEnergyUnit(point.value, energyUnit) }));
+
+  const getChange = (field: keyof FactoryTotals) => {
+    const change = previousTotals ? percentChange(totals[field], previousTotals[field]) : null;
+    return {
+      change: formatChange(change),
+      trend: change !== null && change < 0 ? 'down' : 'up',
+    };
+  };
 
   const summaryCards = [
     {
       title: 'Total Energy',
-      value: `${totals.energy.toFixed(1)} kWh`,
-      change: '+5.2%',
-      trend: 'up',
+      value: formatEnergy(totals.energy, energyUnit),
+      ...getChange('energy'),
       icon: <Zap className="w-8 h-8 text-blue-500" />,
       color: 'bg-blue-500'
     },
     {
       title: 'Average OEE',
-      value: `${avgOEE}%`,
-      change: '-2.1%',
-      trend: 'down',
+      value: `${totals.oee.toFixed(1)}%`,
+      ...getChange('oee'),
       icon: <Gauge className="w-8 h-8 text-green-500" />,
       color: 'bg-green-500'
     },
     {
       title: 'Efficiency',
-      value: `${avgEfficiency}%`,
-      change: '+1.8%',
-      trend: 'up',
+      value: `${totals.efficiency.toFixed(1)}%`,
+      ...getChange('efficiency'),
       icon: <TrendingUp className="w-8 h-8 text-purple-500" />,
       color: 'bg-purple-500'
     },
     {
       title: 'Uptime',
-      value: `${avgUptime}%`,
-      change: '+0.5%',
-      trend: 'up',
+      value: `${totals.uptime.toFixed(1)}%`,
+      ...getChange('uptime'),
       icon: <Clock className="w-8 h-8 text-orange-500" />,
       color: 'bg-orange-500'
     }
   ];
 
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
+      {error && (
+        <div className="p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+          <AlertCircle className="w-5 h-5" />
+          {error}
+        </div>
+      )}
+
+      {scopeParam && (
+        <div className="card p-4 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <FolderTree className="w-5 h-5 text-blue-500" />
+            <span className="text-sm text-secondary">Scope:</span>
+            {scope && <ScopeBreadcrumb path={scope.path} onSelect={updateScope} />}
+          </div>
+          <button
+            onClick={() => updateScope(null)}
+            className="flex items-center gap-1 text-sm text-secondary hover:text-primary"
+          >
+            <X className="w-4 h-4" />
+            Clear scope
+          </button>
+        </div>
+      )}
+
+      {factoryParam && (
+        <div className="card p-4 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Factory className="w-5 h-5 text-blue-500" />
+            <span className="text-sm text-secondary">Factory:</span>
+            <span className="text-sm font-medium">
+              {factories.find(factory => factory.id === factoryParam)?.name || '…'}
+            </span>
+          </div>
+          <button
+            onClick={clearFactory}
+            className="flex items-center gap-1 text-sm text-secondary hover:text-primary"
+          >
+            <X className="w-4 h-4" />
+            Show all factories
+          </button>
+        </div>
+      )}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         {summaryCards.map((card) => (
@@ -219,55 +479,83 @@ export const Dashboard = () => {
         <div className="flex items-center justify-between mb-6">
           <div>
             <h2 className="text-xl font-bold text-primary">Energy Consumption</h2>
-            <p className="text-secondary text-sm">Last 24 hours</p>
+            <p className="text-secondary text-sm">{describeSelection(selection)}</p>
           </div>
           <div className="flex items-center gap-4">
+            {selection.range === 'custom' && (
+              <>
+                <input
+                  type="date"
+                  className="input bg-card"
+                  value={selection.from}
+                  max={selection.to}
+                  onChange={(e) => handleCustomDateChange('from', e.target.value)}
+                  aria-label="From date"
+                />
+                <input
+                  type="date"
+                  className="input bg-card"
+                  value={selection.to}
+                  min={selection.from}
+                  onChange={(e) => handleCustomDateChange('to', e.target.value)}
+                  aria-label="To date"
+                />
+              </>
+            )}
             <select 
               className="input bg-card"
-              defaultValue="24h"
+              value={selection.range}
+              onChange={(e) => handleRangeChange(e.target.value as DateRangeSelection['range'])}
             >
-              <option value="24h">Last 24 hours</option>
-              <option value="7d">Last 7 days</option>
-              <option value="30d">Last 30 days</option>
+              {DATE_RANGE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+              <option value="custom">Custom range</option>
             </select>
           </div>
         </div>
         <div className="h-[300px] w-full">
-          <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={energyData}>
-              <CartesianGrid strokeDasharray="3 3" stroke="currentColor" className="text-border opacity-20" />
-              <XAxis 
-                dataKey="time" 
-                stroke="currentColor" 
-                className="text-secondary text-sm"
-              />
-              <YAxis 
-                stroke="currentColor" 
-                className="text-secondary text-sm"
-                unit=" kWh"
-              />
-              <Tooltip
-                contentStyle={{
-                  backgroundColor: 'rgb(var(--color-card))',
-                  border: '1px solid rgb(var(--color-border))',
-                  borderRadius: '0.5rem',
-                }}
-                labelStyle={{
-                  color: 'rgb(var(--color-primary))',
-                }}
-                itemStyle={{
-                  color: 'rgb(var(--color-secondary))',
-                }}
-              />
-              <Line 
-                type="monotone" 
-                dataKey="value" 
-                stroke="rgb(var(--color-primary))" 
-                strokeWidth={2}
-                dot={false}
-              />
-            </LineChart>
-          </ResponsiveContainer>
+          {chartLoading ? (
+            <div className="flex items-center justify-center h-full">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="currentColor" className="text-border opacity-20" />
+                <XAxis 
+                  dataKey="time" 
+                  stroke="currentColor" 
+                  className="text-secondary text-sm"
+                />
+                <YAxis 
+                  stroke="currentColor" 
+                  className="text-secondary text-sm"
+                  unit={` ${energyUnit}`}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'rgb(var(--color-card))',
+                    border: '1px solid rgb(var(--color-border))',
+                    borderRadius: '0.5rem',
+                  }}
+                  labelStyle={{
+                    color: 'rgb(var(--color-primary))',
+                  }}
+                  itemStyle={{
+                    color: 'rgb(var(--color-secondary))',
+                  }}
+                />
+                <Line 
+                  type="monotone" 
+                  dataKey="value" 
+                  stroke="rgb(var(--color-primary))" 
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
         </div>
       </div>
 
@@ -300,7 +588,10 @@ export const Dashboard = () => {
               <option value="running">Running</option>
               <option value="warning">Warning</option>
               <option value="alarm">Alarm</option>
+              <option value="no_data">No Data</option>
             </select>
+
+            <ExportMenu load={handleExport} onError={setError} disabled={filteredFactories.length === 0} />
           </div>
         </div>
 
@@ -357,38 +648,51 @@ export const Dashboard = () => {
                 </tr>
               ) : (
                 filteredFactories.map((factory) => (
-                  <tr key={factory.id} className="border-b border-border border-opacity-50 hover:bg-secondary hover:bg-opacity-5">
+                  <tr
+                    key={factory.id}
+                    className={`border-b border-border border-opacity-50 transition-colors duration-500 ${
+                      changedFactoryIds.has(factory.id) ? 'bg-blue-50' : 'hover:bg-secondary hover:bg-opacity-5'
+                    }`}
+                  >
                     <td className="py-3 px-4 font-medium">{factory.name}</td>
                     <td className="py-3 px-4">
                       <div className="flex items-center gap-2">
                         {getStatusIcon(factory.status)}
-                        <span className={`capitalize font-medium ${getStatusColor(factory.status)}`}>
-                          {factory.status}
+                        <span className={`font-medium ${getStatusColor(factory.status)}`}>
+                          {STATUS_LABELS[factory.status]}
                         </span>
+                        {factory.status === 'alarm' && (
+                          <button
+                            onClick={() => navigate(`/alarms?factory=${factory.id}`)}
+                            className="text-xs text-blue-600 hover:text-blue-700"
+                          >
+                            Alarm log
+                          </button>
+                        )}
                       </div>
                     </td>
                     <td className="py-3 px-4">
                       <div className="flex items-center gap-2">
                         <Gauge className="w-4 h-4 text-primary" />
-                        <span className="font-medium">{factory.oee_score}%</span>
+                        <span className="font-medium">{formatPercent(factory.oee_score)}</span>
                       </div>
                     </td>
                     <td className="py-3 px-4">
                       <div className="flex items-center gap-2">
                         <Percent className="w-4 h-4 text-purple-500" />
-                        <span className="font-medium">{factory.efficiency}%</span>
+                        <span className="font-medium">{formatPercent(factory.efficiency)}</span>
                       </div>
                     </td>
                     <td className="py-3 px-4">
                       <div className="flex items-center gap-2">
                         <Clock className="w-4 h-4 text-orange-500" />
-                        <span className="font-medium">{factory.uptime}%</span>
+                        <span className="font-medium">{formatPercent(factory.uptime)}</span>
                       </div>
                     </td>
                     <td className="py-3 px-4">
                       <div className="flex items-center gap-2">
                         <Zap className="w-4 h-4 text-blue-500" />
-                        <span className="font-medium">{factory.energy_usage} kWh</span>
+                        <span className="font-medium">{formatEnergy(factory.energy_usage, energyUnit)}</span>
                       </div>
                     </td>
                   </tr>
@@ -441,7 +745,7 @@ export const Dashboard = () => {
         </button>
 
         <button
-          onClick={() => navigate('/settings')}
+          onClick={() => navigate('/sustainability')}
           className="card p-6 hover:bg-secondary hover:bg-opacity-5 text-left"
         >
           <div className="bg-orange-500 bg-opacity-10 w-12 h-12 rounded-lg flex items-center justify-center mb-4">
@@ -1,26 +1,50 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useSupabaseClient, useSession } from '@supabase/auth-helpers-react';
+import { Database } from '../types/database';
+import { SET_PASSWORD_PATH, redirectTarget, useAuth } from '../lib/auth';
+import { authLinkType } from '../lib/supabase';
+import { oauthErrorFromUrl, signInWithEntra } from '../lib/entra';
+import { signInWithLdap } from '../lib/ldap';
 import { Lock, Mail, Key, AlertCircle, Microscope as Microsoft, Users, Server } from 'lucide-react';
 
 export function Login() {
-  const supabase = useSupabaseClient();
+  const supabase = useSupabaseClient<Database>();
   const session = useSession();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { sessionExpired } = useAuth();
+  const redirectTo = redirectTarget(searchParams);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [ldapUsername, setLdapUsername] = useState('');
   const [ldapPassword, setLdapPassword] = useState('');
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [authMethod, setAuthMethod] = useState<'email' | 'microsoft' | 'ldap'>('email');
+  // A failed Entra ID sign-in returns here with the reason in the URL
+  const [error, setError] = useState<string | null>(() => oauthErrorFromUrl(window.location));
+  const [authMethod, setAuthMethod] = useState<'email' | 'microsoft' | 'ldap'>(
+    () => (oauthErrorFromUrl(window.location) ? 'microsoft' : 'email')
+  );
 
-  // Redirect to dashboard if already logged in
+  // Return to the page that sent the user here once logged in. Invite and
+  // reset links sent before they pointed at the set-password page land here
+  // with a session that still needs a password.
   useEffect(() => {
     if (session) {
-      navigate('/', { replace: true });
+      const needsPassword = authLinkType === 'invite' || authLinkType === 'recovery';
+      navigate(needsPassword ? SET_PASSWORD_PATH : redirectTo, { replace: true });
     }
-  }, [session, navigate]);
+  }, [session, navigate, redirectTo]);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'PASSWORD_RECOVERY') {
+        navigate(SET_PASSWORD_PATH, { replace: true });
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [supabase, navigate]);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -34,7 +58,7 @@ export function Login() {
       });
 
       if (error) throw error;
-      navigate('/', { replace: true });
+      navigate(redirectTo, { replace: true });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred during login');
     } finally {
@@ -43,12 +67,31 @@ export function Login() {
   };
 
   const handleMicrosoftLogin = async () => {
-    setError('Microsoft Entra ID login is not configured yet');
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Leaves the page on success; the session arrives with the redirect back
+      await signInWithEntra(supabase, redirectTo);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred during login');
+      setLoading(false);
+    }
   };
 
   const handleLDAPLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    setError('LDAP authentication is not configured yet');
+    setLoading(true);
+    setError(null);
+
+    try {
+      await signInWithLdap(supabase, ldapUsername, ldapPassword);
+      navigate(redirectTo, { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred during login');
+    } finally {
+      setLoading(false);
+    }
   };
 
   // Don't render login form if already authenticated
@@ -92,6 +135,21 @@ export function Login() {
 
         <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
           <div className="bg-white py-8 px-4 shadow-lg sm:rounded-lg sm:px-10">
+            {sessionExpired && (
+              <div className="mb-6 rounded-md bg-yellow-50 p-4">
+                <div className="flex">
+                  <div className="flex-shrink-0">
+                    <AlertCircle className="h-5 w-5 text-yellow-400" />
+                  </div>
+                  <div className="ml-3">
+                    <h3 className="text-sm font-medium text-yellow-800">
+                      Your session has expired. Please sign in again to continue.
+                    </h3>
+                  </div>
+                </div>
+              </div>
+            )}
+
             <div className="flex gap-2 mb-6">
               <button
                 onClick={() => setAuthMethod('email')}
@@ -196,10 +254,11 @@ export function Login() {
               <div className="space-y-6">
                 <button
                   onClick={handleMicrosoftLogin}
-                  className="w-full flex items-center justify-center gap-3 py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-[#00a4ef] hover:bg-[#0096dc] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#00a4ef] transition-colors"
+                  disabled={loading}
+                  className="w-full flex items-center justify-center gap-3 py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-[#00a4ef] hover:bg-[#0096dc] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#00a4ef] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
                   <Microsoft className="h-5 w-5" />
-                  Sign in with Microsoft Entra ID
+                  {loading ? 'Redirecting to Microsoft...' : 'Sign in with Microsoft Entra ID'}
                 </button>
                 <p className="text-sm text-center text-gray-500">
                   Use your organization's Microsoft Entra ID account
@@ -254,10 +313,11 @@ export function Login() {
                 <div>
                   <button
                     type="submit"
-                    className="w-full flex items-center justify-center gap-3 py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-gray-800 hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors"
+                    disabled={loading}
+                    className="w-full flex items-center justify-center gap-3 py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-gray-800 hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                   >
                     <Server className="h-5 w-5" />
-                    Sign in with LDAP
+                    {loading ? 'Signing in...' : 'Sign in with LDAP'}
                   </button>
                 </div>
               </form>
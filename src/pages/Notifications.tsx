@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useSupabaseClient } from '@supabase/auth-helpers-react';
+import { Database } from '../types/database';
+import { Bell, Loader2, AlertCircle, CheckCheck, ExternalLink } from 'lucide-react';
+import {
+  Table, TableBody, TableCell, TableHead,
+  TableRow, Paper, TextField, TablePagination,
+  FormControl, InputLabel, Select, MenuItem,
+  FormControlLabel, Checkbox, Button
+} from '@mui/material';
+import {
+  EMPTY_FILTERS, NOTIFICATION_KINDS, NOTIFICATION_LEVELS, Notification, NotificationFilters,
+  acknowledgeNotification, fetchNotifications, markAllNotificationsRead, markNotificationsRead,
+  needsAcknowledgement
+} from '../lib/notifications';
+import { NotificationIcon } from '../components/notifications/NotificationIcon';
+import { useTableChanges } from '../lib/realtime';
+import { ROWS_PER_PAGE_OPTIONS, useRowsPerPage } from '../lib/preferences';
+
+const kindLabel = (kind: string) =>
+  NOTIFICATION_KINDS.find(option => option.value === kind)?.label || kind;
+
+export function Notifications() {
+  const navigate = useNavigate();
+  const supabase = useSupabaseClient<Database>();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<NotificationFilters>(EMPTY_FILTERS);
+
+  // Pagination state
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useRowsPerPage();
+  const [totalCount, setTotalCount] = useState(0);
+
+  const fetchPage = useCallback(async () => {
+    try {
+      const { rows, count } = await fetchNotifications(supabase, filters, page, rowsPerPage);
+      setNotifications(rows);
+      setTotalCount(count);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching notifications:', err);
+      setError('Failed to fetch notifications');
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase, filters, page, rowsPerPage]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchPage();
+  }, [fetchPage]);
+
+  useTableChanges(['notification'], fetchPage);
+
+  const updateFilter = <K extends keyof NotificationFilters>(key: K, value: NotificationFilters[K]) => {
+    setFilters(current => ({ ...current, [key]: value }));
+    setPage(0);
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+      await fetchPage();
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(failure);
+    }
+  };
+
+  const handleOpen = async (notification: Notification) => {
+    if (!notification.read_at) {
+      try {
+        await markNotificationsRead(supabase, [notification.id]);
+      } catch (err) {
+        console.error('Error marking notification read:', err);
+      }
+    }
+    if (notification.link) navigate(notification.link);
+  };
+
+  const handleChangePage = (_event: unknown, newPage: number) => {
+    setPage(newPage);
+  };
+
+  const handleChangeRowsPerPage = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setRowsPerPage(parseInt(event.target.value, 10));
+    setPage(0);
+  };
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Bell className="w-6 h-6 text-blue-500" />
+          Notifications
+        </h1>
+        <Button
+          variant="outlined"
+          startIcon={<CheckCheck className="w-4 h-4" />}
+          onClick={() => runAction(() => markAllNotificationsRead(supabase), 'Failed to mark notifications read')}
+        >
+          Mark All Read
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+          <InputLabel>Type</InputLabel>
+          <Select
+            value={filters.kind}
+            label="Type"
+            onChange={(e) => updateFilter('kind', e.target.value as NotificationFilters['kind'])}
+          >
+            <MenuItem value="all">All types</MenuItem>
+            {NOTIFICATION_KINDS.map(option => (
+              <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel>Severity</InputLabel>
+          <Select
+            value={filters.level}
+            label="Severity"
+            onChange={(e) => updateFilter('level', e.target.value as NotificationFilters['level'])}
+          >
+            <MenuItem value="all">All severities</MenuItem>
+            {NOTIFICATION_LEVELS.map(option => (
+              <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField
+          label="From"
+          type="date"
+          size="small"
+          value={filters.from}
+          onChange={(e) => updateFilter('from', e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          label="To"
+          type="date"
+          size="small"
+          value={filters.to}
+          onChange={(e) => updateFilter('to', e.target.value)}
+          InputLabelProps={{ shrink: true }}
+          inputProps={{ min: filters.from || undefined }}
+        />
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={filters.unreadOnly}
+              onChange={(e) => updateFilter('unreadOnly', e.target.checked)}
+            />
+          }
+          label="Unread only"
+        />
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+          <AlertCircle className="w-5 h-5" />
+          {error}
+        </div>
+      )}
+
+      <Paper className="overflow-hidden">
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>When</TableCell>
+              <TableCell>Type</TableCell>
+              <TableCell>Notification</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={5} align="center">
+                  <Loader2 className="w-6 h-6 animate-spin text-blue-500 inline-block" />
+                </TableCell>
+              </TableRow>
+            ) : notifications.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} align="center">
+                  No notifications for the selected filters
+                </TableCell>
+              </TableRow>
+            ) : (
+              notifications.map((notification) => (
+                <TableRow key={notification.id} selected={!notification.read_at}>
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(notification.created_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell>{kindLabel(notification.kind)}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <NotificationIcon level={notification.level} className="w-5 h-5 shrink-0" />
+                      <div>
+                        <div className={notification.read_at ? '' : 'font-semibold'}>{notification.title}</div>
+                        {notification.body && (
+                          <div className="text-sm text-gray-500">{notification.body}</div>
+                        )}
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {notification.acknowledged_at
+                      ? `Acknowledged ${new Date(notification.acknowledged_at).toLocaleString()}`
+                      : notification.read_at ? 'Read' : 'Unread'}
+                  </TableCell>
+                  <TableCell align="right" className="whitespace-nowrap">
+                    {!notification.read_at && (
+                      <Button
+                        size="small"
+                        onClick={() => runAction(
+                          () => markNotificationsRead(supabase, [notification.id]),
+                          'Failed to mark notification read'
+                        )}
+                      >
+                        Mark Read
+                      </Button>
+                    )}
+                    {needsAcknowledgement(notification) && (
+                      <Button
+                        size="small"
+                        onClick={() => runAction(
+                          () => acknowledgeNotification(supabase, notification),
+                          'Failed to acknowledge notification'
+                        )}
+                      >
+                        Acknowledge
+                      </Button>
+                    )}
+                    {notification.link && (
+                      <Button
+                        size="small"
+                        endIcon={<ExternalLink className="w-4 h-4" />}
+                        onClick={() => handleOpen(notification)}
+                      >
+                        Open
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        <TablePagination
+          rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
+          component="div"
+          count={totalCount}
+          rowsPerPage={rowsPerPage}
+          page={page}
+          onPageChange={handleChangePage}
+          onRowsPerPageChange={handleChangeRowsPerPage}
+        />
+      </Paper>
+    </div>
+  );
+}
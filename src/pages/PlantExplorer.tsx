@@ -0,0 +1,375 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useSupabaseClient, useUser } from '@supabase/auth-helpers-react';
+import { Database } from '../types/database';
+import {
+  FolderTree, Plus, Loader2, AlertCircle, CheckCircle,
+  Edit2, ChevronDown, ChevronRight, LayoutDashboard
+} from 'lucide-react';
+import { Paper, Button, IconButton } from '@mui/material';
+import {
+  MOVABLE_LEVELS, TreeLevel, TreeNode, childLevel, fetchTreeChildren,
+  formatScope, moveTreeNode, parentColumn, parseScope
+} from '../lib/plantTree';
+import { usePermissions } from '../lib/auth';
+import { EntityDefinition, EntityRow, FormValues } from '../components/entity-list/types';
+import { toNoun } from '../components/entity-list/fields';
+import { EntityFormDialog } from '../components/entity-list/EntityFormDialog';
+import { ScopeBreadcrumb } from '../components/ScopeBreadcrumb';
+import { cityEntity, countryEntity, districtEntity, lineEntity, machineEntity } from './data-entry/entities';
+
+const LEVEL_ENTITIES: Record<TreeLevel, EntityDefinition> = {
+  country: countryEntity,
+  city: cityEntity,
+  district: districtEntity,
+  line: lineEntity,
+  machine: machineEntity,
+};
+
+// Key of the list of countries at the top of the tree
+const ROOT_KEY = 'root';
+
+const nodeKey = (node: TreeNode) => formatScope(node);
+
+interface DialogState {
+  open: boolean;
+  definition: EntityDefinition;
+  editing: EntityRow | null;
+  defaults?: FormValues;
+  // List the new or edited node appears in
+  listKey: string;
+}
+
+interface DragState {
+  node: TreeNode;
+  listKey: string;
+}
+
+export function PlantExplorer() {
+  const navigate = useNavigate();
+  const supabase = useSupabaseClient<Database>();
+  const user = useUser();
+  const { can, companyIds } = usePermissions();
+  const canWrite = can('data:write');
+  const [children, setChildren] = useState<Record<string, TreeNode[]>>({});
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [loadingKeys, setLoadingKeys] = useState<Record<string, boolean>>({});
+  const [selectedPath, setSelectedPath] = useState<TreeNode[]>([]);
+  const [dialog, setDialog] = useState<DialogState>({
+    open: false, definition: countryEntity, editing: null, listKey: ROOT_KEY,
+  });
+  const [dragged, setDragged] = useState<DragState | null>(null);
+  const [dropKey, setDropKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Which list each loaded node sits in, so counts up the tree can be refreshed
+  const listOf = useRef<Record<string, string>>({});
+
+  const loadChildren = useCallback(async (key: string) => {
+    try {
+      setLoadingKeys(prev => ({ ...prev, [key]: true }));
+
+      const nodes = await fetchTreeChildren(supabase, key === ROOT_KEY ? null : parseScope(key), companyIds);
+      nodes.forEach(node => {
+        listOf.current[nodeKey(node)] = key;
+      });
+      setChildren(prev => ({ ...prev, [key]: nodes }));
+    } catch (err) {
+      console.error('Error loading plant tree:', err);
+      setError('Failed to load the plant tree');
+    } finally {
+      setLoadingKeys(prev => ({ ...prev, [key]: false }));
+    }
+  }, [supabase, companyIds]);
+
+  useEffect(() => {
+    setChildren({});
+    setExpanded({});
+    loadChildren(ROOT_KEY);
+  }, [loadChildren]);
+
+  // Reloads the given lists and the lists holding their parents, whose counts may have changed
+  const refreshLists = (keys: string[]) => {
+    const lists = new Set<string>();
+    keys.forEach(key => {
+      lists.add(key);
+      if (listOf.current[key]) lists.add(listOf.current[key]);
+    });
+    return Promise.all(Array.from(lists).map(loadChildren));
+  };
+
+  const handleToggle = (node: TreeNode) => {
+    const key = nodeKey(node);
+    const opening = !expanded[key];
+    setExpanded(prev => ({ ...prev, [key]: opening }));
+    if (opening && !children[key]) {
+      loadChildren(key);
+    }
+  };
+
+  const handleAdd = (parent: TreeNode | null) => {
+    const level = parent ? childLevel(parent.level) : 'country';
+    if (!level) return;
+
+    setDialog({
+      open: true,
+      definition: LEVEL_ENTITIES[level],
+      editing: null,
+      defaults: parent ? { [parentColumn(level)!]: parent.id } : undefined,
+      listKey: parent ? nodeKey(parent) : ROOT_KEY,
+    });
+    setError(null);
+  };
+
+  const handleEdit = (node: TreeNode, listKey: string) => {
+    setDialog({ open: true, definition: LEVEL_ENTITIES[node.level], editing: node.row, listKey });
+    setError(null);
+  };
+
+  const handleSaved = async (message: string) => {
+    const { listKey, editing } = dialog;
+    setDialog(prev => ({ ...prev, open: false }));
+    setSuccess(message);
+    setSelectedPath([]);
+
+    if (editing) {
+      // The dialog can also change the parent, so every open list may be affected
+      await Promise.all(Object.keys(children).map(loadChildren));
+      return;
+    }
+
+    if (listKey !== ROOT_KEY) {
+      setExpanded(prev => ({ ...prev, [listKey]: true }));
+    }
+    await refreshLists([listKey]);
+  };
+
+  // A line can be dropped on a district and a machine on a line, other than its current one
+  const canDropOn = (target: TreeNode) =>
+    !!dragged && childLevel(target.level) === dragged.node.level && nodeKey(target) !== dragged.listKey;
+
+  const handleDrop = async (target: TreeNode) => {
+    if (!dragged || !user) return;
+
+    const { node, listKey } = dragged;
+    setDragged(null);
+    setDropKey(null);
+
+    try {
+      await moveTreeNode(supabase, node, target.id, user.id);
+      setError(null);
+      setSuccess(`Moved ${node.name} to ${target.name}`);
+      setSelectedPath([]);
+      await refreshLists([listKey, nodeKey(target)]);
+    } catch (err) {
+      console.error(`Error moving ${toNoun(LEVEL_ENTITIES[node.level].singular)}:`, err);
+      setError(err instanceof Error ? err.message : `Failed to move ${node.name}. Please try again.`);
+    }
+  };
+
+  const renderNode = (node: TreeNode, listKey: string, path: TreeNode[], depth: number): React.ReactNode => {
+    const key = nodeKey(node);
+    const nodePath = [...path, node];
+    const Icon = LEVEL_ENTITIES[node.level].icon;
+    const level = childLevel(node.level);
+    const childDefinition = level ? LEVEL_ENTITIES[level] : null;
+    const isExpanded = expanded[key];
+    const isSelected = selectedPath[selectedPath.length - 1] === node;
+    const isDraggable = canWrite && MOVABLE_LEVELS.includes(node.level);
+
+    return (
+      <div key={key}>
+        <div
+          className={`group flex items-center gap-2 py-1.5 pr-2 rounded-md cursor-pointer ${
+            dropKey === key
+              ? 'ring-2 ring-blue-400 bg-blue-50'
+              : isSelected ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'
+          }`}
+          style={{ paddingLeft: depth * 20 + 8 }}
+          onClick={() => setSelectedPath(nodePath)}
+          draggable={isDraggable}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            setDragged({ node, listKey });
+          }}
+          onDragEnd={() => {
+            setDragged(null);
+            setDropKey(null);
+          }}
+          onDragOver={(e) => {
+            if (!canDropOn(node)) return;
+            e.preventDefault();
+            setDropKey(key);
+          }}
+          onDragLeave={() => setDropKey(prev => (prev === key ? null : prev))}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop(node);
+          }}
+        >
+          {childDefinition ? (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleToggle(node);
+              }}
+              className="text-gray-500 hover:text-gray-900"
+            >
+              {loadingKeys[key] ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : isExpanded ? (
+                <ChevronDown className="w-4 h-4" />
+              ) : (
+                <ChevronRight className="w-4 h-4" />
+              )}
+            </button>
+          ) : (
+            <span className="w-4" />
+          )}
+          <Icon className="w-4 h-4 text-blue-500" />
+          <span className="font-medium">{node.name}</span>
+          {node.level === 'machine' && (
+            <span className="text-xs text-gray-500">#{String(node.row.order)}</span>
+          )}
+          {childDefinition && (
+            <span
+              className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600"
+              title={`${node.childCount} ${toNoun(node.childCount === 1 ? childDefinition.singular : childDefinition.plural)}`}
+            >
+              {node.childCount}
+            </span>
+          )}
+          {canWrite && (
+            <div className="ml-auto flex items-center gap-1 opacity-0 group-hover:opacity-100">
+              {childDefinition && (
+                <IconButton
+                  size="small"
+                  title={`Add ${childDefinition.singular}`}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleAdd(node);
+                  }}
+                >
+                  <Plus className="w-4 h-4" />
+                </IconButton>
+              )}
+              <IconButton
+                size="small"
+                title={`Edit ${LEVEL_ENTITIES[node.level].singular}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleEdit(node, listKey);
+                }}
+              >
+                <Edit2 className="w-4 h-4" />
+              </IconButton>
+            </div>
+          )}
+        </div>
+
+        {childDefinition && isExpanded && children[key] && (
+          children[key].length === 0 ? (
+            <p className="py-1 text-sm text-gray-500" style={{ paddingLeft: (depth + 1) * 20 + 32 }}>
+              No {toNoun(childDefinition.plural)}
+            </p>
+          ) : (
+            children[key].map(child => renderNode(child, key, nodePath, depth + 1))
+          )
+        )}
+      </div>
+    );
+  };
+
+  const roots = children[ROOT_KEY];
+  const selected = selectedPath[selectedPath.length - 1];
+
+  if (!roots && loadingKeys[ROOT_KEY] !== false) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <FolderTree className="w-6 h-6 text-blue-500" />
+            Plant Explorer
+          </h1>
+          <p className="text-gray-600 text-sm">
+            Countries, cities, districts, production lines and machines
+            {canWrite && '. Drag a line onto a district, or a machine onto a line, to move it.'}
+          </p>
+        </div>
+        {canWrite && (
+          <Button
+            variant="contained"
+            color="primary"
+            startIcon={<Plus />}
+            onClick={() => handleAdd(null)}
+          >
+            Add Country
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+          <AlertCircle className="w-5 h-5" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-4 bg-green-50 text-green-700 rounded-md flex items-center gap-2">
+          <CheckCircle className="w-5 h-5" />
+          {success}
+        </div>
+      )}
+
+      <Paper className="overflow-hidden">
+        <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-gray-200 min-h-[3.5rem]">
+          {selected ? (
+            <>
+              <ScopeBreadcrumb
+                path={selectedPath}
+                onSelect={(step) => setSelectedPath(selectedPath.slice(0, selectedPath.indexOf(step as TreeNode) + 1))}
+              />
+              <Button
+                size="small"
+                startIcon={<LayoutDashboard className="w-4 h-4" />}
+                onClick={() => navigate(`/?scope=${formatScope(selected)}`)}
+              >
+                View on Dashboard
+              </Button>
+            </>
+          ) : (
+            <span className="text-sm text-gray-500">Select a node to use it as the Dashboard scope</span>
+          )}
+        </div>
+        <div className="p-2">
+          {!roots || roots.length === 0 ? (
+            <p className="p-4 text-center text-gray-500">No countries available</p>
+          ) : (
+            roots.map(node => renderNode(node, ROOT_KEY, [], 0))
+          )}
+        </div>
+      </Paper>
+
+      {canWrite && (
+        <EntityFormDialog
+          definition={dialog.definition}
+          open={dialog.open}
+          editing={dialog.editing}
+          defaults={dialog.defaults}
+          onClose={() => setDialog(prev => ({ ...prev, open: false }))}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useSessionContext, useSupabaseClient } from '@supabase/auth-helpers-react';
+import { Database } from '../types/database';
+import { authLinkType } from '../lib/supabase';
+import { AlertCircle, Key, Loader2, Lock } from 'lucide-react';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const inputClassName =
+  'appearance-none block w-full pl-10 px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-gray-900 bg-white';
+
+// Where invite and password reset emails lead. The link signs the user in
+// from the URL fragment; the password they choose here is saved on that
+// session with updateUser.
+export function SetPassword() {
+  const supabase = useSupabaseClient<Database>();
+  const { session, isLoading } = useSessionContext();
+  const navigate = useNavigate();
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const invited = authLinkType === 'invite';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Use at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirmation) {
+      setError('The passwords do not match');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+      navigate('/', { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to set your password. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col justify-center p-8 sm:px-6 lg:px-8 bg-gray-50">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="flex justify-center">
+          <Lock className="h-12 w-12 text-blue-600" />
+        </div>
+        <h2 className="mt-6 text-center text-2xl font-bold text-gray-900">
+          {invited ? 'Choose a password' : 'Reset your password'}
+        </h2>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow-lg sm:rounded-lg sm:px-10">
+          {!session ? (
+            <div className="space-y-4 text-sm text-gray-700">
+              <p>This link is invalid or has expired. Ask an administrator to send you a new one.</p>
+              <Link to="/login" className="font-medium text-blue-600 hover:text-blue-500">
+                Back to sign in
+              </Link>
+            </div>
+          ) : (
+            <form className="space-y-6" onSubmit={handleSubmit}>
+              <p className="text-sm text-gray-600">
+                Signing in as <span className="font-medium">{session.user.email}</span>
+              </p>
+
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  New password
+                </label>
+                <div className="mt-1 relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Key className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    id="password"
+                    name="password"
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className={inputClassName}
+                    placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="confirmation" className="block text-sm font-medium text-gray-700">
+                  Confirm password
+                </label>
+                <div className="mt-1 relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Key className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    id="confirmation"
+                    name="confirmation"
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    value={confirmation}
+                    onChange={(e) => setConfirmation(e.target.value)}
+                    className={inputClassName}
+                    placeholder="Enter the password again"
+                  />
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={saving}
+                className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {saving ? 'Saving...' : 'Set password and continue'}
+              </button>
+            </form>
+          )}
+
+          {error && (
+            <div className="mt-4 rounded-md bg-red-50 p-4">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <AlertCircle className="h-5 w-5 text-red-400" />
+                </div>
+                <div className="ml-3">
+                  <h3 className="text-sm font-medium text-red-800">{error}</h3>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,4 @@
-import React, { useState, useEffect } from 'react';
-import { useSupabaseClient } from '@supabase/auth-helpers-react';
+import { useState, useEffect } from 'react';
 import { 
   Settings as SettingsIcon, 
   Users, 
@@ -9,51 +8,74 @@ import {
   AlertCircle,
   CheckCircle,
   Moon,
-  Sun
+  Sun,
+  Save
 } from 'lucide-react';
-import { useTheme } from '../lib/theme';
+import { usePermissions } from '../lib/auth';
+import { Preferences, ROWS_PER_PAGE_OPTIONS, usePreferences } from '../lib/preferences';
+import { UserManagement } from '../components/users/UserManagement';
+import { AlertRules } from '../components/alerts/AlertRules';
 
 export function Settings() {
-  const supabase = useSupabaseClient();
-  const { theme, toggleTheme } = useTheme();
+  const { can } = usePermissions();
+  const { preferences, updatePreferences } = usePreferences();
   const [activeTab, setActiveTab] = useState('general');
-  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
-  const [settings, setSettings] = useState({
-    emailNotifications: true,
-    realtimeAlerts: true,
-    defaultDateRange: 'last7days'
-  });
+  // Edited here and applied everywhere on Save
+  const [settings, setSettings] = useState<Preferences>(preferences);
 
-  const handleSettingChange = (setting: string, value: any) => {
+  // Changes made elsewhere, such as the theme toggle in the header
+  useEffect(() => {
+    setSettings(preferences);
+  }, [preferences]);
+
+  const handleSettingChange = <K extends keyof Preferences>(setting: K, value: Preferences[K]) => {
     setSettings(prev => ({
       ...prev,
       [setting]: value
     }));
   };
 
-  const handleOpenSupabaseAuth = () => {
-    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-    window.open(`${supabaseUrl}/dashboard/auth/users`, '_blank');
-  };
+  const changed = (Object.keys(settings) as (keyof Preferences)[])
+    .some(key => settings[key] !== preferences[key]);
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
-      </div>
-    );
-  }
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await updatePreferences(settings);
+      setSuccess('Settings saved');
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      console.error('Error saving settings:', err);
+      setError('Your settings apply in this browser but could not be saved to your account. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
 
   return (
     <div className="p-6">
-      <div className="mb-6">
-        <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
-          <SettingsIcon className="h-6 w-6" />
-          Settings
-        </h1>
-        <p className="text-gray-600">Manage system settings and preferences</p>
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <SettingsIcon className="h-6 w-6" />
+            Settings
+          </h1>
+          <p className="text-gray-600">Manage system settings and preferences</p>
+        </div>
+        {activeTab !== 'users' && (
+          <button
+            onClick={handleSave}
+            disabled={!changed || saving}
+            className="inline-flex items-center gap-2 px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Settings
+          </button>
+        )}
       </div>
 
       {error && (
@@ -95,17 +117,19 @@ export function Settings() {
               <Bell className="h-4 w-4" />
               Notifications
             </button>
-            <button
-              onClick={() => setActiveTab('users')}
-              className={`py-4 px-6 inline-flex items-center gap-2 border-b-2 font-medium text-sm ${
-                activeTab === 'users'
-                  ? 'border-blue-500 text-blue-600'
-                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-              }`}
-            >
-              <Users className="h-4 w-4" />
-              Users
-            </button>
+            {can('users:manage') && (
+              <button
+                onClick={() => setActiveTab('users')}
+                className={`py-4 px-6 inline-flex items-center gap-2 border-b-2 font-medium text-sm ${
+                  activeTab === 'users'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <Users className="h-4 w-4" />
+                Users
+              </button>
+            )}
           </nav>
         </div>
 
@@ -116,10 +140,10 @@ export function Settings() {
                 <h3 className="text-lg font-medium text-gray-900">Theme Settings</h3>
                 <div className="mt-4">
                   <button
-                    onClick={toggleTheme}
+                    onClick={() => handleSettingChange('theme', settings.theme === 'dark' ? 'light' : 'dark')}
                     className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-50"
                   >
-                    {theme === 'dark' ? (
+                    {settings.theme === 'dark' ? (
                       <>
                         <Sun className="w-5 h-5" />
                         <span>Switch to Light Mode</span>
@@ -136,19 +160,50 @@ export function Settings() {
 
               <div>
                 <h3 className="text-lg font-medium text-gray-900">Data Display</h3>
-                <div className="mt-4">
-                  <label className="block text-sm font-medium text-gray-700">Default Date Range</label>
-                  <select
-                    value={settings.defaultDateRange}
-                    onChange={(e) => handleSettingChange('defaultDateRange', e.target.value)}
-                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
-                  >
-                    <option value="last7days">Last 7 days</option>
-                    <option value="last30days">Last 30 days</option>
-                    <option value="last3months">Last 3 months</option>
-                    <option value="last6months">Last 6 months</option>
-                    <option value="lastyear">Last year</option>
-                  </select>
+                <div className="mt-4 space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Default Date Range</label>
+                    <select
+                      value={settings.defaultDateRange}
+                      onChange={(e) => handleSettingChange('defaultDateRange', e.target.value)}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                    >
+                      <option value="last7days">Last 7 days</option>
+                      <option value="last30days">Last 30 days</option>
+                      <option value="last3months">Last 3 months</option>
+                      <option value="last6months">Last 6 months</option>
+                      <option value="lastyear">Last year</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Rows per Page</label>
+                    <select
+                      value={settings.rowsPerPage}
+                      onChange={(e) => handleSettingChange('rowsPerPage', parseInt(e.target.value, 10))}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                    >
+                      {ROWS_PER_PAGE_OPTIONS.map(option => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-sm text-gray-500">
+                      Number of rows shown in data grids
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Energy Unit</label>
+                    <select
+                      value={settings.energyUnit}
+                      onChange={(e) => handleSettingChange('energyUnit', e.target.value as Preferences['energyUnit'])}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                    >
+                      <option value="kWh">Kilowatt-hours (kWh)</option>
+                      <option value="MWh">Megawatt-hours (MWh)</option>
+                    </select>
+                    <p className="mt-1 text-sm text-gray-500">
+                      Unit for electricity usage on the Dashboard
+                    </p>
+                  </div>
                 </div>
               </div>
             </div>
@@ -170,7 +225,23 @@ export function Settings() {
                       <span className="ml-2 text-gray-700">Enable email notifications</span>
                     </label>
                     <p className="mt-1 text-sm text-gray-500 ml-6">
-                      Receive email notifications for important system events and alerts
+                      Receive an email when a factory raises a warning or alarm
+                    </p>
+                  </div>
+                  <div className="ml-6">
+                    <label className="block text-sm font-medium text-gray-700">Email Digest</label>
+                    <select
+                      value={settings.emailDigest}
+                      onChange={(e) => handleSettingChange('emailDigest', e.target.value as Preferences['emailDigest'])}
+                      disabled={!settings.emailNotifications}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50 disabled:opacity-50"
+                    >
+                      <option value="off">Off</option>
+                      <option value="daily">Daily</option>
+                      <option value="weekly">Weekly (Mondays)</option>
+                    </select>
+                    <p className="mt-1 text-sm text-gray-500">
+                      A summary of consumption, alarms and OEE for your factories, compared with the period before
                     </p>
                   </div>
                   <div>
@@ -190,79 +261,11 @@ export function Settings() {
                 </div>
               </div>
 
-              <div>
-                <h3 className="text-lg font-medium text-gray-900">Alert Thresholds</h3>
-                <div className="mt-4 space-y-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">Energy Usage Warning Level (%)</label>
-                    <input
-                      type="number"
-                      min="0"
-                      max="100"
-                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
-                      placeholder="e.g., 80"
-                    />
-                    <p className="mt-1 text-sm text-gray-500">
-                      Receive alerts when energy usage exceeds this percentage of the baseline
-                    </p>
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">Critical Alert Threshold (%)</label>
-                    <input
-                      type="number"
-                      min="0"
-                      max="100"
-                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
-                      placeholder="e.g., 95"
-                    />
-                    <p className="mt-1 text-sm text-gray-500">
-                      Receive critical alerts when energy usage exceeds this percentage of the baseline
-                    </p>
-                  </div>
-                </div>
-              </div>
+              {can('settings:manage') && <AlertRules />}
             </div>
           )}
 
-          {activeTab === 'users' && (
-            <div>
-              <div className="flex items-center justify-between mb-6">
-                <div>
-                  <h3 className="text-lg font-medium text-gray-900">User Management</h3>
-                  <p className="text-gray-600 mt-1">
-                    User management is handled through the Supabase Dashboard.
-                    Click the button below to manage users and their permissions.
-                  </p>
-                </div>
-                <button
-                  onClick={handleOpenSupabaseAuth}
-                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                >
-                  Open Supabase Dashboard
-                </button>
-              </div>
-
-              <div className="bg-blue-50 rounded-lg p-4">
-                <div className="flex">
-                  <div className="flex-shrink-0">
-                    <AlertCircle className="h-5 w-5 text-blue-400" aria-hidden="true" />
-                  </div>
-                  <div className="ml-3">
-                    <h3 className="text-sm font-medium text-blue-800">Authentication Features</h3>
-                    <div className="mt-2 text-sm text-blue-700">
-                      <ul className="list-disc pl-5 space-y-1">
-                        <li>User registration and login</li>
-                        <li>Password reset functionality</li>
-                        <li>Email verification</li>
-                        <li>User role management</li>
-                        <li>Access control and permissions</li>
-                      </ul>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            </div>
-          )}
+          {activeTab === 'users' && can('users:manage') && <UserManagement />}
         </div>
       </div>
     </div>
@@ -0,0 +1,526 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSupabaseClient, useUser } from '@supabase/auth-helpers-react';
+import { Database } from '../types/database';
+import {
+  Leaf, Plus, Loader2, AlertCircle,
+  CheckCircle, X, Edit2, TrendingDown,
+  TrendingUp, AlertTriangle, HelpCircle
+} from 'lucide-react';
+import {
+  Table, TableBody, TableCell, TableHead,
+  TableRow, Paper, Button, Dialog,
+  DialogTitle, DialogContent, DialogActions,
+  TextField, FormControl, InputLabel,
+  Select, MenuItem, LinearProgress
+} from '@mui/material';
+import { Company, SustainabilityGoal, UtilityType } from '../types';
+import { UTILITY_TYPES, utilityLabel, utilityUnit } from '../lib/energy';
+import { GoalProgress, GoalStatus, fetchGoalProgress } from '../lib/sustainability';
+import { usePermissions } from '../lib/auth';
+import { ExportMenu } from '../components/ExportMenu';
+import { staleRecordMessage, unchangedSince } from '../lib/concurrency';
+
+type Factory = Pick<Company, 'id' | 'name'>;
+
+type GoalRow = SustainabilityGoal & {
+  factory: { name: string } | null;
+  progress?: GoalProgress;
+};
+
+interface ValidationErrors {
+  factory?: string;
+  target_consumption?: string;
+  target_date?: string;
+}
+
+const emptyForm = () => ({
+  factory_id: '',
+  utility_type: 'electricity' as UtilityType,
+  target_consumption: '',
+  target_date: '',
+});
+
+const STATUS_LABELS: Record<GoalStatus, string> = {
+  achieved: 'Achieved',
+  on_track: 'On track',
+  off_track: 'Off track',
+  insufficient_data: 'Not enough data',
+};
+
+const formatAmount = (value: number | null | undefined, utilityType: UtilityType) =>
+  value === null || value === undefined
+    ? '-'
+    : `${value.toLocaleString(undefined, { maximumFractionDigits: 1 })} ${utilityUnit(utilityType)}/day`;
+
+export function Sustainability() {
+  const supabase = useSupabaseClient<Database>();
+  const user = useUser();
+  const { can, companyIds } = usePermissions();
+  const canWrite = can('data:write');
+  const [goals, setGoals] = useState<GoalRow[]>([]);
+  const [factories, setFactories] = useState<Factory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<ValidationErrors>({});
+  const [success, setSuccess] = useState<string | null>(null);
+  const [openDialog, setOpenDialog] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<SustainabilityGoal | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [statusFilter, setStatusFilter] = useState<GoalStatus | 'all'>('all');
+
+  // Fetch factories
+  useEffect(() => {
+    const fetchFactories = async () => {
+      let query = supabase
+        .from('company')
+        .select('id, name')
+        .is('archived_at', null)
+        .order('name');
+
+      if (companyIds) {
+        query = query.in('id', companyIds);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching factories:', error);
+        return;
+      }
+
+      setFactories(data || []);
+    };
+
+    fetchFactories();
+  }, [supabase, companyIds]);
+
+  const fetchGoals = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      let query = supabase
+        .from('sustainability_goal')
+        .select('*, factory:factory_id(name)')
+        .order('target_date');
+
+      if (companyIds) {
+        query = query.in('factory_id', companyIds);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      const rows = (data || []) as GoalRow[];
+      const progress = await Promise.all(rows.map(goal => fetchGoalProgress(supabase, goal)));
+
+      setGoals(rows.map((goal, index) => ({ ...goal, progress: progress[index] })));
+    } catch (err) {
+      console.error('Error fetching sustainability goals:', err);
+      setError('Failed to fetch sustainability goals');
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase, companyIds]);
+
+  useEffect(() => {
+    fetchGoals();
+  }, [fetchGoals]);
+
+  const handleFieldChange = (field: keyof ReturnType<typeof emptyForm>, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setValidationErrors(prev => ({
+      ...prev,
+      [field === 'factory_id' ? 'factory' : field]: undefined,
+    }));
+  };
+
+  const validateForm = (): ValidationErrors => {
+    const errors: ValidationErrors = {};
+    const target = Number(formData.target_consumption);
+
+    if (!formData.factory_id) {
+      errors.factory = 'Please select a factory';
+    }
+
+    if (formData.target_consumption === '' || Number.isNaN(target)) {
+      errors.target_consumption = 'Target consumption is required';
+    } else if (target < 0) {
+      errors.target_consumption = 'Target consumption cannot be negative';
+    }
+
+    if (!formData.target_date) {
+      errors.target_date = 'Target date is required';
+    } else if (!editingGoal && formData.target_date <= new Date().toLocaleDateString('en-CA')) {
+      errors.target_date = 'Target date must be in the future';
+    }
+
+    return errors;
+  };
+
+  const handleSubmit = async () => {
+    try {
+      if (!user) {
+        setError('You must be logged in to perform this action');
+        return;
+      }
+
+      const errors = validateForm();
+      setValidationErrors(errors);
+      if (Object.keys(errors).length > 0) {
+        return;
+      }
+
+      const values = {
+        factory_id: formData.factory_id,
+        utility_type: formData.utility_type,
+        target_consumption: Number(formData.target_consumption),
+        target_date: formData.target_date,
+      };
+
+      if (editingGoal) {
+        const { data: saved, error: updateError } = await unchangedSince(
+          supabase
+            .from('sustainability_goal')
+            .update({
+              ...values,
+              updated_by: user.id,
+            })
+            .eq('id', editingGoal.id),
+          editingGoal.updated_at
+        ).select('id');
+
+        if (updateError) throw updateError;
+        if (saved.length === 0) {
+          setError(staleRecordMessage('goal'));
+        } else {
+          setSuccess('Goal updated successfully');
+        }
+      } else {
+        const { error: insertError } = await supabase
+          .from('sustainability_goal')
+          .insert([{
+            ...values,
+            created_by: user.id
+          }]);
+
+        if (insertError) throw insertError;
+        setSuccess('Goal added successfully');
+      }
+
+      handleCloseDialog();
+      fetchGoals();
+    } catch (err) {
+      console.error('Error saving sustainability goal:', err);
+      setError('Failed to save goal. Please try again.');
+    }
+  };
+
+  const handleEdit = (goal: SustainabilityGoal) => {
+    setEditingGoal(goal);
+    setFormData({
+      factory_id: goal.factory_id,
+      utility_type: goal.utility_type,
+      target_consumption: String(goal.target_consumption),
+      target_date: goal.target_date.slice(0, 10),
+    });
+    setOpenDialog(true);
+    setError(null);
+    setValidationErrors({});
+  };
+
+  const handleCloseDialog = () => {
+    setOpenDialog(false);
+    setEditingGoal(null);
+    setFormData(emptyForm());
+    setError(null);
+    setValidationErrors({});
+  };
+
+  const getStatusIcon = (status: GoalStatus) => {
+    switch (status) {
+      case 'achieved':
+        return <CheckCircle className="w-5 h-5 text-success" />;
+      case 'on_track':
+        return <TrendingDown className="w-5 h-5 text-success" />;
+      case 'off_track':
+        return <AlertTriangle className="w-5 h-5 text-danger" />;
+      default:
+        return <HelpCircle className="w-5 h-5 text-secondary" />;
+    }
+  };
+
+  const getStatusColor = (status: GoalStatus) => {
+    switch (status) {
+      case 'achieved':
+      case 'on_track':
+        return 'text-success';
+      case 'off_track':
+        return 'text-danger';
+      default:
+        return 'text-secondary';
+    }
+  };
+
+  const filteredGoals = goals.filter(goal =>
+    statusFilter === 'all' || goal.progress?.status === statusFilter
+  );
+  const offTrackCount = goals.filter(goal => goal.progress?.status === 'off_track').length;
+
+  const handleExport = () => ({
+    title: 'Sustainability Goals',
+    columns: ['Factory', 'Utility', 'Target', 'Target Date', 'Current', 'Projected', 'Progress', 'Status'],
+    rows: filteredGoals.map(goal => {
+      const progress = goal.progress;
+      return [
+        goal.factory?.name || null,
+        utilityLabel(goal.utility_type),
+        formatAmount(Number(goal.target_consumption), goal.utility_type),
+        new Date(goal.target_date).toLocaleDateString(),
+        formatAmount(progress?.current, goal.utility_type),
+        formatAmount(progress?.projected, goal.utility_type),
+        progress?.progress !== null && progress?.progress !== undefined ? `${Math.round(progress.progress)}%` : null,
+        STATUS_LABELS[progress?.status || 'insufficient_data'],
+      ];
+    }),
+  });
+
+  if (loading && goals.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Leaf className="w-6 h-6 text-green-500" />
+            Sustainability Goals
+          </h1>
+          <p className="text-secondary text-sm">
+            Targets are daily consumption levels; projections follow the trend of the last 30 days
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel>Status</InputLabel>
+            <Select
+              value={statusFilter}
+              label="Status"
+              onChange={(e) => setStatusFilter(e.target.value as GoalStatus | 'all')}
+            >
+              <MenuItem value="all">All Goals</MenuItem>
+              {(Object.keys(STATUS_LABELS) as GoalStatus[]).map((status) => (
+                <MenuItem key={status} value={status}>
+                  {STATUS_LABELS[status]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <ExportMenu load={handleExport} onError={setError} disabled={filteredGoals.length === 0} />
+          {canWrite && (
+            <Button
+              variant="contained"
+              color="primary"
+              startIcon={<Plus />}
+              onClick={() => setOpenDialog(true)}
+            >
+              Add Goal
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+          <AlertCircle className="w-5 h-5" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-4 bg-green-50 text-green-700 rounded-md flex items-center gap-2">
+          <CheckCircle className="w-5 h-5" />
+          {success}
+        </div>
+      )}
+
+      {offTrackCount > 0 && (
+        <div className="mb-4 p-4 bg-yellow-50 text-yellow-800 rounded-md flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5" />
+          {offTrackCount} goal{offTrackCount === 1 ? ' is' : 's are'} off track at the current consumption trend
+        </div>
+      )}
+
+      <Paper className="overflow-hidden">
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Factory</TableCell>
+              <TableCell>Utility</TableCell>
+              <TableCell>Target</TableCell>
+              <TableCell>Target Date</TableCell>
+              <TableCell>Current</TableCell>
+              <TableCell>Projected</TableCell>
+              <TableCell>Progress</TableCell>
+              <TableCell>Status</TableCell>
+              {canWrite && <TableCell>Actions</TableCell>}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {filteredGoals.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={canWrite ? 9 : 8} align="center">
+                  {statusFilter !== 'all' ? 'No goals match the selected status' : 'No goals available'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              filteredGoals.map((goal) => {
+                const progress = goal.progress;
+                const status = progress?.status || 'insufficient_data';
+                return (
+                  <TableRow key={goal.id}>
+                    <TableCell>{goal.factory?.name}</TableCell>
+                    <TableCell>{utilityLabel(goal.utility_type)}</TableCell>
+                    <TableCell>{formatAmount(Number(goal.target_consumption), goal.utility_type)}</TableCell>
+                    <TableCell>{new Date(goal.target_date).toLocaleDateString()}</TableCell>
+                    <TableCell>{formatAmount(progress?.current, goal.utility_type)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        {progress?.projected !== null && progress?.projected !== undefined && (
+                          progress.projected <= Number(goal.target_consumption)
+                            ? <TrendingDown className="w-4 h-4 text-success" />
+                            : <TrendingUp className="w-4 h-4 text-danger" />
+                        )}
+                        {formatAmount(progress?.projected, goal.utility_type)}
+                      </div>
+                    </TableCell>
+                    <TableCell sx={{ minWidth: 140 }}>
+                      {progress?.progress !== null && progress?.progress !== undefined ? (
+                        <div className="flex items-center gap-2">
+                          <LinearProgress
+                            variant="determinate"
+                            value={progress.progress}
+                            color={status === 'off_track' ? 'error' : 'success'}
+                            sx={{ flexGrow: 1 }}
+                          />
+                          <span className="text-sm">{Math.round(progress.progress)}%</span>
+                        </div>
+                      ) : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {getStatusIcon(status)}
+                        <span className={`font-medium ${getStatusColor(status)}`}>
+                          {STATUS_LABELS[status]}
+                        </span>
+                      </div>
+                    </TableCell>
+                    {canWrite && (
+                      <TableCell>
+                        <Button
+                          size="small"
+                          startIcon={<Edit2 className="w-4 h-4" />}
+                          onClick={() => handleEdit(goal)}
+                        >
+                          Edit
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </Paper>
+
+      <Dialog
+        open={openDialog}
+        onClose={handleCloseDialog}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>
+          {editingGoal ? 'Edit Goal' : 'Add New Goal'}
+        </DialogTitle>
+        <DialogContent>
+          <div className="space-y-4 pt-4">
+            <FormControl fullWidth error={!!validationErrors.factory}>
+              <InputLabel>Factory</InputLabel>
+              <Select
+                value={formData.factory_id}
+                label="Factory"
+                onChange={(e) => handleFieldChange('factory_id', e.target.value)}
+              >
+                {factories.map((factory) => (
+                  <MenuItem key={factory.id} value={factory.id}>
+                    {factory.name}
+                  </MenuItem>
+                ))}
+              </Select>
+              {validationErrors.factory && (
+                <div className="text-red-500 text-sm mt-1">{validationErrors.factory}</div>
+              )}
+            </FormControl>
+            <FormControl fullWidth>
+              <InputLabel>Utility</InputLabel>
+              <Select
+                value={formData.utility_type}
+                label="Utility"
+                onChange={(e) => handleFieldChange('utility_type', e.target.value)}
+              >
+                {UTILITY_TYPES.map((utility) => (
+                  <MenuItem key={utility.value} value={utility.value}>
+                    {utility.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              fullWidth
+              type="number"
+              label={`Target Consumption (${utilityUnit(formData.utility_type)} per day)`}
+              value={formData.target_consumption}
+              onChange={(e) => handleFieldChange('target_consumption', e.target.value)}
+              inputProps={{ min: 0, step: 'any' }}
+              error={!!validationErrors.target_consumption}
+            />
+            {validationErrors.target_consumption && (
+              <div className="text-red-500 text-sm -mt-3">{validationErrors.target_consumption}</div>
+            )}
+            <TextField
+              fullWidth
+              type="date"
+              label="Target Date"
+              value={formData.target_date}
+              onChange={(e) => handleFieldChange('target_date', e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              error={!!validationErrors.target_date}
+            />
+            {validationErrors.target_date && (
+              <div className="text-red-500 text-sm -mt-3">{validationErrors.target_date}</div>
+            )}
+          </div>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog} startIcon={<X />}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            variant="contained"
+            color="primary"
+            startIcon={<Plus />}
+          >
+            {editingGoal ? 'Update' : 'Add'} Goal
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { Building2, Globe, Building, MapPin, Factory, Cog, Cpu, Gauge } from 'lucide-react';
+import { Building2, Globe, Building, MapPin, Factory, Cog, Cpu, Gauge, Zap, Receipt, FileSpreadsheet, ListOrdered } from 'lucide-react';
+import { usePermissions } from '../../lib/auth';
 
 export function DataEntry() {
+  const { can } = usePermissions();
   const menuItems = [
     { icon: Building2, label: 'Companies', path: '/data-entry/companies' },
     { icon: Globe, label: 'Countries', path: '/data-entry/countries' },
@@ -11,7 +13,13 @@ export function DataEntry() {
     { icon: Factory, label: 'Line Types', path: '/data-entry/line-types' },
     { icon: Cog, label: 'Lines', path: '/data-entry/lines' },
     { icon: Cpu, label: 'Machines', path: '/data-entry/machines' },
+    { icon: ListOrdered, label: 'Machine Sequence', path: '/data-entry/machine-sequence' },
     { icon: Gauge, label: 'KPIs', path: '/data-entry/kpis' },
+    { icon: Zap, label: 'Energy Consumption', path: '/data-entry/energy-consumption' },
+    { icon: Receipt, label: 'Utility Rates', path: '/data-entry/utility-rates' },
+    ...(can('data:write')
+      ? [{ icon: FileSpreadsheet, label: 'Bulk Import', path: '/data-entry/import' }]
+      : []),
   ];
 
   return (
@@ -0,0 +1,643 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSupabaseClient, useUser } from '@supabase/auth-helpers-react';
+import { Database } from '../../types/database';
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  Zap, Plus, Loader2, AlertCircle,
+  CheckCircle, X, Edit2, ArrowUpDown,
+  Search
+} from 'lucide-react';
+import {
+  Table, TableBody, TableCell, TableHead,
+  TableRow, Paper, Button, Dialog,
+  DialogTitle, DialogContent, DialogActions,
+  TextField, TablePagination, TableSortLabel,
+  InputAdornment, FormControl, InputLabel,
+  Select, MenuItem
+} from '@mui/material';
+import { Company, EnergyConsumption, Line, Machine, UtilityRate, UtilityType } from '../../types';
+import {
+  ReadingValidationErrors,
+  UTILITY_TYPES,
+  utilityLabel,
+  utilityUnit,
+  validateReading
+} from '../../lib/energy';
+import { computeCost, fetchRates } from '../../lib/tariffs';
+import { usePermissions } from '../../lib/auth';
+import { ExportMenu } from '../../components/ExportMenu';
+import { staleRecordMessage, unchangedSince } from '../../lib/concurrency';
+import { ROWS_PER_PAGE_OPTIONS } from '../../lib/preferences';
+import { useLiveGrid } from '../../components/entity-list/useLiveGrid';
+import { Order } from '../../components/entity-list/types';
+
+type Factory = Pick<Company, 'id' | 'name'>;
+type ScopeLine = Pick<Line, 'id' | 'name' | 'company_id'>;
+type ScopeMachine = Pick<Machine, 'id' | 'name' | 'line_id'>;
+
+type Reading = EnergyConsumption & {
+  factory?: { name: string };
+  line?: { name: string } | null;
+  machine?: { name: string } | null;
+};
+
+interface ReadingFilters {
+  term: string;
+  utilityFilter: UtilityType | 'all';
+  companyIds: string[] | null;
+  orderBy: string;
+  order: Order;
+}
+
+// The grid's search, filters and sort, without paging
+const readingsQuery = (supabase: SupabaseClient<Database>, filters: ReadingFilters, count?: 'exact') => {
+  let query = supabase
+    .from('energy_consumption')
+    .select('*, factory:factory_id!inner(name), line:line_id(name), machine:machine_id(name)', { count });
+
+  // Search by factory name
+  if (filters.term) {
+    query = query.ilike('factory.name', `%${filters.term}%`);
+  }
+
+  if (filters.utilityFilter !== 'all') {
+    query = query.eq('utility_type', filters.utilityFilter);
+  }
+
+  if (filters.companyIds) {
+    query = query.in('factory_id', filters.companyIds);
+  }
+
+  return query.order(filters.orderBy, { ascending: filters.order === 'asc' });
+};
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const emptyForm = () => ({
+  factory_id: '',
+  // '' when the reading is for the whole factory or line
+  line_id: '',
+  machine_id: '',
+  utility_type: 'electricity' as UtilityType,
+  consumption: '',
+  timestamp: toLocalInput(new Date().toISOString()),
+});
+
+// Readings keep their own form rather than an EntityDefinition: a reading
+// previews its price at the rate in force and is checked against its
+// neighbours, and
+// readings are never archived, audited or referenced by other rows, so
+// EntityFormDialog and DeleteEntityDialog don't apply. The grid behind it is
+// the same useLiveGrid every EntityList uses.
+export function EnergyConsumptionList() {
+  const supabase = useSupabaseClient<Database>();
+  const user = useUser();
+  const { can, companyIds } = usePermissions();
+  const canWrite = can('data:write');
+  const [factories, setFactories] = useState<Factory[]>([]);
+  const [lines, setLines] = useState<ScopeLine[]>([]);
+  const [machines, setMachines] = useState<ScopeMachine[]>([]);
+  const [rates, setRates] = useState<UtilityRate[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [validationErrors, setValidationErrors] = useState<ReadingValidationErrors>({});
+  const [openDialog, setOpenDialog] = useState(false);
+  const [editingReading, setEditingReading] = useState<EnergyConsumption | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [utilityFilter, setUtilityFilter] = useState<UtilityType | 'all'>('all');
+
+  const query = useCallback((term: string, orderBy: string, order: Order, count?: 'exact') =>
+    readingsQuery(supabase, { term, utilityFilter, companyIds, orderBy, order }, count),
+  [supabase, utilityFilter, companyIds]);
+
+  const {
+    rows: readings, loading, error, setError, success, setSuccess,
+    searchTerm, handleSearchChange, page, setPage, rowsPerPage, totalCount,
+    handleChangePage, handleChangeRowsPerPage, orderBy, order, handleSort,
+    refresh, fetchAll, highlightedIds,
+  } = useLiveGrid<Reading>({
+    table: 'energy_consumption',
+    noun: 'energy readings',
+    defaultSort: { field: 'timestamp', order: 'desc' },
+    query,
+  });
+
+  // Fetch factories
+  useEffect(() => {
+    const fetchFactories = async () => {
+      let query = supabase
+        .from('company')
+        .select('id, name')
+        .is('archived_at', null)
+        .order('name');
+
+      if (companyIds) {
+        query = query.in('id', companyIds);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching factories:', error);
+        return;
+      }
+
+      setFactories(data || []);
+    };
+
+    // Meters below the factory: lines and their machines
+    const fetchLinesAndMachines = async () => {
+      let lineQuery = supabase
+        .from('line')
+        .select('id, name, company_id')
+        .is('archived_at', null)
+        .order('name');
+
+      if (companyIds) {
+        lineQuery = lineQuery.in('company_id', companyIds);
+      }
+
+      const [{ data: lineData, error: lineError }, { data: machineData, error: machineError }] = await Promise.all([
+        lineQuery,
+        supabase.from('machine').select('id, name, line_id').is('archived_at', null).order('name'),
+      ]);
+
+      if (lineError || machineError) {
+        console.error('Error fetching lines and machines:', lineError || machineError);
+        return;
+      }
+
+      setLines(lineData || []);
+      setMachines(machineData || []);
+    };
+
+    const fetchUtilityRates = async () => {
+      try {
+        setRates(await fetchRates(supabase));
+      } catch (err) {
+        console.error('Error fetching utility rates:', err);
+      }
+    };
+
+    fetchFactories();
+    fetchLinesAndMachines();
+    fetchUtilityRates();
+  }, [supabase, companyIds]);
+
+  const handleExport = async () => {
+    const data = await fetchAll();
+
+    return {
+      title: 'Energy Consumption',
+      columns: ['Factory', 'Line', 'Machine', 'Utility', 'Reading Time', 'Consumption', 'Unit', 'Cost', 'Last Updated'],
+      rows: data.map(reading => [
+        reading.factory?.name || null,
+        reading.line?.name || null,
+        reading.machine?.name || null,
+        utilityLabel(reading.utility_type),
+        new Date(reading.timestamp).toLocaleString(),
+        Number(reading.consumption),
+        utilityUnit(reading.utility_type),
+        Number(Number(reading.cost).toFixed(2)),
+        reading.updated_at ? new Date(reading.updated_at).toLocaleDateString() : null,
+      ]),
+    };
+  };
+
+  const handleFieldChange = (field: keyof ReturnType<typeof emptyForm>, value: string) => {
+    // A line or machine only makes sense inside the factory and line above it
+    setFormData(prev => ({
+      ...prev,
+      [field]: value,
+      ...(field === 'factory_id' && { line_id: '', machine_id: '' }),
+      ...(field === 'line_id' && { machine_id: '' }),
+    }));
+    setValidationErrors(prev => ({
+      ...prev,
+      [field === 'factory_id' ? 'factory' : field]: undefined,
+    }));
+  };
+
+  const handleSubmit = async () => {
+    try {
+      if (!user) {
+        setError('You must be logged in to perform this action');
+        return;
+      }
+
+      setSaving(true);
+
+      const reading = {
+        factory_id: formData.factory_id,
+        line_id: formData.line_id || null,
+        machine_id: formData.machine_id || null,
+        utility_type: formData.utility_type,
+        consumption: formData.consumption === '' ? NaN : Number(formData.consumption),
+        timestamp: formData.timestamp ? new Date(formData.timestamp).toISOString() : '',
+      };
+
+      const errors = await validateReading(supabase, reading, editingReading?.id);
+      setValidationErrors(errors);
+      if (Object.keys(errors).length > 0) {
+        return;
+      }
+
+      if (editingReading) {
+        const { data: saved, error: updateError } = await unchangedSince(
+          supabase
+            .from('energy_consumption')
+            .update({
+              ...reading,
+              updated_by: user.id,
+            })
+            .eq('id', editingReading.id),
+          editingReading.updated_at
+        ).select('id');
+
+        if (updateError) throw updateError;
+        if (saved.length === 0) {
+          setError(staleRecordMessage('reading'));
+        } else {
+          setSuccess('Reading updated successfully');
+        }
+      } else {
+        const { error: insertError } = await supabase
+          .from('energy_consumption')
+          .insert([{
+            ...reading,
+            created_by: user.id
+          }]);
+
+        if (insertError) throw insertError;
+        setSuccess('Reading added successfully');
+      }
+
+      handleCloseDialog();
+      refresh();
+    } catch (err) {
+      console.error('Error saving energy reading:', err);
+      setError('Failed to save reading. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (reading: EnergyConsumption) => {
+    setEditingReading(reading);
+    setFormData({
+      factory_id: reading.factory_id,
+      line_id: reading.line_id || '',
+      machine_id: reading.machine_id || '',
+      utility_type: reading.utility_type,
+      consumption: String(reading.consumption),
+      timestamp: toLocalInput(reading.timestamp),
+    });
+    setOpenDialog(true);
+    setError(null);
+    setValidationErrors({});
+  };
+
+  const handleCloseDialog = () => {
+    setOpenDialog(false);
+    setEditingReading(null);
+    setFormData(emptyForm());
+    setError(null);
+    setValidationErrors({});
+  };
+
+  // Only a preview: the database prices the reading when it is saved
+  const costPreview = formData.consumption !== '' && formData.timestamp
+    ? computeCost(rates, {
+      utility_type: formData.utility_type,
+      consumption: Number(formData.consumption),
+      timestamp: new Date(formData.timestamp).toISOString(),
+    })
+    : null;
+
+  if (loading && page === 0 && !searchTerm) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Zap className="w-6 h-6 text-blue-500" />
+          Energy Consumption
+        </h1>
+        <div className="flex items-center gap-4">
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel>Utility</InputLabel>
+            <Select
+              value={utilityFilter}
+              label="Utility"
+              onChange={(e) => {
+                setUtilityFilter(e.target.value as UtilityType | 'all');
+                setPage(0);
+              }}
+            >
+              <MenuItem value="all">All Utilities</MenuItem>
+              {UTILITY_TYPES.map((utility) => (
+                <MenuItem key={utility.value} value={utility.value}>
+                  {utility.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            placeholder="Search factories..."
+            value={searchTerm}
+            onChange={handleSearchChange}
+            size="small"
+            sx={{ width: '300px' }}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <Search className="w-5 h-5 text-gray-500" />
+                </InputAdornment>
+              ),
+            }}
+          />
+          <ExportMenu load={handleExport} onError={setError} disabled={totalCount === 0} />
+          {canWrite && (
+            <Button
+              variant="contained"
+              color="primary"
+              startIcon={<Plus />}
+              onClick={() => setOpenDialog(true)}
+            >
+              Add Reading
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+          <AlertCircle className="w-5 h-5" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-4 bg-green-50 text-green-700 rounded-md flex items-center gap-2">
+          <CheckCircle className="w-5 h-5" />
+          {success}
+        </div>
+      )}
+
+      <Paper className="overflow-hidden">
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Factory</TableCell>
+              <TableCell>
+                <TableSortLabel
+                  active={orderBy === 'utility_type'}
+                  direction={orderBy === 'utility_type' ? order : 'asc'}
+                  onClick={() => handleSort('utility_type')}
+                  IconComponent={ArrowUpDown}
+                >
+                  Utility
+                </TableSortLabel>
+              </TableCell>
+              <TableCell>
+                <TableSortLabel
+                  active={orderBy === 'timestamp'}
+                  direction={orderBy === 'timestamp' ? order : 'asc'}
+                  onClick={() => handleSort('timestamp')}
+                  IconComponent={ArrowUpDown}
+                >
+                  Reading Time
+                </TableSortLabel>
+              </TableCell>
+              <TableCell>
+                <TableSortLabel
+                  active={orderBy === 'consumption'}
+                  direction={orderBy === 'consumption' ? order : 'asc'}
+                  onClick={() => handleSort('consumption')}
+                  IconComponent={ArrowUpDown}
+                >
+                  Consumption
+                </TableSortLabel>
+              </TableCell>
+              <TableCell>
+                <TableSortLabel
+                  active={orderBy === 'cost'}
+                  direction={orderBy === 'cost' ? order : 'asc'}
+                  onClick={() => handleSort('cost')}
+                  IconComponent={ArrowUpDown}
+                >
+                  Cost
+                </TableSortLabel>
+              </TableCell>
+              <TableCell>
+                <TableSortLabel
+                  active={orderBy === 'updated_at'}
+                  direction={orderBy === 'updated_at' ? order : 'asc'}
+                  onClick={() => handleSort('updated_at')}
+                  IconComponent={ArrowUpDown}
+                >
+                  Last Updated
+                </TableSortLabel>
+              </TableCell>
+              {canWrite && <TableCell>Actions</TableCell>}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {readings.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={canWrite ? 7 : 6} align="center">
+                  {searchTerm ? 'No readings found matching your search' : 'No readings available'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              readings.map((reading: Reading) => (
+                <TableRow
+                  key={reading.id}
+                  sx={{
+                    backgroundColor: highlightedIds.has(reading.id) ? 'rgba(59, 130, 246, 0.12)' : undefined,
+                    transition: 'background-color 0.6s',
+                  }}
+                >
+                  <TableCell>
+                    {[reading.factory?.name, reading.line?.name, reading.machine?.name].filter(Boolean).join(' / ')}
+                  </TableCell>
+                  <TableCell>{utilityLabel(reading.utility_type)}</TableCell>
+                  <TableCell>{new Date(reading.timestamp).toLocaleString()}</TableCell>
+                  <TableCell>
+                    {Number(reading.consumption).toLocaleString()} {utilityUnit(reading.utility_type)}
+                  </TableCell>
+                  <TableCell>{Number(reading.cost).toFixed(2)}</TableCell>
+                  <TableCell>
+                    {reading.updated_at
+                      ? new Date(reading.updated_at).toLocaleDateString()
+                      : '-'}
+                  </TableCell>
+                  {canWrite && (
+                    <TableCell>
+                      <Button
+                        size="small"
+                        startIcon={<Edit2 className="w-4 h-4" />}
+                        onClick={() => handleEdit(reading)}
+                      >
+                        Edit
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        <TablePagination
+          component="div"
+          count={totalCount}
+          page={page}
+          onPageChange={handleChangePage}
+          rowsPerPage={rowsPerPage}
+          onRowsPerPageChange={handleChangeRowsPerPage}
+          rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
+        />
+      </Paper>
+
+      <Dialog
+        open={openDialog}
+        onClose={handleCloseDialog}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>
+          {editingReading ? 'Edit Reading' : 'Add New Reading'}
+        </DialogTitle>
+        <DialogContent>
+          <div className="space-y-4 pt-4">
+            <FormControl fullWidth error={!!validationErrors.factory}>
+              <InputLabel>Factory</InputLabel>
+              <Select
+                value={formData.factory_id}
+                label="Factory"
+                onChange={(e) => handleFieldChange('factory_id', e.target.value)}
+              >
+                {factories.map((factory) => (
+                  <MenuItem key={factory.id} value={factory.id}>
+                    {factory.name}
+                  </MenuItem>
+                ))}
+              </Select>
+              {validationErrors.factory && (
+                <div className="text-red-500 text-sm mt-1">{validationErrors.factory}</div>
+              )}
+            </FormControl>
+            {formData.factory_id && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormControl fullWidth>
+                  <InputLabel shrink>Line</InputLabel>
+                  <Select
+                    value={formData.line_id}
+                    label="Line"
+                    notched
+                    displayEmpty
+                    onChange={(e) => handleFieldChange('line_id', e.target.value)}
+                  >
+                    <MenuItem value="">Whole factory</MenuItem>
+                    {lines.filter(line => line.company_id === formData.factory_id).map((line) => (
+                      <MenuItem key={line.id} value={line.id}>
+                        {line.name}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <FormControl fullWidth disabled={!formData.line_id}>
+                  <InputLabel shrink>Machine</InputLabel>
+                  <Select
+                    value={formData.machine_id}
+                    label="Machine"
+                    notched
+                    displayEmpty
+                    onChange={(e) => handleFieldChange('machine_id', e.target.value)}
+                  >
+                    <MenuItem value="">Whole line</MenuItem>
+                    {machines.filter(machine => machine.line_id === formData.line_id).map((machine) => (
+                      <MenuItem key={machine.id} value={machine.id}>
+                        {machine.name}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </div>
+            )}
+            <FormControl fullWidth error={!!validationErrors.utility_type}>
+              <InputLabel>Utility</InputLabel>
+              <Select
+                value={formData.utility_type}
+                label="Utility"
+                onChange={(e) => handleFieldChange('utility_type', e.target.value)}
+              >
+                {UTILITY_TYPES.map((utility) => (
+                  <MenuItem key={utility.value} value={utility.value}>
+                    {utility.label} ({utility.unit})
+                  </MenuItem>
+                ))}
+              </Select>
+              {validationErrors.utility_type && (
+                <div className="text-red-500 text-sm mt-1">{validationErrors.utility_type}</div>
+              )}
+            </FormControl>
+            <TextField
+              fullWidth
+              type="datetime-local"
+              label="Reading Time"
+              value={formData.timestamp}
+              onChange={(e) => handleFieldChange('timestamp', e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              error={!!validationErrors.timestamp}
+            />
+            {validationErrors.timestamp && (
+              <div className="text-red-500 text-sm -mt-3">{validationErrors.timestamp}</div>
+            )}
+            <TextField
+              fullWidth
+              type="number"
+              label={`Consumption (${utilityUnit(formData.utility_type)})`}
+              value={formData.consumption}
+              onChange={(e) => handleFieldChange('consumption', e.target.value)}
+              inputProps={{ min: 0, step: 'any' }}
+              error={!!validationErrors.consumption}
+            />
+            {validationErrors.consumption && (
+              <div className="text-red-500 text-sm -mt-3">{validationErrors.consumption}</div>
+            )}
+            <div className="text-sm text-gray-600">
+              {costPreview === null
+                ? 'No rate is in force at this time; the reading will be priced once a rate is added.'
+                : `Cost at the rate in force: ${costPreview.toFixed(2)}`}
+            </div>
+          </div>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog} startIcon={<X />}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            variant="contained"
+            color="primary"
+            disabled={saving}
+            startIcon={<Plus />}
+          >
+            {editingReading ? 'Update' : 'Add'} Reading
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+import React, { useState } from 'react';
+import { useSupabaseClient, useUser } from '@supabase/auth-helpers-react';
+import { Database } from '../../types/database';
+import { Upload, Loader2, AlertCircle, CheckCircle, FileSpreadsheet } from 'lucide-react';
+import {
+  Table, TableBody, TableCell, TableHead,
+  TableRow, Paper, Button, TablePagination,
+  FormControl, InputLabel, Select, MenuItem,
+  Stepper, Step, StepLabel
+} from '@mui/material';
+import {
+  ACCEPTED_FILE_TYPES, ColumnMapping, HierarchyField, ImportResult, ImportRow,
+  MAX_IMPORT_ROWS, SheetRow, buildImportRows, readSpreadsheet, runImport, suggestMapping
+} from '../../lib/hierarchyImport';
+import { toNoun } from '../../components/entity-list/fields';
+import {
+  cityEntity, companyEntity, countryEntity, districtEntity,
+  hierarchyImportColumns, lineEntity, lineTypeEntity, machineEntity
+} from './entities';
+import { ROWS_PER_PAGE_OPTIONS, useRowsPerPage } from '../../lib/preferences';
+import { notifyImportResult } from '../../lib/notifications';
+
+const STEPS = ['Upload file', 'Map columns', 'Preview'];
+
+const IMPORTED_ENTITIES = [
+  countryEntity, cityEntity, districtEntity, companyEntity,
+  lineTypeEntity, lineEntity, machineEntity,
+];
+
+// "2 countries, 1 city and 14 machines"
+const describeCreated = (created: ImportResult['created']) => {
+  const parts = IMPORTED_ENTITIES
+    .filter(entity => created[entity.table] > 0)
+    .map(entity => {
+      const count = created[entity.table];
+      return `${count} ${toNoun(count === 1 ? entity.singular : entity.plural)}`;
+    });
+
+  if (parts.length === 0) return 'no new records';
+  if (parts.length === 1) return parts[0];
+  return `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+};
+
+// Adds the errors reported by the database to the rows they belong to
+const withServerErrors = (rows: ImportRow[], result: ImportResult): ImportRow[] =>
+  rows.map(row => ({
+    ...row,
+    errors: [
+      ...row.errors,
+      ...result.errors.filter(error => error.row === row.row).map(error => error.message),
+    ],
+  }));
+
+export function HierarchyImport() {
+  const supabase = useSupabaseClient<Database>();
+  const user = useUser();
+  const [activeStep, setActiveStep] = useState(0);
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SheetRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Pagination state
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useRowsPerPage();
+
+  const headers = sheet[0]?.cells || [];
+  const errorCount = rows.filter(row => row.errors.length > 0).length;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+      setSuccess(null);
+
+      const data = await readSpreadsheet(file);
+
+      if (data.length < 2) {
+        setError('The file needs a header row and at least one row of data');
+        return;
+      }
+      if (data.length - 1 > MAX_IMPORT_ROWS) {
+        setError(`The file has ${data.length - 1} rows; split it into files of at most ${MAX_IMPORT_ROWS} rows`);
+        return;
+      }
+
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(suggestMapping(hierarchyImportColumns, data[0].cells));
+      setActiveStep(1);
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleMappingChange = (key: HierarchyField, value: number | '') => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[key];
+      } else {
+        next[key] = value;
+      }
+      return next;
+    });
+  };
+
+  // Checks every row locally first; only a clean file is dry-run against the
+  // database, which reports conflicts and what would be created
+  const handlePreview = async () => {
+    const built = buildImportRows(hierarchyImportColumns, mapping, sheet);
+
+    if (built.length === 0) {
+      setError('None of the mapped columns contain any data');
+      return;
+    }
+
+    try {
+      setWorking(true);
+      setError(null);
+      setPreview(null);
+      setPage(0);
+
+      if (built.some(row => row.errors.length > 0)) {
+        setRows(built);
+      } else {
+        const result = await runImport(supabase, built, true);
+        setRows(withServerErrors(built, result));
+        setPreview(result);
+      }
+
+      setActiveStep(2);
+    } catch (err) {
+      console.error('Error previewing import:', err);
+      setError('Failed to check the import against existing data. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleReset = () => {
+    setActiveStep(0);
+    setFileName('');
+    setSheet([]);
+    setMapping({});
+    setRows([]);
+    setPreview(null);
+  };
+
+  // Leaves the outcome in the notification center; the import itself is
+  // already done either way, so a failure here is only logged
+  const notify = async (succeeded: boolean, title: string, body: string) => {
+    if (!user) return;
+    try {
+      await notifyImportResult(supabase, user.id, succeeded, title, body);
+    } catch (err) {
+      console.error('Error recording import notification:', err);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      setWorking(true);
+      setError(null);
+
+      const result = await runImport(supabase, rows, false);
+
+      if (!result.committed) {
+        setRows(withServerErrors(rows, result));
+        setPreview(null);
+        setError('Some rows conflict with data saved since the preview. Nothing was imported.');
+        notify(false, `Import of ${fileName} failed`, 'Some rows conflict with data saved since the preview. Nothing was imported.');
+        return;
+      }
+
+      setSuccess(`Imported ${fileName}: created ${describeCreated(result.created)}`);
+      notify(true, `Imported ${fileName}`, `Created ${describeCreated(result.created)}.`);
+      handleReset();
+    } catch (err) {
+      console.error('Error importing hierarchy:', err);
+      setError('Failed to import. Nothing was saved; please try again.');
+      notify(false, `Import of ${fileName} failed`, 'Nothing was saved.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleChangePage = (_event: unknown, newPage: number) => {
+    setPage(newPage);
+  };
+
+  const handleChangeRowsPerPage = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setRowsPerPage(parseInt(event.target.value, 10));
+    setPage(0);
+  };
+
+  const mappedColumns = hierarchyImportColumns.filter(column => mapping[column.key] !== undefined);
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <FileSpreadsheet className="w-6 h-6 text-blue-500" />
+          Bulk Import
+        </h1>
+        <p className="text-gray-600">
+          Create countries, cities, districts, companies, line types, production lines and machines from a CSV or Excel file
+        </p>
+      </div>
+
+      <Stepper activeStep={activeStep} className="mb-6">
+        {STEPS.map(label => (
+          <Step key={label}>
+            <StepLabel>{label}</StepLabel>
+          </Step>
+        ))}
+      </Stepper>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+          <AlertCircle className="w-5 h-5" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-4 bg-green-50 text-green-700 rounded-md flex items-center gap-2">
+          <CheckCircle className="w-5 h-5" />
+          {success}
+        </div>
+      )}
+
+      {activeStep === 0 && (
+        <Paper className="p-6">
+          <p className="text-gray-700 mb-2">
+            One row per record, with a header row. Parents are matched by name and created when missing, so a
+            machine row also names its production line, company, line type, district, city and country.
+          </p>
+          <p className="text-sm text-gray-500 mb-4">
+            Recognised headers: {hierarchyImportColumns.map(column => column.label).join(', ')}
+          </p>
+          <Button
+            variant="contained"
+            component="label"
+            startIcon={working ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload />}
+            disabled={working}
+          >
+            Choose File
+            <input type="file" hidden accept={ACCEPTED_FILE_TYPES} onChange={handleFileChange} />
+          </Button>
+        </Paper>
+      )}
+
+      {activeStep === 1 && (
+        <Paper className="p-6">
+          <p className="text-gray-700 mb-4">
+            Choose the column of <span className="font-medium">{fileName}</span> that holds each field.
+            Unmapped fields are left empty.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {hierarchyImportColumns.map(column => (
+              <FormControl key={column.key} size="small" fullWidth>
+                <InputLabel>{column.label}</InputLabel>
+                <Select
+                  value={mapping[column.key] ?? ''}
+                  label={column.label}
+                  onChange={(e) => handleMappingChange(column.key, e.target.value === '' ? '' : Number(e.target.value))}
+                >
+                  <MenuItem value="">Not imported</MenuItem>
+                  {headers.map((header, index) => (
+                    <MenuItem key={index} value={index}>{header || `Column ${index + 1}`}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2 mt-6">
+            <Button onClick={handleReset} disabled={working}>Back</Button>
+            <Button
+              variant="contained"
+              onClick={handlePreview}
+              disabled={working || mappedColumns.length === 0}
+              startIcon={working ? <Loader2 className="w-4 h-4 animate-spin" /> : undefined}
+            >
+              Preview
+            </Button>
+          </div>
+        </Paper>
+      )}
+
+      {activeStep === 2 && (
+        <>
+          {errorCount > 0 ? (
+            <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+              <AlertCircle className="w-5 h-5" />
+              {errorCount} of {rows.length} rows have errors. Fix them in the file and upload it again.
+            </div>
+          ) : preview && (
+            <div className="mb-4 p-4 bg-blue-50 text-blue-700 rounded-md flex items-center gap-2">
+              <CheckCircle className="w-5 h-5" />
+              {rows.length} rows are valid. Importing will create {describeCreated(preview.created)}.
+            </div>
+          )}
+
+          <Paper className="overflow-hidden">
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Row</TableCell>
+                  {mappedColumns.map(column => (
+                    <TableCell key={column.key}>{column.label}</TableCell>
+                  ))}
+                  <TableCell>Errors</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rows.slice(page * rowsPerPage, (page + 1) * rowsPerPage).map(row => (
+                  <TableRow key={row.row} sx={row.errors.length > 0 ? { backgroundColor: '#fef2f2' } : undefined}>
+                    <TableCell>{row.row}</TableCell>
+                    {mappedColumns.map(column => (
+                      <TableCell key={column.key}>{row.values[column.key] || '-'}</TableCell>
+                    ))}
+                    <TableCell>
+                      {row.errors.length > 0 ? (
+                        <ul className="text-sm text-red-700 space-y-1">
+                          {row.errors.map(message => (
+                            <li key={message}>{message}</li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <CheckCircle className="w-4 h-4 text-green-600" />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <TablePagination
+              rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
+              component="div"
+              count={rows.length}
+              rowsPerPage={rowsPerPage}
+              page={page}
+              onPageChange={handleChangePage}
+              onRowsPerPageChange={handleChangeRowsPerPage}
+            />
+          </Paper>
+
+          <div className="flex justify-end gap-2 mt-6">
+            <Button onClick={() => setActiveStep(1)} disabled={working}>Back</Button>
+            <Button
+              variant="contained"
+              onClick={handleImport}
+              disabled={working || errorCount > 0 || !preview}
+              startIcon={working ? <Loader2 className="w-4 h-4 animate-spin" /> : undefined}
+            >
+              Import {rows.length} Rows
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,390 +1,6 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { useSupabaseClient, useUser } from '@supabase/auth-helpers-react';
-import { debounce } from 'lodash';
-import { 
-  Gauge, Plus, Loader2, AlertCircle, 
-  CheckCircle, X, Edit2, ArrowUpDown,
-  Search
-} from 'lucide-react';
-import { 
-  Table, TableBody, TableCell, TableHead, 
-  TableRow, Paper, Button, Dialog, 
-  DialogTitle, DialogContent, DialogActions,
-  TextField, TablePagination, TableSortLabel,
-  InputAdornment, FormControl, InputLabel,
-  Select, MenuItem
-} from '@mui/material';
-
-interface KPI {
-  id: string;
-  name: string;
-  unit: string;
-  created_at: string;
-  created_by: string;
-  updated_at: string | null;
-  updated_by: string | null;
-}
-
-type Order = 'asc' | 'desc';
+import { EntityList } from '../../components/entity-list/EntityList';
+import { kpiEntity } from './entities';
 
 export function KpiList() {
-  const supabase = useSupabaseClient();
-  const user = useUser();
-  const [kpis, setKpis] = useState<KPI[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [success, setSuccess] = useState<string | null>(null);
-  const [openDialog, setOpenDialog] = useState(false);
-  const [editingKpi, setEditingKpi] = useState<KPI | null>(null);
-  const [formData, setFormData] = useState({
-    name: '',
-    unit: '',
-  });
-
-  // Search state
-  const [searchTerm, setSearchTerm] = useState('');
-
-  // Pagination state
-  const [page, setPage] = useState(0);
-  const [rowsPerPage, setRowsPerPage] = useState(15);
-  const [totalCount, setTotalCount] = useState(0);
-
-  // Sorting state
-  const [orderBy, setOrderBy] = useState<keyof KPI>('name');
-  const [order, setOrder] = useState<Order>('asc');
-
-  // Debounced search function
-  const debouncedSearch = useCallback(
-    debounce(async (term: string) => {
-      try {
-        setLoading(true);
-
-        let query = supabase
-          .from('kpi')
-          .select('*', { count: 'exact' });
-
-        // Apply search filter if term exists
-        if (term) {
-          query = query.ilike('name', `%${term}%`);
-        }
-
-        // Apply sorting
-        query = query
-          .order(orderBy, { ascending: order === 'asc' })
-          .range(page * rowsPerPage, (page + 1) * rowsPerPage - 1);
-
-        const { data, count, error } = await query;
-
-        if (error) throw error;
-
-        setKpis(data || []);
-        setTotalCount(count || 0);
-      } catch (err) {
-        console.error('Error searching KPIs:', err);
-        setError('Failed to search KPIs');
-      } finally {
-        setLoading(false);
-      }
-    }, 300),
-    [orderBy, order, page, rowsPerPage]
-  );
-
-  useEffect(() => {
-    debouncedSearch(searchTerm);
-    return () => {
-      debouncedSearch.cancel();
-    };
-  }, [searchTerm, orderBy, order, page, rowsPerPage]);
-
-  const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setSearchTerm(event.target.value);
-    setPage(0); // Reset to first page when search changes
-  };
-
-  const handleSort = (property: keyof KPI) => {
-    const isAsc = orderBy === property && order === 'asc';
-    setOrder(isAsc ? 'desc' : 'asc');
-    setOrderBy(property);
-    setPage(0); // Reset to first page when sorting changes
-  };
-
-  const handleChangePage = (event: unknown, newPage: number) => {
-    setPage(newPage);
-  };
-
-  const handleChangeRowsPerPage = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setRowsPerPage(parseInt(event.target.value, 10));
-    setPage(0);
-  };
-
-  const handleSubmit = async () => {
-    try {
-      if (!user) {
-        setError('You must be logged in to perform this action');
-        return;
-      }
-
-      const trimmedName = formData.name.trim();
-      const trimmedUnit = formData.unit.trim();
-
-      if (!trimmedName || !trimmedUnit) {
-        setError('Name and unit are required');
-        return;
-      }
-
-      let query = supabase
-        .from('kpi')
-        .select('id')
-        .eq('name', trimmedName);
-      
-      if (editingKpi?.id) {
-        query = query.neq('id', editingKpi.id);
-      }
-
-      const { data: existingKpi } = await query.maybeSingle();
-
-      if (existingKpi) {
-        setError('A KPI with this name already exists');
-        return;
-      }
-
-      if (editingKpi) {
-        const { error: updateError } = await supabase
-          .from('kpi')
-          .update({ 
-            name: trimmedName,
-            unit: trimmedUnit,
-            updated_by: user.id,
-          })
-          .eq('id', editingKpi.id);
-
-        if (updateError) throw updateError;
-        setSuccess('KPI updated successfully');
-      } else {
-        const { error: insertError } = await supabase
-          .from('kpi')
-          .insert([{ 
-            name: trimmedName,
-            unit: trimmedUnit,
-            created_by: user.id
-          }]);
-
-        if (insertError) throw insertError;
-        setSuccess('KPI added successfully');
-      }
-
-      handleCloseDialog();
-      debouncedSearch(searchTerm); // Refresh the list
-    } catch (err) {
-      console.error('Error saving KPI:', err);
-      setError('Failed to save KPI. Please try again.');
-    }
-  };
-
-  const handleEdit = (kpi: KPI) => {
-    setEditingKpi(kpi);
-    setFormData({ 
-      name: kpi.name,
-      unit: kpi.unit
-    });
-    setOpenDialog(true);
-    setError(null);
-  };
-
-  const handleCloseDialog = () => {
-    setOpenDialog(false);
-    setEditingKpi(null);
-    setFormData({ name: '', unit: '' });
-    setError(null);
-  };
-
-  if (loading && page === 0 && !searchTerm) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
-      </div>
-    );
-  }
-
-  return (
-    <div className="container mx-auto p-6">
-      <div className="flex justify-between items-center mb-6">
-        <h1 className="text-2xl font-bold flex items-center gap-2">
-          <Gauge className="w-6 h-6 text-blue-500" />
-          KPIs
-        </h1>
-        <div className="flex items-center gap-4">
-          <TextField
-            placeholder="Search KPIs..."
-            value={searchTerm}
-            onChange={handleSearchChange}
-            size="small"
-            sx={{ width: '300px' }}
-            InputProps={{
-              startAdornment: (
-                <InputAdornment position="start">
-                  <Search className="w-5 h-5 text-gray-500" />
-                </InputAdornment>
-              ),
-            }}
-          />
-          <Button
-            variant="contained"
-            color="primary"
-            startIcon={<Plus />}
-            onClick={() => setOpenDialog(true)}
-          >
-            Add KPI
-          </Button>
-        </div>
-      </div>
-
-      {error && (
-        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
-          <AlertCircle className="w-5 h-5" />
-          {error}
-        </div>
-      )}
-
-      {success && (
-        <div className="mb-4 p-4 bg-green-50 text-green-700 rounded-md flex items-center gap-2">
-          <CheckCircle className="w-5 h-5" />
-          {success}
-        </div>
-      )}
-
-      <Paper className="overflow-hidden">
-        <Table>
-          <TableHead>
-            <TableRow>
-              <TableCell>
-                <TableSortLabel
-                  active={orderBy === 'name'}
-                  direction={orderBy === 'name' ? order : 'asc'}
-                  onClick={() => handleSort('name')}
-                  IconComponent={ArrowUpDown}
-                >
-                  Name
-                </TableSortLabel>
-              </TableCell>
-              <TableCell>
-                <TableSortLabel
-                  active={orderBy === 'unit'}
-                  direction={orderBy === 'unit' ? order : 'asc'}
-                  onClick={() => handleSort('unit')}
-                  IconComponent={ArrowUpDown}
-                >
-                  Unit
-                </TableSortLabel>
-              </TableCell>
-              <TableCell>
-                <TableSortLabel
-                  active={orderBy === 'created_at'}
-                  direction={orderBy === 'created_at' ? order : 'asc'}
-                  onClick={() => handleSort('created_at')}
-                  IconComponent={ArrowUpDown}
-                >
-                  Created At
-                </TableSortLabel>
-              </TableCell>
-              <TableCell>
-                <TableSortLabel
-                  active={orderBy === 'updated_at'}
-                  direction={orderBy === 'updated_at' ? order : 'asc'}
-                  onClick={() => handleSort('updated_at')}
-                  IconComponent={ArrowUpDown}
-                >
-                  Last Updated
-                </TableSortLabel>
-              </TableCell>
-              <TableCell>Actions</TableCell>
-            </TableRow>
-          </TableHead>
-          <TableBody>
-            {kpis.length === 0 ? (
-              <TableRow>
-                <TableCell colSpan={5} align="center">
-                  {searchTerm ? 'No KPIs found matching your search' : 'No KPIs available'}
-                </TableCell>
-              </TableRow>
-            ) : (
-              kpis.map((kpi) => (
-                <TableRow key={kpi.id}>
-                  <TableCell>{kpi.name}</TableCell>
-                  <TableCell>{kpi.unit}</TableCell>
-                  <TableCell>
-                    {new Date(kpi.created_at).toLocaleDateString()}
-                  </TableCell>
-                  <TableCell>
-                    {kpi.updated_at 
-                      ? new Date(kpi.updated_at).toLocaleDateString()
-                      : '-'}
-                  </TableCell>
-                  <TableCell>
-                    <Button
-                      size="small"
-                      startIcon={<Edit2 className="w-4 h-4" />}
-                      onClick={() => handleEdit(kpi)}
-                    >
-                      Edit
-                    </Button>
-                  </TableCell>
-                </TableRow>
-              ))
-            )}
-          </TableBody>
-        </Table>
-        <TablePagination
-          component="div"
-          count={totalCount}
-          page={page}
-          onPageChange={handleChangePage}
-          rowsPerPage={rowsPerPage}
-          onRowsPerPageChange={handleChangeRowsPerPage}
-          rowsPerPageOptions={[15, 50, 100, 150, 200]}
-        />
-      </Paper>
-
-      <Dialog 
-        open={openDialog} 
-        onClose={handleCloseDialog}
-        maxWidth="sm"
-        fullWidth
-      >
-        <DialogTitle>
-          {editingKpi ? 'Edit KPI' : 'Add New KPI'}
-        </DialogTitle>
-        <DialogContent>
-          <div className="space-y-4 pt-4">
-            <TextField
-              fullWidth
-              label="KPI Name"
-              value={formData.name}
-              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-            />
-            <TextField
-              fullWidth
-              label="Unit"
-              value={formData.unit}
-              onChange={(e) => setFormData({ ...formData, unit: e.target.value })}
-              placeholder="e.g., kWh, °C, %"
-            />
-          </div>
-        </DialogContent>
-        <DialogActions>
-          <Button onClick={handleCloseDialog} startIcon={<X />}>
-            Cancel
-          </Button>
-          <Button 
-            onClick={handleSubmit} 
-            variant="contained" 
-            color="primary"
-            startIcon={<Plus />}
-          >
-            {editingKpi ? 'Update' : 'Add'} KPI
-          </Button>
-        </DialogActions>
-      </Dialog>
-    </div>
-  );
+  return <EntityList definition={kpiEntity} />;
 }
@@ -0,0 +1,271 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useSupabaseClient } from '@supabase/auth-helpers-react';
+import { Database } from '../../types/database';
+import {
+  ListOrdered, Loader2, AlertCircle, CheckCircle,
+  GripVertical, ArrowUp, ArrowDown, Save, RotateCcw, Rows3
+} from 'lucide-react';
+import {
+  Paper, Button, IconButton, Tooltip,
+  FormControl, InputLabel, Select, MenuItem
+} from '@mui/material';
+import {
+  SequenceLine, SequenceMachine, fetchLineMachines,
+  fetchSequenceLines, saveMachineSequence, sequenceOrders
+} from '../../lib/machineSequence';
+import { usePermissions } from '../../lib/auth';
+
+// Moves the item at index from to index to
+const move = <T,>(items: T[], from: number, to: number) => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+export function MachineSequence() {
+  const supabase = useSupabaseClient<Database>();
+  const { can, companyIds } = usePermissions();
+  const canWrite = can('data:write');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const lineId = searchParams.get('line') || '';
+  const [lines, setLines] = useState<SequenceLine[]>([]);
+  const [machines, setMachines] = useState<SequenceMachine[]>([]);
+  const [sequence, setSequence] = useState<SequenceMachine[]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadLines = async () => {
+      try {
+        setLines(await fetchSequenceLines(supabase, companyIds));
+      } catch (err) {
+        console.error('Error fetching production lines:', err);
+        setError('Failed to load production lines');
+      }
+    };
+
+    loadLines();
+  }, [supabase, companyIds]);
+
+  const loadMachines = useCallback(async () => {
+    if (!lineId) {
+      setMachines([]);
+      setSequence([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const data = await fetchLineMachines(supabase, lineId);
+      setMachines(data);
+      setSequence(data);
+    } catch (err) {
+      console.error('Error fetching machines:', err);
+      setError('Failed to load machines');
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase, lineId]);
+
+  useEffect(() => {
+    loadMachines();
+  }, [loadMachines]);
+
+  const orders = sequenceOrders(machines);
+  const isDirty = sequence.some((machine, index) => machine.id !== machines[index]?.id);
+
+  const handleLineChange = (id: string) => {
+    setSearchParams(id ? { line: id } : {});
+    setError(null);
+    setSuccess(null);
+  };
+
+  const handleMove = (from: number, to: number) => {
+    if (to < 0 || to >= sequence.length || from === to) return;
+    setSequence(prev => move(prev, from, to));
+    setSuccess(null);
+  };
+
+  const handleSave = async (compact: boolean) => {
+    try {
+      setSaving(true);
+      setError(null);
+      await saveMachineSequence(supabase, lineId, sequence.map(machine => machine.id), compact);
+      setSuccess(compact ? 'Machines renumbered without gaps' : 'Machine order saved');
+      await loadMachines();
+    } catch (err) {
+      console.error('Error saving machine order:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the machine order. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <ListOrdered className="w-6 h-6 text-blue-500" />
+          Machine Sequence
+        </h1>
+        <p className="text-gray-600">
+          Arrange the machines of a production line in their physical order
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+          <AlertCircle className="w-5 h-5" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-4 bg-green-50 text-green-700 rounded-md flex items-center gap-2">
+          <CheckCircle className="w-5 h-5" />
+          {success}
+        </div>
+      )}
+
+      <Paper className="p-6">
+        <div className="flex flex-wrap items-center gap-4 mb-6">
+          <FormControl size="small" sx={{ minWidth: 320 }}>
+            <InputLabel>Production Line</InputLabel>
+            <Select
+              value={lines.some(line => line.id === lineId) ? lineId : ''}
+              label="Production Line"
+              onChange={(e) => handleLineChange(e.target.value)}
+            >
+              {lines.map(line => (
+                <MenuItem key={line.id} value={line.id}>
+                  {line.name} ({line.company} - {line.city})
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          {canWrite && lineId && (
+            <div className="flex flex-wrap gap-2 ml-auto">
+              <Button
+                variant="outlined"
+                startIcon={<RotateCcw className="w-4 h-4" />}
+                onClick={() => setSequence(machines)}
+                disabled={!isDirty || saving}
+              >
+                Reset
+              </Button>
+              <Tooltip title="Save the order shown and number the machines 1000, 1001, ... with no gaps">
+                <span>
+                  <Button
+                    variant="outlined"
+                    startIcon={<Rows3 className="w-4 h-4" />}
+                    onClick={() => handleSave(true)}
+                    disabled={sequence.length === 0 || saving}
+                  >
+                    Compact numbering
+                  </Button>
+                </span>
+              </Tooltip>
+              <Button
+                variant="contained"
+                startIcon={saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                onClick={() => handleSave(false)}
+                disabled={!isDirty || saving}
+              >
+                Save order
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {!lineId ? (
+          <p className="text-gray-500">Select a production line to see its machines.</p>
+        ) : loading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          </div>
+        ) : sequence.length === 0 ? (
+          <p className="text-gray-500">This line has no machines.</p>
+        ) : (
+          <>
+            {canWrite && (
+              <p className="text-sm text-gray-500 mb-3">
+                Drag machines into place, then save. The line keeps its current order numbers; use
+                Compact numbering to close the gaps between them.
+              </p>
+            )}
+            <ol className="divide-y border rounded-md">
+              {sequence.map((machine, index) => {
+                const newOrder = orders[index];
+                const changed = newOrder !== machine.order;
+
+                return (
+                  <li
+                    key={machine.id}
+                    className={`flex items-center gap-3 px-3 py-2 bg-white ${
+                      dragIndex === index ? 'opacity-50' : ''
+                    } ${canWrite ? 'cursor-move' : ''}`}
+                    draggable={canWrite && !saving}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDragIndex(index);
+                    }}
+                    onDragOver={(e) => {
+                      if (dragIndex === null) return;
+                      e.preventDefault();
+                      if (dragIndex !== index) {
+                        handleMove(dragIndex, index);
+                        setDragIndex(index);
+                      }
+                    }}
+                    onDragEnd={() => setDragIndex(null)}
+                    onDrop={(e) => e.preventDefault()}
+                  >
+                    {canWrite && <GripVertical className="w-4 h-4 text-gray-400" />}
+                    <span className="w-8 text-sm text-gray-500">{index + 1}.</span>
+                    <span className="flex-1 font-medium">{machine.name}</span>
+                    <span className="text-sm tabular-nums">
+                      {changed ? (
+                        <>
+                          <span className="text-gray-400 line-through mr-2">{machine.order}</span>
+                          <span className="text-blue-600 font-semibold">{newOrder}</span>
+                        </>
+                      ) : (
+                        machine.order
+                      )}
+                    </span>
+                    {canWrite && (
+                      <div className="flex">
+                        <IconButton
+                          size="small"
+                          onClick={() => handleMove(index, index - 1)}
+                          disabled={index === 0 || saving}
+                          title="Move up"
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          onClick={() => handleMove(index, index + 1)}
+                          disabled={index === sequence.length - 1 || saving}
+                          title="Move down"
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </IconButton>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          </>
+        )}
+      </Paper>
+    </div>
+  );
+}
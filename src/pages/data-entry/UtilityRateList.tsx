@@ -0,0 +1,512 @@
+import { useState, useCallback } from 'react';
+import { useSupabaseClient, useUser } from '@supabase/auth-helpers-react';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../../types/database';
+import {
+  Receipt, Plus, Loader2, AlertCircle,
+  CheckCircle, X, Edit2, ArrowUpDown
+} from 'lucide-react';
+import {
+  Table, TableBody, TableCell, TableHead,
+  TableRow, Paper, Button, Dialog,
+  DialogTitle, DialogContent, DialogActions,
+  TextField, TablePagination, TableSortLabel,
+  FormControl, InputLabel, Select, MenuItem
+} from '@mui/material';
+import { UtilityRate, UtilityType } from '../../types';
+import { UTILITY_TYPES, utilityLabel, utilityUnit } from '../../lib/energy';
+import { fetchRates, findOverlappingRate, recomputeCosts } from '../../lib/tariffs';
+import { usePermissions } from '../../lib/auth';
+import { ExportMenu } from '../../components/ExportMenu';
+import { staleRecordMessage, unchangedSince } from '../../lib/concurrency';
+import { ROWS_PER_PAGE_OPTIONS } from '../../lib/preferences';
+import { useLiveGrid } from '../../components/entity-list/useLiveGrid';
+import { Order } from '../../components/entity-list/types';
+
+interface ValidationErrors {
+  rate?: string;
+  effective_from?: string;
+  effective_to?: string;
+}
+
+// Rates are edited as whole days; a period starts at local midnight
+const toDateInput = (iso: string | null) => (iso ? new Date(iso).toLocaleDateString('en-CA') : '');
+const fromDateInput = (value: string) => new Date(`${value}T00:00:00`).toISOString();
+
+const earliest = (a: string, b: string) => (new Date(a) < new Date(b) ? a : b);
+const latest = (a: string | null, b: string | null) => {
+  if (!a || !b) return null;
+  return new Date(a) > new Date(b) ? a : b;
+};
+
+// The grid's filter and sort, without paging
+const ratesQuery = (
+  supabase: SupabaseClient<Database>,
+  utilityFilter: UtilityType | 'all',
+  orderBy: string,
+  order: Order,
+  count?: 'exact'
+) => {
+  let query = supabase
+    .from('utility_rate')
+    .select('*', { count });
+
+  if (utilityFilter !== 'all') {
+    query = query.eq('utility_type', utilityFilter);
+  }
+
+  return query.order(orderBy, { ascending: order === 'asc' });
+};
+
+const emptyForm = () => ({
+  utility_type: 'electricity' as UtilityType,
+  rate: '',
+  effective_from: '',
+  effective_to: '',
+});
+
+// Rates keep their own form, like readings: saving one re-prices the readings
+// its old and new periods cover, which an EntityDefinition can't express.
+export function UtilityRateList() {
+  const supabase = useSupabaseClient<Database>();
+  const user = useUser();
+  const { can } = usePermissions();
+  const canWrite = can('data:write');
+  const [saving, setSaving] = useState(false);
+  const [validationErrors, setValidationErrors] = useState<ValidationErrors>({});
+  const [openDialog, setOpenDialog] = useState(false);
+  const [editingRate, setEditingRate] = useState<UtilityRate | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [utilityFilter, setUtilityFilter] = useState<UtilityType | 'all'>('all');
+
+  // Rates have no search box, so the term is ignored
+  const query = useCallback((_term: string, orderBy: string, order: Order, count?: 'exact') =>
+    ratesQuery(supabase, utilityFilter, orderBy, order, count),
+  [supabase, utilityFilter]);
+
+  const {
+    rows: rates, loading, error, setError, success, setSuccess,
+    page, setPage, rowsPerPage, totalCount, handleChangePage, handleChangeRowsPerPage,
+    orderBy, order, handleSort, refresh, fetchAll, highlightedIds,
+  } = useLiveGrid<UtilityRate>({
+    table: 'utility_rate',
+    noun: 'utility rates',
+    defaultSort: { field: 'effective_from', order: 'desc' },
+    query,
+  });
+
+  const handleExport = async () => {
+    const data = await fetchAll();
+
+    return {
+      title: 'Utility Rates',
+      columns: ['Utility', 'Rate', 'Unit', 'Effective From', 'Effective Until', 'Last Updated'],
+      rows: data.map(rate => [
+        utilityLabel(rate.utility_type),
+        Number(rate.rate),
+        utilityUnit(rate.utility_type),
+        new Date(rate.effective_from).toLocaleDateString(),
+        rate.effective_to ? new Date(rate.effective_to).toLocaleDateString() : 'In force',
+        rate.updated_at ? new Date(rate.updated_at).toLocaleDateString() : null,
+      ]),
+    };
+  };
+
+  const handleFieldChange = (field: keyof ReturnType<typeof emptyForm>, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setValidationErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const validateForm = (): ValidationErrors => {
+    const errors: ValidationErrors = {};
+    const rate = Number(formData.rate);
+
+    if (formData.rate === '' || Number.isNaN(rate)) {
+      errors.rate = 'Rate is required';
+    } else if (rate < 0) {
+      errors.rate = 'Rate cannot be negative';
+    }
+
+    if (!formData.effective_from) {
+      errors.effective_from = 'Effective from date is required';
+    }
+
+    if (formData.effective_to && formData.effective_from && formData.effective_to <= formData.effective_from) {
+      errors.effective_to = 'Effective until must be after the effective from date';
+    }
+
+    return errors;
+  };
+
+  const handleSubmit = async () => {
+    try {
+      if (!user) {
+        setError('You must be logged in to perform this action');
+        return;
+      }
+
+      const errors = validateForm();
+      setValidationErrors(errors);
+      if (Object.keys(errors).length > 0) {
+        return;
+      }
+
+      setSaving(true);
+
+      const values = {
+        utility_type: formData.utility_type,
+        rate: Number(formData.rate),
+        effective_from: fromDateInput(formData.effective_from),
+        effective_to: formData.effective_to ? fromDateInput(formData.effective_to) : null,
+      };
+
+      const overlapping = findOverlappingRate(
+        { id: editingRate?.id || '', ...values },
+        await fetchRates(supabase, values.utility_type)
+      );
+
+      if (overlapping) {
+        setValidationErrors({
+          effective_from: `Overlaps the ${utilityLabel(overlapping.utility_type).toLowerCase()} rate in force from ${new Date(overlapping.effective_from).toLocaleDateString()}${
+            overlapping.effective_to ? ` until ${new Date(overlapping.effective_to).toLocaleDateString()}` : ''
+          }`,
+        });
+        return;
+      }
+
+      if (editingRate) {
+        const { data: saved, error: updateError } = await unchangedSince(
+          supabase
+            .from('utility_rate')
+            .update({
+              ...values,
+              updated_by: user.id,
+            })
+            .eq('id', editingRate.id),
+          editingRate.updated_at
+        ).select('id');
+
+        if (updateError) {
+          if (updateError.code === '23P01' && updateError.message.includes('utility_rate_no_overlap')) {
+            setValidationErrors({ effective_from: 'Overlaps an existing rate for this utility' });
+            return;
+          }
+          throw updateError;
+        }
+        if (saved.length === 0) {
+          setError(staleRecordMessage('rate'));
+          handleCloseDialog();
+          refresh();
+          return;
+        }
+      } else {
+        const { error: insertError } = await supabase
+          .from('utility_rate')
+          .insert([{
+            ...values,
+            created_by: user.id
+          }]);
+
+        if (insertError) {
+          if (insertError.code === '23P01' && insertError.message.includes('utility_rate_no_overlap')) {
+            setValidationErrors({ effective_from: 'Overlaps an existing rate for this utility' });
+            return;
+          }
+          throw insertError;
+        }
+      }
+
+      // Re-price every reading the old or new period touches
+      const affectedFrom = editingRate
+        ? earliest(editingRate.effective_from, values.effective_from)
+        : values.effective_from;
+      const affectedTo = editingRate
+        ? latest(editingRate.effective_to, values.effective_to)
+        : values.effective_to;
+
+      // An edit that moves a rate to another utility also re-prices the old one
+      if (editingRate && editingRate.utility_type !== values.utility_type) {
+        await recomputeCosts(supabase, editingRate.utility_type, editingRate.effective_from, editingRate.effective_to);
+      }
+      const repriced = await recomputeCosts(supabase, values.utility_type, affectedFrom, affectedTo);
+
+      setSuccess(`Rate ${editingRate ? 'updated' : 'added'} successfully. ${repriced} reading${repriced === 1 ? '' : 's'} re-priced.`);
+      handleCloseDialog();
+      refresh();
+    } catch (err) {
+      console.error('Error saving utility rate:', err);
+      setError('Failed to save rate. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (rate: UtilityRate) => {
+    setEditingRate(rate);
+    setFormData({
+      utility_type: rate.utility_type,
+      rate: String(rate.rate),
+      effective_from: toDateInput(rate.effective_from),
+      effective_to: toDateInput(rate.effective_to),
+    });
+    setOpenDialog(true);
+    setError(null);
+    setValidationErrors({});
+  };
+
+  const handleCloseDialog = () => {
+    setOpenDialog(false);
+    setEditingRate(null);
+    setFormData(emptyForm());
+    setError(null);
+    setValidationErrors({});
+  };
+
+  if (loading && page === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Receipt className="w-6 h-6 text-blue-500" />
+          Utility Rates
+        </h1>
+        <div className="flex items-center gap-4">
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel>Utility</InputLabel>
+            <Select
+              value={utilityFilter}
+              label="Utility"
+              onChange={(e) => {
+                setUtilityFilter(e.target.value as UtilityType | 'all');
+                setPage(0);
+              }}
+            >
+              <MenuItem value="all">All Utilities</MenuItem>
+              {UTILITY_TYPES.map((utility) => (
+                <MenuItem key={utility.value} value={utility.value}>
+                  {utility.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <ExportMenu load={handleExport} onError={setError} disabled={totalCount === 0} />
+          {canWrite && (
+            <Button
+              variant="contained"
+              color="primary"
+              startIcon={<Plus />}
+              onClick={() => setOpenDialog(true)}
+            >
+              Add Rate
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-md flex items-center gap-2">
+          <AlertCircle className="w-5 h-5" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-4 bg-green-50 text-green-700 rounded-md flex items-center gap-2">
+          <CheckCircle className="w-5 h-5" />
+          {success}
+        </div>
+      )}
+
+      <Paper className="overflow-hidden">
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>
+                <TableSortLabel
+                  active={orderBy === 'utility_type'}
+                  direction={orderBy === 'utility_type' ? order : 'asc'}
+                  onClick={() => handleSort('utility_type')}
+                  IconComponent={ArrowUpDown}
+                >
+                  Utility
+                </TableSortLabel>
+              </TableCell>
+              <TableCell>
+                <TableSortLabel
+                  active={orderBy === 'rate'}
+                  direction={orderBy === 'rate' ? order : 'asc'}
+                  onClick={() => handleSort('rate')}
+                  IconComponent={ArrowUpDown}
+                >
+                  Rate
+                </TableSortLabel>
+              </TableCell>
+              <TableCell>
+                <TableSortLabel
+                  active={orderBy === 'effective_from'}
+                  direction={orderBy === 'effective_from' ? order : 'asc'}
+                  onClick={() => handleSort('effective_from')}
+                  IconComponent={ArrowUpDown}
+                >
+                  Effective From
+                </TableSortLabel>
+              </TableCell>
+              <TableCell>Effective Until</TableCell>
+              <TableCell>
+                <TableSortLabel
+                  active={orderBy === 'updated_at'}
+                  direction={orderBy === 'updated_at' ? order : 'asc'}
+                  onClick={() => handleSort('updated_at')}
+                  IconComponent={ArrowUpDown}
+                >
+                  Last Updated
+                </TableSortLabel>
+              </TableCell>
+              {canWrite && <TableCell>Actions</TableCell>}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rates.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={canWrite ? 6 : 5} align="center">
+                  No rates available
+                </TableCell>
+              </TableRow>
+            ) : (
+              rates.map((rate) => (
+                <TableRow
+                  key={rate.id}
+                  sx={{
+                    backgroundColor: highlightedIds.has(rate.id) ? 'rgba(59, 130, 246, 0.12)' : undefined,
+                    transition: 'background-color 0.6s',
+                  }}
+                >
+                  <TableCell>{utilityLabel(rate.utility_type)}</TableCell>
+                  <TableCell>{Number(rate.rate)} per {utilityUnit(rate.utility_type)}</TableCell>
+                  <TableCell>{new Date(rate.effective_from).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    {rate.effective_to
+                      ? new Date(rate.effective_to).toLocaleDateString()
+                      : 'In force'}
+                  </TableCell>
+                  <TableCell>
+                    {rate.updated_at
+                      ? new Date(rate.updated_at).toLocaleDateString()
+                      : '-'}
+                  </TableCell>
+                  {canWrite && (
+                    <TableCell>
+                      <Button
+                        size="small"
+                        startIcon={<Edit2 className="w-4 h-4" />}
+                        onClick={() => handleEdit(rate)}
+                      >
+                        Edit
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        <TablePagination
+          component="div"
+          count={totalCount}
+          page={page}
+          onPageChange={handleChangePage}
+          rowsPerPage={rowsPerPage}
+          onRowsPerPageChange={handleChangeRowsPerPage}
+          rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
+        />
+      </Paper>
+
+      <Dialog
+        open={openDialog}
+        onClose={handleCloseDialog}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>
+          {editingRate ? 'Edit Rate' : 'Add New Rate'}
+        </DialogTitle>
+        <DialogContent>
+          <div className="space-y-4 pt-4">
+            <FormControl fullWidth>
+              <InputLabel>Utility</InputLabel>
+              <Select
+                value={formData.utility_type}
+                label="Utility"
+                onChange={(e) => handleFieldChange('utility_type', e.target.value)}
+              >
+                {UTILITY_TYPES.map((utility) => (
+                  <MenuItem key={utility.value} value={utility.value}>
+                    {utility.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              fullWidth
+              type="number"
+              label={`Rate per ${utilityUnit(formData.utility_type)}`}
+              value={formData.rate}
+              onChange={(e) => handleFieldChange('rate', e.target.value)}
+              inputProps={{ min: 0, step: 'any' }}
+              error={!!validationErrors.rate}
+            />
+            {validationErrors.rate && (
+              <div className="text-red-500 text-sm -mt-3">{validationErrors.rate}</div>
+            )}
+            <TextField
+              fullWidth
+              type="date"
+              label="Effective From"
+              value={formData.effective_from}
+              onChange={(e) => handleFieldChange('effective_from', e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              error={!!validationErrors.effective_from}
+            />
+            {validationErrors.effective_from && (
+              <div className="text-red-500 text-sm -mt-3">{validationErrors.effective_from}</div>
+            )}
+            <TextField
+              fullWidth
+              type="date"
+              label="Effective Until"
+              value={formData.effective_to}
+              onChange={(e) => handleFieldChange('effective_to', e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              helperText="The rate stops applying at the start of this date. Leave empty if it is still in force."
+              error={!!validationErrors.effective_to}
+            />
+            {validationErrors.effective_to && (
+              <div className="text-red-500 text-sm -mt-3">{validationErrors.effective_to}</div>
+            )}
+          </div>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog} startIcon={<X />}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            variant="contained"
+            color="primary"
+            disabled={saving}
+            startIcon={<Plus />}
+          >
+            {editingRate ? 'Update' : 'Add'} Rate
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+import { Building, Building2, Globe, MapPin, Cog, Factory, Box, Gauge } from 'lucide-react';
+import { EntityDefinition, EntityRow, FieldDefinition } from '../../components/entity-list/types';
+import { NAME_CODE, NAME_LETTERS, valueAt } from '../../components/entity-list/fields';
+import { ImportColumn } from '../../lib/hierarchyImport';
+
+export const MACHINE_ORDER_MIN = 1000;
+export const MACHINE_ORDER_MAX = 9999;
+
+const nameField = (label: string, pattern = NAME_LETTERS): FieldDefinition => ({
+  name: 'name',
+  label: `${label} Name`,
+  type: 'text',
+  required: true,
+  uppercase: true,
+  pattern,
+  helperText: pattern.message,
+});
+
+const label = (row: EntityRow, path: string) => valueAt(row, path);
+
+export const companyEntity: EntityDefinition = {
+  table: 'company',
+  singular: 'Company',
+  plural: 'Companies',
+  icon: Building2,
+  select: '*',
+  searchField: 'name',
+  companyScope: 'id',
+  defaultSort: { field: 'name', order: 'asc' },
+  columns: [
+    { key: 'name', label: 'Name', path: 'name', sortField: 'name' },
+  ],
+  fields: [nameField('Company')],
+  unique: [
+    { fields: ['name'], field: 'name', message: 'A company with this name already exists' },
+  ],
+};
+
+export const countryEntity: EntityDefinition = {
+  table: 'country',
+  singular: 'Country',
+  plural: 'Countries',
+  icon: Globe,
+  select: '*',
+  searchField: 'name',
+  defaultSort: { field: 'name', order: 'asc' },
+  columns: [
+    { key: 'name', label: 'Name', path: 'name', sortField: 'name' },
+  ],
+  fields: [nameField('Country')],
+  unique: [
+    { fields: ['name'], field: 'name', message: 'A country with this name already exists' },
+  ],
+};
+
+export const cityEntity: EntityDefinition = {
+  table: 'city',
+  singular: 'City',
+  plural: 'Cities',
+  icon: Building,
+  select: '*, country!inner(name)',
+  searchField: 'name',
+  defaultSort: { field: 'name', order: 'asc' },
+  columns: [
+    { key: 'name', label: 'Name', path: 'name', sortField: 'name' },
+    { key: 'country', label: 'Country', path: 'country.name', sortField: 'country_id' },
+  ],
+  fields: [
+    nameField('City'),
+    {
+      name: 'country_id',
+      label: 'Country',
+      type: 'select',
+      required: true,
+      requiredMessage: 'Please select a country',
+      options: { table: 'country', select: 'id, name', label: row => label(row, 'name') },
+    },
+  ],
+  unique: [
+    {
+      fields: ['name', 'country_id'],
+      field: 'name',
+      message: 'A city with this name already exists in the selected country',
+    },
+  ],
+};
+
+export const districtEntity: EntityDefinition = {
+  table: 'district',
+  singular: 'District',
+  plural: 'Districts',
+  icon: MapPin,
+  select: '*, city!inner(name, country:country_id(name))',
+  searchField: 'name',
+  defaultSort: { field: 'name', order: 'asc' },
+  columns: [
+    { key: 'name', label: 'Name', path: 'name', sortField: 'name' },
+    { key: 'city', label: 'City', path: 'city.name', sortField: 'city_id' },
+    { key: 'country', label: 'Country', path: 'city.country.name' },
+  ],
+  fields: [
+    nameField('District'),
+    {
+      name: 'city_id',
+      label: 'City',
+      type: 'select',
+      required: true,
+      requiredMessage: 'Please select a city',
+      options: {
+        table: 'city',
+        select: 'id, name, country:country_id(id, name)',
+        label: row => `${label(row, 'name')} (${label(row, 'country.name')})`,
+      },
+    },
+  ],
+  unique: [
+    {
+      fields: ['name', 'city_id'],
+      field: 'name',
+      message: 'A district with this name already exists in the selected city',
+    },
+  ],
+};
+
+export const lineTypeEntity: EntityDefinition = {
+  table: 'line_type',
+  singular: 'Line Type',
+  plural: 'Line Types',
+  icon: Cog,
+  select: '*',
+  searchField: 'name',
+  defaultSort: { field: 'name', order: 'asc' },
+  columns: [
+    { key: 'name', label: 'Name', path: 'name', sortField: 'name' },
+  ],
+  fields: [nameField('Line Type')],
+  unique: [
+    { fields: ['name'], field: 'name', message: 'A line type with this name already exists' },
+  ],
+};
+
+export const lineEntity: EntityDefinition = {
+  table: 'line',
+  singular: 'Line',
+  plural: 'Lines',
+  icon: Factory,
+  select: `
+    *,
+    company:company_id(name),
+    district:district_id(
+      name,
+      city:city_id(
+        name,
+        country:country_id(name)
+      )
+    ),
+    line_type:line_type_id(name)
+  `,
+  searchField: 'name',
+  companyScope: 'company_id',
+  defaultSort: { field: 'name', order: 'asc' },
+  columns: [
+    { key: 'name', label: 'Name', path: 'name', sortField: 'name' },
+    { key: 'company', label: 'Company', path: 'company.name', sortField: 'company_id' },
+    { key: 'district', label: 'District', path: 'district.name' },
+    { key: 'city', label: 'City', path: 'district.city.name' },
+    { key: 'country', label: 'Country', path: 'district.city.country.name' },
+    { key: 'line_type', label: 'Line Type', path: 'line_type.name' },
+  ],
+  fields: [
+    nameField('Line', NAME_CODE),
+    {
+      name: 'company_id',
+      label: 'Company',
+      type: 'select',
+      required: true,
+      requiredMessage: 'Please select a company',
+      options: { table: 'company', select: 'id, name', label: row => label(row, 'name') },
+    },
+    {
+      name: 'district_id',
+      label: 'District',
+      type: 'select',
+      required: true,
+      requiredMessage: 'Please select a district',
+      options: {
+        table: 'district',
+        select: 'id, name, city:city_id(name, country:country_id(name))',
+        label: row => `${label(row, 'name')} (${label(row, 'city.name')}, ${label(row, 'city.country.name')})`,
+      },
+    },
+    {
+      name: 'line_type_id',
+      label: 'Line Type',
+      type: 'select',
+      required: true,
+      requiredMessage: 'Please select a line type',
+      options: { table: 'line_type', select: 'id, name', label: row => label(row, 'name') },
+    },
+  ],
+  unique: [
+    {
+      fields: ['name', 'company_id', 'district_id'],
+      field: 'name',
+      message: 'A line with this name already exists in the selected company and district',
+    },
+  ],
+};
+
+export const machineEntity: EntityDefinition = {
+  table: 'machine',
+  singular: 'Machine',
+  plural: 'Machines',
+  icon: Box,
+  select: `
+    *,
+    line:line_id!inner(
+      name,
+      company_id,
+      company:company_id(name),
+      district:district_id(
+        name,
+        city:city_id(
+          name,
+          country:country_id(name)
+        )
+      )
+    )
+  `,
+  searchField: 'name',
+  companyScope: 'line.company_id',
+  defaultSort: { field: 'order', order: 'asc' },
+  columns: [
+    { key: 'name', label: 'Name', path: 'name', sortField: 'name' },
+    { key: 'order', label: 'Order', path: 'order', sortField: 'order' },
+    { key: 'line', label: 'Production Line', path: 'line.name' },
+    { key: 'company', label: 'Company', path: 'line.company.name' },
+    { key: 'district', label: 'District', path: 'line.district.name' },
+    { key: 'city', label: 'City', path: 'line.district.city.name' },
+    { key: 'country', label: 'Country', path: 'line.district.city.country.name' },
+  ],
+  fields: [
+    {
+      name: 'line_id',
+      label: 'Production Line',
+      type: 'select',
+      required: true,
+      requiredMessage: 'Please select a production line',
+      options: {
+        table: 'line',
+        select: 'id, name, company:company_id(name), district:district_id(name, city:city_id(name))',
+        label: row => `${label(row, 'name')} (${label(row, 'company.name')} - ${label(row, 'district.city.name')})`,
+      },
+    },
+    nameField('Machine', NAME_CODE),
+    {
+      name: 'order',
+      label: 'Order',
+      type: 'number',
+      required: true,
+      min: MACHINE_ORDER_MIN,
+      max: MACHINE_ORDER_MAX,
+      rangeMessage: 'Order must be a 4-digit number (1000-9999)',
+      defaultValue: String(MACHINE_ORDER_MIN),
+      // Suggest the first free order number on the selected line
+      dynamic: {
+        dependsOn: 'line_id',
+        load: async (supabase, values) => {
+          if (!values.line_id) return {};
+
+          const { data, error } = await supabase
+            .from('machine')
+            .select('order')
+            .eq('line_id', values.line_id)
+            .order('order');
+
+          if (error) throw error;
+
+          const orders = (data || []).map(m => m.order as number);
+          let nextOrder = MACHINE_ORDER_MIN;
+          while (orders.includes(nextOrder)) {
+            nextOrder++;
+          }
+
+          return {
+            value: String(nextOrder),
+            helperText: orders.length > 0 ? `Existing orders: ${orders.join(', ')}` : undefined,
+          };
+        },
+      },
+    },
+  ],
+  unique: [
+    {
+      fields: ['line_id', 'order'],
+      field: 'order',
+      message: 'This order number is already used in the selected production line',
+      constraint: 'machine_line_order_unique',
+    },
+  ],
+};
+
+export const kpiEntity: EntityDefinition = {
+  table: 'kpi',
+  singular: 'KPI',
+  plural: 'KPIs',
+  icon: Gauge,
+  select: '*',
+  searchField: 'name',
+  defaultSort: { field: 'name', order: 'asc' },
+  columns: [
+    { key: 'name', label: 'Name', path: 'name', sortField: 'name' },
+    { key: 'unit', label: 'Unit', path: 'unit', sortField: 'unit' },
+  ],
+  fields: [
+    { name: 'name', label: 'KPI Name', type: 'text', required: true },
+    { name: 'unit', label: 'Unit', type: 'text', required: true, placeholder: 'e.g., kWh, °C, %' },
+  ],
+  unique: [
+    { fields: ['name'], field: 'name', message: 'A KPI with this name already exists' },
+  ],
+};
+
+const fieldOf = (definition: EntityDefinition, name: string) =>
+  definition.fields.find(field => field.name === name)!;
+
+// Columns of the bulk import, from the top of the hierarchy down. Each reuses
+// the validation of the matching field in the entity's add/edit dialog.
+export const hierarchyImportColumns: ImportColumn[] = [
+  { key: 'country', label: 'Country', field: fieldOf(countryEntity, 'name'), requires: [] },
+  { key: 'city', label: 'City', field: fieldOf(cityEntity, 'name'), requires: ['country'] },
+  { key: 'district', label: 'District', field: fieldOf(districtEntity, 'name'), requires: ['city'] },
+  { key: 'company', label: 'Company', field: fieldOf(companyEntity, 'name'), requires: [] },
+  { key: 'line_type', label: 'Line Type', field: fieldOf(lineTypeEntity, 'name'), requires: [] },
+  { key: 'line', label: 'Production Line', field: fieldOf(lineEntity, 'name'), requires: ['company', 'district'] },
+  { key: 'machine', label: 'Machine', field: fieldOf(machineEntity, 'name'), requires: ['line', 'order'] },
+  { key: 'order', label: 'Order', field: fieldOf(machineEntity, 'order'), requires: ['machine'] },
+];
@@ -0,0 +1,1314 @@
+// Generated by `npm run gen:types` (supabase gen types typescript). Do not
+// edit by hand; change the schema with a migration and regenerate.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      alarm: {
+        Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          assigned_to: string | null
+          assigned_to_email: string | null
+          cleared_at: string | null
+          company_id: string
+          created_at: string
+          escalated_at: string | null
+          id: string
+          line_id: string | null
+          machine_id: string | null
+          raised_at: string
+          resolved_at: string | null
+          resolved_by: string | null
+          rule_id: string | null
+          status: string
+          updated_at: string | null
+          utility_type: string
+          value: number | null
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          assigned_to?: string | null
+          assigned_to_email?: string | null
+          cleared_at?: string | null
+          company_id: string
+          created_at?: string
+          escalated_at?: string | null
+          id?: string
+          line_id?: string | null
+          machine_id?: string | null
+          raised_at: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          rule_id?: string | null
+          status?: string
+          updated_at?: string | null
+          utility_type: string
+          value?: number | null
+        }
+        Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          assigned_to?: string | null
+          assigned_to_email?: string | null
+          cleared_at?: string | null
+          company_id?: string
+          created_at?: string
+          escalated_at?: string | null
+          id?: string
+          line_id?: string | null
+          machine_id?: string | null
+          raised_at?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          rule_id?: string | null
+          status?: string
+          updated_at?: string | null
+          utility_type?: string
+          value?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alarm_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "company"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alarm_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "line"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alarm_machine_id_fkey"
+            columns: ["machine_id"]
+            isOneToOne: false
+            referencedRelation: "machine"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alarm_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "alert_rule"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alarm_activity: {
+        Row: {
+          action: string
+          alarm_id: string
+          comment: string | null
+          created_at: string
+          id: string
+          target_email: string | null
+          user_email: string | null
+          user_id: string | null
+        }
+        Insert: {
+          action: string
+          alarm_id: string
+          comment?: string | null
+          created_at?: string
+          id?: string
+          target_email?: string | null
+          user_email?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          alarm_id?: string
+          comment?: string | null
+          created_at?: string
+          id?: string
+          target_email?: string | null
+          user_email?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alarm_activity_alarm_id_fkey"
+            columns: ["alarm_id"]
+            isOneToOne: false
+            referencedRelation: "alarm"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_event: {
+        Row: {
+          baseline: number | null
+          company_id: string
+          created_at: string
+          from_level: string
+          id: string
+          line_id: string | null
+          machine_id: string | null
+          occurred_at: string
+          rule_id: string | null
+          to_level: string
+          utility_type: string
+          value: number | null
+        }
+        Insert: {
+          baseline?: number | null
+          company_id: string
+          created_at?: string
+          from_level: string
+          id?: string
+          line_id?: string | null
+          machine_id?: string | null
+          occurred_at: string
+          rule_id?: string | null
+          to_level: string
+          utility_type: string
+          value?: number | null
+        }
+        Update: {
+          baseline?: number | null
+          company_id?: string
+          created_at?: string
+          from_level?: string
+          id?: string
+          line_id?: string | null
+          machine_id?: string | null
+          occurred_at?: string
+          rule_id?: string | null
+          to_level?: string
+          utility_type?: string
+          value?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_event_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "company"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_event_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "line"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_event_machine_id_fkey"
+            columns: ["machine_id"]
+            isOneToOne: false
+            referencedRelation: "machine"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_event_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "alert_rule"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_rule: {
+        Row: {
+          baseline_days: number
+          company_id: string | null
+          created_at: string
+          created_by: string
+          critical_threshold: number
+          enabled: boolean
+          escalate_after_minutes: number | null
+          escalate_to: string | null
+          hysteresis: number
+          id: string
+          line_id: string | null
+          machine_id: string | null
+          min_duration_minutes: number
+          threshold_type: string
+          updated_at: string | null
+          updated_by: string | null
+          utility_type: string
+          warning_threshold: number
+          window_minutes: number
+        }
+        Insert: {
+          baseline_days?: number
+          company_id?: string | null
+          created_at?: string
+          created_by: string
+          critical_threshold: number
+          enabled?: boolean
+          escalate_after_minutes?: number | null
+          escalate_to?: string | null
+          hysteresis?: number
+          id?: string
+          line_id?: string | null
+          machine_id?: string | null
+          min_duration_minutes?: number
+          threshold_type?: string
+          updated_at?: string | null
+          updated_by?: string | null
+          utility_type: string
+          warning_threshold: number
+          window_minutes?: number
+        }
+        Update: {
+          baseline_days?: number
+          company_id?: string | null
+          created_at?: string
+          created_by?: string
+          critical_threshold?: number
+          enabled?: boolean
+          escalate_after_minutes?: number | null
+          escalate_to?: string | null
+          hysteresis?: number
+          id?: string
+          line_id?: string | null
+          machine_id?: string | null
+          min_duration_minutes?: number
+          threshold_type?: string
+          updated_at?: string | null
+          updated_by?: string | null
+          utility_type?: string
+          warning_threshold?: number
+          window_minutes?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_rule_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "company"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_rule_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "line"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_rule_machine_id_fkey"
+            columns: ["machine_id"]
+            isOneToOne: false
+            referencedRelation: "machine"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_state: {
+        Row: {
+          baseline: number | null
+          changed_at: string
+          company_id: string
+          evaluated_at: string
+          id: string
+          level: string
+          line_id: string | null
+          machine_id: string | null
+          pending_level: string | null
+          pending_since: string | null
+          rule_id: string | null
+          utility_type: string
+          value: number | null
+        }
+        Insert: {
+          baseline?: number | null
+          changed_at?: string
+          company_id: string
+          evaluated_at: string
+          id?: string
+          level?: string
+          line_id?: string | null
+          machine_id?: string | null
+          pending_level?: string | null
+          pending_since?: string | null
+          rule_id?: string | null
+          utility_type: string
+          value?: number | null
+        }
+        Update: {
+          baseline?: number | null
+          changed_at?: string
+          company_id?: string
+          evaluated_at?: string
+          id?: string
+          level?: string
+          line_id?: string | null
+          machine_id?: string | null
+          pending_level?: string | null
+          pending_since?: string | null
+          rule_id?: string | null
+          utility_type?: string
+          value?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_state_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "company"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_state_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "line"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_state_machine_id_fkey"
+            columns: ["machine_id"]
+            isOneToOne: false
+            referencedRelation: "machine"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_state_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "alert_rule"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: string
+          changed_at: string
+          changed_by: string | null
+          changed_by_email: string | null
+          company_id: string | null
+          id: number
+          new_values: Json | null
+          old_values: Json | null
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          action: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          company_id?: string | null
+          id?: never
+          new_values?: Json | null
+          old_values?: Json | null
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          action?: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          company_id?: string | null
+          id?: never
+          new_values?: Json | null
+          old_values?: Json | null
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
+      city: {
+        Row: {
+          archived_at: string | null
+          archived_by: string | null
+          country_id: string
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          archived_at?: string | null
+          archived_by?: string | null
+          country_id: string
+          created_at?: string
+          created_by: string
+          id?: string
+          name: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          archived_at?: string | null
+          archived_by?: string | null
+          country_id?: string
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "city_country_id_fkey"
+            columns: ["country_id"]
+            isOneToOne: false
+            referencedRelation: "country"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      company: {
+        Row: {
+          archived_at: string | null
+          archived_by: string | null
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          archived_at?: string | null
+          archived_by?: string | null
+          created_at?: string
+          created_by: string
+          id?: string
+          name: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          archived_at?: string | null
+          archived_by?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      country: {
+        Row: {
+          archived_at: string | null
+          archived_by: string | null
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          archived_at?: string | null
+          archived_by?: string | null
+          created_at?: string
+          created_by: string
+          id?: string
+          name: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          archived_at?: string | null
+          archived_by?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      district: {
+        Row: {
+          archived_at: string | null
+          archived_by: string | null
+          city_id: string
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          archived_at?: string | null
+          archived_by?: string | null
+          city_id: string
+          created_at?: string
+          created_by: string
+          id?: string
+          name: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          archived_at?: string | null
+          archived_by?: string | null
+          city_id?: string
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "district_city_id_fkey"
+            columns: ["city_id"]
+            isOneToOne: false
+            referencedRelation: "city"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      energy_consumption: {
+        Row: {
+          consumption: number
+          cost: number
+          created_at: string
+          created_by: string
+          factory_id: string
+          id: string
+          line_id: string | null
+          machine_id: string | null
+          timestamp: string
+          updated_at: string | null
+          updated_by: string | null
+          utility_type: string
+        }
+        Insert: {
+          consumption: number
+          cost?: number
+          created_at?: string
+          created_by: string
+          factory_id: string
+          id?: string
+          line_id?: string | null
+          machine_id?: string | null
+          timestamp: string
+          updated_at?: string | null
+          updated_by?: string | null
+          utility_type: string
+        }
+        Update: {
+          consumption?: number
+          cost?: number
+          created_at?: string
+          created_by?: string
+          factory_id?: string
+          id?: string
+          line_id?: string | null
+          machine_id?: string | null
+          timestamp?: string
+          updated_at?: string | null
+          updated_by?: string | null
+          utility_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "energy_consumption_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "company"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "energy_consumption_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "line"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "energy_consumption_machine_id_fkey"
+            columns: ["machine_id"]
+            isOneToOne: false
+            referencedRelation: "machine"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goal_status: {
+        Row: {
+          changed_at: string
+          evaluated_at: string
+          goal_id: string
+          projected: number | null
+          status: string
+        }
+        Insert: {
+          changed_at?: string
+          evaluated_at: string
+          goal_id: string
+          projected?: number | null
+          status: string
+        }
+        Update: {
+          changed_at?: string
+          evaluated_at?: string
+          goal_id?: string
+          projected?: number | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_status_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: true
+            referencedRelation: "sustainability_goal"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kpi: {
+        Row: {
+          archived_at: string | null
+          archived_by: string | null
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+          unit: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          archived_at?: string | null
+          archived_by?: string | null
+          created_at?: string
+          created_by: string
+          id?: string
+          name: string
+          unit: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          archived_at?: string | null
+          archived_by?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+          unit?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      line: {
+        Row: {
+          archived_at: string | null
+          archived_by: string | null
+          company_id: string
+          created_at: string
+          created_by: string
+          district_id: string
+          id: string
+          line_type_id: string
+          name: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          archived_at?: string | null
+          archived_by?: string | null
+          company_id: string
+          created_at?: string
+          created_by: string
+          district_id: string
+          id?: string
+          line_type_id: string
+          name: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          archived_at?: string | null
+          archived_by?: string | null
+          company_id?: string
+          created_at?: string
+          created_by?: string
+          district_id?: string
+          id?: string
+          line_type_id?: string
+          name?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "line_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "company"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "line_district_id_fkey"
+            columns: ["district_id"]
+            isOneToOne: false
+            referencedRelation: "district"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "line_line_type_id_fkey"
+            columns: ["line_type_id"]
+            isOneToOne: false
+            referencedRelation: "line_type"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      line_type: {
+        Row: {
+          archived_at: string | null
+          archived_by: string | null
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          archived_at?: string | null
+          archived_by?: string | null
+          created_at?: string
+          created_by: string
+          id?: string
+          name: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          archived_at?: string | null
+          archived_by?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      machine: {
+        Row: {
+          archived_at: string | null
+          archived_by: string | null
+          created_at: string
+          created_by: string
+          id: string
+          line_id: string
+          name: string
+          order: number
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          archived_at?: string | null
+          archived_by?: string | null
+          created_at?: string
+          created_by: string
+          id?: string
+          line_id: string
+          name: string
+          order: number
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          archived_at?: string | null
+          archived_by?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          line_id?: string
+          name?: string
+          order?: number
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "machine_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "line"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      machine_metric: {
+        Row: {
+          efficiency: number
+          id: string
+          machine_id: string
+          oee: number
+          recorded_at: string
+          uptime: number
+        }
+        Insert: {
+          efficiency: number
+          id?: string
+          machine_id: string
+          oee: number
+          recorded_at?: string
+          uptime: number
+        }
+        Update: {
+          efficiency?: number
+          id?: string
+          machine_id?: string
+          oee?: number
+          recorded_at?: string
+          uptime?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "machine_metric_machine_id_fkey"
+            columns: ["machine_id"]
+            isOneToOne: false
+            referencedRelation: "machine"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification: {
+        Row: {
+          acknowledged_at: string | null
+          alert_event_id: string | null
+          body: string | null
+          company_id: string | null
+          created_at: string
+          emailed_at: string | null
+          id: string
+          kind: string
+          level: string
+          link: string | null
+          machine_id: string | null
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          alert_event_id?: string | null
+          body?: string | null
+          company_id?: string | null
+          created_at?: string
+          emailed_at?: string | null
+          id?: string
+          kind: string
+          level?: string
+          link?: string | null
+          machine_id?: string | null
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          alert_event_id?: string | null
+          body?: string | null
+          company_id?: string | null
+          created_at?: string
+          emailed_at?: string | null
+          id?: string
+          kind?: string
+          level?: string
+          link?: string | null
+          machine_id?: string | null
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_alert_event_id_fkey"
+            columns: ["alert_event_id"]
+            isOneToOne: false
+            referencedRelation: "alert_event"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "company"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_machine_id_fkey"
+            columns: ["machine_id"]
+            isOneToOne: false
+            referencedRelation: "machine"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sustainability_goal: {
+        Row: {
+          created_at: string
+          created_by: string
+          factory_id: string
+          id: string
+          target_consumption: number
+          target_date: string
+          updated_at: string | null
+          updated_by: string | null
+          utility_type: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          factory_id: string
+          id?: string
+          target_consumption: number
+          target_date: string
+          updated_at?: string | null
+          updated_by?: string | null
+          utility_type: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          factory_id?: string
+          id?: string
+          target_consumption?: number
+          target_date?: string
+          updated_at?: string | null
+          updated_by?: string | null
+          utility_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sustainability_goal_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "company"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_company: {
+        Row: {
+          company_id: string
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_company_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "company"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_preference: {
+        Row: {
+          created_at: string
+          default_date_range: string
+          digest_sent_at: string | null
+          email_digest: string
+          email_notifications: boolean
+          energy_unit: string
+          realtime_alerts: boolean
+          rows_per_page: number
+          theme: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          default_date_range?: string
+          digest_sent_at?: string | null
+          email_digest?: string
+          email_notifications?: boolean
+          energy_unit?: string
+          realtime_alerts?: boolean
+          rows_per_page?: number
+          theme?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          default_date_range?: string
+          digest_sent_at?: string | null
+          email_digest?: string
+          email_notifications?: boolean
+          energy_unit?: string
+          realtime_alerts?: boolean
+          rows_per_page?: number
+          theme?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_profile: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          role: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id: string
+          role?: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          role?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      utility_rate: {
+        Row: {
+          created_at: string
+          created_by: string
+          effective_from: string
+          effective_to: string | null
+          id: string
+          rate: number
+          updated_at: string | null
+          updated_by: string | null
+          utility_type: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          effective_from: string
+          effective_to?: string | null
+          id?: string
+          rate: number
+          updated_at?: string | null
+          updated_by?: string | null
+          utility_type: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          effective_from?: string
+          effective_to?: string | null
+          id?: string
+          rate?: number
+          updated_at?: string | null
+          updated_by?: string | null
+          utility_type?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      alarm_assignees: {
+        Args: {
+          p_alarm_id: string
+        }
+        Returns: {
+          id: string
+          email: string
+        }[]
+      }
+      can_access_company: {
+        Args: {
+          p_company_id: string
+        }
+        Returns: boolean
+      }
+      delete_entity: {
+        Args: {
+          p_table: string
+          p_id: string
+          p_strategy?: string
+          p_reassign_to?: string | null
+        }
+        Returns: undefined
+      }
+      energy_consumption_buckets: {
+        Args: {
+          p_from: string
+          p_to: string
+          p_bucket?: string
+          p_utility_type?: string
+          p_factory_ids?: string[] | null
+          p_time_zone?: string | null
+        }
+        Returns: {
+          bucket: string
+          consumption: number
+          cost: number
+        }[]
+      }
+      entity_impact: {
+        Args: {
+          p_table: string
+          p_id: string
+        }
+        Returns: {
+          table_name: string
+          row_count: number
+          direct: boolean
+        }[]
+      }
+      entity_impact_walk: {
+        Args: {
+          p_table: string
+          p_ids: string[]
+          p_direct: boolean
+        }
+        Returns: {
+          table_name: string
+          row_count: number
+          direct: boolean
+        }[]
+      }
+      entity_relations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          parent_table: string
+          child_table: string
+          child_column: string
+        }[]
+      }
+      factory_status: {
+        Args: {
+          p_from: string
+          p_to: string
+          p_company_ids?: string[] | null
+          p_scope_level?: string | null
+          p_scope_id?: string | null
+        }
+        Returns: {
+          company_id: string
+          name: string
+          metric_count: number
+          oee: number | null
+          efficiency: number | null
+          uptime: number | null
+          energy: number
+        }[]
+      }
+      import_hierarchy: {
+        Args: {
+          p_rows: Json
+          p_dry_run?: boolean
+        }
+        Returns: Json
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      plant_scope_companies: {
+        Args: {
+          p_level: string
+          p_id: string
+        }
+        Returns: string[]
+      }
+      plant_scope_lines: {
+        Args: {
+          p_level: string
+          p_id: string
+        }
+        Returns: {
+          line_id: string
+          company_id: string
+        }[]
+      }
+      recompute_energy_costs: {
+        Args: {
+          p_utility_type: string
+          p_from: string
+          p_to?: string | null
+        }
+        Returns: number
+      }
+      reevaluate_alert_rules: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      reorder_line_machines: {
+        Args: {
+          p_line_id: string
+          p_machine_ids: string[]
+          p_compact?: boolean
+        }
+        Returns: undefined
+      }
+      update_alarm: {
+        Args: {
+          p_alarm_id: string
+          p_action: string
+          p_comment?: string | null
+          p_assignee?: string | null
+        }
+        Returns: undefined
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<
+  TableName extends keyof PublicSchema["Tables"],
+> = PublicSchema["Tables"][TableName]["Row"]
+
+export type TablesInsert<
+  TableName extends keyof PublicSchema["Tables"],
+> = PublicSchema["Tables"][TableName]["Insert"]
+
+export type TablesUpdate<
+  TableName extends keyof PublicSchema["Tables"],
+> = PublicSchema["Tables"][TableName]["Update"]
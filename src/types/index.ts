@@ -1,3 +1,5 @@
+import { Tables } from './database';
+
 export interface User {
   id: string;
   email: string;
@@ -11,28 +13,35 @@ export interface FactoryLocation {
   created_at: string;
 }
 
-export interface EnergyConsumption {
-  id: string;
-  factory_id: string;
-  utility_type: 'electricity' | 'water' | 'gas';
-  consumption: number;
-  timestamp: string;
-  cost: number;
-}
+export type UtilityType = 'electricity' | 'water' | 'gas';
 
-export interface UtilityRate {
-  id: string;
-  utility_type: 'electricity' | 'water' | 'gas';
-  rate: number;
-  effective_from: string;
-  effective_to: string | null;
-}
+// utility_type is a text column restricted by a check constraint, so the
+// generated schema types it as string; rows are narrowed where they are fetched
+type WithUtilityType<T> = Omit<T, 'utility_type'> & { utility_type: UtilityType };
 
-export interface SustainabilityGoal {
+export type Company = Tables<'company'>;
+export type Country = Tables<'country'>;
+export type City = Tables<'city'>;
+export type District = Tables<'district'>;
+export type LineType = Tables<'line_type'>;
+export type Line = Tables<'line'>;
+export type Machine = Tables<'machine'>;
+export type Kpi = Tables<'kpi'>;
+export type MachineMetric = Tables<'machine_metric'>;
+export type EnergyConsumption = WithUtilityType<Tables<'energy_consumption'>>;
+export type UtilityRate = WithUtilityType<Tables<'utility_rate'>>;
+export type SustainabilityGoal = WithUtilityType<Tables<'sustainability_goal'>>;
+
+export type FactoryStatusLevel = 'running' | 'warning' | 'alarm';
+
+export interface FactoryStatus {
   id: string;
-  factory_id: string;
-  utility_type: 'electricity' | 'water' | 'gas';
-  target_consumption: number;
-  target_date: string;
-  created_at: string;
+  name: string;
+  // no_data: no machine metrics in the period and no raised energy alert
+  status: FactoryStatusLevel | 'no_data';
+  // Null when the factory reported no machine metrics in the period
+  oee_score: number | null;
+  energy_usage: number;
+  efficiency: number | null;
+  uptime: number | null;
 }
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_ANON_KEY: string;
+  // Organization domain pre-filled on the Microsoft sign-in page, e.g. "contoso.com"
+  readonly VITE_ENTRA_DOMAIN_HINT?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,78 @@
+// Outgoing mail for the edge functions. MAIL_TRANSPORT picks how it leaves:
+//
+//   smtp   (default) through SMTP_HOST, see below
+//   log    printed to the function log instead of sent, for development
+//
+// Another transport is one more entry in TRANSPORTS.
+//
+// SMTP secrets:
+//   SMTP_HOST
+//   SMTP_PORT        defaults to 465 with SMTP_SECURE, otherwise 587
+//   SMTP_SECURE      "true" for TLS from the start (SMTPS), otherwise
+//                    STARTTLS is used when the server offers it
+//   SMTP_USER        optional, with SMTP_PASSWORD
+//   SMTP_PASSWORD
+//   MAIL_FROM        e.g. "Sentinel <sentinel@example.com>"
+//
+// Hosted Supabase blocks outgoing connections on ports 25 and 587, so use
+// port 465 there. scripts/mailhog/ has a local SMTP sink for testing.
+
+import nodemailer from 'npm:nodemailer@6';
+import { env } from './http.ts';
+
+export interface Mail {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  send(mail: Mail): Promise<void>;
+  close(): void;
+}
+
+function smtpTransport(): MailTransport {
+  const secure = Deno.env.get('SMTP_SECURE') === 'true';
+  const user = Deno.env.get('SMTP_USER');
+  const from = env('MAIL_FROM');
+
+  const transporter = nodemailer.createTransport({
+    host: env('SMTP_HOST'),
+    port: Number(Deno.env.get('SMTP_PORT') || (secure ? 465 : 587)),
+    secure,
+    auth: user ? { user, pass: env('SMTP_PASSWORD') } : undefined,
+    // One connection for the whole run rather than one per message
+    pool: true,
+  });
+
+  return {
+    async send(mail) {
+      await transporter.sendMail({ from, ...mail });
+    },
+    close() {
+      transporter.close();
+    },
+  };
+}
+
+function logTransport(): MailTransport {
+  return {
+    async send(mail) {
+      console.log(`Mail to ${mail.to}: ${mail.subject}\n\n${mail.text}`);
+    },
+    close() {},
+  };
+}
+
+const TRANSPORTS: Record<string, () => MailTransport> = {
+  smtp: smtpTransport,
+  log: logTransport,
+};
+
+export function createTransport(): MailTransport {
+  const name = Deno.env.get('MAIL_TRANSPORT') || 'smtp';
+  const transport = TRANSPORTS[name];
+  if (!transport) throw new Error(`Unknown MAIL_TRANSPORT ${name}`);
+  return transport();
+}
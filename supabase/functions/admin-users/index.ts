@@ -0,0 +1,205 @@
+// User administration for the Users tab in Settings. The browser only holds
+// the anon key, so everything that needs the auth admin API runs here with
+// the service role, after checking that the caller is an admin.
+//
+// POST { action, ... }:
+//   list                                    every user with role, companies and sign-in details
+//   invite      { email, role, companyIds, redirectTo } sends an invitation email
+//   update      { userId, role, companyIds } changes role and company scope
+//   deactivate  { userId } / reactivate { userId }
+//   resetPassword { userId, redirectTo }    sends a password reset email
+//
+// An empty companyIds leaves the user unscoped (every company), as in
+// can_access_company(). Admins cannot demote or deactivate themselves.
+// Invite and reset emails link to the app's /set-password page, where the
+// user chooses their password; add it to the auth redirect URLs.
+
+import { createClient, SupabaseClient, User } from 'jsr:@supabase/supabase-js@2';
+import { HttpError, corsHeaders, env, json } from '../_shared/http.ts';
+
+type Role = 'admin' | 'user';
+
+// Long enough to mean "until reactivated"
+const DEACTIVATED_FOR = '876000h';
+
+const ROLES: Role[] = ['admin', 'user'];
+
+const isDeactivated = (user: User) =>
+  !!user.banned_until && new Date(user.banned_until).getTime() > Date.now();
+
+const providersOf = (user: User): string[] =>
+  (user.app_metadata?.providers as string[] | undefined) || [user.app_metadata?.provider || 'email'];
+
+const parseRole = (value: unknown): Role => {
+  if (!ROLES.includes(value as Role)) throw new HttpError('Role must be admin or user', 400);
+  return value as Role;
+};
+
+// Only the set-password page can finish an invite or reset; anything else
+// falls back to the auth server's site URL
+const SET_PASSWORD_PATH = '/set-password';
+
+const parsePasswordRedirect = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  try {
+    const url = new URL(value);
+    return url.pathname === SET_PASSWORD_PATH ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const parseCompanyIds = (value: unknown): string[] => {
+  if (!Array.isArray(value) || value.some(id => typeof id !== 'string')) {
+    throw new HttpError('companyIds must be a list of company ids', 400);
+  }
+  return value;
+};
+
+async function listUsers(admin: SupabaseClient) {
+  const users: User[] = [];
+  for (let page = 1; ; page++) {
+    const { data, error } = await admin.auth.admin.listUsers({ page, perPage: 1000 });
+    if (error) throw error;
+    users.push(...data.users);
+    if (data.users.length < 1000) break;
+  }
+
+  const [{ data: profiles, error: profileError }, { data: companies, error: companyError }] = await Promise.all([
+    admin.from('user_profile').select('id, role'),
+    admin.from('user_company').select('user_id, company_id'),
+  ]);
+  if (profileError) throw profileError;
+  if (companyError) throw companyError;
+
+  return users.map(user => ({
+    id: user.id,
+    email: user.email || '',
+    name: (user.user_metadata?.name as string | undefined) || null,
+    role: profiles?.find(profile => profile.id === user.id)?.role || 'user',
+    companyIds: (companies || []).filter(row => row.user_id === user.id).map(row => row.company_id),
+    providers: providersOf(user),
+    createdAt: user.created_at,
+    invitedAt: user.invited_at || null,
+    lastSignInAt: user.last_sign_in_at || null,
+    confirmed: !!user.email_confirmed_at,
+    deactivated: isDeactivated(user),
+  }));
+}
+
+async function saveAccess(admin: SupabaseClient, userId: string, email: string, role: Role, companyIds: string[]) {
+  const { error: profileError } = await admin
+    .from('user_profile')
+    .upsert({ id: userId, email, role, updated_at: new Date().toISOString() });
+  if (profileError) throw profileError;
+
+  const { error: deleteError } = await admin.from('user_company').delete().eq('user_id', userId);
+  if (deleteError) throw deleteError;
+
+  if (companyIds.length > 0) {
+    const { error: insertError } = await admin
+      .from('user_company')
+      .insert(companyIds.map(companyId => ({ user_id: userId, company_id: companyId })));
+    if (insertError) throw insertError;
+  }
+}
+
+async function getUser(admin: SupabaseClient, userId: unknown): Promise<User> {
+  if (typeof userId !== 'string') throw new HttpError('userId is required', 400);
+  const { data, error } = await admin.auth.admin.getUserById(userId);
+  if (error || !data.user) throw new HttpError('User not found', 404);
+  return data.user;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  try {
+    // The caller's own client, to check who they are and that they are an admin
+    const caller = createClient(env('SUPABASE_URL'), env('SUPABASE_ANON_KEY'), {
+      global: { headers: { Authorization: req.headers.get('Authorization') || '' } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+    const { data: { user: me } } = await caller.auth.getUser();
+    if (!me) return json({ error: 'You must be logged in to perform this action' }, 401);
+
+    const { data: isAdmin, error: adminError } = await caller.rpc('is_admin');
+    if (adminError) throw adminError;
+    if (!isAdmin) return json({ error: 'Only administrators can manage users' }, 403);
+
+    const admin = createClient(env('SUPABASE_URL'), env('SUPABASE_SERVICE_ROLE_KEY'), {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+
+    const body = await req.json().catch(() => ({}));
+
+    switch (body.action) {
+      case 'list':
+        return json({ users: await listUsers(admin) });
+
+      case 'invite': {
+        const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) throw new HttpError('Enter a valid email address', 400);
+        const role = parseRole(body.role);
+        const companyIds = parseCompanyIds(body.companyIds);
+
+        const { data, error } = await admin.auth.admin.inviteUserByEmail(email, {
+          redirectTo: parsePasswordRedirect(body.redirectTo),
+        });
+        if (error) {
+          throw new HttpError(/already|registered|exists/i.test(error.message)
+            ? 'A user with this email already exists'
+            : error.message, 400);
+        }
+
+        await saveAccess(admin, data.user.id, email, role, companyIds);
+        return json({ userId: data.user.id });
+      }
+
+      case 'update': {
+        const user = await getUser(admin, body.userId);
+        const role = parseRole(body.role);
+        if (user.id === me.id && role !== 'admin') {
+          throw new HttpError('You cannot remove your own administrator role', 400);
+        }
+
+        await saveAccess(admin, user.id, user.email || '', role, parseCompanyIds(body.companyIds));
+        return json({ userId: user.id });
+      }
+
+      case 'deactivate':
+      case 'reactivate': {
+        const user = await getUser(admin, body.userId);
+        if (user.id === me.id) throw new HttpError('You cannot deactivate your own account', 400);
+
+        const { error } = await admin.auth.admin.updateUserById(user.id, {
+          ban_duration: body.action === 'deactivate' ? DEACTIVATED_FOR : 'none',
+        });
+        if (error) throw error;
+        return json({ userId: user.id });
+      }
+
+      case 'resetPassword': {
+        const user = await getUser(admin, body.userId);
+        if (!providersOf(user).includes('email') || !user.email) {
+          throw new HttpError('This user signs in with Entra ID or LDAP; their password is managed there', 400);
+        }
+
+        const { error } = await admin.auth.resetPasswordForEmail(user.email, {
+          redirectTo: parsePasswordRedirect(body.redirectTo),
+        });
+        if (error) throw error;
+        return json({ userId: user.id });
+      }
+
+      default:
+        return json({ error: 'Unknown action' }, 400);
+    }
+  } catch (err) {
+    if (err instanceof HttpError) return json({ error: err.message }, err.status);
+
+    console.error('User administration failed:', err);
+    return json({ error: 'The request failed. Please try again.' }, 500);
+  }
+});
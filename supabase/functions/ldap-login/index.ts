@@ -0,0 +1,223 @@
+// Signs a user in with their directory username and password.
+//
+// 1. Binds with the service account and finds the user's entry.
+// 2. Binds as that entry with the submitted password.
+// 3. Finds the Supabase user linked to the entry, creating one on first
+//    sign-in, and sets their role from ldap_group_role. Existing accounts
+//    are only used when an admin has linked them in ldap_identity.
+// 4. Returns a Supabase session, which the client installs with setSession.
+//
+// Secrets (supabase secrets set ...):
+//   LDAP_URL             ldaps://dc1.example.com:636
+//   LDAP_BIND_DN         service account that can search for users
+//   LDAP_BIND_PASSWORD
+//   LDAP_BASE_DN         where users are searched, e.g. dc=example,dc=com
+//   LDAP_USER_FILTER     optional, {username} is replaced by the escaped
+//                        username; defaults to Active Directory's
+//                        (&(objectClass=user)(sAMAccountName={username})).
+//                        Narrow it to restrict who may sign in, e.g. with a
+//                        memberOf clause.
+//   LDAP_GROUP_BASE_DN   optional; when set, groups whose member attribute
+//                        lists the user are read from here in addition to
+//                        the user's memberOf, for servers without memberOf
+//   LDAP_EMAIL_DOMAIN    optional; builds username@domain for entries
+//                        without a mail attribute
+//
+// SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY are provided
+// by the platform. scripts/ldap/ has an OpenLDAP container for local testing.
+
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { Client, Entry } from 'npm:ldapts@7';
+import { HttpError, corsHeaders, env, json } from '../_shared/http.ts';
+
+const DEFAULT_USER_FILTER = '(&(objectClass=user)(sAMAccountName={username}))';
+
+// Deliberately the same for an unknown user and a wrong password
+const INVALID_CREDENTIALS = 'Invalid username or password';
+
+// RFC 4515 escaping, so a username can't widen the search filter
+const escapeFilter = (value: string) =>
+  value.replace(/[\\*()\0]/g, c => `\\${c.charCodeAt(0).toString(16).padStart(2, '0')}`);
+
+const asStrings = (value: Entry[string] | undefined): string[] =>
+  (Array.isArray(value) ? value : value === undefined ? [] : [value]).map(String);
+
+interface DirectoryUser {
+  dn: string;
+  email: string;
+  name: string;
+  groups: string[];
+}
+
+async function authenticate(username: string, password: string): Promise<DirectoryUser> {
+  const client = new Client({ url: env('LDAP_URL'), timeout: 10000, connectTimeout: 10000 });
+
+  try {
+    await client.bind(env('LDAP_BIND_DN'), env('LDAP_BIND_PASSWORD'));
+
+    const filter = (Deno.env.get('LDAP_USER_FILTER') || DEFAULT_USER_FILTER)
+      .replaceAll('{username}', escapeFilter(username));
+    const { searchEntries } = await client.search(env('LDAP_BASE_DN'), {
+      scope: 'sub',
+      filter,
+      attributes: ['dn', 'mail', 'displayName', 'cn', 'memberOf'],
+      sizeLimit: 2,
+    });
+
+    // An ambiguous filter must not let the user pick whose entry they bind as
+    if (searchEntries.length !== 1) throw new HttpError(INVALID_CREDENTIALS, 401);
+    const entry = searchEntries[0];
+
+    const groups = asStrings(entry.memberOf);
+    const groupBase = Deno.env.get('LDAP_GROUP_BASE_DN');
+    if (groupBase) {
+      const { searchEntries: groupEntries } = await client.search(groupBase, {
+        scope: 'sub',
+        filter: `(|(member=${escapeFilter(entry.dn)})(uniqueMember=${escapeFilter(entry.dn)}))`,
+        attributes: ['dn'],
+      });
+      groups.push(...groupEntries.map(group => group.dn));
+    }
+
+    // Binding as the user is the password check
+    try {
+      await client.bind(entry.dn, password);
+    } catch {
+      throw new HttpError(INVALID_CREDENTIALS, 401);
+    }
+
+    const domain = Deno.env.get('LDAP_EMAIL_DOMAIN');
+    const email = asStrings(entry.mail)[0] || (domain ? `${username}@${domain}` : '');
+    if (!email) throw new HttpError('Your directory account has no email address. Contact an administrator.', 403);
+
+    return {
+      dn: entry.dn,
+      email: email.toLowerCase(),
+      name: asStrings(entry.displayName)[0] || asStrings(entry.cn)[0] || username,
+      groups: [...new Set(groups.map(group => group.toLowerCase()))],
+    };
+  } finally {
+    await client.unbind().catch(() => {});
+  }
+}
+
+const ACCOUNT_EXISTS = 'An account with your email already exists. Ask an administrator to link it to your directory account.';
+
+// LIKE wildcards in an email match themselves
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, c => `\\${c}`);
+
+// The Supabase user for a directory entry: the one linked in ldap_identity,
+// else a new one. An existing account with the same email, which may be an
+// email or Entra account, is never taken over: its role would follow the
+// directory's groups from then on, so only an admin can link it.
+async function provisionUser(admin: SupabaseClient, user: DirectoryUser, username: string): Promise<string> {
+  const { data: identity, error: identityError } = await admin
+    .from('ldap_identity')
+    .select('user_id')
+    .eq('dn', user.dn)
+    .maybeSingle();
+  if (identityError) throw identityError;
+
+  let userId: string | undefined = identity?.user_id;
+
+  if (!userId) {
+    // Directory mail is lowercased; stored emails may not be
+    const { data: profiles, error: profileError } = await admin
+      .from('user_profile')
+      .select('id')
+      .ilike('email', escapeLike(user.email))
+      .limit(1);
+    if (profileError) throw profileError;
+    if (profiles && profiles.length > 0) throw new HttpError(ACCOUNT_EXISTS, 409);
+
+    const { data, error } = await admin.auth.admin.createUser({
+      email: user.email,
+      email_confirm: true,
+      user_metadata: { name: user.name, ldap_username: username },
+      app_metadata: { provider: 'ldap', providers: ['ldap'] },
+    });
+    if (error) throw new HttpError(ACCOUNT_EXISTS, 409);
+    userId = data.user.id;
+  }
+
+  const { error: linkError } = await admin
+    .from('ldap_identity')
+    .upsert({ user_id: userId, dn: user.dn, username, last_sign_in_at: new Date().toISOString() });
+  if (linkError) throw linkError;
+
+  const { error: insertError } = await admin
+    .from('user_profile')
+    .upsert({ id: userId, email: user.email }, { onConflict: 'id', ignoreDuplicates: true });
+  if (insertError) throw insertError;
+
+  const { data: mappings, error: mappingError } = await admin.from('ldap_group_role').select('group_dn, role');
+  if (mappingError) throw mappingError;
+
+  if (mappings && mappings.length > 0) {
+    const isAdmin = mappings.some(mapping =>
+      mapping.role === 'admin' && user.groups.includes(String(mapping.group_dn).toLowerCase())
+    );
+    const { error: roleError } = await admin
+      .from('user_profile')
+      .update({ role: isAdmin ? 'admin' : 'user', updated_at: new Date().toISOString() })
+      .eq('id', userId);
+    if (roleError) throw roleError;
+  }
+
+  return userId;
+}
+
+// A session for the user, through a one-time magic link token that never
+// leaves the function. The link goes to the account's own email, which may
+// differ from the directory's if an admin linked the account or the mail
+// attribute has changed since.
+async function createSession(admin: SupabaseClient, userId: string) {
+  const { data: account, error: accountError } = await admin.auth.admin.getUserById(userId);
+  if (accountError) throw accountError;
+  if (!account.user.email) throw new Error(`User ${userId} has no email`);
+
+  const { data: link, error: linkError } = await admin.auth.admin.generateLink({
+    type: 'magiclink',
+    email: account.user.email,
+  });
+  if (linkError) throw linkError;
+
+  const anon = createClient(env('SUPABASE_URL'), env('SUPABASE_ANON_KEY'), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  const { data, error } = await anon.auth.verifyOtp({
+    type: 'magiclink',
+    token_hash: link.properties.hashed_token,
+  });
+  if (error || !data.session) throw error || new Error('No session returned');
+
+  return data.session;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  try {
+    const { username, password } = await req.json().catch(() => ({}));
+    // An empty password would be an anonymous bind, which many servers accept
+    if (typeof username !== 'string' || typeof password !== 'string' || !username.trim() || !password) {
+      return json({ error: INVALID_CREDENTIALS }, 401);
+    }
+
+    const user = await authenticate(username.trim(), password);
+
+    const admin = createClient(env('SUPABASE_URL'), env('SUPABASE_SERVICE_ROLE_KEY'), {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+    const userId = await provisionUser(admin, user, username.trim());
+    const session = await createSession(admin, userId);
+
+    return json({ access_token: session.access_token, refresh_token: session.refresh_token });
+  } catch (err) {
+    if (err instanceof HttpError) return json({ error: err.message }, err.status);
+
+    console.error('LDAP sign-in failed:', err);
+    return json({ error: 'LDAP sign-in is unavailable. Please try again later.' }, 502);
+  }
+});
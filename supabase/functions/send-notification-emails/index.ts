@@ -0,0 +1,125 @@
+// Emails alarms and warnings from the notification center as they happen,
+// and the daily or weekly digests users chose in Settings. Meant to run every
+// few minutes on a schedule; each run sends whatever is pending or due.
+//
+// 1. escalate_alarms notifies the escalation contacts of alarms nobody has
+//    acknowledged in time, so the step below emails them in the same run.
+// 2. claim_alert_emails marks new alarm and warning notifications as handled
+//    and returns those whose user wants email. Each user gets one email per
+//    run listing their alerts.
+// 3. claim_email_digests marks due digests as sent; each is built from
+//    email_digest and sent.
+//
+// Claims happen before sending, so an email that fails is logged and not
+// retried rather than sent twice.
+//
+// Only the service role may call it:
+//
+//   select cron.schedule('send-notification-emails', '*/5 * * * *', $$
+//     select net.http_post(
+//       url := '<project url>/functions/v1/send-notification-emails',
+//       headers := jsonb_build_object('Authorization', 'Bearer <service role key>')
+//     )
+//   $$);
+//
+// Secrets (supabase secrets set ...):
+//   APP_URL              where the app is served, for links in the emails
+//   MAIL_TRANSPORT, SMTP_* and MAIL_FROM, see ../_shared/mail.ts
+//
+// SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are provided by the platform.
+
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { corsHeaders, env, json } from '../_shared/http.ts';
+import { MailTransport, createTransport } from '../_shared/mail.ts';
+import { AlertNotification, DigestFactory, alertEmail, digestEmail } from './templates.ts';
+
+interface ClaimedAlert extends AlertNotification {
+  user_id: string;
+  email: string;
+}
+
+interface ClaimedDigest {
+  user_id: string;
+  email: string;
+  frequency: string;
+  period_start: string;
+  period_end: string;
+}
+
+async function sendAlerts(admin: SupabaseClient, transport: MailTransport, appUrl: string) {
+  const { data, error } = await admin.rpc('claim_alert_emails');
+  if (error) throw error;
+
+  const byUser = new Map<string, ClaimedAlert[]>();
+  for (const alert of (data || []) as ClaimedAlert[]) {
+    byUser.set(alert.user_id, [...(byUser.get(alert.user_id) || []), alert]);
+  }
+
+  let sent = 0;
+  for (const alerts of byUser.values()) {
+    try {
+      await transport.send({ to: alerts[0].email, ...alertEmail(alerts, appUrl) });
+      sent++;
+    } catch (err) {
+      console.error(`Alert email to ${alerts[0].email} failed:`, err);
+    }
+  }
+  return sent;
+}
+
+async function sendDigests(admin: SupabaseClient, transport: MailTransport, appUrl: string) {
+  const { data, error } = await admin.rpc('claim_email_digests');
+  if (error) throw error;
+
+  let sent = 0;
+  for (const digest of (data || []) as ClaimedDigest[]) {
+    try {
+      const { data: factories, error: digestError } = await admin.rpc('email_digest', {
+        p_user_id: digest.user_id,
+        p_from: digest.period_start,
+        p_to: digest.period_end,
+      });
+      if (digestError) throw digestError;
+
+      await transport.send({
+        to: digest.email,
+        ...digestEmail(digest.frequency, digest.period_start, digest.period_end, factories as DigestFactory[], appUrl),
+      });
+      sent++;
+    } catch (err) {
+      console.error(`Digest email to ${digest.email} failed:`, err);
+    }
+  }
+  return sent;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  if (req.headers.get('Authorization') !== `Bearer ${env('SUPABASE_SERVICE_ROLE_KEY')}`) {
+    return json({ error: 'Not allowed' }, 403);
+  }
+
+  let transport: MailTransport | undefined;
+  try {
+    transport = createTransport();
+    const admin = createClient(env('SUPABASE_URL'), env('SUPABASE_SERVICE_ROLE_KEY'), {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+    const appUrl = env('APP_URL').replace(/\/$/, '');
+
+    const { data: escalated, error: escalateError } = await admin.rpc('escalate_alarms');
+    if (escalateError) throw escalateError;
+
+    const alerts = await sendAlerts(admin, transport, appUrl);
+    const digests = await sendDigests(admin, transport, appUrl);
+
+    return json({ escalated, alerts, digests });
+  } catch (err) {
+    console.error('Sending notification emails failed:', err);
+    return json({ error: 'Sending notification emails failed' }, 500);
+  } finally {
+    transport?.close();
+  }
+});
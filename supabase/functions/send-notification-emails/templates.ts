@@ -0,0 +1,134 @@
+// Plain text and HTML bodies for the notification emails
+
+export interface AlertNotification {
+  notification_id: string;
+  level: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  created_at: string;
+}
+
+export interface DigestFactory {
+  id: string;
+  name: string;
+  consumption: { utility_type: string; current: number; previous: number | null }[];
+  alarms: number;
+  warnings: number;
+  oee: number | null;
+  previous_oee: number | null;
+  efficiency: number | null;
+  previous_efficiency: number | null;
+  uptime: number | null;
+  previous_uptime: number | null;
+}
+
+// As on the Data Entry pages
+const UTILITY_UNITS: Record<string, string> = { electricity: 'kWh', water: 'm³', gas: 'm³' };
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const formatNumber = (value: number) => value.toLocaleString('en', { maximumFractionDigits: 1 });
+
+// "+12.5%" against the previous period, or '' when there is nothing to compare
+const change = (current: number | null, previous: number | null) => {
+  if (current === null || previous === null || previous === 0) return '';
+  const percent = ((current - previous) / previous) * 100;
+  return `${percent >= 0 ? '+' : ''}${formatNumber(percent)}%`;
+};
+
+const withChange = (value: string, current: number | null, previous: number | null) => {
+  const delta = change(current, previous);
+  return delta ? `${value} (${delta})` : value;
+};
+
+const layout = (heading: string, content: string, footer: string) => `<!doctype html>
+<html>
+<body style="font-family: Arial, sans-serif; color: #111827; max-width: 640px; margin: 0 auto; padding: 16px;">
+  <h2 style="margin: 0 0 16px;">${escapeHtml(heading)}</h2>
+  ${content}
+  <p style="margin-top: 24px; font-size: 12px; color: #6b7280;">${footer}</p>
+</body>
+</html>`;
+
+const settingsFooter = (appUrl: string) =>
+  `You receive these emails because email notifications are on in <a href="${escapeHtml(appUrl)}/settings">Settings</a>.`;
+
+export function alertEmail(alerts: AlertNotification[], appUrl: string) {
+  const subject = alerts.length === 1 ? alerts[0].title : `${alerts.length} new alerts`;
+
+  const text = [
+    ...alerts.map(alert => [
+      `[${capitalize(alert.level)}] ${alert.title}`,
+      alert.body,
+      new Date(alert.created_at).toUTCString(),
+      alert.link && `${appUrl}${alert.link}`,
+    ].filter(Boolean).join('\n')),
+    `Change email notifications in Settings: ${appUrl}/settings`,
+  ].join('\n\n');
+
+  const content = alerts.map(alert => `
+  <div style="border-left: 4px solid ${alert.level === 'alarm' ? '#dc2626' : '#d97706'}; padding: 8px 12px; margin-bottom: 12px;">
+    <strong>${escapeHtml(alert.title)}</strong>
+    ${alert.body ? `<div>${escapeHtml(alert.body)}</div>` : ''}
+    <div style="font-size: 12px; color: #6b7280;">${escapeHtml(new Date(alert.created_at).toUTCString())}</div>
+    ${alert.link ? `<a href="${escapeHtml(`${appUrl}${alert.link}`)}">Open in Sentinel</a>` : ''}
+  </div>`).join('');
+
+  return { subject, text, html: layout(subject, content, settingsFooter(appUrl)) };
+}
+
+export function digestEmail(
+  frequency: string,
+  periodStart: string,
+  periodEnd: string,
+  factories: DigestFactory[],
+  appUrl: string
+) {
+  // The period ends at midnight, so the last day shown is the one before
+  const lastDay = new Date(new Date(periodEnd).getTime() - 1);
+  const period = frequency === 'daily'
+    ? new Date(periodStart).toDateString()
+    : `${new Date(periodStart).toDateString()} to ${lastDay.toDateString()}`;
+  const subject = `${capitalize(frequency)} digest: ${period}`;
+
+  const rows = (factory: DigestFactory): [string, string][] => [
+    ...factory.consumption.map(({ utility_type, current, previous }): [string, string] => [
+      capitalize(utility_type),
+      withChange(`${formatNumber(current)} ${UTILITY_UNITS[utility_type] || ''}`.trim(), current, previous),
+    ]),
+    ['Alarms', String(factory.alarms)],
+    ['Warnings', String(factory.warnings)],
+    ['OEE', factory.oee === null ? '–' : withChange(`${factory.oee}%`, factory.oee, factory.previous_oee)],
+    ['Efficiency', factory.efficiency === null ? '–' : withChange(`${factory.efficiency}%`, factory.efficiency, factory.previous_efficiency)],
+    ['Uptime', factory.uptime === null ? '–' : withChange(`${factory.uptime}%`, factory.uptime, factory.previous_uptime)],
+  ];
+
+  const text = [
+    `${subject}\nChanges are against the ${frequency === 'daily' ? 'day' : 'week'} before.`,
+    ...factories.map(factory =>
+      [factory.name, ...rows(factory).map(([label, value]) => `  ${label}: ${value}`)].join('\n')),
+    factories.length === 0 ? 'You have no factories to report on.' : '',
+    `Change the digest in Settings: ${appUrl}/settings`,
+  ].filter(Boolean).join('\n\n');
+
+  const content = `
+  <p>Changes are against the ${frequency === 'daily' ? 'day' : 'week'} before.</p>
+  ${factories.length === 0 ? '<p>You have no factories to report on.</p>' : ''}
+  ${factories.map(factory => `
+  <h3 style="margin: 20px 0 8px;">
+    <a href="${escapeHtml(`${appUrl}/?factory=${factory.id}`)}" style="color: #111827;">${escapeHtml(factory.name)}</a>
+  </h3>
+  <table style="border-collapse: collapse; width: 100%;">
+    ${rows(factory).map(([label, value]) => `
+    <tr>
+      <td style="padding: 4px 8px; border-bottom: 1px solid #e5e7eb; color: #6b7280;">${escapeHtml(label)}</td>
+      <td style="padding: 4px 8px; border-bottom: 1px solid #e5e7eb;">${escapeHtml(value)}</td>
+    </tr>`).join('')}
+  </table>`).join('')}`;
+
+  return { subject, text, html: layout(subject, content, settingsFooter(appUrl)) };
+}
@@ -0,0 +1,24 @@
+/*
+  # Machine metrics
+
+  OEE, efficiency and uptime readings per machine, which the Dashboard rolls
+  up through line -> company into the factory status.
+
+  1. Tables
+    - `machine_metric`: one row per machine per reading, as percentages.
+*/
+
+create table if not exists public.machine_metric (
+  id uuid primary key default gen_random_uuid(),
+  machine_id uuid not null references public.machine (id) on delete cascade,
+  oee numeric not null check (oee between 0 and 100),
+  efficiency numeric not null check (efficiency between 0 and 100),
+  uptime numeric not null check (uptime between 0 and 100),
+  recorded_at timestamptz not null default now()
+);
+
+create index if not exists machine_metric_machine_recorded_idx
+  on public.machine_metric (machine_id, recorded_at desc);
+
+create index if not exists machine_metric_recorded_idx
+  on public.machine_metric (recorded_at);
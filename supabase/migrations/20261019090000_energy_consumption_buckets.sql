@@ -0,0 +1,39 @@
+/*
+  # Energy consumption buckets
+
+  Aggregates energy_consumption into hourly or daily totals for the dashboard
+  chart, so the client only receives one row per bucket. Empty buckets are
+  returned as zero so the chart has a continuous time axis.
+*/
+
+create or replace function public.energy_consumption_buckets(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_bucket text default 'hour',
+  p_utility_type text default 'electricity'
+)
+returns table (bucket timestamptz, consumption numeric, cost numeric)
+language sql
+stable
+security invoker
+as $$
+  select
+    series.bucket,
+    coalesce(sum(ec.consumption), 0) as consumption,
+    coalesce(sum(ec.cost), 0) as cost
+  from generate_series(
+    date_trunc(p_bucket, p_from),
+    p_to - interval '1 microsecond',
+    ('1 ' || p_bucket)::interval
+  ) as series(bucket)
+  left join public.energy_consumption ec
+    on date_trunc(p_bucket, ec.timestamp) = series.bucket
+    and ec.utility_type = p_utility_type
+    and ec.timestamp >= p_from
+    and ec.timestamp < p_to
+  where p_bucket in ('hour', 'day')
+  group by series.bucket
+  order by series.bucket;
+$$;
+
+grant execute on function public.energy_consumption_buckets(timestamptz, timestamptz, text, text) to authenticated;
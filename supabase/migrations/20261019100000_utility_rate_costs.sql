@@ -0,0 +1,55 @@
+/*
+  # Utility rate periods and cost recomputation
+
+  1. Constraints
+    - `utility_rate_no_overlap`: a utility cannot have two rates in force at
+      the same instant. Periods are half-open, [effective_from, effective_to),
+      and a null effective_to is open-ended.
+
+  2. Functions
+    - `recompute_energy_costs`: re-prices the readings of one utility in a
+      period from the rate in force at each reading's timestamp. Readings with
+      no rate in force are priced at zero. Used after a rate is created,
+      corrected or moved so historic costs stay consistent.
+*/
+
+create extension if not exists btree_gist;
+
+alter table public.utility_rate
+  add constraint utility_rate_no_overlap
+  exclude using gist (
+    utility_type with =,
+    tstzrange(effective_from, effective_to, '[)') with &&
+  );
+
+create or replace function public.recompute_energy_costs(
+  p_utility_type text,
+  p_from timestamptz,
+  p_to timestamptz default null
+)
+returns integer
+language plpgsql
+security invoker
+as $$
+declare
+  updated_count integer;
+begin
+  update public.energy_consumption ec
+  set cost = round(ec.consumption * coalesce((
+    select ur.rate
+    from public.utility_rate ur
+    where ur.utility_type = ec.utility_type
+      and ur.effective_from <= ec.timestamp
+      and (ur.effective_to is null or ec.timestamp < ur.effective_to)
+    limit 1
+  ), 0), 2)
+  where ec.utility_type = p_utility_type
+    and ec.timestamp >= p_from
+    and (p_to is null or ec.timestamp < p_to);
+
+  get diagnostics updated_count = row_count;
+  return updated_count;
+end;
+$$;
+
+grant execute on function public.recompute_energy_costs(text, timestamptz, timestamptz) to authenticated;
@@ -0,0 +1,124 @@
+/*
+  # User roles and company access
+
+  1. Tables
+    - `user_profile`: one row per auth user carrying the application role.
+      Users without a row are treated as `user`.
+    - `user_company`: companies a non-admin user may see. A user with no rows
+      here is unscoped and sees every company; admins are never scoped.
+
+  2. Functions
+    - `is_admin()`: whether the calling user has the admin role.
+    - `can_access_company(company_id)`: whether the calling user may see a
+      company under the rules above.
+    - `energy_consumption_buckets` gains `p_factory_ids` so the dashboard
+      chart only sums the factories the caller is scoped to.
+
+  3. Security
+    - Everyone can read their own profile and company assignments; only
+      admins can read or change anyone else's.
+*/
+
+create table if not exists public.user_profile (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text not null,
+  role text not null default 'user' check (role in ('admin', 'user')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz
+);
+
+create table if not exists public.user_company (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  company_id uuid not null references public.company (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, company_id)
+);
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.user_profile
+    where id = auth.uid() and role = 'admin'
+  );
+$$;
+
+create or replace function public.can_access_company(p_company_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_admin()
+    or not exists (select 1 from public.user_company where user_id = auth.uid())
+    or exists (
+      select 1 from public.user_company
+      where user_id = auth.uid() and company_id = p_company_id
+    );
+$$;
+
+alter table public.user_profile enable row level security;
+alter table public.user_company enable row level security;
+
+create policy "Users read their own profile"
+  on public.user_profile for select
+  to authenticated
+  using (id = auth.uid() or public.is_admin());
+
+create policy "Admins manage profiles"
+  on public.user_profile for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+create policy "Users read their own company access"
+  on public.user_company for select
+  to authenticated
+  using (user_id = auth.uid() or public.is_admin());
+
+create policy "Admins manage company access"
+  on public.user_company for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+drop function if exists public.energy_consumption_buckets(timestamptz, timestamptz, text, text);
+
+create or replace function public.energy_consumption_buckets(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_bucket text default 'hour',
+  p_utility_type text default 'electricity',
+  p_factory_ids uuid[] default null
+)
+returns table (bucket timestamptz, consumption numeric, cost numeric)
+language sql
+stable
+security invoker
+as $$
+  select
+    series.bucket,
+    coalesce(sum(ec.consumption), 0) as consumption,
+    coalesce(sum(ec.cost), 0) as cost
+  from generate_series(
+    date_trunc(p_bucket, p_from),
+    p_to - interval '1 microsecond',
+    ('1 ' || p_bucket)::interval
+  ) as series(bucket)
+  left join public.energy_consumption ec
+    on date_trunc(p_bucket, ec.timestamp) = series.bucket
+    and ec.utility_type = p_utility_type
+    and ec.timestamp >= p_from
+    and ec.timestamp < p_to
+    and (p_factory_ids is null or ec.factory_id = any (p_factory_ids))
+  where p_bucket in ('hour', 'day')
+  group by series.bucket
+  order by series.bucket;
+$$;
+
+grant execute on function public.energy_consumption_buckets(timestamptz, timestamptz, text, text, uuid[]) to authenticated;
@@ -0,0 +1,120 @@
+/*
+  # Archive, restore and delete for master data
+
+  1. Columns
+    - `archived_at` / `archived_by` on company, country, city, district,
+      line_type, line, machine and kpi. Archived rows stay referenced by their
+      dependants but are hidden from grids and pickers by default.
+
+  2. Functions
+    - `entity_relations()`: the foreign keys between master data and the
+      tables that reference it. The client mirrors this in
+      src/lib/dependencies.ts for the impact report.
+    - `delete_entity(table, id, strategy, reassign_to)`: deletes one row in a
+      single transaction. Strategies for rows that still have dependants:
+        - `block`: refuse the delete
+        - `reassign`: point direct dependants at `reassign_to` first
+        - `cascade`: delete every dependant, recursively
+      Only admins may call it.
+*/
+
+alter table public.company add column if not exists archived_at timestamptz, add column if not exists archived_by uuid references auth.users (id);
+alter table public.country add column if not exists archived_at timestamptz, add column if not exists archived_by uuid references auth.users (id);
+alter table public.city add column if not exists archived_at timestamptz, add column if not exists archived_by uuid references auth.users (id);
+alter table public.district add column if not exists archived_at timestamptz, add column if not exists archived_by uuid references auth.users (id);
+alter table public.line_type add column if not exists archived_at timestamptz, add column if not exists archived_by uuid references auth.users (id);
+alter table public.line add column if not exists archived_at timestamptz, add column if not exists archived_by uuid references auth.users (id);
+alter table public.machine add column if not exists archived_at timestamptz, add column if not exists archived_by uuid references auth.users (id);
+alter table public.kpi add column if not exists archived_at timestamptz, add column if not exists archived_by uuid references auth.users (id);
+
+create or replace function public.entity_relations()
+returns table (parent_table text, child_table text, child_column text)
+language sql
+immutable
+as $$
+  values
+    ('country', 'city', 'country_id'),
+    ('city', 'district', 'city_id'),
+    ('district', 'line', 'district_id'),
+    ('company', 'line', 'company_id'),
+    ('company', 'energy_consumption', 'factory_id'),
+    ('company', 'sustainability_goal', 'factory_id'),
+    ('line_type', 'line', 'line_type_id'),
+    ('line', 'machine', 'line_id'),
+    ('machine', 'machine_metric', 'machine_id');
+$$;
+
+create or replace function public.delete_entity(
+  p_table text,
+  p_id uuid,
+  p_strategy text default 'block',
+  p_reassign_to uuid default null
+)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  rel record;
+  child record;
+  dependant_count bigint;
+  target_exists boolean;
+begin
+  if not public.is_admin() then
+    raise exception 'Only administrators can delete records' using errcode = '42501';
+  end if;
+
+  if p_table not in (
+    'company', 'country', 'city', 'district', 'line_type', 'line', 'machine', 'kpi',
+    'energy_consumption', 'sustainability_goal', 'machine_metric'
+  ) then
+    raise exception 'Unknown table %', p_table using errcode = '22023';
+  end if;
+
+  if p_strategy not in ('block', 'reassign', 'cascade') then
+    raise exception 'Unknown delete strategy %', p_strategy using errcode = '22023';
+  end if;
+
+  if p_strategy = 'reassign' then
+    if p_reassign_to is null or p_reassign_to = p_id then
+      raise exception 'Choose a different record to move dependants to' using errcode = '22023';
+    end if;
+
+    execute format('select exists (select 1 from public.%I where id = $1 and archived_at is null)', p_table)
+      into target_exists
+      using p_reassign_to;
+
+    if not target_exists then
+      raise exception 'The record to move dependants to no longer exists' using errcode = '23503';
+    end if;
+  end if;
+
+  for rel in select * from public.entity_relations() r where r.parent_table = p_table loop
+    if p_strategy = 'block' then
+      execute format('select count(*) from public.%I where %I = $1', rel.child_table, rel.child_column)
+        into dependant_count
+        using p_id;
+
+      if dependant_count > 0 then
+        raise exception '% is still referenced by % % row(s)', p_table, dependant_count, rel.child_table
+          using errcode = '23503';
+      end if;
+    elsif p_strategy = 'reassign' then
+      execute format('update public.%I set %I = $1 where %I = $2', rel.child_table, rel.child_column, rel.child_column)
+        using p_reassign_to, p_id;
+    elsif exists (select 1 from public.entity_relations() r where r.parent_table = rel.child_table) then
+      for child in execute format('select id from public.%I where %I = $1', rel.child_table, rel.child_column) using p_id loop
+        perform public.delete_entity(rel.child_table, child.id, 'cascade');
+      end loop;
+    else
+      execute format('delete from public.%I where %I = $1', rel.child_table, rel.child_column)
+        using p_id;
+    end if;
+  end loop;
+
+  execute format('delete from public.%I where id = $1', p_table) using p_id;
+end;
+$$;
+
+grant execute on function public.entity_relations() to authenticated;
+grant execute on function public.delete_entity(text, uuid, text, uuid) to authenticated;
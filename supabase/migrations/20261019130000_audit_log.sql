@@ -0,0 +1,98 @@
+/*
+  # Audit log for master data
+
+  1. Tables
+    - `audit_log`: one row per insert, update or delete on company, country,
+      city, district, line_type, line, machine and kpi. Updates keep only the
+      columns that changed, with their previous and new values; inserts keep
+      the new row and deletes the old one.
+
+  2. Triggers
+    - `record_audit()` runs after every write on the tables above. The author
+      is the calling user, falling back to the row's updated_by/created_by
+      for writes made outside a user session.
+
+  3. Security
+    - Any signed-in user can read the log; nobody can write to it directly.
+*/
+
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  table_name text not null,
+  record_id uuid not null,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  old_values jsonb,
+  new_values jsonb,
+  changed_by uuid references auth.users (id),
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_record_idx on public.audit_log (table_name, record_id, changed_at desc);
+create index if not exists audit_log_changed_at_idx on public.audit_log (changed_at desc);
+
+create or replace function public.record_audit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb := case when tg_op in ('UPDATE', 'DELETE') then to_jsonb(old) end;
+  new_row jsonb := case when tg_op in ('INSERT', 'UPDATE') then to_jsonb(new) end;
+  old_changed jsonb := '{}'::jsonb;
+  new_changed jsonb := '{}'::jsonb;
+  column_name text;
+begin
+  if tg_op = 'UPDATE' then
+    for column_name in select jsonb_object_keys(new_row) loop
+      if column_name not in ('updated_at', 'updated_by')
+        and new_row -> column_name is distinct from old_row -> column_name then
+        old_changed := old_changed || jsonb_build_object(column_name, old_row -> column_name);
+        new_changed := new_changed || jsonb_build_object(column_name, new_row -> column_name);
+      end if;
+    end loop;
+
+    if new_changed = '{}'::jsonb then
+      return new;
+    end if;
+  end if;
+
+  insert into public.audit_log (table_name, record_id, action, old_values, new_values, changed_by)
+  values (
+    tg_table_name,
+    coalesce(new_row ->> 'id', old_row ->> 'id')::uuid,
+    lower(tg_op),
+    case tg_op when 'UPDATE' then old_changed when 'DELETE' then old_row end,
+    case tg_op when 'UPDATE' then new_changed when 'INSERT' then new_row end,
+    coalesce(
+      auth.uid(),
+      (new_row ->> 'updated_by')::uuid,
+      (new_row ->> 'created_by')::uuid
+    )
+  );
+
+  return coalesce(new, old);
+end;
+$$;
+
+do $$
+declare
+  audited text;
+begin
+  foreach audited in array array['company', 'country', 'city', 'district', 'line_type', 'line', 'machine', 'kpi'] loop
+    execute format('drop trigger if exists %I on public.%I', audited || '_audit', audited);
+    execute format(
+      'create trigger %I after insert or update or delete on public.%I for each row execute function public.record_audit()',
+      audited || '_audit',
+      audited
+    );
+  end loop;
+end;
+$$;
+
+alter table public.audit_log enable row level security;
+
+create policy "Signed-in users read the audit log"
+  on public.audit_log for select
+  to authenticated
+  using (true);
@@ -0,0 +1,90 @@
+/*
+  # Machine sequence on a production line
+
+  1. Constraints
+    - `machine_line_order_unique` becomes deferrable, so machines can swap
+      order numbers inside one transaction. It is still checked immediately
+      unless a transaction defers it.
+
+  2. Functions
+    - `reorder_line_machines(line_id, machine_ids, compact)`: renumbers the
+      active machines of a line to follow `machine_ids`, which must list every
+      active machine on the line exactly once. By default the line keeps the
+      order numbers it already uses and only their assignment changes; with
+      `compact` the machines are numbered 1000, 1001, ... instead, skipping
+      numbers held by archived machines. Only machines whose number changes
+      are updated. Only admins may call it.
+*/
+
+alter table public.machine
+  drop constraint if exists machine_line_order_unique,
+  add constraint machine_line_order_unique unique (line_id, "order") deferrable initially immediate;
+
+create or replace function public.reorder_line_machines(
+  p_line_id uuid,
+  p_machine_ids uuid[],
+  p_compact boolean default false
+)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_active uuid[];
+  v_orders int[];
+  v_next int := 1000;
+  v_index int;
+begin
+  if not public.is_admin() then
+    raise exception 'Only administrators can reorder machines' using errcode = '42501';
+  end if;
+
+  -- Lock the line's machines so a concurrent edit cannot slip in between the
+  -- check below and the renumbering
+  perform 1 from public.machine where line_id = p_line_id for update;
+
+  select
+    coalesce(array_agg(id order by "order"), '{}'),
+    coalesce(array_agg("order" order by "order"), '{}')
+  into v_active, v_orders
+  from public.machine
+  where line_id = p_line_id and archived_at is null;
+
+  if coalesce(array_length(p_machine_ids, 1), 0) <> coalesce(array_length(v_active, 1), 0)
+    or exists (select unnest(p_machine_ids) except select unnest(v_active))
+    or exists (select unnest(v_active) except select unnest(p_machine_ids))
+  then
+    raise exception 'The machines on this line have changed. Reload the line and try again.'
+      using errcode = '22023';
+  end if;
+
+  set constraints public.machine_line_order_unique deferred;
+
+  for v_index in 1 .. coalesce(array_length(p_machine_ids, 1), 0) loop
+    if p_compact then
+      while exists (
+        select 1 from public.machine
+        where line_id = p_line_id and archived_at is not null and "order" = v_next
+      ) loop
+        v_next := v_next + 1;
+      end loop;
+
+      if v_next > 9999 then
+        raise exception 'The line has no free order numbers left' using errcode = '22023';
+      end if;
+
+      v_orders[v_index] := v_next;
+      v_next := v_next + 1;
+    end if;
+
+    update public.machine
+    set "order" = v_orders[v_index], updated_by = v_user
+    where id = p_machine_ids[v_index] and "order" <> v_orders[v_index];
+  end loop;
+
+  set constraints public.machine_line_order_unique immediate;
+end;
+$$;
+
+grant execute on function public.reorder_line_machines(uuid, uuid[], boolean) to authenticated;
@@ -0,0 +1,27 @@
+/*
+  # Realtime change feeds
+
+  1. Publication
+    - Adds the master data, readings and metrics tables to
+      `supabase_realtime`, so data-entry grids and the dashboard refresh when
+      rows are inserted, updated or deleted elsewhere. Row-level security
+      still decides which changes each user receives.
+*/
+
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array[
+    'company', 'country', 'city', 'district', 'line_type', 'line', 'machine',
+    'kpi', 'machine_metric', 'energy_consumption', 'utility_rate', 'sustainability_goal'
+  ] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = v_table
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', v_table);
+    end if;
+  end loop;
+end;
+$$;
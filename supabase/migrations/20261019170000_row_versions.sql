@@ -0,0 +1,37 @@
+/*
+  # Row versions for optimistic concurrency
+
+  1. Triggers
+    - `touch_updated_at` stamps `updated_at` on every update of the editable
+      tables. Edit dialogs send the `updated_at` they loaded as a condition of
+      their update, so a save made after someone else changed the row matches
+      nothing and the client can offer a merge instead of overwriting.
+*/
+
+create or replace function public.touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array[
+    'company', 'country', 'city', 'district', 'line_type', 'line', 'machine',
+    'kpi', 'energy_consumption', 'utility_rate', 'sustainability_goal'
+  ] loop
+    execute format('drop trigger if exists touch_updated_at on public.%I', v_table);
+    execute format(
+      'create trigger touch_updated_at before update on public.%I
+         for each row execute function public.touch_updated_at()',
+      v_table
+    );
+  end loop;
+end;
+$$;
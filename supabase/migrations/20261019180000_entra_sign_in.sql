@@ -0,0 +1,116 @@
+/*
+  # Microsoft Entra ID sign-in
+
+  Users sign in through the Supabase `azure` provider. Its URL decides which
+  directory Entra authenticates against, e.g.
+  `https://login.microsoftonline.com/<tenant-id>/v2.0`. For local testing it
+  can point at scripts/mock-entra-issuer.mjs instead.
+
+  1. Tables
+    - `entra_tenant`: directories whose users may sign in. When empty, any
+      tenant the provider accepts may sign in.
+    - `entra_group_role`: Entra group object ids mapped to an application
+      role. The app registration must emit the `groups` claim in ID tokens
+      (Token configuration > Add groups claim > Security groups).
+
+  2. Functions
+    - `entra_sign_in()`: trigger on `auth.users` that runs whenever an Entra
+      user is created or signs in again.
+        - Before the write it refuses users from a tenant outside
+          `entra_tenant`, which makes the sign-in fail.
+        - After the write it sets the user's role in `user_profile`: `admin`
+          when any of their groups maps to admin, otherwise `user`. When no
+          groups are mapped, or the token carries no `groups` claim (Entra
+          leaves it out for members of more than 200 groups), the profile is
+          only created and an existing role is kept.
+
+  3. Security
+    - Only admins can read or change the tenant and group mappings.
+*/
+
+create table if not exists public.entra_tenant (
+  tenant_id text primary key,
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.entra_group_role (
+  group_id text primary key,
+  role text not null check (role in ('admin', 'user')),
+  description text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.entra_tenant enable row level security;
+alter table public.entra_group_role enable row level security;
+
+create policy "Admins manage Entra tenants"
+  on public.entra_tenant for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+create policy "Admins manage Entra group roles"
+  on public.entra_group_role for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+create or replace function public.entra_sign_in()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_claims jsonb := coalesce(new.raw_user_meta_data->'custom_claims', '{}'::jsonb) || coalesce(new.raw_user_meta_data, '{}'::jsonb);
+  v_tenant text := v_claims->>'tid';
+  v_groups text[];
+  v_role text;
+begin
+  if coalesce(new.raw_app_meta_data->>'provider', '') <> 'azure'
+    and not coalesce(new.raw_app_meta_data->'providers', '[]'::jsonb) ? 'azure'
+  then
+    return new;
+  end if;
+
+  if tg_when = 'BEFORE' then
+    if exists (select 1 from public.entra_tenant)
+      and not exists (select 1 from public.entra_tenant where tenant_id = v_tenant)
+    then
+      raise exception 'Entra tenant % is not allowed to sign in', coalesce(v_tenant, '(none)')
+        using errcode = '42501';
+    end if;
+    return new;
+  end if;
+
+  insert into public.user_profile (id, email)
+  values (new.id, coalesce(new.email, ''))
+  on conflict (id) do nothing;
+
+  if jsonb_typeof(v_claims->'groups') = 'array' and exists (select 1 from public.entra_group_role) then
+    select array_agg(value) into v_groups from jsonb_array_elements_text(v_claims->'groups');
+
+    select case when bool_or(role = 'admin') then 'admin' else 'user' end
+    into v_role
+    from public.entra_group_role
+    where group_id = any (coalesce(v_groups, '{}'));
+
+    update public.user_profile
+    set role = coalesce(v_role, 'user'), updated_at = now()
+    where id = new.id and role <> coalesce(v_role, 'user');
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists entra_sign_in_check on auth.users;
+create trigger entra_sign_in_check
+  before insert or update of raw_user_meta_data, raw_app_meta_data on auth.users
+  for each row execute function public.entra_sign_in();
+
+drop trigger if exists entra_sign_in_role on auth.users;
+create trigger entra_sign_in_role
+  after insert or update of raw_user_meta_data, raw_app_meta_data on auth.users
+  for each row execute function public.entra_sign_in();
@@ -0,0 +1,54 @@
+/*
+  # LDAP sign-in
+
+  The `ldap-login` edge function binds to the directory with the user's
+  credentials and signs them in to a Supabase account it provisions or
+  links on first use.
+
+  1. Tables
+    - `ldap_identity`: the directory entry each Supabase user signs in as.
+      Looked up by DN so a changed mail attribute keeps the same account.
+    - `ldap_group_role`: LDAP group DNs mapped to an application role.
+      Members of a group mapped to admin become admins, everyone else a user.
+      When no groups are mapped an existing role is kept.
+
+  2. Security
+    - The edge function uses the service role and bypasses row-level
+      security. Admins can read and change the mappings; users can read
+      their own identity.
+*/
+
+create table if not exists public.ldap_identity (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  dn text not null unique,
+  username text not null,
+  last_sign_in_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.ldap_group_role (
+  group_dn text primary key,
+  role text not null check (role in ('admin', 'user')),
+  description text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.ldap_identity enable row level security;
+alter table public.ldap_group_role enable row level security;
+
+create policy "Users read their own LDAP identity"
+  on public.ldap_identity for select
+  to authenticated
+  using (user_id = auth.uid() or public.is_admin());
+
+create policy "Admins manage LDAP identities"
+  on public.ldap_identity for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+create policy "Admins manage LDAP group roles"
+  on public.ldap_group_role for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
@@ -0,0 +1,41 @@
+/*
+  # User preferences
+
+  Settings chosen on the Settings page follow the user between browsers and
+  machines. The browser keeps a copy in localStorage for the first paint and
+  replaces it with this row once signed in.
+
+  1. Tables
+    - `user_preference`: one row per user with their theme, default date
+      range, grid page size, energy display unit and notification choices.
+      A user without a row gets the defaults below.
+
+  2. Security
+    - Users read and write their own row only. Notification jobs read the
+      rows with the service role.
+*/
+
+create table if not exists public.user_preference (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  theme text not null default 'light' check (theme in ('light', 'dark')),
+  default_date_range text not null default 'last7days'
+    check (default_date_range in ('last7days', 'last30days', 'last3months', 'last6months', 'lastyear')),
+  rows_per_page integer not null default 15 check (rows_per_page in (15, 50, 100, 150, 200)),
+  energy_unit text not null default 'kWh' check (energy_unit in ('kWh', 'MWh')),
+  email_notifications boolean not null default true,
+  realtime_alerts boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz
+);
+
+alter table public.user_preference enable row level security;
+
+create policy "Users manage their own preferences"
+  on public.user_preference for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop trigger if exists touch_updated_at on public.user_preference;
+create trigger touch_updated_at before update on public.user_preference
+  for each row execute function public.touch_updated_at();
@@ -0,0 +1,306 @@
+/*
+  # Energy alert rules
+
+  Consumption readings are checked against alert rules as they arrive, and
+  each factory's alert level feeds the running/warning/alarm status on the
+  Dashboard. Readings are recorded per factory, so rules are too.
+
+  1. Tables
+    - `alert_rule`: warning and critical thresholds for one utility, either
+      for one factory or, with a null company_id, for every factory without
+      a rule of its own. A factory's own rule wins even when disabled, which
+      is how alerts are switched off for a single factory.
+        - `threshold_type` baseline: thresholds are a percentage of the
+          factory's average hourly consumption over the `baseline_days`
+          before the window. absolute: thresholds are units per hour.
+        - `window_minutes`: consumption is measured over this window ending
+          at the latest reading and converted to an hourly rate.
+        - `hysteresis`: a raised level only clears once the measure drops
+          this far below its threshold, in the threshold's unit.
+        - `min_duration_minutes`: a new level must hold this long, in reading
+          time, before it takes effect.
+    - `alert_state`: the current level per factory and utility, with a level
+      that is waiting out the minimum duration.
+    - `alert_event`: every level change, for notifications and history.
+
+  2. Functions
+    - `evaluate_energy_alert`: re-evaluates one factory and utility at a
+      point in reading time. Run by a trigger on `energy_consumption`;
+      readings older than the last evaluation leave the state as it is.
+    - `reevaluate_alert_rules`: re-evaluates every factory at its latest
+      reading, after rules change. Admins only.
+
+  3. Security
+    - Everyone reads the rules, states and events of the companies they can
+      access; only admins change rules. States and events are written by the
+      functions above only.
+*/
+
+create table if not exists public.alert_rule (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid references public.company (id) on delete cascade,
+  utility_type text not null check (utility_type in ('electricity', 'water', 'gas')),
+  threshold_type text not null default 'baseline' check (threshold_type in ('baseline', 'absolute')),
+  warning_threshold numeric not null check (warning_threshold > 0),
+  critical_threshold numeric not null,
+  hysteresis numeric not null default 0 check (hysteresis >= 0),
+  window_minutes integer not null default 60 check (window_minutes between 5 and 1440),
+  baseline_days integer not null default 28 check (baseline_days between 1 and 365),
+  min_duration_minutes integer not null default 0 check (min_duration_minutes between 0 and 1440),
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  created_by uuid not null references auth.users (id),
+  updated_at timestamptz,
+  updated_by uuid references auth.users (id),
+  constraint alert_rule_thresholds_ordered check (critical_threshold >= warning_threshold),
+  constraint alert_rule_scope_unique unique nulls not distinct (company_id, utility_type)
+);
+
+create table if not exists public.alert_state (
+  company_id uuid not null references public.company (id) on delete cascade,
+  utility_type text not null,
+  rule_id uuid references public.alert_rule (id) on delete set null,
+  level text not null default 'running' check (level in ('running', 'warning', 'alarm')),
+  -- The last measure compared against the thresholds, and the baseline it was relative to
+  value numeric,
+  baseline numeric,
+  pending_level text check (pending_level in ('running', 'warning', 'alarm')),
+  pending_since timestamptz,
+  changed_at timestamptz not null default now(),
+  evaluated_at timestamptz not null,
+  primary key (company_id, utility_type)
+);
+
+create table if not exists public.alert_event (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.company (id) on delete cascade,
+  utility_type text not null,
+  rule_id uuid references public.alert_rule (id) on delete set null,
+  from_level text not null,
+  to_level text not null,
+  value numeric,
+  baseline numeric,
+  -- Reading time at which the change took effect
+  occurred_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists alert_event_company_occurred_idx
+  on public.alert_event (company_id, occurred_at desc);
+
+drop trigger if exists touch_updated_at on public.alert_rule;
+create trigger touch_updated_at before update on public.alert_rule
+  for each row execute function public.touch_updated_at();
+
+create or replace function public.evaluate_energy_alert(
+  p_company_id uuid,
+  p_utility_type text,
+  p_at timestamptz
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_rule public.alert_rule;
+  v_state public.alert_state;
+  v_current text;
+  v_value numeric;
+  v_baseline numeric;
+  v_measure numeric;
+  v_candidate text;
+  v_window interval;
+begin
+  select * into v_state
+  from public.alert_state
+  where company_id = p_company_id and utility_type = p_utility_type
+  for update;
+
+  -- An older reading arriving late doesn't rewind the state
+  if found and v_state.evaluated_at > p_at then
+    return v_state.level;
+  end if;
+
+  v_current := coalesce(v_state.level, 'running');
+
+  select * into v_rule
+  from public.alert_rule
+  where utility_type = p_utility_type
+    and (company_id = p_company_id or company_id is null)
+  order by company_id nulls last
+  limit 1;
+
+  if v_rule.id is null or not v_rule.enabled then
+    if v_current <> 'running' then
+      insert into public.alert_event (company_id, utility_type, rule_id, from_level, to_level, occurred_at)
+      values (p_company_id, p_utility_type, v_rule.id, v_current, 'running', p_at);
+    end if;
+    delete from public.alert_state where company_id = p_company_id and utility_type = p_utility_type;
+    return 'running';
+  end if;
+
+  v_window := make_interval(mins => v_rule.window_minutes);
+
+  select coalesce(sum(consumption), 0) * 60 / v_rule.window_minutes into v_value
+  from public.energy_consumption
+  where factory_id = p_company_id
+    and utility_type = p_utility_type
+    and timestamp > p_at - v_window
+    and timestamp <= p_at;
+
+  if v_rule.threshold_type = 'baseline' then
+    select coalesce(sum(consumption), 0) / (v_rule.baseline_days * 24) into v_baseline
+    from public.energy_consumption
+    where factory_id = p_company_id
+      and utility_type = p_utility_type
+      and timestamp > p_at - v_window - make_interval(days => v_rule.baseline_days)
+      and timestamp <= p_at - v_window;
+
+    -- Without history there is nothing to compare against yet
+    v_measure := case when v_baseline > 0 then v_value / v_baseline * 100 else 0 end;
+  else
+    v_measure := v_value;
+  end if;
+
+  v_candidate := case
+    when v_measure >= v_rule.critical_threshold then 'alarm'
+    when v_measure >= v_rule.warning_threshold then 'warning'
+    else 'running'
+  end;
+
+  -- Hysteresis: a raised level holds until the measure clears its threshold by the margin
+  if v_current = 'alarm' and v_candidate <> 'alarm'
+    and v_measure > v_rule.critical_threshold - v_rule.hysteresis then
+    v_candidate := 'alarm';
+  elsif v_current in ('alarm', 'warning') and v_candidate = 'running'
+    and v_measure > v_rule.warning_threshold - v_rule.hysteresis then
+    v_candidate := 'warning';
+  end if;
+
+  if v_candidate = v_current then
+    v_state.pending_level := null;
+    v_state.pending_since := null;
+  elsif v_rule.min_duration_minutes = 0
+    or (v_state.pending_level = v_candidate
+      and p_at - v_state.pending_since >= make_interval(mins => v_rule.min_duration_minutes)) then
+    insert into public.alert_event (company_id, utility_type, rule_id, from_level, to_level, value, baseline, occurred_at)
+    values (p_company_id, p_utility_type, v_rule.id, v_current, v_candidate, v_measure, v_baseline, p_at);
+
+    v_current := v_candidate;
+    v_state.changed_at := p_at;
+    v_state.pending_level := null;
+    v_state.pending_since := null;
+  elsif v_state.pending_level is distinct from v_candidate then
+    v_state.pending_level := v_candidate;
+    v_state.pending_since := p_at;
+  end if;
+
+  insert into public.alert_state (
+    company_id, utility_type, rule_id, level, value, baseline,
+    pending_level, pending_since, changed_at, evaluated_at
+  )
+  values (
+    p_company_id, p_utility_type, v_rule.id, v_current, v_measure, v_baseline,
+    v_state.pending_level, v_state.pending_since, coalesce(v_state.changed_at, p_at), p_at
+  )
+  on conflict (company_id, utility_type) do update set
+    rule_id = excluded.rule_id,
+    level = excluded.level,
+    value = excluded.value,
+    baseline = excluded.baseline,
+    pending_level = excluded.pending_level,
+    pending_since = excluded.pending_since,
+    changed_at = excluded.changed_at,
+    evaluated_at = excluded.evaluated_at;
+
+  return v_current;
+end;
+$$;
+
+create or replace function public.evaluate_energy_alert_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.evaluate_energy_alert(new.factory_id, new.utility_type, new.timestamp);
+  return null;
+end;
+$$;
+
+drop trigger if exists evaluate_energy_alert on public.energy_consumption;
+create trigger evaluate_energy_alert
+  after insert or update of consumption, timestamp, utility_type, factory_id on public.energy_consumption
+  for each row execute function public.evaluate_energy_alert_trigger();
+
+create or replace function public.reevaluate_alert_rules()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_latest record;
+  v_count integer := 0;
+begin
+  if not public.is_admin() then
+    raise exception 'Only administrators can change alert rules' using errcode = '42501';
+  end if;
+
+  for v_latest in
+    select factory_id, utility_type, max(timestamp) as at
+    from public.energy_consumption
+    group by factory_id, utility_type
+  loop
+    perform public.evaluate_energy_alert(v_latest.factory_id, v_latest.utility_type, v_latest.at);
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+grant execute on function public.reevaluate_alert_rules() to authenticated;
+revoke execute on function public.evaluate_energy_alert(uuid, text, timestamptz) from public;
+
+alter table public.alert_rule enable row level security;
+alter table public.alert_state enable row level security;
+alter table public.alert_event enable row level security;
+
+create policy "Users read alert rules for their companies"
+  on public.alert_rule for select
+  to authenticated
+  using (company_id is null or public.can_access_company(company_id));
+
+create policy "Admins manage alert rules"
+  on public.alert_rule for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+create policy "Users read alert states for their companies"
+  on public.alert_state for select
+  to authenticated
+  using (public.can_access_company(company_id));
+
+create policy "Users read alert events for their companies"
+  on public.alert_event for select
+  to authenticated
+  using (public.can_access_company(company_id));
+
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array['alert_state', 'alert_event'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = v_table
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', v_table);
+    end if;
+  end loop;
+end;
+$$;
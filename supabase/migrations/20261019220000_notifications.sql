@@ -0,0 +1,292 @@
+/*
+  # Notifications
+
+  Per-user notifications behind the bell in the header, with a history page.
+
+  1. Tables
+    - `notification`: one row per recipient. `kind` is what raised it:
+        - alert: an energy alert level change (alert_event)
+        - goal: a sustainability goal that went off track
+        - import: the result of the user's own bulk import
+      `link` is the in-app path to the affected factory or record.
+    - `goal_status`: the last progress status computed for each goal, so a
+      goal only notifies when it goes off track, not on every reading.
+
+  2. Functions
+    - `notify_company_users`: sends a notification to every active user who
+      can see a company.
+    - `notify_alert_event`: trigger on `alert_event` that notifies when a
+      factory's alert level changes.
+    - `check_goal_progress`: recomputes the status of a factory's goals for
+      a utility the way the Sustainability page does, from a linear trend
+      over the last 30 days of daily totals, and notifies when one goes off
+      track. Days are in the database time zone. Run by a trigger on
+      `energy_consumption`.
+
+  3. Security
+    - Users read their own notifications and can only mark them read or
+      acknowledged. They can add import notifications for themselves; every
+      other kind is written by the functions above.
+*/
+
+create table if not exists public.notification (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('alert', 'goal', 'import')),
+  level text not null default 'info' check (level in ('info', 'success', 'warning', 'alarm')),
+  title text not null,
+  body text,
+  link text,
+  company_id uuid references public.company (id) on delete cascade,
+  machine_id uuid references public.machine (id) on delete cascade,
+  alert_event_id uuid references public.alert_event (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  read_at timestamptz,
+  acknowledged_at timestamptz
+);
+
+create index if not exists notification_user_created_idx
+  on public.notification (user_id, created_at desc);
+
+create index if not exists notification_user_unread_idx
+  on public.notification (user_id)
+  where read_at is null;
+
+create table if not exists public.goal_status (
+  goal_id uuid primary key references public.sustainability_goal (id) on delete cascade,
+  status text not null check (status in ('achieved', 'on_track', 'off_track', 'insufficient_data')),
+  projected numeric,
+  changed_at timestamptz not null default now(),
+  evaluated_at timestamptz not null
+);
+
+create or replace function public.notify_company_users(
+  p_company_id uuid,
+  p_kind text,
+  p_level text,
+  p_title text,
+  p_body text,
+  p_link text,
+  p_alert_event_id uuid default null
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  -- The same rules as can_access_company(), for every user rather than the caller
+  insert into public.notification (user_id, kind, level, title, body, link, company_id, alert_event_id)
+  select u.id, p_kind, p_level, p_title, p_body, p_link, p_company_id, p_alert_event_id
+  from auth.users u
+  left join public.user_profile p on p.id = u.id
+  where (u.banned_until is null or u.banned_until < now())
+    and (
+      p.role = 'admin'
+      or not exists (select 1 from public.user_company uc where uc.user_id = u.id)
+      or exists (
+        select 1 from public.user_company uc
+        where uc.user_id = u.id and uc.company_id = p_company_id
+      )
+    );
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.notify_company_users(uuid, text, text, text, text, text, uuid) from public;
+
+create or replace function public.notify_alert_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_factory text;
+  v_rule public.alert_rule;
+  v_measure text;
+begin
+  select name into v_factory from public.company where id = new.company_id;
+  select * into v_rule from public.alert_rule where id = new.rule_id;
+
+  v_measure := case
+    when new.value is null then null
+    when v_rule.threshold_type = 'baseline' then round(new.value) || '% of its usual consumption'
+    else round(new.value, 1) || ' per hour'
+  end;
+
+  perform public.notify_company_users(
+    new.company_id,
+    'alert',
+    case new.to_level when 'running' then 'success' else new.to_level end,
+    case new.to_level
+      when 'alarm' then v_factory || ': ' || new.utility_type || ' consumption alarm'
+      when 'warning' then v_factory || ': ' || new.utility_type || ' consumption warning'
+      else v_factory || ': ' || new.utility_type || ' consumption back to normal'
+    end,
+    case
+      when new.to_level = 'running' then 'The ' || new.from_level || ' has cleared.'
+      when v_measure is not null then 'Consumption is at ' || v_measure || '.'
+    end,
+    '/?factory=' || new.company_id,
+    new.id
+  );
+
+  return null;
+end;
+$$;
+
+drop trigger if exists notify_alert_event on public.alert_event;
+create trigger notify_alert_event
+  after insert on public.alert_event
+  for each row execute function public.notify_alert_event();
+
+create or replace function public.check_goal_progress(
+  p_factory_id uuid,
+  p_utility_type text,
+  p_at timestamptz
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_goal record;
+  v_previous public.goal_status;
+  v_today date := p_at::date;
+  v_days integer;
+  v_slope numeric;
+  v_mean_x numeric;
+  v_mean_y numeric;
+  v_current numeric;
+  v_projected numeric;
+  v_status text;
+begin
+  select
+    count(*),
+    coalesce(regr_slope(value, day - v_today), 0),
+    avg(day - v_today),
+    avg(value),
+    avg(value) filter (where day > v_today - 7)
+  into v_days, v_slope, v_mean_x, v_mean_y, v_current
+  from (
+    select timestamp::date as day, sum(consumption) as value
+    from public.energy_consumption
+    where factory_id = p_factory_id
+      and utility_type = p_utility_type
+      and timestamp::date > v_today - 30
+      and timestamp <= p_at
+    group by 1
+  ) daily;
+
+  for v_goal in
+    select g.*, c.name as factory_name
+    from public.sustainability_goal g
+    join public.company c on c.id = g.factory_id
+    where g.factory_id = p_factory_id and g.utility_type = p_utility_type
+  loop
+    select * into v_previous from public.goal_status where goal_id = v_goal.id;
+
+    -- An older reading arriving late doesn't rewind the status
+    continue when found and v_previous.evaluated_at > p_at;
+
+    v_projected := case
+      when v_days < 2 then null
+      else greatest(0, v_mean_y + v_slope * (greatest(v_today, v_goal.target_date::date) - v_today - v_mean_x))
+    end;
+
+    v_status := case
+      when v_current is null or v_projected is null then 'insufficient_data'
+      when v_current <= v_goal.target_consumption then 'achieved'
+      when v_projected <= v_goal.target_consumption and v_goal.target_date::date >= v_today then 'on_track'
+      else 'off_track'
+    end;
+
+    if v_status = 'off_track' and v_previous.status is distinct from 'off_track' then
+      perform public.notify_company_users(
+        p_factory_id,
+        'goal',
+        'warning',
+        v_goal.factory_name || ': ' || p_utility_type || ' goal off track',
+        'Projected ' || round(v_projected, 1) || ' per day by ' || to_char(v_goal.target_date, 'YYYY-MM-DD')
+          || ' against a target of ' || round(v_goal.target_consumption, 1) || '.',
+        '/sustainability'
+      );
+    end if;
+
+    insert into public.goal_status (goal_id, status, projected, changed_at, evaluated_at)
+    values (v_goal.id, v_status, v_projected, p_at, p_at)
+    on conflict (goal_id) do update set
+      status = excluded.status,
+      projected = excluded.projected,
+      changed_at = case when goal_status.status = excluded.status then goal_status.changed_at else excluded.changed_at end,
+      evaluated_at = excluded.evaluated_at;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.check_goal_progress(uuid, text, timestamptz) from public;
+
+create or replace function public.check_goal_progress_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.check_goal_progress(new.factory_id, new.utility_type, new.timestamp);
+  return null;
+end;
+$$;
+
+drop trigger if exists check_goal_progress on public.energy_consumption;
+create trigger check_goal_progress
+  after insert or update of consumption, timestamp, utility_type, factory_id on public.energy_consumption
+  for each row execute function public.check_goal_progress_trigger();
+
+alter table public.notification enable row level security;
+alter table public.goal_status enable row level security;
+
+create policy "Users read their own notifications"
+  on public.notification for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users update their own notifications"
+  on public.notification for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users add their own import notifications"
+  on public.notification for insert
+  to authenticated
+  with check (user_id = auth.uid() and kind = 'import');
+
+-- Only the read and acknowledged markers can change
+revoke update on public.notification from authenticated;
+grant update (read_at, acknowledged_at) on public.notification to authenticated;
+
+create policy "Users read goal statuses for their companies"
+  on public.goal_status for select
+  to authenticated
+  using (exists (
+    select 1 from public.sustainability_goal g
+    where g.id = goal_id and public.can_access_company(g.factory_id)
+  ));
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'notification'
+  ) then
+    alter publication supabase_realtime add table public.notification;
+  end if;
+end;
+$$;
@@ -0,0 +1,229 @@
+/*
+  # Email notifications
+
+  The send-notification-emails edge function emails alerts as they happen
+  and a daily or weekly digest. These functions pick the work for each run.
+
+  1. Tables
+    - `user_preference`:
+      - `email_digest`: off, daily or weekly.
+      - `digest_sent_at`: when the last digest went out.
+    - `notification.emailed_at`: set once the alert email step has handled
+      the notification, whether or not the user wanted an email.
+
+  2. Functions
+    - `claim_alert_emails`: marks pending alarm and warning notifications as
+      handled and returns those whose user has email turned on. A user
+      without saved preferences gets the defaults, so email is on. Only
+      notifications from the last day are sent, so turning email on later
+      doesn't deliver a backlog.
+    - `claim_email_digests`: marks digests that are due as sent and returns
+      the period each covers. A daily digest covers the previous day, a
+      weekly one the previous Monday to Sunday, in the database time zone.
+    - `email_digest`: a user's digest for a period. For each factory they can
+      see: consumption per utility against the period before, alarm and
+      warning counts, and average OEE, efficiency and uptime against the
+      period before.
+
+  3. Security
+    - All three are for the service role only.
+*/
+
+alter table public.user_preference
+  add column if not exists email_digest text not null default 'off'
+    check (email_digest in ('off', 'daily', 'weekly')),
+  add column if not exists digest_sent_at timestamptz;
+
+alter table public.notification add column if not exists emailed_at timestamptz;
+
+create index if not exists notification_email_pending_idx
+  on public.notification (created_at)
+  where emailed_at is null and level in ('alarm', 'warning');
+
+create or replace function public.claim_alert_emails(p_limit integer default 200)
+returns table (
+  notification_id uuid,
+  user_id uuid,
+  email text,
+  level text,
+  title text,
+  body text,
+  link text,
+  created_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- skip locked lets overlapping runs share the work instead of sending twice
+  return query
+  with claimed as (
+    update public.notification n
+    set emailed_at = now()
+    where n.id in (
+      select pending.id from public.notification pending
+      where pending.emailed_at is null
+        and pending.level in ('alarm', 'warning')
+        and pending.created_at > now() - interval '1 day'
+      order by pending.created_at
+      limit p_limit
+      for update skip locked
+    )
+    returning n.*
+  )
+  select c.id, c.user_id, u.email::text, c.level, c.title, c.body, c.link, c.created_at
+  from claimed c
+  join auth.users u on u.id = c.user_id
+  left join public.user_preference p on p.user_id = c.user_id
+  where coalesce(p.email_notifications, true)
+    and u.email is not null
+    and (u.banned_until is null or u.banned_until < now())
+  order by c.user_id, c.created_at;
+end;
+$$;
+
+create or replace function public.claim_email_digests(p_now timestamptz default now())
+returns table (
+  user_id uuid,
+  email text,
+  frequency text,
+  period_start timestamptz,
+  period_end timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  with periods as (
+    select
+      p.user_id,
+      p.email_digest,
+      case p.email_digest
+        when 'daily' then date_trunc('day', p_now)
+        else date_trunc('week', p_now)
+      end as period_end
+    from public.user_preference p
+    where p.email_notifications and p.email_digest <> 'off'
+  ),
+  claimed as (
+    update public.user_preference p
+    set digest_sent_at = p_now
+    from periods
+    where p.user_id = periods.user_id
+      and (p.digest_sent_at is null or p.digest_sent_at < periods.period_end)
+    returning p.user_id, periods.email_digest, periods.period_end
+  )
+  select
+    c.user_id,
+    u.email::text,
+    c.email_digest,
+    c.period_end - case c.email_digest when 'daily' then interval '1 day' else interval '7 days' end,
+    c.period_end
+  from claimed c
+  join auth.users u on u.id = c.user_id
+  where u.email is not null
+    and (u.banned_until is null or u.banned_until < now());
+end;
+$$;
+
+create or replace function public.email_digest(
+  p_user_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  -- The same rules as can_access_company(), for the given user
+  with factories as (
+    select c.id, c.name
+    from public.company c
+    left join public.user_profile p on p.id = p_user_id
+    where c.archived_at is null
+      and (
+        p.role = 'admin'
+        or not exists (select 1 from public.user_company uc where uc.user_id = p_user_id)
+        or exists (
+          select 1 from public.user_company uc
+          where uc.user_id = p_user_id and uc.company_id = c.id
+        )
+      )
+  ),
+  consumption as (
+    select
+      e.factory_id,
+      e.utility_type,
+      sum(e.consumption) filter (where e.timestamp >= p_from) as current,
+      sum(e.consumption) filter (where e.timestamp < p_from) as previous
+    from public.energy_consumption e
+    where e.factory_id in (select id from factories)
+      and e.timestamp >= p_from - (p_to - p_from)
+      and e.timestamp < p_to
+    group by 1, 2
+  ),
+  alerts as (
+    select
+      a.company_id,
+      count(*) filter (where a.to_level = 'alarm') as alarms,
+      count(*) filter (where a.to_level = 'warning') as warnings
+    from public.alert_event a
+    where a.company_id in (select id from factories)
+      and a.occurred_at >= p_from
+      and a.occurred_at < p_to
+    group by 1
+  ),
+  metrics as (
+    select
+      l.company_id,
+      avg(m.oee) filter (where m.recorded_at >= p_from) as oee,
+      avg(m.oee) filter (where m.recorded_at < p_from) as previous_oee,
+      avg(m.efficiency) filter (where m.recorded_at >= p_from) as efficiency,
+      avg(m.efficiency) filter (where m.recorded_at < p_from) as previous_efficiency,
+      avg(m.uptime) filter (where m.recorded_at >= p_from) as uptime,
+      avg(m.uptime) filter (where m.recorded_at < p_from) as previous_uptime
+    from public.machine_metric m
+    join public.machine ma on ma.id = m.machine_id
+    join public.line l on l.id = ma.line_id
+    where l.company_id in (select id from factories)
+      and m.recorded_at >= p_from - (p_to - p_from)
+      and m.recorded_at < p_to
+    group by 1
+  )
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'id', f.id,
+    'name', f.name,
+    'consumption', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'utility_type', c.utility_type,
+        'current', coalesce(c.current, 0),
+        'previous', c.previous
+      ) order by c.utility_type)
+      from consumption c
+      where c.factory_id = f.id
+    ), '[]'::jsonb),
+    'alarms', coalesce(a.alarms, 0),
+    'warnings', coalesce(a.warnings, 0),
+    'oee', round(m.oee, 1),
+    'previous_oee', round(m.previous_oee, 1),
+    'efficiency', round(m.efficiency, 1),
+    'previous_efficiency', round(m.previous_efficiency, 1),
+    'uptime', round(m.uptime, 1),
+    'previous_uptime', round(m.previous_uptime, 1)
+  ) order by f.name), '[]'::jsonb)
+  from factories f
+  left join alerts a on a.company_id = f.id
+  left join metrics m on m.company_id = f.id;
+$$;
+
+revoke execute on function public.claim_alert_emails(integer) from public, anon, authenticated;
+revoke execute on function public.claim_email_digests(timestamptz) from public, anon, authenticated;
+revoke execute on function public.email_digest(uuid, timestamptz, timestamptz) from public, anon, authenticated;
+grant execute on function public.claim_alert_emails(integer) to service_role;
+grant execute on function public.claim_email_digests(timestamptz) to service_role;
+grant execute on function public.email_digest(uuid, timestamptz, timestamptz) to service_role;
@@ -0,0 +1,367 @@
+/*
+  # Alarm workflow
+
+  A factory going into alarm opens an alarm that someone has to acknowledge
+  and then resolve, with every step kept in the factory's alarm log.
+
+  1. Tables
+    - `alert_rule`:
+      - `escalate_to`, `escalate_after_minutes`: who is notified when an
+        alarm raised under the rule is still unacknowledged after that long.
+        Both or neither.
+    - `alarm`: one per alarm on a factory and utility, raised → acknowledged
+      → resolved. At most one is open per factory and utility; a new alarm
+      level while one is open is logged against it. `cleared_at` is when
+      consumption left the alarm level, which doesn't resolve the alarm:
+      someone still has to say what was done.
+    - `alarm_activity`: the alarm log. Every step, who took it and their
+      comment. Emails are copied in because users can only read their own
+      profile.
+
+  2. Functions
+    - `track_alarm`: trigger on `alert_event` that opens alarms and logs
+      level changes against them.
+    - `update_alarm`: acknowledge, assign, comment on or resolve an alarm, by
+      anyone who can access its factory. Acknowledging assigns an unassigned
+      alarm to the caller; resolving needs a comment. Assignees are
+      notified.
+    - `alarm_assignees`: the active users an alarm can be assigned to.
+    - `escalate_alarms`: notifies the rule's escalation contact about alarms
+      still unacknowledged after the rule's delay. Run by the
+      send-notification-emails function, which then emails the
+      notifications. Service role only.
+
+  3. Security
+    - Everyone reads the alarms and logs of the companies they can access.
+      Both are written by the functions above only.
+*/
+
+alter table public.alert_rule
+  add column if not exists escalate_to uuid references auth.users (id) on delete set null,
+  add column if not exists escalate_after_minutes integer check (escalate_after_minutes between 1 and 1440);
+
+alter table public.alert_rule
+  add constraint alert_rule_escalation_complete
+  check ((escalate_to is null) = (escalate_after_minutes is null));
+
+create table if not exists public.alarm (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.company (id) on delete cascade,
+  utility_type text not null,
+  rule_id uuid references public.alert_rule (id) on delete set null,
+  status text not null default 'raised' check (status in ('raised', 'acknowledged', 'resolved')),
+  -- The measure that raised it, in the rule's threshold unit
+  value numeric,
+  -- Reading time at which consumption reached and left the alarm level
+  raised_at timestamptz not null,
+  cleared_at timestamptz,
+  acknowledged_at timestamptz,
+  acknowledged_by uuid references auth.users (id) on delete set null,
+  assigned_to uuid references auth.users (id) on delete set null,
+  assigned_to_email text,
+  escalated_at timestamptz,
+  resolved_at timestamptz,
+  resolved_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz
+);
+
+create unique index if not exists alarm_open_unique
+  on public.alarm (company_id, utility_type)
+  where status <> 'resolved';
+
+create index if not exists alarm_company_raised_idx
+  on public.alarm (company_id, raised_at desc);
+
+create table if not exists public.alarm_activity (
+  id uuid primary key default gen_random_uuid(),
+  alarm_id uuid not null references public.alarm (id) on delete cascade,
+  action text not null
+    check (action in ('raised', 'acknowledged', 'assigned', 'commented', 'escalated', 'cleared', 'resolved')),
+  -- Null for steps taken by the system
+  user_id uuid references auth.users (id) on delete set null,
+  user_email text,
+  -- Who an alarm was assigned or escalated to
+  target_email text,
+  comment text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists alarm_activity_alarm_idx
+  on public.alarm_activity (alarm_id, created_at);
+
+drop trigger if exists touch_updated_at on public.alarm;
+create trigger touch_updated_at before update on public.alarm
+  for each row execute function public.touch_updated_at();
+
+create or replace function public.track_alarm()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_alarm public.alarm;
+begin
+  select * into v_alarm
+  from public.alarm
+  where company_id = new.company_id and utility_type = new.utility_type and status <> 'resolved'
+  for update;
+
+  if new.to_level = 'alarm' then
+    if v_alarm.id is null then
+      insert into public.alarm (company_id, utility_type, rule_id, value, raised_at)
+      values (new.company_id, new.utility_type, new.rule_id, new.value, new.occurred_at)
+      returning * into v_alarm;
+
+      insert into public.alarm_activity (alarm_id, action)
+      values (v_alarm.id, 'raised');
+    else
+      update public.alarm set cleared_at = null where id = v_alarm.id;
+
+      insert into public.alarm_activity (alarm_id, action, comment)
+      values (v_alarm.id, 'raised', 'Raised again before it was resolved');
+    end if;
+  elsif new.from_level = 'alarm' and v_alarm.id is not null then
+    update public.alarm set cleared_at = new.occurred_at where id = v_alarm.id;
+
+    insert into public.alarm_activity (alarm_id, action, comment)
+    values (
+      v_alarm.id,
+      'cleared',
+      case new.to_level when 'warning' then 'Consumption dropped to the warning level' else 'Consumption is back to normal' end
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists track_alarm on public.alert_event;
+create trigger track_alarm
+  after insert on public.alert_event
+  for each row execute function public.track_alarm();
+
+-- The same rules as can_access_company(), for any user rather than the caller
+create or replace function public.alarm_assignees(p_alarm_id uuid)
+returns table (id uuid, email text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_company_id uuid;
+begin
+  select company_id into v_company_id from public.alarm where alarm.id = p_alarm_id;
+  if v_company_id is null or not public.can_access_company(v_company_id) then
+    raise exception 'Alarm not found' using errcode = '42501';
+  end if;
+
+  return query
+  select u.id, u.email::text
+  from auth.users u
+  left join public.user_profile p on p.id = u.id
+  where u.email is not null
+    and (u.banned_until is null or u.banned_until < now())
+    and (
+      p.role = 'admin'
+      or not exists (select 1 from public.user_company uc where uc.user_id = u.id)
+      or exists (
+        select 1 from public.user_company uc
+        where uc.user_id = u.id and uc.company_id = v_company_id
+      )
+    )
+  order by u.email;
+end;
+$$;
+
+create or replace function public.update_alarm(
+  p_alarm_id uuid,
+  p_action text,
+  p_comment text default null,
+  p_assignee uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_alarm public.alarm;
+  v_email text;
+  v_assignee_email text;
+  v_factory text;
+  v_comment text := nullif(btrim(p_comment), '');
+begin
+  select * into v_alarm from public.alarm where id = p_alarm_id for update;
+  if v_alarm.id is null or not public.can_access_company(v_alarm.company_id) then
+    raise exception 'Alarm not found' using errcode = '42501';
+  end if;
+
+  if v_alarm.status = 'resolved' then
+    raise exception 'This alarm has already been resolved' using errcode = '22023';
+  end if;
+
+  select email::text into v_email from auth.users where id = auth.uid();
+
+  case p_action
+    when 'acknowledge' then
+      if v_alarm.status <> 'raised' then
+        raise exception 'This alarm has already been acknowledged' using errcode = '22023';
+      end if;
+
+      update public.alarm set
+        status = 'acknowledged',
+        acknowledged_at = now(),
+        acknowledged_by = auth.uid(),
+        assigned_to = coalesce(assigned_to, auth.uid()),
+        assigned_to_email = case when assigned_to is null then v_email else assigned_to_email end
+      where id = p_alarm_id;
+
+      insert into public.alarm_activity (alarm_id, action, user_id, user_email, comment)
+      values (p_alarm_id, 'acknowledged', auth.uid(), v_email, v_comment);
+
+    when 'assign' then
+      select a.email into v_assignee_email
+      from public.alarm_assignees(p_alarm_id) a
+      where a.id = p_assignee;
+
+      if v_assignee_email is null then
+        raise exception 'Choose a user who can see this factory' using errcode = '22023';
+      end if;
+
+      update public.alarm set assigned_to = p_assignee, assigned_to_email = v_assignee_email
+      where id = p_alarm_id;
+
+      insert into public.alarm_activity (alarm_id, action, user_id, user_email, target_email, comment)
+      values (p_alarm_id, 'assigned', auth.uid(), v_email, v_assignee_email, v_comment);
+
+      if p_assignee is distinct from auth.uid() then
+        select name into v_factory from public.company where id = v_alarm.company_id;
+
+        insert into public.notification (user_id, kind, level, title, body, link, company_id)
+        values (
+          p_assignee,
+          'alert',
+          'alarm',
+          v_factory || ': ' || v_alarm.utility_type || ' alarm assigned to you',
+          coalesce(v_email, 'Someone') || ' assigned you this alarm' || coalesce(': ' || v_comment, '.'),
+          '/alarms?alarm=' || p_alarm_id,
+          v_alarm.company_id
+        );
+      end if;
+
+    when 'comment' then
+      if v_comment is null then
+        raise exception 'Enter a comment' using errcode = '22023';
+      end if;
+
+      insert into public.alarm_activity (alarm_id, action, user_id, user_email, comment)
+      values (p_alarm_id, 'commented', auth.uid(), v_email, v_comment);
+
+    when 'resolve' then
+      if v_alarm.status <> 'acknowledged' then
+        raise exception 'Acknowledge the alarm before resolving it' using errcode = '22023';
+      end if;
+      if v_comment is null then
+        raise exception 'Describe what was done to resolve the alarm' using errcode = '22023';
+      end if;
+
+      update public.alarm set status = 'resolved', resolved_at = now(), resolved_by = auth.uid()
+      where id = p_alarm_id;
+
+      insert into public.alarm_activity (alarm_id, action, user_id, user_email, comment)
+      values (p_alarm_id, 'resolved', auth.uid(), v_email, v_comment);
+
+    else
+      raise exception 'Unknown alarm action %', p_action using errcode = '22023';
+  end case;
+end;
+$$;
+
+create or replace function public.escalate_alarms()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_alarm record;
+  v_count integer := 0;
+begin
+  for v_alarm in
+    select a.*, r.escalate_to, r.escalate_after_minutes, c.name as factory_name, u.email::text as escalate_email
+    from public.alarm a
+    join public.alert_rule r on r.id = a.rule_id
+    join public.company c on c.id = a.company_id
+    join auth.users u on u.id = r.escalate_to
+    where a.status = 'raised'
+      and a.escalated_at is null
+      and a.created_at <= now() - make_interval(mins => r.escalate_after_minutes)
+    for update of a skip locked
+  loop
+    update public.alarm set escalated_at = now() where id = v_alarm.id;
+
+    insert into public.alarm_activity (alarm_id, action, target_email, comment)
+    values (
+      v_alarm.id,
+      'escalated',
+      v_alarm.escalate_email,
+      'Not acknowledged within ' || v_alarm.escalate_after_minutes || ' minutes'
+    );
+
+    insert into public.notification (user_id, kind, level, title, body, link, company_id)
+    values (
+      v_alarm.escalate_to,
+      'alert',
+      'alarm',
+      v_alarm.factory_name || ': ' || v_alarm.utility_type || ' alarm not acknowledged',
+      'Raised ' || v_alarm.escalate_after_minutes || ' minutes ago and nobody has acknowledged it. It has been escalated to you.',
+      '/alarms?alarm=' || v_alarm.id,
+      v_alarm.company_id
+    );
+
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.track_alarm() from public;
+revoke execute on function public.escalate_alarms() from public, anon, authenticated;
+grant execute on function public.escalate_alarms() to service_role;
+grant execute on function public.update_alarm(uuid, text, text, uuid) to authenticated;
+grant execute on function public.alarm_assignees(uuid) to authenticated;
+
+alter table public.alarm enable row level security;
+alter table public.alarm_activity enable row level security;
+
+create policy "Users read alarms for their companies"
+  on public.alarm for select
+  to authenticated
+  using (public.can_access_company(company_id));
+
+create policy "Users read alarm activity for their companies"
+  on public.alarm_activity for select
+  to authenticated
+  using (exists (
+    select 1 from public.alarm a
+    where a.id = alarm_id and public.can_access_company(a.company_id)
+  ));
+
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array['alarm', 'alarm_activity'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = v_table
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', v_table);
+    end if;
+  end loop;
+end;
+$$;
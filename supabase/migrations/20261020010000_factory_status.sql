@@ -0,0 +1,75 @@
+/*
+  # Factory status aggregates
+
+  The Dashboard's factory status table was summed in the browser from raw
+  machine_metric and energy_consumption rows, which PostgREST truncates at
+  1000 rows. This aggregates in the database instead.
+
+  1. Functions
+    - `factory_status`: per factory in the period, the number of machine
+      metrics with their average OEE, efficiency and uptime, and the summed
+      electricity consumption. `p_company_ids` limits the factories and
+      `p_machine_ids` the machines whose metrics are counted; null means
+      all. Runs as the caller, so row-level security applies.
+*/
+
+create or replace function public.factory_status(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_company_ids uuid[] default null,
+  p_machine_ids uuid[] default null
+)
+returns table (
+  company_id uuid,
+  name text,
+  metric_count bigint,
+  oee numeric,
+  efficiency numeric,
+  uptime numeric,
+  energy numeric
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with metrics as (
+    select
+      l.company_id,
+      count(*) as metric_count,
+      avg(m.oee) as oee,
+      avg(m.efficiency) as efficiency,
+      avg(m.uptime) as uptime
+    from public.machine_metric m
+    join public.machine ma on ma.id = m.machine_id
+    join public.line l on l.id = ma.line_id
+    where m.recorded_at >= p_from
+      and m.recorded_at < p_to
+      and (p_machine_ids is null or m.machine_id = any (p_machine_ids))
+    group by l.company_id
+  ),
+  energy as (
+    select e.factory_id, sum(e.consumption) as energy
+    from public.energy_consumption e
+    where e.utility_type = 'electricity'
+      and e.timestamp >= p_from
+      and e.timestamp < p_to
+    group by e.factory_id
+  )
+  select
+    c.id,
+    c.name,
+    coalesce(m.metric_count, 0),
+    m.oee,
+    m.efficiency,
+    m.uptime,
+    coalesce(e.energy, 0)
+  from public.company c
+  left join metrics m on m.company_id = c.id
+  left join energy e on e.factory_id = c.id
+  where c.archived_at is null
+    and (p_company_ids is null or c.id = any (p_company_ids))
+  order by c.name;
+$$;
+
+grant execute on function public.factory_status(timestamptz, timestamptz, uuid[], uuid[]) to authenticated;
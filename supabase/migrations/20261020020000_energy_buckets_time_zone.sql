@@ -0,0 +1,55 @@
+/*
+  # Energy consumption buckets in the caller's time zone
+
+  Daily buckets were cut at midnight in the database time zone (UTC), while
+  the client picks ranges and labels the chart in the browser's local time,
+  so a non-UTC user's days were shifted.
+
+  1. Functions
+    - `energy_consumption_buckets` gains `p_time_zone`, an IANA zone name
+      such as `Europe/Berlin`. Buckets start at local midnight or on the
+      local hour in that zone. Null keeps the database time zone.
+*/
+
+drop function if exists public.energy_consumption_buckets(timestamptz, timestamptz, text, text, uuid[]);
+
+create or replace function public.energy_consumption_buckets(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_bucket text default 'hour',
+  p_utility_type text default 'electricity',
+  p_factory_ids uuid[] default null,
+  p_time_zone text default null
+)
+returns table (bucket timestamptz, consumption numeric, cost numeric)
+language sql
+stable
+security invoker
+as $$
+  with zone as (
+    select coalesce(p_time_zone, current_setting('TimeZone')) as tz
+  )
+  -- The series runs over local wall-clock times, so a day is always a local
+  -- calendar day even across daylight saving changes
+  select
+    series.local_bucket at time zone zone.tz as bucket,
+    coalesce(sum(ec.consumption), 0) as consumption,
+    coalesce(sum(ec.cost), 0) as cost
+  from zone
+  cross join generate_series(
+    date_trunc(p_bucket, p_from at time zone zone.tz),
+    (p_to - interval '1 microsecond') at time zone zone.tz,
+    ('1 ' || p_bucket)::interval
+  ) as series(local_bucket)
+  left join public.energy_consumption ec
+    on date_trunc(p_bucket, ec.timestamp at time zone zone.tz) = series.local_bucket
+    and ec.utility_type = p_utility_type
+    and ec.timestamp >= p_from
+    and ec.timestamp < p_to
+    and (p_factory_ids is null or ec.factory_id = any (p_factory_ids))
+  where p_bucket in ('hour', 'day')
+  group by series.local_bucket, zone.tz
+  order by series.local_bucket;
+$$;
+
+grant execute on function public.energy_consumption_buckets(timestamptz, timestamptz, text, text, uuid[], text) to authenticated;
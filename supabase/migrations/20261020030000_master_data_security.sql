@@ -0,0 +1,91 @@
+/*
+  # Row-level security for master data, readings and metrics
+
+  Read-only roles and company scoping were only enforced by the client, so
+  anyone signed in could write to these tables directly and skip the admin
+  checks in delete_entity, import_hierarchy and reorder_line_machines.
+
+  1. Functions
+    - `can_access_company` is false for anonymous callers. A null user has
+      no company assignments, which used to read as unscoped.
+
+  2. Security
+    - Row-level security on company, country, city, district, line_type,
+      line, machine, kpi, machine_metric, energy_consumption, utility_rate
+      and sustainability_goal.
+    - Reading: rows that belong to a company (company, line, machine,
+      machine_metric, energy_consumption, sustainability_goal) need
+      `can_access_company()` on that company. Reference data (country, city,
+      district, line_type, kpi, utility_rate) is readable by everyone signed
+      in.
+    - Writing: admins only. The service role bypasses row-level security, so
+      metric and reading ingestion is unaffected.
+*/
+
+create or replace function public.can_access_company(p_company_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.uid() is not null and (
+    public.is_admin()
+    or not exists (select 1 from public.user_company where user_id = auth.uid())
+    or exists (
+      select 1 from public.user_company
+      where user_id = auth.uid() and company_id = p_company_id
+    )
+  );
+$$;
+
+do $$
+declare
+  v_table text;
+  v_read text;
+begin
+  foreach v_table in array array[
+    'company', 'country', 'city', 'district', 'line_type', 'line', 'machine',
+    'kpi', 'machine_metric', 'energy_consumption', 'utility_rate', 'sustainability_goal'
+  ] loop
+    v_read := case v_table
+      when 'company' then 'public.can_access_company(id)'
+      when 'line' then 'public.can_access_company(company_id)'
+      when 'machine' then
+        'exists (select 1 from public.line l where l.id = line_id and public.can_access_company(l.company_id))'
+      when 'machine_metric' then
+        'exists (select 1 from public.machine m join public.line l on l.id = m.line_id'
+        ' where m.id = machine_id and public.can_access_company(l.company_id))'
+      when 'energy_consumption' then 'public.can_access_company(factory_id)'
+      when 'sustainability_goal' then 'public.can_access_company(factory_id)'
+      else 'true'
+    end;
+
+    execute format('alter table public.%I enable row level security', v_table);
+
+    execute format('drop policy if exists "Users read accessible rows" on public.%I', v_table);
+    execute format(
+      'create policy "Users read accessible rows" on public.%I for select to authenticated using (%s)',
+      v_table, v_read
+    );
+
+    execute format('drop policy if exists "Admins insert rows" on public.%I', v_table);
+    execute format(
+      'create policy "Admins insert rows" on public.%I for insert to authenticated with check (public.is_admin())',
+      v_table
+    );
+
+    execute format('drop policy if exists "Admins update rows" on public.%I', v_table);
+    execute format(
+      'create policy "Admins update rows" on public.%I for update to authenticated using (public.is_admin()) with check (public.is_admin())',
+      v_table
+    );
+
+    execute format('drop policy if exists "Admins delete rows" on public.%I', v_table);
+    execute format(
+      'create policy "Admins delete rows" on public.%I for delete to authenticated using (public.is_admin())',
+      v_table
+    );
+  end loop;
+end;
+$$;
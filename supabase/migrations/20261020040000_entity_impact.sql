@@ -0,0 +1,70 @@
+/*
+  # Delete impact counted in the database
+
+  The delete dialog walked the hierarchy from the client, fetching the ids of
+  each level to query the next. PostgREST caps those reads at 1000 rows, so
+  large subtrees were undercounted. The walk now runs here, following the
+  same entity_relations() as delete_entity(), and the client no longer
+  mirrors the relations.
+
+  1. Functions
+    - `entity_impact(table, id)`: every row a cascade delete of the record
+      would remove, counted per table. `direct` marks the tables holding the
+      record's own dependants, which a reassign moves.
+    - `entity_impact_walk`: the recursive step behind it.
+*/
+
+create or replace function public.entity_impact_walk(p_table text, p_ids uuid[], p_direct boolean)
+returns table (table_name text, row_count bigint, direct boolean)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  rel record;
+  v_count bigint;
+  v_child_ids uuid[];
+begin
+  for rel in select * from public.entity_relations() r where r.parent_table = p_table loop
+    v_child_ids := null;
+
+    if exists (select 1 from public.entity_relations() r where r.parent_table = rel.child_table) then
+      execute format('select array_agg(id) from public.%I where %I = any ($1)', rel.child_table, rel.child_column)
+        into v_child_ids
+        using p_ids;
+      v_count := coalesce(cardinality(v_child_ids), 0);
+    else
+      execute format('select count(*) from public.%I where %I = any ($1)', rel.child_table, rel.child_column)
+        into v_count
+        using p_ids;
+    end if;
+
+    if v_count > 0 then
+      table_name := rel.child_table;
+      row_count := v_count;
+      direct := p_direct;
+      return next;
+
+      if v_child_ids is not null then
+        return query select * from public.entity_impact_walk(rel.child_table, v_child_ids, false);
+      end if;
+    end if;
+  end loop;
+end;
+$$;
+
+create or replace function public.entity_impact(p_table text, p_id uuid)
+returns table (table_name text, row_count bigint, direct boolean)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select w.table_name, sum(w.row_count)::bigint, bool_or(w.direct)
+  from public.entity_impact_walk(p_table, array[p_id], true) w
+  group by w.table_name;
+$$;
+
+grant execute on function public.entity_impact_walk(text, uuid[], boolean) to authenticated;
+grant execute on function public.entity_impact(text, uuid) to authenticated;
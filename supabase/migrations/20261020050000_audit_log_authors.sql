@@ -0,0 +1,129 @@
+/*
+  # Audit log authors and company scoping
+
+  Authors' emails were looked up in user_profile, which non-admins can only
+  read for themselves, so most changes showed as made by "system". Every
+  signed-in user could also read changes to companies they are scoped out
+  of.
+
+  1. Columns
+    - `audit_log.changed_by_email`: the author's email, copied in when the
+      change is recorded.
+    - `audit_log.company_id`: the company a company, line or machine change
+      belongs to. Null for reference data such as countries and KPIs.
+    - Both are backfilled for existing entries.
+
+  2. Triggers
+    - `record_audit()` fills both columns. A machine removed together with
+      its line by a foreign key cascade can no longer be joined to its line,
+      so its company is taken from the machine's earlier entries.
+
+  3. Security
+    - Company, line and machine entries need `can_access_company()` on their
+      company. Reference data stays readable by everyone signed in.
+*/
+
+alter table public.audit_log
+  add column if not exists changed_by_email text,
+  add column if not exists company_id uuid;
+
+create index if not exists audit_log_company_idx on public.audit_log (company_id, changed_at desc);
+
+create or replace function public.record_audit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb := case when tg_op in ('UPDATE', 'DELETE') then to_jsonb(old) end;
+  new_row jsonb := case when tg_op in ('INSERT', 'UPDATE') then to_jsonb(new) end;
+  row_values jsonb := coalesce(new_row, old_row);
+  old_changed jsonb := '{}'::jsonb;
+  new_changed jsonb := '{}'::jsonb;
+  column_name text;
+  v_author uuid;
+  v_company_id uuid;
+begin
+  if tg_op = 'UPDATE' then
+    for column_name in select jsonb_object_keys(new_row) loop
+      if column_name not in ('updated_at', 'updated_by')
+        and new_row -> column_name is distinct from old_row -> column_name then
+        old_changed := old_changed || jsonb_build_object(column_name, old_row -> column_name);
+        new_changed := new_changed || jsonb_build_object(column_name, new_row -> column_name);
+      end if;
+    end loop;
+
+    if new_changed = '{}'::jsonb then
+      return new;
+    end if;
+  end if;
+
+  v_author := coalesce(
+    auth.uid(),
+    (new_row ->> 'updated_by')::uuid,
+    (new_row ->> 'created_by')::uuid
+  );
+
+  v_company_id := case tg_table_name
+    when 'company' then (row_values ->> 'id')::uuid
+    when 'line' then (row_values ->> 'company_id')::uuid
+    when 'machine' then coalesce(
+      (select l.company_id from public.line l where l.id = (row_values ->> 'line_id')::uuid),
+      (
+        select a.company_id from public.audit_log a
+        where a.table_name = 'machine' and a.record_id = (row_values ->> 'id')::uuid and a.company_id is not null
+        order by a.changed_at desc
+        limit 1
+      )
+    )
+  end;
+
+  insert into public.audit_log (
+    table_name, record_id, action, old_values, new_values, changed_by, changed_by_email, company_id
+  )
+  values (
+    tg_table_name,
+    (row_values ->> 'id')::uuid,
+    lower(tg_op),
+    case tg_op when 'UPDATE' then old_changed when 'DELETE' then old_row end,
+    case tg_op when 'UPDATE' then new_changed when 'INSERT' then new_row end,
+    v_author,
+    (select u.email::text from auth.users u where u.id = v_author),
+    v_company_id
+  );
+
+  return coalesce(new, old);
+end;
+$$;
+
+update public.audit_log a
+set changed_by_email = u.email::text
+from auth.users u
+where u.id = a.changed_by and a.changed_by_email is null;
+
+update public.audit_log a
+set company_id = case a.table_name
+  when 'company' then a.record_id
+  when 'line' then coalesce(
+    (coalesce(a.new_values, a.old_values) ->> 'company_id')::uuid,
+    (select l.company_id from public.line l where l.id = a.record_id)
+  )
+  when 'machine' then coalesce(
+    (select l.company_id from public.machine m join public.line l on l.id = m.line_id where m.id = a.record_id),
+    (select l.company_id from public.line l where l.id = (coalesce(a.new_values, a.old_values) ->> 'line_id')::uuid)
+  )
+end
+where a.company_id is null and a.table_name in ('company', 'line', 'machine');
+
+drop policy if exists "Signed-in users read the audit log" on public.audit_log;
+
+create policy "Users read the audit log for their companies"
+  on public.audit_log for select
+  to authenticated
+  using (
+    case
+      when table_name in ('company', 'line', 'machine') then public.can_access_company(company_id)
+      else true
+    end
+  );
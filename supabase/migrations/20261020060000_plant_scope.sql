@@ -0,0 +1,120 @@
+/*
+  # Plant scope filtering in the database
+
+  The Dashboard narrowed a plant tree scope by listing every line and machine
+  in it on the client and sending their ids back in the query string. For a
+  country or city that list was capped at 1000 rows and the request URLs
+  grew to tens of kilobytes, so the requests failed.
+
+  1. Functions
+    - `plant_scope_lines(level, id)`: the lines under a country, city,
+      district, line or machine, with their companies.
+    - `plant_scope_companies(level, id)`: the companies with a line in the
+      scope.
+    - `factory_status` takes the scope instead of `p_machine_ids`: only
+      metrics of machines inside it are counted, and only machine metrics of
+      that machine for a machine scope.
+*/
+
+create or replace function public.plant_scope_lines(p_level text, p_id uuid)
+returns table (line_id uuid, company_id uuid)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select l.id, l.company_id
+  from public.line l
+  join public.district d on d.id = l.district_id
+  join public.city c on c.id = d.city_id
+  where case p_level
+    when 'country' then c.country_id = p_id
+    when 'city' then d.city_id = p_id
+    when 'district' then l.district_id = p_id
+    when 'line' then l.id = p_id
+    when 'machine' then l.id = (select m.line_id from public.machine m where m.id = p_id)
+    else false
+  end;
+$$;
+
+create or replace function public.plant_scope_companies(p_level text, p_id uuid)
+returns setof uuid
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select distinct s.company_id from public.plant_scope_lines(p_level, p_id) s;
+$$;
+
+drop function if exists public.factory_status(timestamptz, timestamptz, uuid[], uuid[]);
+
+create or replace function public.factory_status(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_company_ids uuid[] default null,
+  p_scope_level text default null,
+  p_scope_id uuid default null
+)
+returns table (
+  company_id uuid,
+  name text,
+  metric_count bigint,
+  oee numeric,
+  efficiency numeric,
+  uptime numeric,
+  energy numeric
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with metrics as (
+    select
+      l.company_id,
+      count(*) as metric_count,
+      avg(m.oee) as oee,
+      avg(m.efficiency) as efficiency,
+      avg(m.uptime) as uptime
+    from public.machine_metric m
+    join public.machine ma on ma.id = m.machine_id
+    join public.line l on l.id = ma.line_id
+    where m.recorded_at >= p_from
+      and m.recorded_at < p_to
+      and (
+        p_scope_level is null
+        or case p_scope_level
+          when 'machine' then m.machine_id = p_scope_id
+          else l.id in (select s.line_id from public.plant_scope_lines(p_scope_level, p_scope_id) s)
+        end
+      )
+    group by l.company_id
+  ),
+  energy as (
+    select e.factory_id, sum(e.consumption) as energy
+    from public.energy_consumption e
+    where e.utility_type = 'electricity'
+      and e.timestamp >= p_from
+      and e.timestamp < p_to
+    group by e.factory_id
+  )
+  select
+    c.id,
+    c.name,
+    coalesce(m.metric_count, 0),
+    m.oee,
+    m.efficiency,
+    m.uptime,
+    coalesce(e.energy, 0)
+  from public.company c
+  left join metrics m on m.company_id = c.id
+  left join energy e on e.factory_id = c.id
+  where c.archived_at is null
+    and (p_company_ids is null or c.id = any (p_company_ids))
+  order by c.name;
+$$;
+
+grant execute on function public.plant_scope_lines(text, uuid) to authenticated;
+grant execute on function public.plant_scope_companies(text, uuid) to authenticated;
+grant execute on function public.factory_status(timestamptz, timestamptz, uuid[], text, uuid) to authenticated;
@@ -0,0 +1,81 @@
+/*
+  # Entra sign-in from provider-verified claims only
+
+  entra_sign_in() read `tid` and `groups` from `auth.users.raw_user_meta_data`
+  and ran again whenever it changed. Users can write that column themselves
+  through `supabase.auth.updateUser({ data })`, so anyone could claim an
+  admin group and be given the admin role.
+
+  1. Functions
+    - `entra_sign_in()` now runs on `auth.identities`, whose `identity_data`
+      only the auth server writes, from the claims of the ID token it
+      verified. It runs when an Entra identity is linked and each time the
+      auth server refreshes its claims on sign-in. The tenant check and the
+      role mapping are otherwise unchanged.
+
+  2. Triggers
+    - The triggers on `auth.users` are dropped, so editing user metadata no
+      longer touches roles.
+*/
+
+drop trigger if exists entra_sign_in_check on auth.users;
+drop trigger if exists entra_sign_in_role on auth.users;
+
+create or replace function public.entra_sign_in()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_claims jsonb := coalesce(new.identity_data->'custom_claims', '{}'::jsonb) || coalesce(new.identity_data, '{}'::jsonb);
+  v_tenant text := v_claims->>'tid';
+  v_groups text[];
+  v_role text;
+begin
+  if new.provider <> 'azure' then
+    return new;
+  end if;
+
+  if tg_when = 'BEFORE' then
+    if exists (select 1 from public.entra_tenant)
+      and not exists (select 1 from public.entra_tenant where tenant_id = v_tenant)
+    then
+      raise exception 'Entra tenant % is not allowed to sign in', coalesce(v_tenant, '(none)')
+        using errcode = '42501';
+    end if;
+    return new;
+  end if;
+
+  insert into public.user_profile (id, email)
+  select u.id, coalesce(u.email, '')
+  from auth.users u
+  where u.id = new.user_id
+  on conflict (id) do nothing;
+
+  if jsonb_typeof(v_claims->'groups') = 'array' and exists (select 1 from public.entra_group_role) then
+    select array_agg(value) into v_groups from jsonb_array_elements_text(v_claims->'groups');
+
+    select case when bool_or(role = 'admin') then 'admin' else 'user' end
+    into v_role
+    from public.entra_group_role
+    where group_id = any (coalesce(v_groups, '{}'));
+
+    update public.user_profile
+    set role = coalesce(v_role, 'user'), updated_at = now()
+    where id = new.user_id and role <> coalesce(v_role, 'user');
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists entra_sign_in_check on auth.identities;
+create trigger entra_sign_in_check
+  before insert or update of identity_data on auth.identities
+  for each row execute function public.entra_sign_in();
+
+drop trigger if exists entra_sign_in_role on auth.identities;
+create trigger entra_sign_in_role
+  after insert or update of identity_data on auth.identities
+  for each row execute function public.entra_sign_in();
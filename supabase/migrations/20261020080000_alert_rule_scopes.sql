@@ -0,0 +1,545 @@
+/*
+  # Line and machine alert rules
+
+  Alert rules could only target a factory, and a reading that was edited
+  onto another time, utility or factory, or deleted, only re-evaluated where
+  it ended up. The alert state it left behind stayed open until another
+  reading arrived there.
+
+  1. Tables
+    - `energy_consumption`: `line_id`, `machine_id` for readings metered at
+      a line or machine. Optional; the line follows from the machine and has
+      to belong to the reading's factory. They still count towards the
+      factory's consumption.
+    - `alert_rule`: `line_id`, `machine_id`. A rule targets a factory (or all
+      factories), a line or a machine, with the factory and line following
+      from the line or machine. Line and machine rules only check readings
+      metered there and have no default.
+    - `alert_state`, `alert_event`, `alarm`: the same scope columns. States
+      and open alarms are kept per factory, line or machine and utility, so
+      `alert_state` gets an id as its primary key.
+
+  2. Functions
+    - `evaluate_energy_alert` takes the line and machine. Without a point in
+      time it re-evaluates a scope at its last evaluation, which is how a
+      reading leaving a scope is taken back out.
+    - `evaluate_reading_alerts`: evaluates the factory, line and machine of
+      a reading.
+    - The trigger on `energy_consumption` also runs on delete, and on update
+      evaluates where the reading was before where it is now.
+    - `reevaluate_alert_rules` covers lines and machines with readings.
+    - `track_alarm` matches open alarms by scope; alert notifications and
+      escalations name the line or machine.
+*/
+
+alter table public.energy_consumption
+  add column if not exists line_id uuid references public.line (id) on delete set null,
+  add column if not exists machine_id uuid references public.machine (id) on delete set null;
+
+create index if not exists energy_consumption_line_idx
+  on public.energy_consumption (line_id, utility_type, timestamp)
+  where line_id is not null;
+
+create index if not exists energy_consumption_machine_idx
+  on public.energy_consumption (machine_id, utility_type, timestamp)
+  where machine_id is not null;
+
+create or replace function public.energy_consumption_scope()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if new.machine_id is not null then
+    select m.line_id into new.line_id from public.machine m where m.id = new.machine_id;
+  end if;
+
+  if new.line_id is not null
+    and not exists (select 1 from public.line l where l.id = new.line_id and l.company_id = new.factory_id)
+  then
+    raise exception 'The line or machine is not in this factory' using errcode = '22023';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists energy_consumption_scope on public.energy_consumption;
+create trigger energy_consumption_scope
+  before insert or update of factory_id, line_id, machine_id on public.energy_consumption
+  for each row execute function public.energy_consumption_scope();
+
+alter table public.alert_rule
+  add column if not exists line_id uuid references public.line (id) on delete cascade,
+  add column if not exists machine_id uuid references public.machine (id) on delete cascade;
+
+alter table public.alert_rule drop constraint if exists alert_rule_scope_unique;
+alter table public.alert_rule
+  add constraint alert_rule_scope_unique unique nulls not distinct (company_id, line_id, machine_id, utility_type);
+
+create or replace function public.alert_rule_scope()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if new.machine_id is not null then
+    select m.line_id into new.line_id from public.machine m where m.id = new.machine_id;
+  end if;
+
+  if new.line_id is not null then
+    select l.company_id into new.company_id from public.line l where l.id = new.line_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists alert_rule_scope on public.alert_rule;
+create trigger alert_rule_scope
+  before insert or update of company_id, line_id, machine_id on public.alert_rule
+  for each row execute function public.alert_rule_scope();
+
+alter table public.alert_state
+  add column if not exists id uuid not null default gen_random_uuid(),
+  add column if not exists line_id uuid references public.line (id) on delete cascade,
+  add column if not exists machine_id uuid references public.machine (id) on delete cascade;
+
+alter table public.alert_state drop constraint if exists alert_state_pkey;
+alter table public.alert_state add primary key (id);
+alter table public.alert_state
+  add constraint alert_state_scope_unique unique nulls not distinct (company_id, line_id, machine_id, utility_type);
+
+alter table public.alert_event
+  add column if not exists line_id uuid references public.line (id) on delete cascade,
+  add column if not exists machine_id uuid references public.machine (id) on delete cascade;
+
+alter table public.alarm
+  add column if not exists line_id uuid references public.line (id) on delete cascade,
+  add column if not exists machine_id uuid references public.machine (id) on delete cascade;
+
+drop index if exists public.alarm_open_unique;
+create unique index alarm_open_unique
+  on public.alarm (company_id, line_id, machine_id, utility_type) nulls not distinct
+  where status <> 'resolved';
+
+-- "Factory", "Factory / Line" or "Factory / Line / Machine" for titles
+create or replace function public.alert_scope_name(p_company_id uuid, p_line_id uuid, p_machine_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select concat_ws(
+    ' / ',
+    (select c.name from public.company c where c.id = p_company_id),
+    (select l.name from public.line l where l.id = p_line_id),
+    (select m.name from public.machine m where m.id = p_machine_id)
+  );
+$$;
+
+drop trigger if exists evaluate_energy_alert on public.energy_consumption;
+drop function if exists public.evaluate_energy_alert_trigger();
+drop function if exists public.evaluate_energy_alert(uuid, text, timestamptz);
+
+create or replace function public.evaluate_energy_alert(
+  p_company_id uuid,
+  p_line_id uuid,
+  p_machine_id uuid,
+  p_utility_type text,
+  p_at timestamptz default null
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_rule public.alert_rule;
+  v_state public.alert_state;
+  v_current text;
+  v_value numeric;
+  v_baseline numeric;
+  v_measure numeric;
+  v_candidate text;
+  v_window interval;
+begin
+  -- A factory, line or machine removed in the same statement takes its state with it
+  if not exists (select 1 from public.company where id = p_company_id)
+    or (p_line_id is not null and not exists (select 1 from public.line where id = p_line_id))
+    or (p_machine_id is not null and not exists (select 1 from public.machine where id = p_machine_id))
+  then
+    return 'running';
+  end if;
+
+  select * into v_state
+  from public.alert_state
+  where company_id = p_company_id
+    and line_id is not distinct from p_line_id
+    and machine_id is not distinct from p_machine_id
+    and utility_type = p_utility_type
+  for update;
+
+  -- Without a time, re-evaluate where the scope was last evaluated; a scope
+  -- that was never evaluated has nothing to take back
+  p_at := coalesce(p_at, v_state.evaluated_at);
+  if p_at is null then
+    return 'running';
+  end if;
+
+  -- An older reading arriving late doesn't rewind the state
+  if v_state.id is not null and v_state.evaluated_at > p_at then
+    return v_state.level;
+  end if;
+
+  v_current := coalesce(v_state.level, 'running');
+
+  if p_line_id is null then
+    select * into v_rule
+    from public.alert_rule
+    where utility_type = p_utility_type
+      and line_id is null
+      and (company_id = p_company_id or company_id is null)
+    order by company_id nulls last
+    limit 1;
+  else
+    select * into v_rule
+    from public.alert_rule
+    where utility_type = p_utility_type
+      and company_id = p_company_id
+      and line_id = p_line_id
+      and machine_id is not distinct from p_machine_id;
+  end if;
+
+  if v_rule.id is null or not v_rule.enabled then
+    if v_current <> 'running' then
+      insert into public.alert_event (
+        company_id, line_id, machine_id, utility_type, rule_id, from_level, to_level, occurred_at
+      )
+      values (p_company_id, p_line_id, p_machine_id, p_utility_type, v_rule.id, v_current, 'running', p_at);
+    end if;
+    delete from public.alert_state where id = v_state.id;
+    return 'running';
+  end if;
+
+  v_window := make_interval(mins => v_rule.window_minutes);
+
+  select coalesce(sum(consumption), 0) * 60 / v_rule.window_minutes into v_value
+  from public.energy_consumption
+  where factory_id = p_company_id
+    and (p_line_id is null or line_id = p_line_id)
+    and (p_machine_id is null or machine_id = p_machine_id)
+    and utility_type = p_utility_type
+    and timestamp > p_at - v_window
+    and timestamp <= p_at;
+
+  if v_rule.threshold_type = 'baseline' then
+    select coalesce(sum(consumption), 0) / (v_rule.baseline_days * 24) into v_baseline
+    from public.energy_consumption
+    where factory_id = p_company_id
+      and (p_line_id is null or line_id = p_line_id)
+      and (p_machine_id is null or machine_id = p_machine_id)
+      and utility_type = p_utility_type
+      and timestamp > p_at - v_window - make_interval(days => v_rule.baseline_days)
+      and timestamp <= p_at - v_window;
+
+    -- Without history there is nothing to compare against yet
+    v_measure := case when v_baseline > 0 then v_value / v_baseline * 100 else 0 end;
+  else
+    v_measure := v_value;
+  end if;
+
+  v_candidate := case
+    when v_measure >= v_rule.critical_threshold then 'alarm'
+    when v_measure >= v_rule.warning_threshold then 'warning'
+    else 'running'
+  end;
+
+  -- Hysteresis: a raised level holds until the measure clears its threshold by the margin
+  if v_current = 'alarm' and v_candidate <> 'alarm'
+    and v_measure > v_rule.critical_threshold - v_rule.hysteresis then
+    v_candidate := 'alarm';
+  elsif v_current in ('alarm', 'warning') and v_candidate = 'running'
+    and v_measure > v_rule.warning_threshold - v_rule.hysteresis then
+    v_candidate := 'warning';
+  end if;
+
+  if v_candidate = v_current then
+    v_state.pending_level := null;
+    v_state.pending_since := null;
+  elsif v_rule.min_duration_minutes = 0
+    or (v_state.pending_level = v_candidate
+      and p_at - v_state.pending_since >= make_interval(mins => v_rule.min_duration_minutes)) then
+    insert into public.alert_event (
+      company_id, line_id, machine_id, utility_type, rule_id, from_level, to_level, value, baseline, occurred_at
+    )
+    values (
+      p_company_id, p_line_id, p_machine_id, p_utility_type, v_rule.id, v_current, v_candidate,
+      v_measure, v_baseline, p_at
+    );
+
+    v_current := v_candidate;
+    v_state.changed_at := p_at;
+    v_state.pending_level := null;
+    v_state.pending_since := null;
+  elsif v_state.pending_level is distinct from v_candidate then
+    v_state.pending_level := v_candidate;
+    v_state.pending_since := p_at;
+  end if;
+
+  insert into public.alert_state (
+    company_id, line_id, machine_id, utility_type, rule_id, level, value, baseline,
+    pending_level, pending_since, changed_at, evaluated_at
+  )
+  values (
+    p_company_id, p_line_id, p_machine_id, p_utility_type, v_rule.id, v_current, v_measure, v_baseline,
+    v_state.pending_level, v_state.pending_since, coalesce(v_state.changed_at, p_at), p_at
+  )
+  on conflict on constraint alert_state_scope_unique do update set
+    rule_id = excluded.rule_id,
+    level = excluded.level,
+    value = excluded.value,
+    baseline = excluded.baseline,
+    pending_level = excluded.pending_level,
+    pending_since = excluded.pending_since,
+    changed_at = excluded.changed_at,
+    evaluated_at = excluded.evaluated_at;
+
+  return v_current;
+end;
+$$;
+
+-- A reading counts towards its factory, and its line and machine if it has them
+create or replace function public.evaluate_reading_alerts(
+  p_company_id uuid,
+  p_line_id uuid,
+  p_machine_id uuid,
+  p_utility_type text,
+  p_at timestamptz default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.evaluate_energy_alert(p_company_id, null, null, p_utility_type, p_at);
+
+  if p_line_id is not null then
+    perform public.evaluate_energy_alert(p_company_id, p_line_id, null, p_utility_type, p_at);
+  end if;
+
+  if p_machine_id is not null then
+    perform public.evaluate_energy_alert(p_company_id, p_line_id, p_machine_id, p_utility_type, p_at);
+  end if;
+end;
+$$;
+
+-- A reading that moves or disappears is taken out of where it was first,
+-- at that scope's last evaluation, then counted where it is now
+create or replace function public.evaluate_energy_alert_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    perform public.evaluate_reading_alerts(old.factory_id, old.line_id, old.machine_id, old.utility_type);
+  end if;
+
+  if tg_op in ('INSERT', 'UPDATE') then
+    perform public.evaluate_reading_alerts(new.factory_id, new.line_id, new.machine_id, new.utility_type, new.timestamp);
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger evaluate_energy_alert
+  after insert or delete or update of consumption, timestamp, utility_type, factory_id, line_id, machine_id
+  on public.energy_consumption
+  for each row execute function public.evaluate_energy_alert_trigger();
+
+create or replace function public.reevaluate_alert_rules()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_latest record;
+  v_count integer := 0;
+begin
+  if not public.is_admin() then
+    raise exception 'Only administrators can change alert rules' using errcode = '42501';
+  end if;
+
+  for v_latest in
+    select factory_id, null::uuid as line_id, null::uuid as machine_id, utility_type, max(timestamp) as at
+    from public.energy_consumption
+    group by factory_id, utility_type
+    union all
+    select factory_id, line_id, null, utility_type, max(timestamp)
+    from public.energy_consumption
+    where line_id is not null
+    group by factory_id, line_id, utility_type
+    union all
+    select factory_id, line_id, machine_id, utility_type, max(timestamp)
+    from public.energy_consumption
+    where machine_id is not null
+    group by factory_id, line_id, machine_id, utility_type
+  loop
+    perform public.evaluate_energy_alert(
+      v_latest.factory_id, v_latest.line_id, v_latest.machine_id, v_latest.utility_type, v_latest.at
+    );
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+create or replace function public.track_alarm()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_alarm public.alarm;
+begin
+  select * into v_alarm
+  from public.alarm
+  where company_id = new.company_id
+    and line_id is not distinct from new.line_id
+    and machine_id is not distinct from new.machine_id
+    and utility_type = new.utility_type
+    and status <> 'resolved'
+  for update;
+
+  if new.to_level = 'alarm' then
+    if v_alarm.id is null then
+      insert into public.alarm (company_id, line_id, machine_id, utility_type, rule_id, value, raised_at)
+      values (new.company_id, new.line_id, new.machine_id, new.utility_type, new.rule_id, new.value, new.occurred_at)
+      returning * into v_alarm;
+
+      insert into public.alarm_activity (alarm_id, action)
+      values (v_alarm.id, 'raised');
+    else
+      update public.alarm set cleared_at = null where id = v_alarm.id;
+
+      insert into public.alarm_activity (alarm_id, action, comment)
+      values (v_alarm.id, 'raised', 'Raised again before it was resolved');
+    end if;
+  elsif new.from_level = 'alarm' and v_alarm.id is not null then
+    update public.alarm set cleared_at = new.occurred_at where id = v_alarm.id;
+
+    insert into public.alarm_activity (alarm_id, action, comment)
+    values (
+      v_alarm.id,
+      'cleared',
+      case new.to_level when 'warning' then 'Consumption dropped to the warning level' else 'Consumption is back to normal' end
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+create or replace function public.notify_alert_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scope text := public.alert_scope_name(new.company_id, new.line_id, new.machine_id);
+  v_rule public.alert_rule;
+  v_measure text;
+begin
+  select * into v_rule from public.alert_rule where id = new.rule_id;
+
+  v_measure := case
+    when new.value is null then null
+    when v_rule.threshold_type = 'baseline' then round(new.value) || '% of its usual consumption'
+    else round(new.value, 1) || ' per hour'
+  end;
+
+  perform public.notify_company_users(
+    new.company_id,
+    'alert',
+    case new.to_level when 'running' then 'success' else new.to_level end,
+    case new.to_level
+      when 'alarm' then v_scope || ': ' || new.utility_type || ' consumption alarm'
+      when 'warning' then v_scope || ': ' || new.utility_type || ' consumption warning'
+      else v_scope || ': ' || new.utility_type || ' consumption back to normal'
+    end,
+    case
+      when new.to_level = 'running' then 'The ' || new.from_level || ' has cleared.'
+      when v_measure is not null then 'Consumption is at ' || v_measure || '.'
+    end,
+    '/?factory=' || new.company_id,
+    new.id
+  );
+
+  return null;
+end;
+$$;
+
+create or replace function public.escalate_alarms()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_alarm record;
+  v_count integer := 0;
+begin
+  for v_alarm in
+    select
+      a.*, r.escalate_to, r.escalate_after_minutes, u.email::text as escalate_email,
+      public.alert_scope_name(a.company_id, a.line_id, a.machine_id) as scope_name
+    from public.alarm a
+    join public.alert_rule r on r.id = a.rule_id
+    join auth.users u on u.id = r.escalate_to
+    where a.status = 'raised'
+      and a.escalated_at is null
+      and a.created_at <= now() - make_interval(mins => r.escalate_after_minutes)
+    for update of a skip locked
+  loop
+    update public.alarm set escalated_at = now() where id = v_alarm.id;
+
+    insert into public.alarm_activity (alarm_id, action, target_email, comment)
+    values (
+      v_alarm.id,
+      'escalated',
+      v_alarm.escalate_email,
+      'Not acknowledged within ' || v_alarm.escalate_after_minutes || ' minutes'
+    );
+
+    insert into public.notification (user_id, kind, level, title, body, link, company_id)
+    values (
+      v_alarm.escalate_to,
+      'alert',
+      'alarm',
+      v_alarm.scope_name || ': ' || v_alarm.utility_type || ' alarm not acknowledged',
+      'Raised ' || v_alarm.escalate_after_minutes || ' minutes ago and nobody has acknowledged it. It has been escalated to you.',
+      '/alarms?alarm=' || v_alarm.id,
+      v_alarm.company_id
+    );
+
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.alert_scope_name(uuid, uuid, uuid) from public;
+revoke execute on function public.evaluate_energy_alert(uuid, uuid, uuid, text, timestamptz) from public;
+revoke execute on function public.evaluate_reading_alerts(uuid, uuid, uuid, text, timestamptz) from public;
@@ -0,0 +1,167 @@
+/*
+  # Alarm functions for signed-in users only
+
+  `update_alarm` and `alarm_assignees` run as their owner and were still
+  executable by `anon` through the default grant to public.
+  `can_access_company()` no longer lets a null user through, but the
+  functions relied on it alone to turn away callers who aren't signed in.
+
+  1. Functions
+    - `update_alarm` and `alarm_assignees` reject calls without a signed-in
+      user. The notification for an assigned alarm names its line or
+      machine, like the other alarm notifications.
+
+  2. Security
+    - Execute on both is revoked from public and anon; signed-in users keep
+      it.
+*/
+
+create or replace function public.alarm_assignees(p_alarm_id uuid)
+returns table (id uuid, email text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_company_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to see who an alarm can be assigned to' using errcode = '42501';
+  end if;
+
+  select company_id into v_company_id from public.alarm where alarm.id = p_alarm_id;
+  if v_company_id is null or not public.can_access_company(v_company_id) then
+    raise exception 'Alarm not found' using errcode = '42501';
+  end if;
+
+  return query
+  select u.id, u.email::text
+  from auth.users u
+  left join public.user_profile p on p.id = u.id
+  where u.email is not null
+    and (u.banned_until is null or u.banned_until < now())
+    and (
+      p.role = 'admin'
+      or not exists (select 1 from public.user_company uc where uc.user_id = u.id)
+      or exists (
+        select 1 from public.user_company uc
+        where uc.user_id = u.id and uc.company_id = v_company_id
+      )
+    )
+  order by u.email;
+end;
+$$;
+
+create or replace function public.update_alarm(
+  p_alarm_id uuid,
+  p_action text,
+  p_comment text default null,
+  p_assignee uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_alarm public.alarm;
+  v_email text;
+  v_assignee_email text;
+  v_scope text;
+  v_comment text := nullif(btrim(p_comment), '');
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to work on alarms' using errcode = '42501';
+  end if;
+
+  select * into v_alarm from public.alarm where id = p_alarm_id for update;
+  if v_alarm.id is null or not public.can_access_company(v_alarm.company_id) then
+    raise exception 'Alarm not found' using errcode = '42501';
+  end if;
+
+  if v_alarm.status = 'resolved' then
+    raise exception 'This alarm has already been resolved' using errcode = '22023';
+  end if;
+
+  select email::text into v_email from auth.users where id = auth.uid();
+
+  case p_action
+    when 'acknowledge' then
+      if v_alarm.status <> 'raised' then
+        raise exception 'This alarm has already been acknowledged' using errcode = '22023';
+      end if;
+
+      update public.alarm set
+        status = 'acknowledged',
+        acknowledged_at = now(),
+        acknowledged_by = auth.uid(),
+        assigned_to = coalesce(assigned_to, auth.uid()),
+        assigned_to_email = case when assigned_to is null then v_email else assigned_to_email end
+      where id = p_alarm_id;
+
+      insert into public.alarm_activity (alarm_id, action, user_id, user_email, comment)
+      values (p_alarm_id, 'acknowledged', auth.uid(), v_email, v_comment);
+
+    when 'assign' then
+      select a.email into v_assignee_email
+      from public.alarm_assignees(p_alarm_id) a
+      where a.id = p_assignee;
+
+      if v_assignee_email is null then
+        raise exception 'Choose a user who can see this factory' using errcode = '22023';
+      end if;
+
+      update public.alarm set assigned_to = p_assignee, assigned_to_email = v_assignee_email
+      where id = p_alarm_id;
+
+      insert into public.alarm_activity (alarm_id, action, user_id, user_email, target_email, comment)
+      values (p_alarm_id, 'assigned', auth.uid(), v_email, v_assignee_email, v_comment);
+
+      if p_assignee is distinct from auth.uid() then
+        v_scope := public.alert_scope_name(v_alarm.company_id, v_alarm.line_id, v_alarm.machine_id);
+
+        insert into public.notification (user_id, kind, level, title, body, link, company_id)
+        values (
+          p_assignee,
+          'alert',
+          'alarm',
+          v_scope || ': ' || v_alarm.utility_type || ' alarm assigned to you',
+          coalesce(v_email, 'Someone') || ' assigned you this alarm' || coalesce(': ' || v_comment, '.'),
+          '/alarms?alarm=' || p_alarm_id,
+          v_alarm.company_id
+        );
+      end if;
+
+    when 'comment' then
+      if v_comment is null then
+        raise exception 'Enter a comment' using errcode = '22023';
+      end if;
+
+      insert into public.alarm_activity (alarm_id, action, user_id, user_email, comment)
+      values (p_alarm_id, 'commented', auth.uid(), v_email, v_comment);
+
+    when 'resolve' then
+      if v_alarm.status <> 'acknowledged' then
+        raise exception 'Acknowledge the alarm before resolving it' using errcode = '22023';
+      end if;
+      if v_comment is null then
+        raise exception 'Describe what was done to resolve the alarm' using errcode = '22023';
+      end if;
+
+      update public.alarm set status = 'resolved', resolved_at = now(), resolved_by = auth.uid()
+      where id = p_alarm_id;
+
+      insert into public.alarm_activity (alarm_id, action, user_id, user_email, comment)
+      values (p_alarm_id, 'resolved', auth.uid(), v_email, v_comment);
+
+    else
+      raise exception 'Unknown alarm action %', p_action using errcode = '22023';
+  end case;
+end;
+$$;
+
+revoke execute on function public.update_alarm(uuid, text, text, uuid) from public, anon;
+revoke execute on function public.alarm_assignees(uuid) from public, anon;
+grant execute on function public.update_alarm(uuid, text, text, uuid) to authenticated;
+grant execute on function public.alarm_assignees(uuid) to authenticated;
@@ -0,0 +1,92 @@
+/*
+  # Readings priced in the database
+
+  Readings were priced in the browser from the rates loaded when the page
+  opened, so readings from ingestion or an import had no cost and a rate
+  edited meanwhile gave stale ones. Re-pricing after a rate change also
+  stamped `updated_at` on every reading it touched, so open edit dialogs
+  reported conflicts nobody had made.
+
+  1. Functions
+    - `energy_rate_at`: the rate in force for a utility at a point in time,
+      as `recompute_energy_costs` looked it up.
+    - `price_energy_consumption`: prices a reading at the rate in force when
+      it is written or its consumption, time or utility changes. Without a
+      rate in force the cost is zero, as before.
+    - `recompute_energy_costs` only rewrites readings whose cost changes.
+
+  2. Triggers
+    - `touch_updated_at` on `energy_consumption` no longer fires when the
+      cost is the only change.
+*/
+
+create or replace function public.energy_rate_at(p_utility_type text, p_at timestamptz)
+returns numeric
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select ur.rate
+  from public.utility_rate ur
+  where ur.utility_type = p_utility_type
+    and ur.effective_from <= p_at
+    and (ur.effective_to is null or p_at < ur.effective_to)
+  limit 1;
+$$;
+
+create or replace function public.price_energy_consumption()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  new.cost := round(new.consumption * coalesce(public.energy_rate_at(new.utility_type, new.timestamp), 0), 2);
+  return new;
+end;
+$$;
+
+drop trigger if exists price_energy_consumption on public.energy_consumption;
+create trigger price_energy_consumption
+  before insert or update of consumption, timestamp, utility_type on public.energy_consumption
+  for each row execute function public.price_energy_consumption();
+
+create or replace function public.recompute_energy_costs(
+  p_utility_type text,
+  p_from timestamptz,
+  p_to timestamptz default null
+)
+returns integer
+language plpgsql
+security invoker
+as $$
+declare
+  updated_count integer;
+begin
+  update public.energy_consumption ec
+  set cost = priced.cost
+  from (
+    select e.id, round(e.consumption * coalesce(public.energy_rate_at(e.utility_type, e.timestamp), 0), 2) as cost
+    from public.energy_consumption e
+    where e.utility_type = p_utility_type
+      and e.timestamp >= p_from
+      and (p_to is null or e.timestamp < p_to)
+  ) priced
+  where ec.id = priced.id
+    and ec.cost is distinct from priced.cost;
+
+  get diagnostics updated_count = row_count;
+  return updated_count;
+end;
+$$;
+
+-- Re-pricing isn't an edit: leave the row version alone when only the cost changes
+drop trigger if exists touch_updated_at on public.energy_consumption;
+create trigger touch_updated_at
+  before update on public.energy_consumption
+  for each row
+  when ((to_jsonb(old) - 'cost') is distinct from (to_jsonb(new) - 'cost'))
+  execute function public.touch_updated_at();
+
+grant execute on function public.energy_rate_at(text, timestamptz) to authenticated;
@@ -0,0 +1,209 @@
+/*
+  # Hierarchy import: non-numeric machine order
+
+  A machine `order` that wasn't a number failed the cast outside the per-row
+  checks, so the whole import stopped with a database error instead of
+  listing the row.
+
+  1. Functions
+    - `import_hierarchy` checks the order is digits before casting it, and
+      reports anything else as "Order must be a 4-digit number" on its row.
+*/
+
+create or replace function public.import_hierarchy(
+  p_rows jsonb,
+  p_dry_run boolean default false
+)
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_row jsonb;
+  v_row_number int;
+  v_name text;
+  v_order int;
+  v_country uuid;
+  v_city uuid;
+  v_district uuid;
+  v_company uuid;
+  v_line_type uuid;
+  v_line uuid;
+  v_existing record;
+  v_created jsonb := jsonb_build_object(
+    'country', 0, 'city', 0, 'district', 0, 'company', 0,
+    'line_type', 0, 'line', 0, 'machine', 0
+  );
+  v_errors jsonb := '[]'::jsonb;
+begin
+  if not public.is_admin() then
+    raise exception 'Only administrators can import data' using errcode = '42501';
+  end if;
+
+  if jsonb_typeof(p_rows) <> 'array' then
+    raise exception 'Rows must be a JSON array' using errcode = '22023';
+  end if;
+
+  begin
+    for v_row in select value from jsonb_array_elements(p_rows) loop
+      v_row_number := (v_row->>'row')::int;
+      v_country := null;
+      v_city := null;
+      v_district := null;
+      v_company := null;
+      v_line_type := null;
+      v_line := null;
+
+      -- Country
+      v_name := nullif(trim(v_row->>'country'), '');
+      if v_name is not null then
+        select id, archived_at into v_existing from public.country where name = v_name;
+        if v_existing.id is null then
+          insert into public.country (name, created_by) values (v_name, v_user) returning id into v_country;
+          v_created := jsonb_set(v_created, '{country}', to_jsonb((v_created->>'country')::int + 1));
+        elsif v_existing.archived_at is not null then
+          v_errors := v_errors || jsonb_build_object('row', v_row_number, 'message', format('Country %s is archived', v_name));
+          continue;
+        else
+          v_country := v_existing.id;
+        end if;
+      end if;
+
+      -- City, within its country
+      v_name := nullif(trim(v_row->>'city'), '');
+      if v_name is not null then
+        if v_country is null then
+          v_errors := v_errors || jsonb_build_object('row', v_row_number, 'message', 'A city needs a country');
+          continue;
+        end if;
+        select id, archived_at into v_existing from public.city where name = v_name and country_id = v_country;
+        if v_existing.id is null then
+          insert into public.city (name, country_id, created_by) values (v_name, v_country, v_user) returning id into v_city;
+          v_created := jsonb_set(v_created, '{city}', to_jsonb((v_created->>'city')::int + 1));
+        elsif v_existing.archived_at is not null then
+          v_errors := v_errors || jsonb_build_object('row', v_row_number, 'message', format('City %s is archived', v_name));
+          continue;
+        else
+          v_city := v_existing.id;
+        end if;
+      end if;
+
+      -- District, within its city
+      v_name := nullif(trim(v_row->>'district'), '');
+      if v_name is not null then
+        if v_city is null then
+          v_errors := v_errors || jsonb_build_object('row', v_row_number, 'message', 'A district needs a city');
+          continue;
+        end if;
+        select id, archived_at into v_existing from public.district where name = v_name and city_id = v_city;
+        if v_existing.id is null then
+          insert into public.district (name, city_id, created_by) values (v_name, v_city, v_user) returning id into v_district;
+          v_created := jsonb_set(v_created, '{district}', to_jsonb((v_created->>'district')::int + 1));
+        elsif v_existing.archived_at is not null then
+          v_errors := v_errors || jsonb_build_object('row', v_row_number, 'message', format('District %s is archived', v_name));
+          continue;
+        else
+          v_district := v_existing.id;
+        end if;
+      end if;
+
+      -- Company
+      v_name := nullif(trim(v_row->>'company'), '');
+      if v_name is not null then
+        select id, archived_at into v_existing from public.company where name = v_name;
+        if v_existing.id is null then
+          insert into public.company (name, created_by) values (v_name, v_user) returning id into v_company;
+          v_created := jsonb_set(v_created, '{company}', to_jsonb((v_created->>'company')::int + 1));
+        elsif v_existing.archived_at is not null then
+          v_errors := v_errors || jsonb_build_object('row', v_row_number, 'message', format('Company %s is archived', v_name));
+          continue;
+        else
+          v_company := v_existing.id;
+        end if;
+      end if;
+
+      -- Line type
+      v_name := nullif(trim(v_row->>'line_type'), '');
+      if v_name is not null then
+        select id, archived_at into v_existing from public.line_type where name = v_name;
+        if v_existing.id is null then
+          insert into public.line_type (name, created_by) values (v_name, v_user) returning id into v_line_type;
+          v_created := jsonb_set(v_created, '{line_type}', to_jsonb((v_created->>'line_type')::int + 1));
+        elsif v_existing.archived_at is not null then
+          v_errors := v_errors || jsonb_build_object('row', v_row_number, 'message', format('Line type %s is archived', v_name));
+          continue;
+        else
+          v_line_type := v_existing.id;
+        end if;
+      end if;
+
+      -- Line, within its company and district
+      v_name := nullif(trim(v_row->>'line'), '');
+      if v_name is not null then
+        if v_company is null or v_district is null then
+          v_errors := v_errors || jsonb_build_object('row', v_row_number, 'message', 'A line needs a company and a district');
+          continue;
+        end if;
+        select id, archived_at into v_existing from public.line
+          where name = v_name and company_id = v_company and district_id = v_district;
+        if v_existing.id is null then
+          if v_line_type is null then
+            v_errors := v_errors || jsonb_build_object('row', v_row_number, 'message', 'A new line needs a line type');
+            continue;
+          end if;
+          insert into public.line (name, company_id, district_id, line_type_id, created_by)
+            values (v_name, v_company, v_district, v_line_type, v_user)
+            returning id into v_line;
+          v_created := jsonb_set(v_created, '{line}', to_jsonb((v_created->>'line')::int + 1));
+        elsif v_existing.archived_at is not null then
+          v_errors := v_errors || jsonb_build_object('row', v_row_number, 'message', format('Line %s is archived', v_name));
+          continue;
+        else
+          v_line := v_existing.id;
+        end if;
+      end if;
+
+      -- Machine, identified by its order on the line
+      v_name := nullif(trim(v_row->>'machine'), '');
+      if v_name is not null then
+        if v_line is null then
+          v_errors := v_errors || jsonb_build_object('row', v_row_number, 'message', 'A machine needs a line');
+          continue;
+        end if;
+        -- Checked before the cast so a value like "12a" is a row error, not an aborted import
+        v_order := case when btrim(v_row->>'order') ~ '^[0-9]{1,4}$' then btrim(v_row->>'order')::int end;
+        if v_order is null or v_order not between 1000 and 9999 then
+          v_errors := v_errors || jsonb_build_object('row', v_row_number, 'message', 'Order must be a 4-digit number (1000-9999)');
+          continue;
+        end if;
+        select id, name into v_existing from public.machine where line_id = v_line and "order" = v_order;
+        if v_existing.id is null then
+          insert into public.machine (name, line_id, "order", created_by) values (v_name, v_line, v_order, v_user);
+          v_created := jsonb_set(v_created, '{machine}', to_jsonb((v_created->>'machine')::int + 1));
+        elsif v_existing.name <> v_name then
+          v_errors := v_errors || jsonb_build_object(
+            'row', v_row_number,
+            'message', format('Order %s is already used by machine %s on this line', v_order, v_existing.name)
+          );
+        end if;
+      end if;
+    end loop;
+
+    -- Undo every write of a dry run or a failed import; the counts and
+    -- errors collected above survive the rollback
+    if p_dry_run or jsonb_array_length(v_errors) > 0 then
+      raise exception 'import rolled back' using errcode = 'IMP01';
+    end if;
+  exception
+    when sqlstate 'IMP01' then
+      null;
+  end;
+
+  return jsonb_build_object(
+    'created', v_created,
+    'errors', v_errors,
+    'committed', not p_dry_run and jsonb_array_length(v_errors) = 0
+  );
+end;
+$$;
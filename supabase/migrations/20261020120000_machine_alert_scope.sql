@@ -0,0 +1,249 @@
+/*
+  # Machine alert rules follow the machine
+
+  A machine rule was matched on the line the machine was on when the rule
+  was written. After the machine moved to another line in the Plant
+  Explorer, its new readings carried the new line and the rule silently
+  stopped matching, while its rules, alert state and alarms kept the old
+  line.
+
+  1. Functions
+    - `evaluate_energy_alert` matches machine rules and readings on the
+      machine alone and keeps a machine's state on its current line.
+    - `follow_machine_line`: when a machine moves, its rules, alert states
+      and alarms move to its new line and factory.
+
+  2. Triggers
+    - `follow_machine_line` after a machine's line changes.
+*/
+
+create or replace function public.evaluate_energy_alert(
+  p_company_id uuid,
+  p_line_id uuid,
+  p_machine_id uuid,
+  p_utility_type text,
+  p_at timestamptz default null
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_rule public.alert_rule;
+  v_state public.alert_state;
+  v_current text;
+  v_value numeric;
+  v_baseline numeric;
+  v_measure numeric;
+  v_candidate text;
+  v_window interval;
+begin
+  -- A factory, line or machine removed in the same statement takes its state with it
+  if not exists (select 1 from public.company where id = p_company_id)
+    or (p_line_id is not null and not exists (select 1 from public.line where id = p_line_id))
+    or (p_machine_id is not null and not exists (select 1 from public.machine where id = p_machine_id))
+  then
+    return 'running';
+  end if;
+
+  -- A machine is evaluated on the line it is on now, whichever line its
+  -- readings were taken on
+  if p_machine_id is not null then
+    select m.line_id, l.company_id into p_line_id, p_company_id
+    from public.machine m
+    join public.line l on l.id = m.line_id
+    where m.id = p_machine_id;
+  end if;
+
+  select * into v_state
+  from public.alert_state
+  where company_id = p_company_id
+    and line_id is not distinct from p_line_id
+    and machine_id is not distinct from p_machine_id
+    and utility_type = p_utility_type
+  for update;
+
+  -- Without a time, re-evaluate where the scope was last evaluated; a scope
+  -- that was never evaluated has nothing to take back
+  p_at := coalesce(p_at, v_state.evaluated_at);
+  if p_at is null then
+    return 'running';
+  end if;
+
+  -- An older reading arriving late doesn't rewind the state
+  if v_state.id is not null and v_state.evaluated_at > p_at then
+    return v_state.level;
+  end if;
+
+  v_current := coalesce(v_state.level, 'running');
+
+  if p_line_id is null then
+    select * into v_rule
+    from public.alert_rule
+    where utility_type = p_utility_type
+      and line_id is null
+      and (company_id = p_company_id or company_id is null)
+    order by company_id nulls last
+    limit 1;
+  else
+    select * into v_rule
+    from public.alert_rule
+    where utility_type = p_utility_type
+      and case
+        when p_machine_id is not null then machine_id = p_machine_id
+        else line_id = p_line_id and machine_id is null
+      end;
+  end if;
+
+  if v_rule.id is null or not v_rule.enabled then
+    if v_current <> 'running' then
+      insert into public.alert_event (
+        company_id, line_id, machine_id, utility_type, rule_id, from_level, to_level, occurred_at
+      )
+      values (p_company_id, p_line_id, p_machine_id, p_utility_type, v_rule.id, v_current, 'running', p_at);
+    end if;
+    delete from public.alert_state where id = v_state.id;
+    return 'running';
+  end if;
+
+  v_window := make_interval(mins => v_rule.window_minutes);
+
+  -- A machine's readings count wherever it was when they were taken
+  select coalesce(sum(consumption), 0) * 60 / v_rule.window_minutes into v_value
+  from public.energy_consumption
+  where (p_machine_id is not null or factory_id = p_company_id)
+    and (p_machine_id is not null or p_line_id is null or line_id = p_line_id)
+    and (p_machine_id is null or machine_id = p_machine_id)
+    and utility_type = p_utility_type
+    and timestamp > p_at - v_window
+    and timestamp <= p_at;
+
+  if v_rule.threshold_type = 'baseline' then
+    select coalesce(sum(consumption), 0) / (v_rule.baseline_days * 24) into v_baseline
+    from public.energy_consumption
+    where (p_machine_id is not null or factory_id = p_company_id)
+      and (p_machine_id is not null or p_line_id is null or line_id = p_line_id)
+      and (p_machine_id is null or machine_id = p_machine_id)
+      and utility_type = p_utility_type
+      and timestamp > p_at - v_window - make_interval(days => v_rule.baseline_days)
+      and timestamp <= p_at - v_window;
+
+    -- Without history there is nothing to compare against yet
+    v_measure := case when v_baseline > 0 then v_value / v_baseline * 100 else 0 end;
+  else
+    v_measure := v_value;
+  end if;
+
+  v_candidate := case
+    when v_measure >= v_rule.critical_threshold then 'alarm'
+    when v_measure >= v_rule.warning_threshold then 'warning'
+    else 'running'
+  end;
+
+  -- Hysteresis: a raised level holds until the measure clears its threshold by the margin
+  if v_current = 'alarm' and v_candidate <> 'alarm'
+    and v_measure > v_rule.critical_threshold - v_rule.hysteresis then
+    v_candidate := 'alarm';
+  elsif v_current in ('alarm', 'warning') and v_candidate = 'running'
+    and v_measure > v_rule.warning_threshold - v_rule.hysteresis then
+    v_candidate := 'warning';
+  end if;
+
+  if v_candidate = v_current then
+    v_state.pending_level := null;
+    v_state.pending_since := null;
+  elsif v_rule.min_duration_minutes = 0
+    or (v_state.pending_level = v_candidate
+      and p_at - v_state.pending_since >= make_interval(mins => v_rule.min_duration_minutes)) then
+    insert into public.alert_event (
+      company_id, line_id, machine_id, utility_type, rule_id, from_level, to_level, value, baseline, occurred_at
+    )
+    values (
+      p_company_id, p_line_id, p_machine_id, p_utility_type, v_rule.id, v_current, v_candidate,
+      v_measure, v_baseline, p_at
+    );
+
+    v_current := v_candidate;
+    v_state.changed_at := p_at;
+    v_state.pending_level := null;
+    v_state.pending_since := null;
+  elsif v_state.pending_level is distinct from v_candidate then
+    v_state.pending_level := v_candidate;
+    v_state.pending_since := p_at;
+  end if;
+
+  insert into public.alert_state (
+    company_id, line_id, machine_id, utility_type, rule_id, level, value, baseline,
+    pending_level, pending_since, changed_at, evaluated_at
+  )
+  values (
+    p_company_id, p_line_id, p_machine_id, p_utility_type, v_rule.id, v_current, v_measure, v_baseline,
+    v_state.pending_level, v_state.pending_since, coalesce(v_state.changed_at, p_at), p_at
+  )
+  on conflict on constraint alert_state_scope_unique do update set
+    rule_id = excluded.rule_id,
+    level = excluded.level,
+    value = excluded.value,
+    baseline = excluded.baseline,
+    pending_level = excluded.pending_level,
+    pending_since = excluded.pending_since,
+    changed_at = excluded.changed_at,
+    evaluated_at = excluded.evaluated_at;
+
+  return v_current;
+end;
+$$;
+
+create or replace function public.follow_machine_line()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_company_id uuid;
+begin
+  select company_id into v_company_id from public.line where id = new.line_id;
+
+  -- alert_rule_scope() derives the factory from the new line
+  update public.alert_rule set line_id = new.line_id where machine_id = new.id;
+
+  update public.alert_state
+  set line_id = new.line_id, company_id = v_company_id
+  where machine_id = new.id;
+
+  update public.alarm
+  set line_id = new.line_id, company_id = v_company_id
+  where machine_id = new.id;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists follow_machine_line on public.machine;
+create trigger follow_machine_line
+  after update of line_id on public.machine
+  for each row
+  when (old.line_id is distinct from new.line_id)
+  execute function public.follow_machine_line();
+
+revoke execute on function public.follow_machine_line() from public;
+
+-- Rules, states and alarms of machines moved before this migration
+update public.alert_rule r
+set line_id = m.line_id
+from public.machine m
+where m.id = r.machine_id and r.line_id is distinct from m.line_id;
+
+update public.alert_state s
+set line_id = m.line_id, company_id = l.company_id
+from public.machine m
+join public.line l on l.id = m.line_id
+where m.id = s.machine_id and s.line_id is distinct from m.line_id;
+
+update public.alarm a
+set line_id = m.line_id, company_id = l.company_id
+from public.machine m
+join public.line l on l.id = m.line_id
+where m.id = a.machine_id and a.line_id is distinct from m.line_id;
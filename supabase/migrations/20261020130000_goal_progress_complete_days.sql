@@ -0,0 +1,99 @@
+/*
+  # Goal progress over complete UTC days
+
+  check_goal_progress counted the day of the reading while it was still
+  filling up, which dragged the trend and the current average down, and
+  split days in the database time zone while the Sustainability page split
+  them in the viewer's.
+
+  1. Functions
+    - `check_goal_progress` fits the trend over the 30 complete days before
+      the reading's day and averages the last 7 of them for current use.
+      Days run midnight to midnight UTC, as they do on the Sustainability
+      page.
+*/
+
+create or replace function public.check_goal_progress(
+  p_factory_id uuid,
+  p_utility_type text,
+  p_at timestamptz
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_goal record;
+  v_previous public.goal_status;
+  v_today date := (p_at at time zone 'UTC')::date;
+  v_days integer;
+  v_slope numeric;
+  v_mean_x numeric;
+  v_mean_y numeric;
+  v_current numeric;
+  v_projected numeric;
+  v_status text;
+begin
+  select
+    count(*),
+    coalesce(regr_slope(value, day - v_today), 0),
+    avg(day - v_today),
+    avg(value),
+    avg(value) filter (where day >= v_today - 7)
+  into v_days, v_slope, v_mean_x, v_mean_y, v_current
+  from (
+    select (timestamp at time zone 'UTC')::date as day, sum(consumption) as value
+    from public.energy_consumption
+    where factory_id = p_factory_id
+      and utility_type = p_utility_type
+      and timestamp >= (v_today - 30)::timestamp at time zone 'UTC'
+      and timestamp < v_today::timestamp at time zone 'UTC'
+    group by 1
+  ) daily;
+
+  for v_goal in
+    select g.*, c.name as factory_name
+    from public.sustainability_goal g
+    join public.company c on c.id = g.factory_id
+    where g.factory_id = p_factory_id and g.utility_type = p_utility_type
+  loop
+    select * into v_previous from public.goal_status where goal_id = v_goal.id;
+
+    -- An older reading arriving late doesn't rewind the status
+    continue when found and v_previous.evaluated_at > p_at;
+
+    v_projected := case
+      when v_days < 2 then null
+      else greatest(0, v_mean_y + v_slope * (greatest(v_today, v_goal.target_date::date) - v_today - v_mean_x))
+    end;
+
+    v_status := case
+      when v_current is null or v_projected is null then 'insufficient_data'
+      when v_current <= v_goal.target_consumption then 'achieved'
+      when v_projected <= v_goal.target_consumption and v_goal.target_date::date >= v_today then 'on_track'
+      else 'off_track'
+    end;
+
+    if v_status = 'off_track' and v_previous.status is distinct from 'off_track' then
+      perform public.notify_company_users(
+        p_factory_id,
+        'goal',
+        'warning',
+        v_goal.factory_name || ': ' || p_utility_type || ' goal off track',
+        'Projected ' || round(v_projected, 1) || ' per day by ' || to_char(v_goal.target_date, 'YYYY-MM-DD')
+          || ' against a target of ' || round(v_goal.target_consumption, 1) || '.',
+        '/sustainability'
+      );
+    end if;
+
+    insert into public.goal_status (goal_id, status, projected, changed_at, evaluated_at)
+    values (v_goal.id, v_status, v_projected, p_at, p_at)
+    on conflict (goal_id) do update set
+      status = excluded.status,
+      projected = excluded.projected,
+      changed_at = case when goal_status.status = excluded.status then goal_status.changed_at else excluded.changed_at end,
+      evaluated_at = excluded.evaluated_at;
+  end loop;
+end;
+$$;